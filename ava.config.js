@@ -10,6 +10,9 @@ export default {
   serial: false,
   verbose: true,
   environmentVariables: {
-    NODE_ENV: 'test'
+    NODE_ENV: 'test',
+    JOURNAL_ENABLED: 'false',
+    SNAPSHOT_RETRY_BASE_DELAY_MS: '1',
+    SNAPSHOT_RETRY_MAX_DELAY_MS: '5'
   }
 };
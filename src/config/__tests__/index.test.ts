@@ -418,3 +418,125 @@ test("serverConfig - should use default Vettam API URL", (t) => {
 
   t.is(reloadedConfig.vettam.apiUrl, "https://api.vettam.app");
 });
+
+test.serial("serverConfig - should default to the vettam persistence backend", (t) => {
+  delete process.env.PERSISTENCE_BACKEND;
+  delete process.env.PERSISTENCE_FS_DIRECTORY;
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.is(reloadedConfig.persistence.backend, "vettam");
+  t.is(reloadedConfig.persistence.filesystem.directory, "./data/documents");
+});
+
+test.serial("serverConfig - should parse filesystem persistence settings", (t) => {
+  process.env.PERSISTENCE_BACKEND = "filesystem";
+  process.env.PERSISTENCE_FS_DIRECTORY = "/var/lib/hocuspocus";
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.is(reloadedConfig.persistence.backend, "filesystem");
+  t.is(reloadedConfig.persistence.filesystem.directory, "/var/lib/hocuspocus");
+});
+
+test.serial("validateConfig - should throw when PERSISTENCE_BACKEND is unknown", (t) => {
+  process.env.PERSISTENCE_BACKEND = "s3";
+
+  const error = t.throws(() => {
+    validateConfig();
+  });
+
+  t.truthy(error);
+  t.true(error!.message.includes("PERSISTENCE_BACKEND"));
+});
+
+test.serial("serverConfig - should enable the update journal by default", (t) => {
+  delete process.env.JOURNAL_ENABLED;
+  delete process.env.JOURNAL_DIRECTORY;
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.true(reloadedConfig.journal.enabled);
+  t.is(reloadedConfig.journal.directory, "./data/journal");
+});
+
+test.serial("serverConfig - should disable the update journal when JOURNAL_ENABLED is false", (t) => {
+  process.env.JOURNAL_ENABLED = "false";
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.false(reloadedConfig.journal.enabled);
+});
+
+test.serial("serverConfig - should parse autosave intervals", (t) => {
+  process.env.AUTOSAVE_DEBOUNCE_MS = "1000";
+  process.env.AUTOSAVE_MAX_INTERVAL_MS = "60000";
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.true(reloadedConfig.autosave.enabled);
+  t.is(reloadedConfig.autosave.debounceMs, 1000);
+  t.is(reloadedConfig.autosave.maxIntervalMs, 60000);
+});
+
+test.serial("validateConfig - should throw when AUTOSAVE_MAX_INTERVAL_MS is below the debounce", (t) => {
+  process.env.AUTOSAVE_DEBOUNCE_MS = "60000";
+  process.env.AUTOSAVE_MAX_INTERVAL_MS = "1000";
+
+  const error = t.throws(() => {
+    validateConfig();
+  });
+
+  t.truthy(error);
+  t.true(error!.message.includes("AUTOSAVE_MAX_INTERVAL_MS"));
+});
+
+test.serial("serverConfig - should read snapshot retry settings", (t) => {
+  process.env.SNAPSHOT_RETRY_ATTEMPTS = "3";
+  process.env.SNAPSHOT_RETRY_BASE_DELAY_MS = "500";
+  process.env.SNAPSHOT_RETRY_MAX_DELAY_MS = "8000";
+  process.env.DEAD_LETTER_DIRECTORY = "/var/lib/hocuspocus/dead-letter";
+
+  // Clear module cache and re-require
+  delete require.cache[require.resolve("../index")];
+  const { serverConfig: reloadedConfig } = require("../index");
+
+  t.deepEqual(reloadedConfig.snapshotRetry, {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    deadLetterDirectory: "/var/lib/hocuspocus/dead-letter",
+  });
+});
+
+test.serial("validateConfig - should throw when SNAPSHOT_RETRY_ATTEMPTS is below 1", (t) => {
+  process.env.SNAPSHOT_RETRY_ATTEMPTS = "0";
+
+  const error = t.throws(() => {
+    validateConfig();
+  });
+
+  t.truthy(error);
+  t.true(error!.message.includes("SNAPSHOT_RETRY_ATTEMPTS"));
+});
+
+test.serial("validateConfig - should throw when HISTORY_MAX_SNAPSHOTS is below 1", (t) => {
+  process.env.HISTORY_MAX_SNAPSHOTS = "0";
+
+  const error = t.throws(() => {
+    validateConfig();
+  });
+
+  t.truthy(error);
+  t.true(error!.message.includes("HISTORY_MAX_SNAPSHOTS"));
+});
@@ -1,5 +1,5 @@
 import { config } from "dotenv";
-import { ServerConfig } from "../types";
+import { PersistenceBackend, ServerConfig } from "../types";
 
 // Load environment variables
 config();
@@ -35,6 +35,42 @@ export const serverConfig: ServerConfig = {
     audience: process.env.JWT_AUDIENCE || "authenticated",
     issuer: process.env.JWT_ISSUER!,
   },
+  persistence: {
+    backend: (process.env.PERSISTENCE_BACKEND ||
+      "vettam") as PersistenceBackend,
+    filesystem: {
+      directory: process.env.PERSISTENCE_FS_DIRECTORY || "./data/documents",
+    },
+  },
+  journal: {
+    enabled: process.env.JOURNAL_ENABLED !== "false",
+    directory: process.env.JOURNAL_DIRECTORY || "./data/journal",
+  },
+  autosave: {
+    enabled: process.env.AUTOSAVE_ENABLED !== "false",
+    debounceMs: parseInt(process.env.AUTOSAVE_DEBOUNCE_MS || "30000", 10),
+    maxIntervalMs: parseInt(
+      process.env.AUTOSAVE_MAX_INTERVAL_MS || "300000",
+      10
+    ),
+  },
+  history: {
+    enabled: process.env.HISTORY_ENABLED !== "false",
+    maxSnapshots: parseInt(process.env.HISTORY_MAX_SNAPSHOTS || "50", 10),
+  },
+  snapshotRetry: {
+    maxAttempts: parseInt(process.env.SNAPSHOT_RETRY_ATTEMPTS || "5", 10),
+    baseDelayMs: parseInt(
+      process.env.SNAPSHOT_RETRY_BASE_DELAY_MS || "1000",
+      10
+    ),
+    maxDelayMs: parseInt(
+      process.env.SNAPSHOT_RETRY_MAX_DELAY_MS || "30000",
+      10
+    ),
+    deadLetterDirectory:
+      process.env.DEAD_LETTER_DIRECTORY || "./data/dead-letter",
+  },
 };
 
 export const isDevelopment = process.env.DEBUG === "true";
@@ -63,6 +99,53 @@ export function validateConfig(): void {
   if (isNaN(expressPort) || expressPort < 1 || expressPort > 65535) {
     throw new Error("EXPRESS_PORT must be a valid port number (1-65535)");
   }
+
+  // Validate autosave intervals
+  const autosaveDebounce = parseInt(
+    process.env.AUTOSAVE_DEBOUNCE_MS || "30000",
+    10
+  );
+  const autosaveMaxInterval = parseInt(
+    process.env.AUTOSAVE_MAX_INTERVAL_MS || "300000",
+    10
+  );
+
+  if (isNaN(autosaveDebounce) || autosaveDebounce < 0) {
+    throw new Error("AUTOSAVE_DEBOUNCE_MS must be a non-negative number");
+  }
+
+  if (isNaN(autosaveMaxInterval) || autosaveMaxInterval < autosaveDebounce) {
+    throw new Error(
+      "AUTOSAVE_MAX_INTERVAL_MS must be a number no smaller than AUTOSAVE_DEBOUNCE_MS"
+    );
+  }
+
+  // Validate snapshot retry attempts
+  const retryAttempts = parseInt(
+    process.env.SNAPSHOT_RETRY_ATTEMPTS || "5",
+    10
+  );
+
+  if (isNaN(retryAttempts) || retryAttempts < 1) {
+    throw new Error("SNAPSHOT_RETRY_ATTEMPTS must be a number of at least 1");
+  }
+
+  // Validate history snapshot limit
+  const historyMaxSnapshots = parseInt(
+    process.env.HISTORY_MAX_SNAPSHOTS || "50",
+    10
+  );
+
+  if (isNaN(historyMaxSnapshots) || historyMaxSnapshots < 1) {
+    throw new Error("HISTORY_MAX_SNAPSHOTS must be a number of at least 1");
+  }
+
+  // Validate persistence backend
+  const persistenceBackend = process.env.PERSISTENCE_BACKEND || "vettam";
+
+  if (!["vettam", "filesystem"].includes(persistenceBackend)) {
+    throw new Error("PERSISTENCE_BACKEND must be one of: vettam, filesystem");
+  }
 }
 
 export default serverConfig;
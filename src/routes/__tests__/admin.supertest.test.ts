@@ -0,0 +1,136 @@
+import test from "ava";
+import express from "express";
+import supertest from "supertest";
+import sinon from "sinon";
+import adminRouter from "../admin";
+import { documentService } from "../../services/document";
+import { logger } from "../../config/logger";
+import { handleErrorResponse } from "../../utils";
+
+const DRAFT_ID = "550e8400-e29b-41d4-a716-446655440000";
+const VERSION_ID = "550e8400-e29b-41d4-a716-446655440001";
+const ROOM_ID = `${DRAFT_ID}:${VERSION_ID}`;
+
+// Helper to create an express app with the adminRouter mounted
+function createTestApp() {
+  const app = express();
+  app.use("/", adminRouter);
+  app.use(
+    (
+      err: any,
+      _req: express.Request,
+      res: express.Response,
+      _next: express.NextFunction
+    ) => {
+      handleErrorResponse(err, res);
+    }
+  );
+  return app;
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test.afterEach.always(() => {
+  sinon.restore();
+});
+
+test.serial("GET /dead-letters lists dead-lettered rooms", async (t) => {
+  const entry = {
+    roomId: ROOM_ID,
+    checksum: "abc",
+    error: "API down",
+    failures: 2,
+    firstFailedAt: "2024-01-01T00:00:00.000Z",
+    lastFailedAt: "2024-01-01T00:05:00.000Z",
+  };
+  sinon.stub(documentService, "listDeadLetters").resolves([entry]);
+
+  const res = await supertest(createTestApp()).get("/dead-letters");
+
+  t.is(res.status, 200);
+  t.true(res.body.success);
+  t.is(res.body.count, 1);
+  t.deepEqual(res.body.entries, [entry]);
+});
+
+test.serial("POST /dead-letters/replay replays every entry", async (t) => {
+  const replay = sinon.stub(documentService, "replayDeadLetters").resolves([
+    { roomId: ROOM_ID, saved: true },
+    { roomId: "other", saved: false, error: "API down" },
+  ]);
+
+  const res = await supertest(createTestApp()).post("/dead-letters/replay");
+
+  t.is(res.status, 200);
+  t.false(res.body.success);
+  t.is(res.body.results.length, 2);
+  t.deepEqual(replay.firstCall.args, []);
+});
+
+test.serial(
+  "POST /dead-letters/:draftId/:versionId/replay replays one room",
+  async (t) => {
+    sinon.stub(documentService, "hasDeadLetter").resolves(true);
+    const replay = sinon
+      .stub(documentService, "replayDeadLetters")
+      .resolves([{ roomId: ROOM_ID, saved: true }]);
+
+    const res = await supertest(createTestApp()).post(
+      `/dead-letters/${DRAFT_ID}/${VERSION_ID}/replay`
+    );
+
+    t.is(res.status, 200);
+    t.true(res.body.success);
+    t.is(res.body.roomId, ROOM_ID);
+    t.deepEqual(replay.firstCall.args, [ROOM_ID]);
+  }
+);
+
+test.serial(
+  "POST /dead-letters/:draftId/:versionId/replay reports a failed save",
+  async (t) => {
+    sinon.stub(documentService, "hasDeadLetter").resolves(true);
+    sinon
+      .stub(documentService, "replayDeadLetters")
+      .resolves([{ roomId: ROOM_ID, saved: false, error: "API down" }]);
+
+    const res = await supertest(createTestApp()).post(
+      `/dead-letters/${DRAFT_ID}/${VERSION_ID}/replay`
+    );
+
+    t.is(res.status, 502);
+    t.false(res.body.success);
+    t.is(res.body.error, "API down");
+  }
+);
+
+test.serial(
+  "POST /dead-letters/:draftId/:versionId/replay - unknown room",
+  async (t) => {
+    sinon.stub(documentService, "hasDeadLetter").resolves(false);
+
+    const res = await supertest(createTestApp()).post(
+      `/dead-letters/${DRAFT_ID}/${VERSION_ID}/replay`
+    );
+
+    t.is(res.status, 404);
+  }
+);
+
+test.serial(
+  "POST /dead-letters/:draftId/:versionId/replay - invalid draftId UUID",
+  async (t) => {
+    const res = await supertest(createTestApp()).post(
+      `/dead-letters/invalid-uuid/${VERSION_ID}/replay`
+    );
+
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Draft ID must be a valid UUID/);
+  }
+);
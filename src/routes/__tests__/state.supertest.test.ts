@@ -1,10 +1,15 @@
-import test from "ava";
+import test, { ExecutionContext } from "ava";
 import express from "express";
 import supertest from "supertest";
 import bodyParser from "body-parser";
 import stateRouter from "../state";
 import * as hocuspocusInstanceModule from "../../services/hocuspocus-instance";
 import * as Y from "yjs";
+import sinon from "sinon";
+import { documentService } from "../../services/document";
+import { RoomAccessError, userAuthService } from "../../services/user-auth";
+import { jsonToYDoc } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
 // Mock hocuspocusInstance for all tests
 test.before(() => {
   const fakeDirectConnection = {
@@ -21,7 +26,11 @@ test.before(() => {
     setInstance: () => {},
   };
 });
-import { handleErrorResponse } from "../../utils";
+import {
+  handleErrorResponse,
+  tiptapJsonToDocx,
+  DOCX_CONTENT_TYPE,
+} from "../../utils";
 
 // Helper to create an express app with the stateRouter mounted
 function createTestApp() {
@@ -42,6 +51,19 @@ function createTestApp() {
   return app;
 }
 
+// Run the fake connection's transactions on its own document, for tests that
+// read back what a write route changed
+async function transactOnDocument(t: ExecutionContext) {
+  const connection = await hocuspocusInstanceModule.hocuspocusInstance
+    .getInstance()
+    .openDirectConnection("room", {});
+  const transact = sinon
+    .stub(connection, "transact")
+    .callsFake(async (fn) => fn(connection.document!));
+  t.teardown(() => transact.restore());
+  return transact;
+}
+
 // --- GET /:draftId/:versionId/state ---
 test.serial("GET /:draftId/:versionId/state - missing draftId", async (t) => {
   const app = createTestApp();
@@ -198,3 +220,954 @@ test.serial(
     );
   }
 );
+
+test.serial(
+  "PATCH /:draftId/:versionId/state - non-boolean rich",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .patch(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state"
+      )
+      .send({ content: "Title {align=center}", rich: "yes" });
+    t.is(res.status, 400);
+    t.is(res.body.error, "ValidationError");
+    t.regex(res.body.message, /rich must be a boolean/);
+  }
+);
+
+test.serial(
+  "PATCH /:draftId/:versionId/state - accepts HTML content",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .patch(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state"
+      )
+      .send({
+        content: "<p>Clause <script>alert(1)</script><b>one</b></p>",
+        content_type: "html",
+      });
+    t.is(res.status, 200);
+    t.is(res.body.contentType, "html");
+  }
+);
+
+test.serial(
+  "PATCH /:draftId/:versionId/state - applies operations",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .patch(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state"
+      )
+      .send({
+        operations: [
+          {
+            op: "insert_block",
+            content: {
+              type: "paragraph",
+              content: [{ type: "text", text: "Appended clause" }],
+            },
+          },
+          {
+            op: "apply_mark",
+            target: { path: [0] },
+            mark: { type: "bold" },
+          },
+        ],
+      });
+    t.is(res.status, 200);
+    t.deepEqual(res.body.results, [
+      { op: "insert_block", paths: [[0]] },
+      { op: "apply_mark", paths: [[0]] },
+    ]);
+  }
+);
+
+test.serial(
+  "PATCH /:draftId/:versionId/state - rejects an operation on a missing block",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .patch(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state"
+      )
+      .send({
+        operations: [
+          {
+            op: "set_attribute",
+            target: { id: "missing" },
+            attrs: { textAlign: "center" },
+          },
+        ],
+      });
+    t.is(res.status, 400);
+    t.is(res.body.message, 'operations[0]: no block with id "missing"');
+  }
+);
+
+test.serial(
+  "PATCH /:draftId/:versionId/state - content and operations together",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .patch(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state"
+      )
+      .send({ content: "# Title", operations: [] });
+    t.is(res.status, 400);
+  }
+);
+
+test.serial("GET /:draftId/:versionId/state - renders HTML", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app).get(
+    "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state?content_type=html"
+  );
+  t.is(res.status, 200);
+  t.is(res.body.contentType, "html");
+  t.is(typeof res.body.content, "string");
+});
+
+test.serial("GET /:draftId/:versionId/stats - reports counts", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app).get(
+    "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/stats"
+  );
+  t.is(res.status, 200);
+  t.true(res.body.success);
+  t.is(
+    res.body.roomId,
+    "550e8400-e29b-41d4-a716-446655440000:550e8400-e29b-41d4-a716-446655440001"
+  );
+  t.is(res.body.words, 0);
+  t.is(res.body.readingTimeMinutes, 0);
+  t.deepEqual(res.body.outline, []);
+});
+
+test.serial(
+  "GET /:draftId/:versionId/stats - invalid versionId UUID",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/invalid-uuid/stats"
+    );
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Version ID must be a valid UUID/);
+  }
+);
+
+test.serial(
+  "GET /:draftId/:versionId/export - downloads a docx file",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .get(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/export?format=docx"
+      )
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    t.is(res.status, 200);
+    t.is(
+      res.headers["content-type"],
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    );
+    t.is(
+      res.headers["content-disposition"],
+      'attachment; filename="550e8400-e29b-41d4-a716-446655440000.docx"'
+    );
+    t.is(res.body.subarray(0, 2).toString(), "PK");
+  }
+);
+
+test.serial(
+  "GET /:draftId/:versionId/export - downloads a pdf file",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .get(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/export?format=pdf&header=Draft"
+      )
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    t.is(res.status, 200);
+    t.is(res.headers["content-type"], "application/pdf");
+    t.is(
+      res.headers["content-disposition"],
+      'attachment; filename="550e8400-e29b-41d4-a716-446655440000.pdf"'
+    );
+    t.is(res.body.subarray(0, 5).toString(), "%PDF-");
+  }
+);
+
+test.serial(
+  "GET /:draftId/:versionId/export - unsupported format",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/export?format=odt"
+    );
+    t.is(res.status, 400);
+  }
+);
+
+test.serial(
+  "PUT /:draftId/:versionId/import - imports a docx file",
+  async (t) => {
+    const app = createTestApp();
+    const file = await tiptapJsonToDocx({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [{ type: "text", text: "Imported clause" }],
+        },
+      ],
+    });
+    const res = await supertest(app)
+      .put(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/import"
+      )
+      .set("Content-Type", DOCX_CONTENT_TYPE)
+      .send(file);
+    t.is(res.status, 200);
+    t.true(res.body.success);
+    t.deepEqual(res.body.unsupported, []);
+  }
+);
+
+test.serial(
+  "PUT /:draftId/:versionId/import - rejects a file that is not a docx",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .put(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/import"
+      )
+      .set("Content-Type", "application/octet-stream")
+      .send(Buffer.from("not a zip file"));
+    t.is(res.status, 400);
+  }
+);
+
+test.serial("PUT /:draftId/:versionId/import - missing file", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app)
+    .put(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/import"
+    )
+    .send({ content: "# Not a file" });
+  t.is(res.status, 400);
+});
+
+// --- GET /:draftId/:versionId/save-status ---
+test.serial(
+  "GET /:draftId/:versionId/save-status - invalid draftId UUID",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/invalid-uuid/550e8400-e29b-41d4-a716-446655440001/save-status"
+    );
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Draft ID must be a valid UUID/);
+  }
+);
+
+test.serial(
+  "GET /:draftId/:versionId/save-status - reports an unloaded room",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/save-status"
+    );
+    t.is(res.status, 200);
+    t.is(
+      res.body.roomId,
+      "550e8400-e29b-41d4-a716-446655440000:550e8400-e29b-41d4-a716-446655440001"
+    );
+    t.false(res.body.loaded);
+    t.false(res.body.dirty);
+    t.is(res.body.lastSavedAt, null);
+  }
+);
+
+// --- POST /:draftId/:versionId/checkpoints ---
+test.serial(
+  "POST /:draftId/:versionId/checkpoints - invalid draftId UUID",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post("/invalid-uuid/550e8400-e29b-41d4-a716-446655440001/checkpoints")
+      .send({ name: "Sent to client" });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Draft ID must be a valid UUID/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/checkpoints - missing name",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/checkpoints"
+      )
+      .send({ name: "   " });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /name is required/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/checkpoints - creates a listed checkpoint",
+  async (t) => {
+    const saveSnapshot = sinon
+      .stub(documentService, "saveSnapshot")
+      .resolves(true);
+    t.teardown(() => saveSnapshot.restore());
+
+    const app = createTestApp();
+    const created = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/checkpoints"
+      )
+      .send({ name: "Sent to client", created_by: "user-1" });
+
+    t.is(created.status, 201);
+    t.is(created.body.checkpoint.name, "Sent to client");
+    t.is(created.body.checkpoint.createdBy, "user-1");
+    t.true(
+      saveSnapshot.calledOnceWith(
+        "550e8400-e29b-41d4-a716-446655440000:550e8400-e29b-41d4-a716-446655440001",
+        "Sent to client"
+      )
+    );
+
+    const listed = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/checkpoints"
+    );
+    t.is(listed.status, 200);
+    t.deepEqual(
+      listed.body.checkpoints.map((checkpoint: any) => checkpoint.id),
+      [created.body.checkpoint.id]
+    );
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/checkpoints - reports a failed snapshot save",
+  async (t) => {
+    const saveSnapshot = sinon
+      .stub(documentService, "saveSnapshot")
+      .resolves(false);
+    t.teardown(() => saveSnapshot.restore());
+
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/checkpoints"
+      )
+      .send({ name: "Signed" });
+
+    t.is(res.status, 500);
+    t.regex(res.body.message, /Failed to save checkpoint snapshot/);
+  }
+);
+
+// --- History ---
+test.serial("GET /:draftId/:versionId/history - lists snapshots", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app).get(
+    "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/history"
+  );
+  t.is(res.status, 200);
+  t.true(Array.isArray(res.body.history));
+});
+
+test.serial(
+  "GET /:draftId/:versionId/history/:snapshotId - invalid snapshotId",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/history/not-a-uuid"
+    );
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Snapshot ID must be a valid UUID/);
+  }
+);
+
+test.serial(
+  "GET /:draftId/:versionId/history/:snapshotId - unknown snapshot",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/history/550e8400-e29b-41d4-a716-446655440002"
+    );
+    t.is(res.status, 404);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/history/:snapshotId/restore - unknown snapshot",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).post(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/history/550e8400-e29b-41d4-a716-446655440002/restore"
+    );
+    t.is(res.status, 404);
+  }
+);
+
+// --- GET /:draftId/:versionId/diff ---
+test.serial("GET /:draftId/:versionId/diff - invalid source", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app).get(
+    "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/diff?from=yesterday"
+  );
+  t.is(res.status, 400);
+  t.regex(res.body.message, /from and to must be/);
+});
+
+test.serial(
+  "GET /:draftId/:versionId/diff - compares the stored draft with the live room",
+  async (t) => {
+    const storedDoc = new Y.Doc();
+    jsonToYDoc(
+      {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: "Stored clause" }],
+          },
+        ],
+      },
+      storedDoc,
+      schema,
+      "default"
+    );
+    const loadStoredDocument = sinon
+      .stub(documentService, "loadStoredDocument")
+      .resolves(storedDoc);
+    t.teardown(() => loadStoredDocument.restore());
+
+    const app = createTestApp();
+    const json = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/diff"
+    );
+
+    t.is(json.status, 200);
+    t.is(json.body.from, "stored");
+    t.is(json.body.to, "live");
+    t.is(json.body.summary.deleted, 1);
+    t.like(json.body.changes[0], { type: "delete", before: "Stored clause" });
+
+    const markdown = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/diff?format=markdown"
+    );
+
+    t.is(markdown.status, 200);
+    t.is(markdown.body.content, "{--Stored clause--}\n\n");
+  }
+);
+
+// --- Suggestions ---
+test.serial(
+  "POST /:draftId/:versionId/suggestions/:action - invalid action",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app).post(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/suggestions/approve"
+    );
+    t.is(res.status, 400);
+    t.regex(res.body.message, /action must be either 'accept' or 'reject'/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/suggestions/:action - invalid ids",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/suggestions/accept"
+      )
+      .send({ ids: "s1" });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /ids must be an array of strings/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/suggestions/:action - accepts the selected suggestion",
+  async (t) => {
+    const connection = await hocuspocusInstanceModule.hocuspocusInstance
+      .getInstance()
+      .openDirectConnection("room", {});
+    jsonToYDoc(
+      {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              {
+                type: "text",
+                text: "Added",
+                marks: [{ type: "insertion", attrs: { id: "s1" } }],
+              },
+              {
+                type: "text",
+                text: "Other",
+                marks: [{ type: "insertion", attrs: { id: "s2" } }],
+              },
+            ],
+          },
+        ],
+      },
+      connection.document!,
+      schema,
+      "default"
+    );
+    const transact = await transactOnDocument(t);
+
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/suggestions/accept"
+      )
+      .send({ ids: ["s1"] });
+
+    t.is(res.status, 200);
+    t.is(res.body.resolved, 1);
+    t.true(transact.calledOnce);
+
+    const listed = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/suggestions"
+    );
+    t.is(listed.status, 200);
+    t.deepEqual(
+      listed.body.suggestions.map((suggestion: any) => suggestion.id),
+      ["s2"]
+    );
+  }
+);
+
+// --- POST /:draftId/:versionId/replace ---
+test.serial(
+  "POST /:draftId/:versionId/replace - replace required without dry_run",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/replace"
+      )
+      .send({ find: "Buyer" });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /replace is required unless dry_run is true/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/replace - invalid regular expression",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/replace"
+      )
+      .send({ find: "(Buyer", replace: "Purchaser", regex: true });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /find is not a valid regular expression/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/replace - unsafe regular expression",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/replace"
+      )
+      .send({ find: "(x+x+)+y", replace: "z", regex: true });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /find is not a safe regular expression/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/replace - previews then replaces matches",
+  async (t) => {
+    const connection = await hocuspocusInstanceModule.hocuspocusInstance
+      .getInstance()
+      .openDirectConnection("room", {});
+    jsonToYDoc(
+      {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: "The Buyer pays the buyer's fees." },
+            ],
+          },
+        ],
+      },
+      connection.document!,
+      schema,
+      "default"
+    );
+    const transact = await transactOnDocument(t);
+
+    const app = createTestApp();
+    const preview = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/replace"
+      )
+      .send({ find: "Buyer", replace: "Purchaser", dry_run: true });
+
+    t.is(preview.status, 200);
+    t.true(preview.body.dryRun);
+    t.is(preview.body.count, 2);
+    t.deepEqual(preview.body.matches[0], {
+      path: [0],
+      from: 4,
+      to: 9,
+      text: "Buyer",
+      replacement: "Purchaser",
+      before: "The ",
+      after: " pays the buyer's fees.",
+    });
+
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/replace"
+      )
+      .send({ find: "Buyer", replace: "Purchaser", case_sensitive: true });
+
+    t.is(res.status, 200);
+    t.false(res.body.dryRun);
+    t.is(res.body.count, 1);
+    t.true(transact.calledOnce);
+    t.regex(
+      connection.document!.getXmlFragment("default").toString(),
+      />The Purchaser pays the buyer's fees\.</
+    );
+  }
+);
+
+// --- POST /:draftId/:versionId/clauses ---
+test.serial(
+  "POST /:draftId/:versionId/clauses - appends a clause and reports unresolved placeholders",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/clauses"
+      )
+      .send({
+        content: "{{party_name}} shall pay {{amount}} by {{due_date}}.",
+        variables: {
+          amount: { type: "currency", value: 500, currency: "USD" },
+          due_date: { type: "date", value: "2024-06-30" },
+        },
+      });
+
+    t.is(res.status, 200);
+    t.deepEqual(res.body.paths, [[0]]);
+    t.deepEqual(res.body.placeholders, ["party_name", "amount", "due_date"]);
+    t.deepEqual(res.body.unresolved, ["party_name"]);
+    t.deepEqual(res.body.unused, []);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/clauses - strict rejects unresolved placeholders",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/clauses"
+      )
+      .send({
+        content: "{{party_name}} shall pay {{amount}}.",
+        variables: { amount: 500 },
+        strict: true,
+      });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Unresolved placeholders: party_name/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/clauses - anchor must exist",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/clauses"
+      )
+      .send({
+        content: {
+          type: "doc",
+          content: [
+            { type: "paragraph", content: [{ type: "text", text: "Fees" }] },
+          ],
+        },
+        content_type: "tiptap",
+        anchor: { heading: "Payment" },
+        position: "end_of_section",
+      });
+    t.is(res.status, 400);
+    t.regex(
+      res.body.message,
+      /Could not insert the clause: no heading "Payment"/
+    );
+  }
+);
+
+test.serial("POST /:draftId/:versionId/clauses - invalid anchor", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app)
+    .post(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/clauses"
+    )
+    .send({ content: "Fees", anchor: { id: "a", heading: "b" } });
+  t.is(res.status, 400);
+  t.regex(
+    res.body.message,
+    /anchor must have exactly one of path, id or heading/
+  );
+});
+
+// --- GET/PUT /:draftId/:versionId/fields ---
+test.serial("GET /:draftId/:versionId/fields - lists fields", async (t) => {
+  const connection = await hocuspocusInstanceModule.hocuspocusInstance
+    .getInstance()
+    .openDirectConnection("room", {});
+  jsonToYDoc(
+    {
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Tenant: " },
+            { type: "field", attrs: { name: "tenant" } },
+          ],
+        },
+      ],
+    },
+    connection.document!,
+    schema,
+    "default"
+  );
+
+  const app = createTestApp();
+  const res = await supertest(app).get(
+    "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/fields"
+  );
+
+  t.is(res.status, 200);
+  t.deepEqual(res.body.fields, [
+    { name: "tenant", type: "text", value: null, occurrences: 1 },
+  ]);
+});
+
+test.serial(
+  "PUT /:draftId/:versionId/fields - values must be an object",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .put(
+        "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/fields"
+      )
+      .send({ values: [] });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /values must be a non-empty object/);
+  }
+);
+
+test.serial("PUT /:draftId/:versionId/fields - unknown field", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app)
+    .put(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/fields"
+    )
+    .send({ values: { guarantor: "Bob" } });
+  t.is(res.status, 400);
+  t.regex(res.body.message, /no field named "guarantor"/);
+});
+
+// --- /:draftId/:versionId/comments ---
+const COMMENTS_PATH =
+  "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/comments";
+
+test.serial(
+  "POST /:draftId/:versionId/comments - requires a user token",
+  async (t) => {
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(COMMENTS_PATH)
+      .send({ anchor: { path: [0] }, body: "Why?" });
+    t.is(res.status, 401);
+    t.regex(res.body.message, /user token is required/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/comments - user without access to the room",
+  async (t) => {
+    const authenticate = sinon
+      .stub(userAuthService, "authenticate")
+      .rejects(new RoomAccessError());
+    t.teardown(() => authenticate.restore());
+
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(COMMENTS_PATH)
+      .set("Authorization", "Bearer token")
+      .send({ anchor: { path: [0] }, body: "Why?" });
+    t.is(res.status, 403);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/comments - threads, replies and resolution",
+  async (t) => {
+    const user = { id: "user-1", name: "Ann Lee" };
+    const authenticate = sinon.stub(userAuthService, "authenticate").resolves({
+      user,
+      room_id: "room",
+      edit: false,
+    });
+    t.teardown(() => authenticate.restore());
+
+    const connection = await hocuspocusInstanceModule.hocuspocusInstance
+      .getInstance()
+      .openDirectConnection("room", {});
+    jsonToYDoc(
+      {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: "The Buyer pays." }],
+          },
+        ],
+      },
+      connection.document!,
+      schema,
+      "default"
+    );
+    const transact = await transactOnDocument(t);
+
+    const app = createTestApp();
+    const created = await supertest(app)
+      .post(COMMENTS_PATH)
+      .set("Authorization", "Bearer token")
+      .send({ anchor: { path: [0] }, from: 4, to: 9, body: "Which buyer?" });
+    t.is(created.status, 201);
+    t.is(
+      authenticate.firstCall.args[1],
+      "550e8400-e29b-41d4-a716-446655440000:550e8400-e29b-41d4-a716-446655440001"
+    );
+    t.deepEqual(created.body.thread.range, {
+      path: [0],
+      from: 4,
+      to: 9,
+      text: "Buyer",
+    });
+    t.deepEqual(created.body.thread.comments[0].author, user);
+    const threadId = created.body.thread.id;
+
+    const reply = await supertest(app)
+      .post(`${COMMENTS_PATH}/${threadId}/replies`)
+      .set("Authorization", "Bearer token")
+      .send({ body: "Acme" });
+    t.is(reply.status, 201);
+
+    const state = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state?comments=true"
+    );
+    t.is(
+      state.body.content,
+      "The {==Buyer==}{>>Ann Lee: Which buyer?<<}{>>Ann Lee: Acme<<} pays.\n\n"
+    );
+
+    const html = await supertest(app).get(
+      "/550e8400-e29b-41d4-a716-446655440000/550e8400-e29b-41d4-a716-446655440001/state?content_type=html&comments=true"
+    );
+    t.is(
+      html.body.content,
+      `<p>The <span data-comment-thread="${threadId}">Buyer</span> pays.</p>`
+    );
+    t.is(html.body.comments[0].id, threadId);
+
+    const resolved = await supertest(app)
+      .post(`${COMMENTS_PATH}/${threadId}/resolve`)
+      .set("Authorization", "Bearer token");
+    t.is(resolved.status, 200);
+    t.is(resolved.body.thread.status, "resolved");
+    t.deepEqual(resolved.body.thread.resolvedBy, user);
+    t.is(transact.callCount, 3);
+
+    const open = await supertest(app).get(`${COMMENTS_PATH}?status=open`);
+    t.deepEqual(open.body.threads, []);
+    const all = await supertest(app).get(COMMENTS_PATH);
+    t.is(all.body.threads.length, 1);
+    t.is(all.body.threads[0].comments.length, 2);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/comments - anchor outside the block",
+  async (t) => {
+    const authenticate = sinon
+      .stub(userAuthService, "authenticate")
+      .resolves({ user: { id: "user-1" }, room_id: "room", edit: true });
+    t.teardown(() => authenticate.restore());
+    await transactOnDocument(t);
+
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(COMMENTS_PATH)
+      .set("Authorization", "Bearer token")
+      .send({ anchor: { path: [0] }, from: 4, to: 400, body: "?" });
+    t.is(res.status, 400);
+    t.regex(res.body.message, /Could not anchor the comment: range 4-400/);
+  }
+);
+
+test.serial(
+  "POST /:draftId/:versionId/comments/:threadId/:action - unknown thread",
+  async (t) => {
+    const authenticate = sinon
+      .stub(userAuthService, "authenticate")
+      .resolves({ user: { id: "user-1" }, room_id: "room", edit: true });
+    t.teardown(() => authenticate.restore());
+
+    const app = createTestApp();
+    const res = await supertest(app)
+      .post(`${COMMENTS_PATH}/missing/reopen`)
+      .set("Authorization", "Bearer token");
+    t.is(res.status, 404);
+  }
+);
+
+test.serial("GET /:draftId/:versionId/comments - invalid status", async (t) => {
+  const app = createTestApp();
+  const res = await supertest(app).get(`${COMMENTS_PATH}?status=closed`);
+  t.is(res.status, 400);
+  t.regex(res.body.message, /status must be one of open, resolved, all/);
+});
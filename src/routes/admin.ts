@@ -0,0 +1,88 @@
+import { Router, Request, Response } from "express";
+import { documentService } from "../services/document";
+import { logger } from "../config/logger";
+import { ErrorFactory, asyncHandler } from "../utils";
+import { RegexMatcher } from "../utils/regex_matcher";
+
+const adminRouter = Router();
+
+/**
+ * GET /v1/admin/dead-letters
+ * List document states whose snapshot save failed
+ */
+adminRouter.get(
+  "/dead-letters",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const entries = await documentService.listDeadLetters();
+
+    return res.status(200).json({
+      success: true,
+      count: entries.length,
+      entries,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * POST /v1/admin/dead-letters/replay
+ * Replay every dead-lettered document state to the persistence backend
+ */
+adminRouter.post(
+  "/dead-letters/replay",
+  asyncHandler(async (_req: Request, res: Response) => {
+    const results = await documentService.replayDeadLetters();
+    const failed = results.filter((result) => !result.saved).length;
+
+    logger.info("Replayed dead-lettered documents", {
+      total: results.length,
+      failed,
+    });
+
+    return res.status(200).json({
+      success: failed === 0,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * POST /v1/admin/dead-letters/:draftId/:versionId/replay
+ * Replay the dead-lettered state of a single room
+ */
+adminRouter.post(
+  "/dead-letters/:draftId/:versionId/replay",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { draftId, versionId } = req.params;
+
+    if (!RegexMatcher.matchUUID(draftId)) {
+      throw ErrorFactory.validation("Draft ID must be a valid UUID");
+    }
+
+    if (!RegexMatcher.matchUUID(versionId)) {
+      throw ErrorFactory.validation("Version ID must be a valid UUID");
+    }
+
+    const roomId = `${draftId}:${versionId}`;
+
+    if (!(await documentService.hasDeadLetter(roomId))) {
+      throw ErrorFactory.notFound("Dead-letter entry");
+    }
+
+    const [result] = await documentService.replayDeadLetters(roomId);
+
+    logger.info("Replayed dead-lettered document", {
+      roomId,
+      saved: result.saved,
+    });
+
+    return res.status(result.saved ? 200 : 502).json({
+      success: result.saved,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+export default adminRouter;
@@ -1,28 +1,197 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, raw } from "express";
+import * as Y from "yjs";
 import { hocuspocusInstance } from "../services/hocuspocus-instance";
+import { documentService } from "../services/document";
+import { checkpointService } from "../services/checkpoints";
+import { historyService, RestoredSnapshot } from "../services/history";
+import { suggestionService } from "../services/suggestions";
+import { findReplaceService, UnsafePatternError } from "../services/find-replace";
+import { fieldService, FieldValueError } from "../services/fields";
+import { commentService, CommentAnchorError } from "../services/comments";
+import { userAuthService, RoomAccessError } from "../services/user-auth";
+import {
+  documentOperationService,
+  DocumentOperationError,
+} from "../services/document-operations";
 import { logger } from "../config/logger";
 import { 
   markdownToTiptapJson, 
   tiptapJsonToMarkdown, 
+  htmlToTiptapJson,
+  tiptapJsonToHtml,
+  tiptapJsonToDocx,
+  DOCX_CONTENT_TYPE,
+  docxToTiptapJson,
+  tiptapJsonToPdf,
+  PDF_CONTENT_TYPE,
   ErrorFactory,
-  asyncHandler 
+  asyncHandler,
+  extractJWTFromRequest
 } from "../utils";
 import { yDocToJSON, jsonToYDoc } from "../utils/ydoc/converters";
+import {
+  diffTiptapDocuments,
+  diffToRedlineMarkdown,
+} from "../utils/diff/tiptap-diff";
 import { schema } from "../utils/ydoc/schema";
+import { attributeXmlFragment } from "../utils/ydoc/attribution";
+import {
+  ClauseTemplateError,
+  RenderedClause,
+  parseClauseVariables,
+  renderClause,
+} from "../utils/templates/clause-template";
+import { overlayComments } from "../utils/converters/comments";
+import { AuthContext, BlockTarget, CommentThread, CommentThreadStatus, DocumentComment, DocumentOperation, DocumentOperationResult, TextMatch, User } from "../types";
 import { RegexMatcher } from "../utils/regex_matcher";
 
 const stateRouter = Router();
 
+const MAX_CHECKPOINT_NAME_LENGTH = 200;
+const MAX_FIND_LENGTH = 1000;
+const CLAUSE_POSITIONS = ["after", "before", "end_of_section"];
+const MAX_COMMENT_LENGTH = 10000;
+const COMMENT_STATUSES = ["open", "resolved", "all"];
+
+// File formats the export endpoint renders, with their MIME types
+const EXPORT_FORMATS = new Map<string, { mimeType: string; render: (tiptapJson: any, options: { header?: string }) => Promise<Buffer> }>([
+  ["docx", { mimeType: DOCX_CONTENT_TYPE, render: tiptapJsonToDocx }],
+  ["pdf", { mimeType: PDF_CONTENT_TYPE, render: tiptapJsonToPdf }],
+]);
+
+/**
+ * Resolve a diff side to TipTap JSON: the live room, the last stored
+ * snapshot, or a history snapshot ID
+ */
+async function resolveDiffSource(roomId: string, liveDoc: Y.Doc, source: string): Promise<any> {
+  if (source === "live") {
+    return JSON.parse(yDocToJSON(liveDoc, schema, "default"));
+  }
+
+  if (source === "stored") {
+    const storedDoc = await documentService.loadStoredDocument(roomId);
+    try {
+      return JSON.parse(yDocToJSON(storedDoc, schema, "default"));
+    } finally {
+      storedDoc.destroy();
+    }
+  }
+
+  const content = historyService.getSnapshotContent(liveDoc, source);
+  if (!content) {
+    throw ErrorFactory.notFound(`History snapshot ${source}`);
+  }
+  return content;
+}
+
+/**
+ * Authenticate the user a request acts for from its Bearer JWT, as for
+ * WebSocket connections
+ */
+async function authenticateRequestUser(req: Request, roomId: string): Promise<AuthContext> {
+  const token = extractJWTFromRequest(req);
+  if (!token) {
+    throw ErrorFactory.authentication("A user token is required in the Authorization header");
+  }
+
+  try {
+    return await userAuthService.authenticate(token, roomId);
+  } catch (error) {
+    if (error instanceof RoomAccessError) {
+      throw ErrorFactory.authorization(error.message);
+    }
+    logger.warn("User authentication failed", { roomId, error: (error as Error).message });
+    throw ErrorFactory.authentication(`Authentication failed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validate the body of a comment
+ */
+function parseCommentBody(body: unknown): string {
+  if (typeof body !== "string" || body.trim().length === 0) {
+    throw ErrorFactory.validation("body is required and must be a non-empty string");
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw ErrorFactory.validation(`body must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  return body.trim();
+}
+
+/**
+ * Apply fine-grained operations to a room, editing only the blocks they
+ * address so concurrent edits and cursors elsewhere survive
+ */
+async function patchStateWithOperations(roomId: string, body: unknown, res: Response) {
+  if (!Array.isArray(body) || body.length === 0) {
+    throw ErrorFactory.validation("operations must be a non-empty array");
+  }
+
+  let operations: DocumentOperation[];
+  try {
+    operations = documentOperationService.parseOperations(body);
+  } catch (error) {
+    throw ErrorFactory.validation((error as Error).message);
+  }
+
+  logger.info("Applying operations to room", { roomId, operations: operations.length });
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let results: DocumentOperationResult[] = [];
+    try {
+      await directConnection.transact((doc) => {
+        results = documentOperationService.applyOperations(roomId, doc, operations);
+      });
+    } catch (error) {
+      if (error instanceof DocumentOperationError) {
+        throw ErrorFactory.validation(error.message);
+      }
+      throw error;
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Room state updated successfully",
+      roomId,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}
+
 /**
  * GET /room/:draftId/:versionId/state
  * Get content of room's YDoc
  * 
  * Query params:
- *   - content_type: "markdown" (default) | "tiptap"
+ *   - content_type: "markdown" (default) | "tiptap" | "html"
+ *   - rich: "true" to write block typography as markdown attribute blocks
+ *   - comments: "true" to include open comment threads, as CriticMarkup in
+ *     markdown, or as comment marks (data-comment-thread spans in html) and a
+ *     comments list with tiptap and html
  */
 stateRouter.get("/:draftId/:versionId/state", asyncHandler(async (req: Request, res: Response) => {
   const { draftId, versionId } = req.params;
-  const contentType = req.query.content_type === "tiptap" ? "tiptap" : "markdown";
+  const contentType = req.query.content_type === "tiptap" || req.query.content_type === "html" ? req.query.content_type : "markdown";
+  const rich = req.query.rich === "true";
+  const includeComments = req.query.comments === "true";
 
   if (!draftId || typeof draftId !== 'string') {
     throw ErrorFactory.validation("Draft ID is required and must be a valid string");
@@ -43,7 +212,7 @@ stateRouter.get("/:draftId/:versionId/state", asyncHandler(async (req: Request,
   // Construct roomId from draftId and versionId
   const roomId = `${draftId}:${versionId}`;
 
-  logger.info("Getting room state", { roomId, draftId, versionId, contentType });
+  logger.info("Getting room state", { roomId, draftId, versionId, contentType, rich, includeComments });
 
   // Get Hocuspocus instance
   const hocuspocus = hocuspocusInstance.getInstance();
@@ -70,18 +239,38 @@ stateRouter.get("/:draftId/:versionId/state", asyncHandler(async (req: Request,
       jsonSize: tiptapJsonString.length,
     });
 
+    const comments = includeComments ? commentService.listThreads(yDoc, "open") : undefined;
+
     if (contentType === "tiptap") {
       // Return TipTap JSON directly
       return res.status(200).json({
         success: true,
         roomId,
         contentType: "tiptap",
-        content: tiptapJson,
+        content: comments ? overlayComments(tiptapJson, comments) : tiptapJson,
+        ...(comments && { comments }),
+        timestamp: new Date().toISOString(),
+      });
+    } else if (contentType === "html") {
+      // Render through the schema's toDOM specs
+      const htmlContent = tiptapJsonToHtml(comments ? overlayComments(tiptapJson, comments) : tiptapJson);
+
+      logger.info("TipTap JSON converted to HTML", {
+        roomId,
+        htmlLength: htmlContent.length,
+      });
+
+      return res.status(200).json({
+        success: true,
+        roomId,
+        contentType: "html",
+        content: htmlContent,
+        ...(comments && { comments }),
         timestamp: new Date().toISOString(),
       });
     } else {
       // Convert TipTap JSON to markdown (existing behavior)
-      const markdownContent = tiptapJsonToMarkdown(tiptapJson);
+      const markdownContent = tiptapJsonToMarkdown(tiptapJson, { rich, comments });
 
       logger.info("TipTap JSON converted to markdown", {
         roomId,
@@ -114,15 +303,19 @@ stateRouter.get("/:draftId/:versionId/state", asyncHandler(async (req: Request,
 
 /**
  * PATCH /room/:draftId/:versionId/state
- * Update room's YDoc with content (Markdown or TipTap JSON)
+ * Update room's YDoc with content (Markdown or TipTap JSON), or edit it
+ * with fine-grained operations
  * 
  * Request body:
- *   - content: string (markdown or JSON-stringified TipTap doc)
- *   - content_type: "markdown" (default) | "tiptap"
+ *   - content: string (markdown, HTML or JSON-stringified TipTap doc)
+ *   - content_type: "markdown" (default) | "tiptap" | "html"
+ *   - rich: boolean, read markdown attribute blocks as block typography
+ * or:
+ *   - operations: DocumentOperation[], applied in order as one batch
  */
 stateRouter.patch("/:draftId/:versionId/state", asyncHandler(async (req: Request, res: Response) => {
   const { draftId, versionId } = req.params;
-  const { content, content_type } = req.body;
+  const { content, content_type, rich = false, operations } = req.body;
 
   // Validation
   if (!draftId || typeof draftId !== 'string') {
@@ -141,12 +334,23 @@ stateRouter.patch("/:draftId/:versionId/state", asyncHandler(async (req: Request
     throw ErrorFactory.validation("Version ID must be a valid UUID");
   }
 
+  if (operations !== undefined) {
+    if (content !== undefined) {
+      throw ErrorFactory.validation("Send either content or operations, not both");
+    }
+    return patchStateWithOperations(`${draftId}:${versionId}`, operations, res);
+  }
+
   if (typeof content !== "string") {
     throw ErrorFactory.validation("content is required and must be a string");
   }
 
+  if (typeof rich !== "boolean") {
+    throw ErrorFactory.validation("rich must be a boolean");
+  }
+
   // Determine content type (default to markdown for backward compatibility)
-  const contentType = content_type === "tiptap" ? "tiptap" : "markdown";
+  const contentType = content_type === "tiptap" || content_type === "html" ? content_type : "markdown";
 
   // Construct roomId from draftId and versionId
   const roomId = `${draftId}:${versionId}`;
@@ -156,6 +360,7 @@ stateRouter.patch("/:draftId/:versionId/state", asyncHandler(async (req: Request
     draftId,
     versionId,
     contentType,
+    rich,
     contentLength: content.length,
   });
 
@@ -187,9 +392,18 @@ stateRouter.patch("/:draftId/:versionId/state", asyncHandler(async (req: Request
         roomId,
         contentNodes: tiptapJson.content?.length || 0,
       });
+    } else if (contentType === "html") {
+      // Parsed through the schema's parseDOM specs; scripts, unknown tags
+      // and unsafe URLs are dropped
+      tiptapJson = htmlToTiptapJson(content);
+
+      logger.info("HTML converted to TipTap JSON", {
+        roomId,
+        contentNodes: tiptapJson.content.length,
+      });
     } else {
       // Existing markdown flow
-      tiptapJson = markdownToTiptapJson(content);
+      tiptapJson = markdownToTiptapJson(content, { rich });
 
       logger.info("Markdown converted to TipTap JSON", {
         roomId,
@@ -245,4 +459,1524 @@ stateRouter.patch("/:draftId/:versionId/state", asyncHandler(async (req: Request
   }
 }));
 
+/**
+ * GET /room/:draftId/:versionId/save-status
+ * Report whether the room has unsaved changes and when it was last saved
+ */
+stateRouter.get("/:draftId/:versionId/save-status", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  return res.status(200).json({
+    success: true,
+    ...documentService.getSaveStatus(roomId),
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * POST /room/:draftId/:versionId/checkpoints
+ * Save an immediate snapshot of the room under a version name
+ *
+ * Request body:
+ *   - name: string (e.g. "Sent to client")
+ *   - created_by: string (optional user ID recorded with the checkpoint)
+ */
+stateRouter.post("/:draftId/:versionId/checkpoints", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const { name, created_by } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (typeof name !== "string" || name.trim().length === 0) {
+    throw ErrorFactory.validation("name is required and must be a non-empty string");
+  }
+
+  if (name.trim().length > MAX_CHECKPOINT_NAME_LENGTH) {
+    throw ErrorFactory.validation(`name must be at most ${MAX_CHECKPOINT_NAME_LENGTH} characters`);
+  }
+
+  if (created_by !== undefined && typeof created_by !== "string") {
+    throw ErrorFactory.validation("created_by must be a string");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  logger.info("Creating checkpoint", { roomId, name });
+
+  // Open a direct connection so the live YDoc is loaded and registered
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const checkpoint = await checkpointService.createCheckpoint(
+      roomId,
+      directConnection.document,
+      name.trim(),
+      created_by
+    );
+
+    return res.status(201).json({
+      success: true,
+      roomId,
+      checkpoint,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    throw ErrorFactory.internal(`Failed to create checkpoint: ${(error as Error).message}`);
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/checkpoints
+ * List the room's named checkpoints, oldest first
+ */
+stateRouter.get("/:draftId/:versionId/checkpoints", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const checkpoints = checkpointService.listCheckpoints(directConnection.document);
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      checkpoints,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/history
+ * List the room's history snapshots, oldest first
+ */
+stateRouter.get("/:draftId/:versionId/history", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const history = historyService.listHistory(directConnection.document);
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      tracked: historyService.isTracked(directConnection.document),
+      history,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/history/:snapshotId
+ * Render the room's content as it was at a history snapshot
+ *
+ * Query params:
+ *   - content_type: "markdown" (default) | "tiptap" | "html"
+ *   - rich: "true" to write block typography as markdown attribute blocks
+ */
+stateRouter.get("/:draftId/:versionId/history/:snapshotId", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId, snapshotId } = req.params;
+  const contentType = req.query.content_type === "tiptap" || req.query.content_type === "html" ? req.query.content_type : "markdown";
+  const rich = req.query.rich === "true";
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (!RegexMatcher.matchUUID(snapshotId)) {
+    throw ErrorFactory.validation("Snapshot ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const snapshot = historyService.getEntry(directConnection.document, snapshotId);
+    const tiptapJson = historyService.getSnapshotContent(directConnection.document, snapshotId);
+
+    if (!snapshot || !tiptapJson) {
+      throw ErrorFactory.notFound(`History snapshot ${snapshotId}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      snapshot,
+      contentType,
+      content: contentType === "tiptap"
+        ? tiptapJson
+        : contentType === "html"
+          ? tiptapJsonToHtml(tiptapJson)
+          : tiptapJsonToMarkdown(tiptapJson, { rich }),
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/history/:snapshotId/restore
+ * Restore the content of a history snapshot as a new change on top of the
+ * current state; the state before the restore is recorded as a snapshot
+ */
+stateRouter.post("/:draftId/:versionId/history/:snapshotId/restore", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId, snapshotId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (!RegexMatcher.matchUUID(snapshotId)) {
+    throw ErrorFactory.validation("Snapshot ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    // Restored through the connection, so connected clients receive the change
+    let result: RestoredSnapshot | null | undefined;
+    await directConnection.transact((doc) => {
+      result = historyService.restoreSnapshot(roomId, doc, snapshotId);
+    });
+
+    if (!result) {
+      throw ErrorFactory.notFound(`History snapshot ${snapshotId}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      restoredFrom: result.restored,
+      backup: result.backup,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/diff
+ * Compare two states of the room block by block, with inline changes
+ *
+ * Query params:
+ *   - from: "stored" (default) | "live" | history snapshot ID
+ *   - to: "live" (default) | "stored" | history snapshot ID
+ *   - format: "json" (default) | "markdown" (CriticMarkup redline)
+ */
+stateRouter.get("/:draftId/:versionId/diff", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const from = typeof req.query.from === "string" ? req.query.from : "stored";
+  const to = typeof req.query.to === "string" ? req.query.to : "live";
+  const format = req.query.format === "markdown" ? "markdown" : "json";
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  for (const source of [from, to]) {
+    if (source !== "live" && source !== "stored" && !RegexMatcher.matchUUID(source)) {
+      throw ErrorFactory.validation("from and to must be 'live', 'stored' or a history snapshot ID");
+    }
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  logger.info("Diffing room states", { roomId, from, to, format });
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const before = await resolveDiffSource(roomId, directConnection.document, from);
+    const after = await resolveDiffSource(roomId, directConnection.document, to);
+    const diff = diffTiptapDocuments(before, after);
+
+    if (format === "markdown") {
+      return res.status(200).json({
+        success: true,
+        roomId,
+        from,
+        to,
+        summary: diff.summary,
+        contentType: "markdown",
+        content: diffToRedlineMarkdown(diff, before, after),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      from,
+      to,
+      ...diff,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/attribution
+ * Get the room's text blocks with the author of every character range
+ * Ranges written before attribution was tracked, or through the REST API,
+ * have a null author
+ */
+stateRouter.get("/:draftId/:versionId/attribution", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    const yDoc = directConnection.document;
+    if (!yDoc) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const blocks = attributeXmlFragment(
+      yDoc.getXmlFragment("default"),
+      (clientId) => documentService.getClientAuthor(yDoc, clientId)
+    );
+
+    // Characters written per author across the whole document
+    const totals = new Map<string, { author: User | null; characters: number }>();
+    for (const range of blocks.flatMap((block) => block.ranges)) {
+      const key = range.author?.id ?? "";
+      const total = totals.get(key) ?? { author: range.author, characters: 0 };
+      total.characters += range.to - range.from;
+      totals.set(key, total);
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      authors: Array.from(totals.values()),
+      blocks,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/suggestions
+ * List the room's track-changes suggestions in document order
+ */
+stateRouter.get("/:draftId/:versionId/suggestions", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const suggestions = suggestionService.listSuggestions(directConnection.document);
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      suggestions,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/suggestions/:action
+ * Accept or reject the room's suggestions
+ *
+ * Path params:
+ *   - action: "accept" | "reject"
+ *
+ * Request body (optional, every suggestion is resolved when omitted):
+ *   - ids: suggestion IDs to resolve
+ *   - author: only resolve suggestions by this author
+ */
+stateRouter.post("/:draftId/:versionId/suggestions/:action", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId, action } = req.params;
+  const { ids, author } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (action !== "accept" && action !== "reject") {
+    throw ErrorFactory.validation("action must be either 'accept' or 'reject'");
+  }
+
+  if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+    throw ErrorFactory.validation("ids must be an array of strings");
+  }
+
+  if (author !== undefined && typeof author !== "string") {
+    throw ErrorFactory.validation("author must be a string");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let resolved = 0;
+    await directConnection.transact((doc) => {
+      resolved = suggestionService.resolveSuggestions(roomId, doc, action, { ids, author });
+    });
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      action,
+      resolved,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/export
+ * Download the room's live content as a file
+ *
+ * Query params:
+ *   - format: "docx" | "pdf"
+ *   - header: running page header for PDF (defaults to the first heading)
+ */
+stateRouter.get("/:draftId/:versionId/export", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const format = typeof req.query.format === "string" ? req.query.format : "";
+  const header = typeof req.query.header === "string" ? req.query.header : undefined;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  const exporter = EXPORT_FORMATS.get(format);
+  if (!exporter) {
+    throw ErrorFactory.validation(`format must be one of: ${Array.from(EXPORT_FORMATS.keys()).join(", ")}`);
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  logger.info("Exporting room", { roomId, format });
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    const yDoc = directConnection.document;
+    if (!yDoc) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const tiptapJson = JSON.parse(yDocToJSON(yDoc, schema, "default"));
+    const file = await exporter.render(tiptapJson, { header });
+
+    logger.info("Room exported", { roomId, format, size: file.length });
+
+    res.setHeader("Content-Type", exporter.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${draftId}.${format}"`);
+    return res.status(200).send(file);
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * PUT /room/:draftId/:versionId/import
+ * Replace the room's content with an uploaded .docx file
+ *
+ * Request body: the .docx file, sent as application/vnd.openxmlformats-
+ * officedocument.wordprocessingml.document or application/octet-stream
+ *
+ * Constructs the schema cannot hold (headers, footnotes, comments, text
+ * boxes...) are listed in the response's `unsupported` array
+ */
+stateRouter.put("/:draftId/:versionId/import", raw({ type: [DOCX_CONTENT_TYPE, "application/octet-stream"], limit: "10mb" }), asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw ErrorFactory.validation(`Request body must be a .docx file sent as ${DOCX_CONTENT_TYPE}`);
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  logger.info("Importing DOCX into room", { roomId, fileSize: req.body.length });
+
+  let imported;
+  try {
+    imported = await docxToTiptapJson(req.body);
+  } catch (error) {
+    throw ErrorFactory.validation((error as Error).message);
+  }
+
+  logger.info("DOCX converted to TipTap JSON", {
+    roomId,
+    contentNodes: imported.json.content.length,
+    unsupported: imported.unsupported.map((entry) => entry.construct),
+  });
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    await directConnection.transact((doc) => {
+      jsonToYDoc(JSON.stringify(imported.json), doc, schema, "default");
+    });
+
+    logger.info("DOCX content loaded into YDoc and saved", { roomId });
+
+    return res.status(200).json({
+      success: true,
+      message: "Room content imported successfully",
+      roomId,
+      unsupported: imported.unsupported,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/stats
+ * Get word, character and block counts, reading time and the heading outline
+ * of the room's live content; cached until the room's next update
+ */
+stateRouter.get("/:draftId/:versionId/stats", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    const yDoc = directConnection.document;
+    if (!yDoc) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      ...documentService.getDocumentStats(roomId, yDoc),
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/replace
+ * Find text in the room and replace it in place, keeping its formatting
+ *
+ * Body:
+ *   - find: text, or a regular expression when regex is true
+ *   - replace: replacement text; with regex, $& and $1.. or $<name> refer to
+ *     the match (not required for a dry run)
+ *   - regex, case_sensitive, whole_word: search options, all false by default
+ *   - dry_run: list the matches without changing the room
+ */
+stateRouter.post("/:draftId/:versionId/replace", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const { find, replace, regex, case_sensitive, whole_word, dry_run } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (typeof find !== "string" || find.length === 0) {
+    throw ErrorFactory.validation("find is required and must be a non-empty string");
+  }
+
+  if (find.length > MAX_FIND_LENGTH) {
+    throw ErrorFactory.validation(`find must be at most ${MAX_FIND_LENGTH} characters`);
+  }
+
+  for (const [name, value] of Object.entries({ regex, case_sensitive, whole_word, dry_run })) {
+    if (value !== undefined && typeof value !== "boolean") {
+      throw ErrorFactory.validation(`${name} must be a boolean`);
+    }
+  }
+
+  if (replace !== undefined && typeof replace !== "string") {
+    throw ErrorFactory.validation("replace must be a string");
+  }
+
+  if (replace === undefined && !dry_run) {
+    throw ErrorFactory.validation("replace is required unless dry_run is true");
+  }
+
+  const options = { find, replace, regex, caseSensitive: case_sensitive, wholeWord: whole_word };
+
+  try {
+    findReplaceService.compilePattern(options);
+  } catch (error) {
+    if (error instanceof UnsafePatternError) {
+      throw ErrorFactory.validation(`find is not a safe regular expression: ${error.message}`);
+    }
+    throw ErrorFactory.validation(`find is not a valid regular expression: ${(error as Error).message}`);
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let matches: TextMatch[] = [];
+    if (dry_run) {
+      matches = findReplaceService.findMatches(directConnection.document, options);
+    } else {
+      await directConnection.transact((doc) => {
+        matches = findReplaceService.replaceMatches(roomId, doc, options);
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      dryRun: Boolean(dry_run),
+      count: matches.length,
+      matches,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/clauses
+ * Insert a clause template into the room with its {{variables}} substituted
+ *
+ * Body:
+ *   - content: the clause as markdown, or as a TipTap doc (object or JSON string)
+ *   - content_type: "markdown" (default) | "tiptap"
+ *   - variables: values by placeholder name; strings, numbers, booleans,
+ *     { type: "date", value: "YYYY-MM-DD" } or
+ *     { type: "currency", value, currency }
+ *   - locale: locale numbers, dates and amounts are formatted for (default "en-US")
+ *   - anchor: block to insert at, by heading text (and level) or id;
+ *     the clause is appended to the document when omitted
+ *   - position: "after" (default) | "before" | "end_of_section" of the anchor
+ *   - strict: reject the clause when a placeholder has no variable
+ */
+stateRouter.post("/:draftId/:versionId/clauses", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const { content, content_type, variables, locale = "en-US", anchor, position = "after", strict = false } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  const contentType = content_type ?? "markdown";
+  if (contentType !== "markdown" && contentType !== "tiptap") {
+    throw ErrorFactory.validation("content_type must be either 'markdown' or 'tiptap'");
+  }
+
+  if (typeof content !== "string" && (contentType === "markdown" || typeof content !== "object" || content === null)) {
+    throw ErrorFactory.validation(
+      contentType === "markdown"
+        ? "content is required and must be a string"
+        : "content is required and must be a TipTap document or its JSON string"
+    );
+  }
+
+  if (typeof locale !== "string") {
+    throw ErrorFactory.validation("locale must be a string");
+  }
+
+  try {
+    Intl.getCanonicalLocales(locale);
+  } catch {
+    throw ErrorFactory.validation(`locale "${locale}" is not a valid locale`);
+  }
+
+  if (!CLAUSE_POSITIONS.includes(position)) {
+    throw ErrorFactory.validation(`position must be one of ${CLAUSE_POSITIONS.join(", ")}`);
+  }
+
+  if (typeof strict !== "boolean") {
+    throw ErrorFactory.validation("strict must be a boolean");
+  }
+
+  let target: BlockTarget | undefined;
+  if (anchor !== undefined) {
+    const parsed = documentOperationService.parseTarget(anchor, "anchor");
+    if (typeof parsed === "string") {
+      throw ErrorFactory.validation(parsed);
+    }
+    target = parsed;
+  } else if (position !== "after") {
+    throw ErrorFactory.validation("position requires an anchor");
+  }
+
+  let rendered: RenderedClause;
+  try {
+    let tiptapJson: any = content;
+    if (contentType === "markdown") {
+      tiptapJson = markdownToTiptapJson(content);
+    } else if (typeof content === "string") {
+      try {
+        tiptapJson = JSON.parse(content);
+      } catch {
+        throw ErrorFactory.validation("Invalid JSON format in content");
+      }
+    }
+    rendered = renderClause(tiptapJson, parseClauseVariables(variables), locale);
+  } catch (error) {
+    if (error instanceof ClauseTemplateError) {
+      throw ErrorFactory.validation(error.message);
+    }
+    throw error;
+  }
+
+  if (strict && rendered.unresolved.length > 0) {
+    throw ErrorFactory.validation(`Unresolved placeholders: ${rendered.unresolved.join(", ")}`);
+  }
+
+  const operation: DocumentOperation = !target
+    ? { op: "insert_block", content: rendered.content }
+    : position === "end_of_section"
+      ? { op: "append_to_section", heading: target, content: rendered.content }
+      : { op: "insert_block", [position]: target, content: rendered.content };
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  logger.info("Inserting clause into room", {
+    roomId,
+    contentType,
+    position,
+    placeholders: rendered.placeholders.length,
+    unresolved: rendered.unresolved.length,
+  });
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let results: DocumentOperationResult[] = [];
+    try {
+      await directConnection.transact((doc) => {
+        results = documentOperationService.applyOperations(roomId, doc, [operation]);
+      });
+    } catch (error) {
+      if (error instanceof DocumentOperationError) {
+        throw ErrorFactory.validation(`Could not insert the clause: ${error.reason}`);
+      }
+      throw error;
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      paths: results[0].paths,
+      placeholders: rendered.placeholders,
+      unresolved: rendered.unresolved,
+      unused: rendered.unused,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/fields
+ * List the room's form fields by name, with their type and value
+ */
+stateRouter.get("/:draftId/:versionId/fields", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      fields: fieldService.listFields(directConnection.document),
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * PUT /room/:draftId/:versionId/fields
+ * Set the values of the room's form fields, all or none
+ *
+ * Body:
+ *   - values: values by field name; null clears a field. Date fields take
+ *     "YYYY-MM-DD" and number fields numbers
+ */
+stateRouter.put("/:draftId/:versionId/fields", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const { values } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (typeof values !== "object" || values === null || Array.isArray(values) || Object.keys(values).length === 0) {
+    throw ErrorFactory.validation("values must be a non-empty object of field values by name");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let updated: { name: string; occurrences: number }[] = [];
+    try {
+      await directConnection.transact((doc) => {
+        updated = fieldService.setFieldValues(roomId, doc, values);
+      });
+    } catch (error) {
+      if (error instanceof FieldValueError) {
+        throw ErrorFactory.validation(error.message);
+      }
+      throw error;
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      updated,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * GET /room/:draftId/:versionId/comments
+ * List the room's comment threads in document order, threads whose text
+ * has been deleted last
+ *
+ * Query params:
+ *   - status: "open" | "resolved" | "all" (default)
+ */
+stateRouter.get("/:draftId/:versionId/comments", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const status = req.query.status ?? "all";
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (typeof status !== "string" || !COMMENT_STATUSES.includes(status)) {
+    throw ErrorFactory.validation(`status must be one of ${COMMENT_STATUSES.join(", ")}`);
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    const threads = commentService.listThreads(
+      directConnection.document,
+      status === "all" ? undefined : (status as CommentThreadStatus)
+    );
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      threads,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/comments
+ * Start a comment thread on a range of a text block, as the user of the
+ * request's Bearer JWT
+ *
+ * Body:
+ *   - anchor: the block, by { path }, { id } or { heading, level? }
+ *   - from, to: character offsets within the block's text (inline nodes
+ *     count as one), the whole block when omitted
+ *   - body: the first comment
+ */
+stateRouter.post("/:draftId/:versionId/comments", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId } = req.params;
+  const { anchor, from, to, body } = req.body ?? {};
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  const target = documentOperationService.parseTarget(anchor, "anchor");
+  if (typeof target === "string") {
+    throw ErrorFactory.validation(target);
+  }
+
+  for (const [field, offset] of Object.entries({ from, to })) {
+    if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+      throw ErrorFactory.validation(`${field} must be a non-negative integer`);
+    }
+  }
+
+  const text = parseCommentBody(body);
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+  const auth = await authenticateRequestUser(req, roomId);
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let thread: CommentThread | undefined;
+    try {
+      await directConnection.transact((doc) => {
+        thread = commentService.createThread(roomId, doc, { target, from, to }, auth.user, text);
+      });
+    } catch (error) {
+      if (error instanceof DocumentOperationError) {
+        throw ErrorFactory.validation(`Could not anchor the comment: ${error.reason}`);
+      }
+      if (error instanceof CommentAnchorError) {
+        throw ErrorFactory.validation(`Could not anchor the comment: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return res.status(201).json({
+      success: true,
+      roomId,
+      thread,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/comments/:threadId/replies
+ * Reply to a comment thread, as the user of the request's Bearer JWT
+ *
+ * Body:
+ *   - body: the reply
+ */
+stateRouter.post("/:draftId/:versionId/comments/:threadId/replies", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId, threadId } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  const text = parseCommentBody(req.body?.body);
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+  const auth = await authenticateRequestUser(req, roomId);
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let comment: DocumentComment | null | undefined;
+    await directConnection.transact((doc) => {
+      comment = commentService.addComment(roomId, doc, threadId, auth.user, text);
+    });
+    if (!comment) {
+      throw ErrorFactory.notFound(`Comment thread ${threadId}`);
+    }
+
+    return res.status(201).json({
+      success: true,
+      roomId,
+      threadId,
+      comment,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
+/**
+ * POST /room/:draftId/:versionId/comments/:threadId/:action
+ * Resolve or reopen a comment thread, as the user of the request's Bearer JWT
+ *
+ * Path params:
+ *   - action: "resolve" | "reopen"
+ */
+stateRouter.post("/:draftId/:versionId/comments/:threadId/:action", asyncHandler(async (req: Request, res: Response) => {
+  const { draftId, versionId, threadId, action } = req.params;
+
+  if (!draftId || typeof draftId !== 'string') {
+    throw ErrorFactory.validation("Draft ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(draftId)) {
+    throw ErrorFactory.validation("Draft ID must be a valid UUID");
+  }
+
+  if (!versionId || typeof versionId !== 'string') {
+    throw ErrorFactory.validation("Version ID is required and must be a valid string");
+  }
+
+  if (!RegexMatcher.matchUUID(versionId)) {
+    throw ErrorFactory.validation("Version ID must be a valid UUID");
+  }
+
+  if (action !== "resolve" && action !== "reopen") {
+    throw ErrorFactory.validation("action must be either 'resolve' or 'reopen'");
+  }
+
+  // Construct roomId from draftId and versionId
+  const roomId = `${draftId}:${versionId}`;
+  const auth = await authenticateRequestUser(req, roomId);
+
+  const hocuspocus = hocuspocusInstance.getInstance();
+  const directConnection = await hocuspocus.openDirectConnection(roomId, {
+    room_id: roomId,
+  });
+
+  try {
+    if (!directConnection.document) {
+      throw ErrorFactory.internal("Failed to load document");
+    }
+
+    let thread: CommentThread | null | undefined;
+    await directConnection.transact((doc) => {
+      thread = commentService.setResolved(roomId, doc, threadId, action === "resolve", auth.user);
+    });
+    if (!thread) {
+      throw ErrorFactory.notFound(`Comment thread ${threadId}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      roomId,
+      thread,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    try {
+      await directConnection.disconnect();
+    } catch (disconnectError) {
+      logger.error("Error disconnecting direct connection", { roomId, error: (disconnectError as Error).message });
+    }
+  }
+}));
+
 export default stateRouter;
@@ -0,0 +1,246 @@
+// Set up test environment variables BEFORE importing modules
+process.env.JWT_ISSUER = "https://test.supabase.co/auth/v1";
+process.env.VETTAM_API_KEY = "test-api-key";
+process.env.VETTAM_API_URL = "https://test-api.example.com";
+process.env.PUBLIC_HOST = "test.example.com";
+
+import test from "ava";
+import sinon from "sinon";
+import * as Y from "yjs";
+import * as encoding from "lib0/encoding";
+import { EventEmitter } from "events";
+import { Awareness, encodeAwarenessUpdate } from "y-protocols/awareness";
+import { ExpressServer } from "../express";
+import { documentService } from "../../services/document";
+import { logger } from "../../config/logger";
+import { AuthContext } from "../../types";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+// Message type identifiers from the Hocuspocus / y-protocols wire format
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_AUTH = 2;
+const SYNC_UPDATE = 2;
+const AUTH_TOKEN = 0;
+
+/**
+ * Minimal stand-in for a `ws` WebSocket, enough for Hocuspocus to talk to
+ */
+class FakeWebSocket extends EventEmitter {
+  readyState = 1;
+  binaryType = "nodebuffer";
+  sent: Uint8Array[] = [];
+
+  send(data: Uint8Array, callback?: (error?: Error) => void): void {
+    this.sent.push(data);
+    callback?.();
+  }
+
+  ping(): void {}
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === 3) {
+      return;
+    }
+    this.readyState = 3;
+    this.emit("close", code, Buffer.from(reason));
+  }
+
+  receive(message: Uint8Array): void {
+    this.emit("message", message);
+  }
+}
+
+function authMessage(token: string): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarString(encoder, ROOM_ID);
+  encoding.writeVarUint(encoder, MESSAGE_AUTH);
+  encoding.writeVarUint(encoder, AUTH_TOKEN);
+  encoding.writeVarString(encoder, token);
+  return encoding.toUint8Array(encoder);
+}
+
+function updateMessage(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarString(encoder, ROOM_ID);
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  encoding.writeVarUint(encoder, SYNC_UPDATE);
+  encoding.writeVarUint8Array(encoder, update);
+  return encoding.toUint8Array(encoder);
+}
+
+function awarenessMessage(awareness: Awareness): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarString(encoder, ROOM_ID);
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(
+    encoder,
+    encodeAwarenessUpdate(awareness, [awareness.clientID])
+  );
+  return encoding.toUint8Array(encoder);
+}
+
+function createClientUpdate(text: string): Uint8Array {
+  const clientDoc = new Y.Doc();
+  clientDoc.getText("content").insert(0, text);
+  return Y.encodeStateAsUpdate(clientDoc);
+}
+
+function waitForTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+/**
+ * Connect a fake client as a user with the given edit permission
+ */
+async function connectClient(
+  server: ExpressServer,
+  edit: boolean
+): Promise<FakeWebSocket> {
+  const authContext: AuthContext = {
+    user: { id: edit ? "editor-user" : "viewer-user" },
+    room_id: ROOM_ID,
+    edit,
+  };
+  (server as any).authenticateConnection = async () => authContext;
+
+  const websocket = new FakeWebSocket();
+  server.getHocuspocus().handleConnection(websocket as any, {
+    url: "/collaboration",
+    headers: {},
+  } as any);
+
+  websocket.receive(authMessage("test-token"));
+  await waitForTick();
+
+  return websocket;
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+  sinon.stub(documentService, "loadInitialStateFromAPI").resolves();
+  sinon.stub(documentService, "persistAndCleanupDocument").resolves();
+});
+
+test.afterEach.always(async () => {
+  if (documentService.isDocumentRegistered(ROOM_ID)) {
+    documentService["documents"].delete(ROOM_ID);
+    documentService["dirtyFlags"].delete(ROOM_ID);
+  }
+  sinon.restore();
+});
+
+test.serial(
+  "viewer update never reaches the DocumentService-registered Y.Doc",
+  async (t) => {
+    const server = new ExpressServer();
+    const websocket = await connectClient(server, false);
+
+    const yDoc = documentService.getDocument(ROOM_ID);
+    const before = Y.encodeStateVector(yDoc);
+
+    websocket.receive(updateMessage(createClientUpdate("viewer edit")));
+    await waitForTick();
+
+    t.is(yDoc.getText("content").toString(), "");
+    t.deepEqual(Y.encodeStateVector(yDoc), before);
+    t.false(documentService["dirtyFlags"].get(ROOM_ID));
+    t.true(
+      (logger.warn as sinon.SinonStub).calledWith(
+        "Rejected document update from read-only connection"
+      )
+    );
+
+    websocket.close();
+  }
+);
+
+test.serial("viewer awareness updates are still applied", async (t) => {
+  const server = new ExpressServer();
+  const websocket = await connectClient(server, false);
+
+  const clientAwareness = new Awareness(new Y.Doc());
+  clientAwareness.setLocalState({ cursor: { anchor: 1, head: 4 } });
+
+  websocket.receive(awarenessMessage(clientAwareness));
+  await waitForTick();
+
+  const document = server.getHocuspocus().documents.get(ROOM_ID);
+  t.truthy(document);
+  t.deepEqual(document!.awareness.getStates().get(clientAwareness.clientID), {
+    cursor: { anchor: 1, head: 4 },
+  });
+
+  clientAwareness.destroy();
+  websocket.close();
+});
+
+test.serial("editor update is applied to the registered Y.Doc", async (t) => {
+  const server = new ExpressServer();
+  const websocket = await connectClient(server, true);
+
+  websocket.receive(updateMessage(createClientUpdate("editor edit")));
+  await waitForTick();
+
+  const yDoc = documentService.getDocument(ROOM_ID);
+  t.is(yDoc.getText("content").toString(), "editor edit");
+  t.true(documentService["dirtyFlags"].get(ROOM_ID));
+  t.false(
+    (logger.warn as sinon.SinonStub).calledWith(
+      "Rejected document update from read-only connection"
+    )
+  );
+
+  websocket.close();
+});
+
+test.serial(
+  "editor updates are attributed to the connection's user",
+  async (t) => {
+    const server = new ExpressServer();
+    const websocket = await connectClient(server, true);
+
+    const clientDoc = new Y.Doc();
+    clientDoc.getText("content").insert(0, "attributed edit");
+    websocket.receive(updateMessage(Y.encodeStateAsUpdate(clientDoc)));
+    await waitForTick();
+
+    const yDoc = documentService.getDocument(ROOM_ID);
+    t.deepEqual(documentService.getClientAuthor(yDoc, clientDoc.clientID), {
+      id: "editor-user",
+    });
+
+    websocket.close();
+  }
+);
+
+test.serial(
+  "a client cannot attribute its own edits to another user",
+  async (t) => {
+    const server = new ExpressServer();
+    const websocket = await connectClient(server, true);
+
+    // The client names another user as its author before its first edit
+    const clientDoc = new Y.Doc();
+    clientDoc
+      .getMap("authors")
+      .set(String(clientDoc.clientID), { id: "someone-else" });
+    clientDoc.getText("content").insert(0, "forged edit");
+    websocket.receive(updateMessage(Y.encodeStateAsUpdate(clientDoc)));
+    await waitForTick();
+
+    const yDoc = documentService.getDocument(ROOM_ID);
+    t.is(yDoc.getText("content").toString(), "forged edit");
+    t.deepEqual(documentService.getClientAuthor(yDoc, clientDoc.clientID), {
+      id: "editor-user",
+    });
+
+    websocket.close();
+  }
+);
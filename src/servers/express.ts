@@ -2,12 +2,14 @@ import express, { Request, Response, NextFunction } from "express";
 import expressWebsockets from "express-ws";
 import helmet from "helmet";
 import { Hocuspocus } from "@hocuspocus/server";
-import { jwtVerify, createRemoteJWKSet } from "jose";
+import * as Y from "yjs";
+import { messageYjsSyncStep2, messageYjsUpdate } from "y-protocols/sync";
 import { serverConfig } from "../config";
 import { logger } from "../config/logger";
-import { vettamAPI } from "../services/vettam-api";
 import { documentService } from "../services/document";
+import { historyService } from "../services/history";
 import { hocuspocusInstance } from "../services/hocuspocus-instance";
+import { userAuthService } from "../services/user-auth";
 import { handleErrorResponse } from "../utils";
 import {
   apiKeyMiddleware,
@@ -18,7 +20,6 @@ import {
 import {
   HocuspocusAuthPayload,
   AuthContext,
-  AuthorizationRequest,
 } from "../types";
 
 // Routes Imports
@@ -26,12 +27,9 @@ import indexRouter from "../routes/index";
 import healthRouter from "../routes/health";
 import catchAllRouter from "../routes/catch-all";
 import stateRouter from "../routes/state";
+import adminRouter from "../routes/admin";
 import { Server } from "http";
 
-
-// Create JWKS function that fetches public keys from the JWKS endpoint
-const JWKS = createRemoteJWKSet(new URL(serverConfig.jwt.jwksUrl));
-
 export class ExpressServer {
   private app: expressWebsockets.Application; // Express app with WebSocket support
   private server?: Server;
@@ -44,7 +42,15 @@ export class ExpressServer {
       onAuthenticate: async (data) => {
         try {
           const payload = await this.authenticateConnection(data);
-          logger.info("User authenticated for Hocuspocus", payload);
+
+          // Viewers get a read-only connection: Hocuspocus rejects their
+          // document updates but still relays awareness (cursors, presence)
+          data.connectionConfig.readOnly = !payload.edit;
+
+          logger.info("User authenticated for Hocuspocus", {
+            ...payload,
+            readOnly: data.connectionConfig.readOnly,
+          });
           return payload;
         } catch (error) {
           logger.error("Authentication failed", {
@@ -72,11 +78,35 @@ export class ExpressServer {
           return documentService.getDocument(roomId);
         }
 
+        // Keep deleted content around so history snapshots stay restorable
+        historyService.track(data.document);
+
         // Use documentService to load initial state with locking
         await documentService.loadInitialStateFromAPI(roomId, data.document);
         return undefined;
       },
 
+      // Sync message hook - Log document updates rejected for read-only connections
+      // Hocuspocus itself drops the update; this only records the attempt
+      beforeSync: async (data) => {
+        if (!data.connection.readOnly) {
+          return;
+        }
+
+        if (
+          !this.isRejectedReadOnlySync(data.type, data.payload, data.document)
+        ) {
+          return;
+        }
+
+        logger.warn("Rejected document update from read-only connection", {
+          roomId: data.context?.room_id || data.documentName,
+          userId: data.context?.user?.id,
+          messageType: data.type,
+          updateSize: data.payload.length,
+        });
+      },
+
       // Document creation hook
       onCreateDocument: async (data) => {
         const { documentName } = data;
@@ -105,6 +135,19 @@ export class ExpressServer {
         logger.debug("afterLoadDocument complete", { roomId });
       },
 
+      // Document change hook - Attribute the change to the connection's user
+      // Direct (REST) connections carry no user and stay unattributed
+      onChange: async (data) => {
+        const roomId = data.context?.room_id || data.documentName;
+        const user = data.context?.user;
+
+        if (!user?.id) {
+          return;
+        }
+
+        documentService.recordUpdateAuthor(roomId, data.update, user);
+      },
+
       // Connection closed hook
       onDisconnect: async (data) => {
         const roomId = data.context.room_id ?? data.documentName;
@@ -223,6 +266,9 @@ export class ExpressServer {
       // Load state routes
       this.app.use("/v1/state", stateRouter);
 
+      // Load admin routes
+      this.app.use("/v1/admin", adminRouter);
+
       // Catch remaining
       this.app.use("*", catchAllRouter);
 
@@ -351,47 +397,7 @@ export class ExpressServer {
     }
 
     try {
-      // Verify JWT token
-      const { payload } = await jwtVerify(token, JWKS, {
-        audience: serverConfig.jwt.audience,
-        issuer: serverConfig.jwt.issuer,
-      });
-
-      if (!payload.sub) {
-        throw new Error("Invalid token: missing user ID");
-      }
-
-      const userId = payload.sub as string;
-      const draftID = documentService.extractDraftId(documentName);
-      const versionId = documentService.extractVersionId(documentName);
-
-      if (!draftID || !versionId) {
-        throw new Error("Invalid document name format");
-      }
-
-      // Check authorization with Vettam API
-      const authRequest: AuthorizationRequest = {
-        userId: userId,
-        roomId: documentName,
-        userJwt: token,
-        draftId: draftID,
-        versionId: versionId,
-      };
-
-      const authResponse = await vettamAPI.authorizeUser(authRequest);
-
-      if (!authResponse.access) {
-        throw new Error("User not authorized to access this room");
-      }
-
-      // Return auth context
-      const authContext: AuthContext = {
-        user: authResponse.user,
-        room_id: authResponse.room.room_id,
-        edit: authResponse.edit,
-      };
-
-      return authContext;
+      return await userAuthService.authenticate(token, documentName);
     } catch (error) {
       logger.error("Authentication failed", {
         error: (error as Error).message,
@@ -400,6 +406,31 @@ export class ExpressServer {
     }
   }
 
+  /**
+   * Check whether a sync message from a read-only connection carries changes
+   * that Hocuspocus will refuse to apply
+   * SyncStep2 without new changes is acknowledged and therefore not rejected
+   */
+  private isRejectedReadOnlySync(
+    type: number,
+    payload: Uint8Array,
+    document: Y.Doc
+  ): boolean {
+    if (type === messageYjsUpdate) {
+      return true;
+    }
+
+    if (type === messageYjsSyncStep2) {
+      try {
+        return !Y.snapshotContainsUpdate(Y.snapshot(document), payload);
+      } catch {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Parse authentication payload from connection data
    */
@@ -0,0 +1,115 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { CheckpointService } from "../checkpoints";
+import { DocumentService } from "../document";
+import { HistoryService } from "../history";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+function createService(saved = true) {
+  const documents = new DocumentService();
+  const saveSnapshot = sinon.stub(documents, "saveSnapshot").resolves(saved);
+  const history = new HistoryService({ enabled: true, maxSnapshots: 50 });
+  return {
+    history,
+    saveSnapshot,
+    service: new CheckpointService(documents, history),
+  };
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test("createCheckpoint records the checkpoint and saves a named snapshot", async (t) => {
+  const { saveSnapshot, service } = createService();
+  const yDoc = new Y.Doc();
+
+  const checkpoint = await service.createCheckpoint(
+    ROOM_ID,
+    yDoc,
+    "Sent to client",
+    "user-1"
+  );
+
+  t.is(checkpoint.name, "Sent to client");
+  t.is(checkpoint.createdBy, "user-1");
+  t.truthy(checkpoint.id);
+  t.true(saveSnapshot.calledOnceWith(ROOM_ID, "Sent to client"));
+  t.deepEqual(yDoc.getMap("checkpoints").get(checkpoint.id), checkpoint);
+});
+
+test("createCheckpoint records the checkpoint before the snapshot is taken", async (t) => {
+  const { saveSnapshot, service } = createService();
+  const yDoc = new Y.Doc();
+  let checkpointsAtSave = 0;
+  saveSnapshot.callsFake(async () => {
+    checkpointsAtSave = yDoc.getMap("checkpoints").size;
+    return true;
+  });
+
+  await service.createCheckpoint(ROOM_ID, yDoc, "Signed");
+
+  t.is(checkpointsAtSave, 1);
+});
+
+test("createCheckpoint drops the checkpoint when the snapshot save fails", async (t) => {
+  const { service } = createService(false);
+  const yDoc = new Y.Doc();
+
+  await t.throwsAsync(service.createCheckpoint(ROOM_ID, yDoc, "Signed"), {
+    message: "Failed to save checkpoint snapshot",
+  });
+
+  t.deepEqual(service.listCheckpoints(yDoc), []);
+});
+
+test("listCheckpoints returns checkpoints oldest first", (t) => {
+  const { service } = createService();
+  const yDoc = new Y.Doc();
+  const checkpoints = yDoc.getMap("checkpoints");
+  checkpoints.set("b", {
+    id: "b",
+    name: "Second",
+    createdAt: "2024-02-01T00:00:00.000Z",
+  });
+  checkpoints.set("a", {
+    id: "a",
+    name: "First",
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+
+  t.deepEqual(
+    service.listCheckpoints(yDoc).map((checkpoint) => checkpoint.name),
+    ["First", "Second"]
+  );
+});
+
+test("createCheckpoint records a history snapshot for tracked documents", async (t) => {
+  const { history, service } = createService();
+  const yDoc = new Y.Doc();
+  history.track(yDoc);
+
+  const checkpoint = await service.createCheckpoint(ROOM_ID, yDoc, "Signed");
+
+  const [entry] = history.listHistory(yDoc);
+  t.is(entry.name, "Signed");
+  t.is(entry.checkpointId, checkpoint.id);
+});
+
+test("createCheckpoint drops the history snapshot when the save fails", async (t) => {
+  const { history, service } = createService(false);
+  const yDoc = new Y.Doc();
+  history.track(yDoc);
+
+  await t.throwsAsync(service.createCheckpoint(ROOM_ID, yDoc, "Signed"));
+
+  t.deepEqual(history.listHistory(yDoc), []);
+});
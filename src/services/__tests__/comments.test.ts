@@ -0,0 +1,212 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { CommentAnchorError, CommentService } from "../comments";
+import { DocumentOperationError } from "../document-operations";
+import { jsonToYDoc } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+const ANN = { id: "user-1", name: "Ann Lee" };
+const BOB = { id: "user-2", email: "bob@example.com" };
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+});
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+const paragraph = (...content: any[]) => ({ type: "paragraph", content });
+
+function createDoc(content: any[]): Y.Doc {
+  const yDoc = new Y.Doc();
+  jsonToYDoc({ type: "doc", content }, yDoc, schema, "default");
+  return yDoc;
+}
+
+function blockText(yDoc: Y.Doc, index: number): Y.XmlText {
+  return (yDoc.getXmlFragment("default").get(index) as Y.XmlElement).get(
+    0
+  ) as Y.XmlText;
+}
+
+test("createThread anchors a thread to a range of a block", (t) => {
+  const service = new CommentService();
+  const yDoc = createDoc([
+    { type: "heading", attrs: { level: 1 }, content: [text("Terms")] },
+    paragraph(text("The Buyer pays "), text("the price", [{ type: "bold" }])),
+  ]);
+
+  const thread = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { path: [1] }, from: 4, to: 24 },
+    ANN,
+    "Which price?"
+  );
+
+  t.deepEqual(thread.range, {
+    path: [1],
+    from: 4,
+    to: 24,
+    text: "Buyer pays the price",
+  });
+  t.is(thread.quote, "Buyer pays the price");
+  t.is(thread.status, "open");
+  t.is(thread.comments.length, 1);
+  t.deepEqual(thread.comments[0].author, ANN);
+  t.is(thread.comments[0].body, "Which price?");
+
+  // The whole block when no offsets are given
+  const heading = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { heading: "Terms" } },
+    BOB,
+    "Rename?"
+  );
+  t.deepEqual(heading.range, { path: [0], from: 0, to: 5, text: "Terms" });
+  t.deepEqual(
+    service.listThreads(yDoc).map((listed) => listed.id),
+    [heading.id, thread.id]
+  );
+});
+
+test("thread ranges follow concurrent edits around them", (t) => {
+  const service = new CommentService();
+  const yDoc = createDoc([paragraph(text("The Buyer pays the price."))]);
+  const thread = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { path: [0] }, from: 4, to: 9 },
+    ANN,
+    "Define"
+  );
+
+  // A collaborator types before the range, at both of its edges and inside
+  const client = new Y.Doc();
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(yDoc));
+  const clientText = blockText(client, 0);
+  clientText.insert(9, "!");
+  clientText.insert(6, "y");
+  clientText.insert(4, "[");
+  clientText.insert(0, "Now ");
+  Y.applyUpdate(yDoc, Y.encodeStateAsUpdate(client));
+
+  t.deepEqual(service.getThread(yDoc, thread.id)!.range, {
+    path: [0],
+    from: 9,
+    to: 15,
+    text: "Buyyer",
+  });
+  t.is(service.getThread(yDoc, thread.id)!.quote, "Buyer");
+});
+
+test("threads whose block is deleted have no range and are listed last", (t) => {
+  const service = new CommentService();
+  const yDoc = createDoc([
+    paragraph(text("First clause.")),
+    paragraph(text("Second clause.")),
+  ]);
+  const orphan = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { path: [0] } },
+    ANN,
+    "Remove?"
+  );
+  const kept = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { path: [1] }, from: 0, to: 6 },
+    ANN,
+    "Keep"
+  );
+
+  yDoc.getXmlFragment("default").delete(0, 1);
+
+  const threads = service.listThreads(yDoc);
+  t.deepEqual(
+    threads.map((thread) => [thread.id, thread.range?.path ?? null]),
+    [
+      [kept.id, [0]],
+      [orphan.id, null],
+    ]
+  );
+  t.is(threads[1].quote, "First clause.");
+});
+
+test("replies and resolution are recorded with their user", (t) => {
+  const service = new CommentService();
+  const yDoc = createDoc([paragraph(text("The Buyer pays."))]);
+  const thread = service.createThread(
+    ROOM_ID,
+    yDoc,
+    { target: { path: [0] } },
+    ANN,
+    "Who?"
+  );
+
+  const reply = service.addComment(ROOM_ID, yDoc, thread.id, BOB, "Acme");
+  t.deepEqual(reply?.author, BOB);
+
+  const resolved = service.setResolved(ROOM_ID, yDoc, thread.id, true, BOB)!;
+  t.is(resolved.status, "resolved");
+  t.deepEqual(resolved.resolvedBy, BOB);
+  t.truthy(resolved.resolvedAt);
+  t.deepEqual(
+    resolved.comments.map((comment) => comment.body),
+    ["Who?", "Acme"]
+  );
+  t.deepEqual(service.listThreads(yDoc, "open"), []);
+  t.is(service.listThreads(yDoc, "resolved").length, 1);
+
+  const reopened = service.setResolved(ROOM_ID, yDoc, thread.id, false, ANN)!;
+  t.is(reopened.status, "open");
+  t.is(reopened.resolvedBy, null);
+
+  t.is(service.addComment(ROOM_ID, yDoc, "missing", ANN, "?"), null);
+  t.is(service.setResolved(ROOM_ID, yDoc, "missing", true, ANN), null);
+});
+
+test("createThread rejects ranges outside a text block", (t) => {
+  const service = new CommentService();
+  const yDoc = createDoc([
+    paragraph(text("Short")),
+    { type: "horizontalRule" },
+  ]);
+
+  t.throws(
+    () =>
+      service.createThread(
+        ROOM_ID,
+        yDoc,
+        { target: { path: [0] }, from: 2, to: 9 },
+        ANN,
+        "?"
+      ),
+    {
+      instanceOf: CommentAnchorError,
+      message: "range 2-9 is outside the block's 5 characters",
+    }
+  );
+  t.throws(
+    () =>
+      service.createThread(ROOM_ID, yDoc, { target: { path: [1] } }, ANN, "?"),
+    { instanceOf: CommentAnchorError, message: /not a text block/ }
+  );
+  t.throws(
+    () =>
+      service.createThread(ROOM_ID, yDoc, { target: { id: "nope" } }, ANN, "?"),
+    { instanceOf: DocumentOperationError }
+  );
+  t.deepEqual(service.listThreads(yDoc), []);
+});
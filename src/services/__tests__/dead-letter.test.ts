@@ -0,0 +1,88 @@
+import test from "ava";
+import sinon from "sinon";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DeadLetterStore } from "../dead-letter";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+const tempDirectories: string[] = [];
+
+function createStore(): DeadLetterStore {
+  const directory = fs.mkdtempSync(
+    path.join(os.tmpdir(), "hocuspocus-dead-letter-")
+  );
+  tempDirectories.push(directory);
+  return new DeadLetterStore(directory);
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test.after.always(() => {
+  for (const directory of tempDirectories) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test("add stores the snapshot and list omits its content", async (t) => {
+  const store = createStore();
+
+  await store.add(ROOM_ID, { content: "AQID", checksum: "abc" }, "API down");
+
+  t.deepEqual(await store.get(ROOM_ID), { content: "AQID", checksum: "abc" });
+
+  const entries = await store.list();
+  t.is(entries.length, 1);
+  t.is(entries[0].roomId, ROOM_ID);
+  t.is(entries[0].error, "API down");
+  t.is(entries[0].failures, 1);
+  t.false("content" in entries[0]);
+});
+
+test("add replaces the stored state and counts failures", async (t) => {
+  const store = createStore();
+
+  await store.add(ROOM_ID, { content: "AQ==", checksum: "old" }, "timeout");
+  const [first] = await store.list();
+  await store.add(ROOM_ID, { content: "AQI=", checksum: "new" }, "API down");
+
+  const [entry] = await store.list();
+  t.is(entry.checksum, "new");
+  t.is(entry.failures, 2);
+  t.is(entry.firstFailedAt, first.firstFailedAt);
+  t.is((await store.get(ROOM_ID))?.content, "AQI=");
+});
+
+test("remove deletes the entry", async (t) => {
+  const store = createStore();
+  await store.add(ROOM_ID, { content: "AQID", checksum: "abc" }, "API down");
+
+  t.true(await store.remove(ROOM_ID));
+  t.false(await store.remove(ROOM_ID));
+  t.is(await store.get(ROOM_ID), null);
+  t.deepEqual(await store.list(), []);
+});
+
+test("list is empty when the directory does not exist", async (t) => {
+  const store = new DeadLetterStore(
+    path.join(os.tmpdir(), "hocuspocus-dead-letter-missing", "nested")
+  );
+  t.deepEqual(await store.list(), []);
+});
+
+test("rejects room IDs that are not UUID pairs", async (t) => {
+  const store = createStore();
+  await t.throwsAsync(
+    store.add("../escape:room", { content: "", checksum: "" }, "error"),
+    { message: /Invalid room ID/ }
+  );
+});
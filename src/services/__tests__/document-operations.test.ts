@@ -0,0 +1,364 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import {
+  DocumentOperationService,
+  DocumentOperationError,
+} from "../document-operations";
+import { jsonToYDoc, yDocToJSON } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+import { logger } from "../../config/logger";
+import { DocumentOperation } from "../../types";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+});
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+// Schema defaults the JSON converter writes out
+const TYPOGRAPHY = { fontFamily: "Times New Roman", fontSize: 12 };
+
+const paragraph = (value: string | any[], attrs?: any) => ({
+  type: "paragraph",
+  attrs: { ...TYPOGRAPHY, ...attrs },
+  content: typeof value === "string" ? [text(value)] : value,
+});
+
+const heading = (level: number, value: string, attrs?: any) => ({
+  type: "heading",
+  attrs: { ...TYPOGRAPHY, level, ...attrs },
+  content: [text(value)],
+});
+
+function createDoc(content: any[]): Y.Doc {
+  const yDoc = new Y.Doc();
+  jsonToYDoc({ type: "doc", content }, yDoc, schema, "default");
+  return yDoc;
+}
+
+function readDoc(yDoc: Y.Doc): any[] {
+  return JSON.parse(yDocToJSON(yDoc, schema, "default")).content;
+}
+
+function apply(yDoc: Y.Doc, operations: unknown[]) {
+  const service = new DocumentOperationService();
+  return service.applyOperations(
+    ROOM_ID,
+    yDoc,
+    service.parseOperations(operations)
+  );
+}
+
+test("insert_block inserts after a path and before a heading", (t) => {
+  const yDoc = createDoc([heading(1, "Terms"), paragraph("Rent is due.")]);
+
+  const results = apply(yDoc, [
+    {
+      op: "insert_block",
+      after: { path: [1] },
+      content: [paragraph("Late fees apply."), paragraph("Keys are returned.")],
+    },
+    {
+      op: "insert_block",
+      before: { heading: "terms" },
+      content: paragraph("Preamble"),
+    },
+    { op: "insert_block", content: paragraph("Signatures") },
+  ]);
+
+  t.deepEqual(readDoc(yDoc), [
+    paragraph("Preamble"),
+    heading(1, "Terms"),
+    paragraph("Rent is due."),
+    paragraph("Late fees apply."),
+    paragraph("Keys are returned."),
+    paragraph("Signatures"),
+  ]);
+  // Paths are reported as they were right after each operation
+  t.deepEqual(results, [
+    { op: "insert_block", paths: [[2], [3]] },
+    { op: "insert_block", paths: [[0]] },
+    { op: "insert_block", paths: [[5]] },
+  ]);
+});
+
+test("replace_block replaces a block addressed by its ID", (t) => {
+  const yDoc = createDoc([
+    paragraph("Draft clause", { id: "clause-1" }),
+    paragraph("Kept"),
+  ]);
+
+  apply(yDoc, [
+    {
+      op: "replace_block",
+      target: { id: "clause-1" },
+      content: paragraph("Final clause", { id: "clause-1" }),
+    },
+  ]);
+
+  t.deepEqual(readDoc(yDoc), [
+    paragraph("Final clause", { id: "clause-1" }),
+    paragraph("Kept"),
+  ]);
+});
+
+test("append_to_section inserts before the next heading of the same level", (t) => {
+  const yDoc = createDoc([
+    heading(1, "Terms"),
+    paragraph("Rent"),
+    heading(2, "Deposit"),
+    paragraph("Two months"),
+    heading(1, "Signatures"),
+  ]);
+
+  const results = apply(yDoc, [
+    {
+      op: "append_to_section",
+      heading: { heading: "Terms", level: 1 },
+      content: paragraph("End of terms"),
+    },
+    {
+      op: "append_to_section",
+      heading: { heading: "Deposit" },
+      content: paragraph("Refundable"),
+    },
+  ]);
+
+  t.deepEqual(readDoc(yDoc), [
+    heading(1, "Terms"),
+    paragraph("Rent"),
+    heading(2, "Deposit"),
+    paragraph("Two months"),
+    paragraph("End of terms"),
+    paragraph("Refundable"),
+    heading(1, "Signatures"),
+  ]);
+  t.deepEqual(results[1].paths, [[5]]);
+});
+
+test("set_attribute sets and resets block attributes", (t) => {
+  const yDoc = createDoc([
+    paragraph("Centered", { textAlign: "center" }),
+    heading(2, "Title"),
+  ]);
+
+  apply(yDoc, [
+    { op: "set_attribute", target: { path: [0] }, attrs: { textAlign: null } },
+    {
+      op: "set_attribute",
+      target: { heading: "Title" },
+      attrs: { level: 1, id: "title" },
+    },
+  ]);
+
+  t.deepEqual(readDoc(yDoc), [
+    paragraph("Centered"),
+    heading(1, "Title", { id: "title" }),
+  ]);
+
+  const error = t.throws(
+    () =>
+      apply(yDoc, [
+        {
+          op: "set_attribute",
+          target: { path: [0] },
+          attrs: { colour: "red" },
+        },
+      ]),
+    { instanceOf: DocumentOperationError }
+  );
+  t.is(error?.message, 'operations[0]: paragraph has no attribute "colour"');
+});
+
+test("apply_mark formats a character range across text runs", (t) => {
+  const yDoc = createDoc([
+    paragraph([
+      text("The "),
+      text("tenant", [{ type: "italic" }]),
+      text(" pays rent."),
+    ]),
+  ]);
+
+  apply(yDoc, [
+    {
+      op: "apply_mark",
+      target: { path: [0] },
+      from: 4,
+      to: 15,
+      mark: { type: "bold" },
+    },
+    {
+      op: "apply_mark",
+      target: { path: [0] },
+      from: 16,
+      to: 20,
+      mark: { type: "link", attrs: { href: "https://example.com/rent" } },
+    },
+  ]);
+
+  t.deepEqual(readDoc(yDoc), [
+    paragraph([
+      text("The "),
+      text("tenant", [{ type: "bold" }, { type: "italic" }]),
+      text(" pays", [{ type: "bold" }]),
+      text(" "),
+      text("rent", [
+        { type: "link", attrs: { href: "https://example.com/rent" } },
+      ]),
+      text("."),
+    ]),
+  ]);
+});
+
+test("a failing operation leaves the whole batch unapplied", (t) => {
+  const yDoc = createDoc([paragraph("Only")]);
+  const before = Y.encodeStateVector(yDoc);
+
+  const error = t.throws(
+    () =>
+      apply(yDoc, [
+        { op: "insert_block", content: paragraph("First") },
+        {
+          op: "insert_block",
+          content: { type: "listItem", content: [paragraph("Loose")] },
+        },
+      ]),
+    { instanceOf: DocumentOperationError }
+  );
+
+  t.regex(error!.message, /^operations\[1\]: would leave the document invalid/);
+  t.deepEqual(readDoc(yDoc), [paragraph("Only")]);
+  t.deepEqual(Y.encodeStateVector(yDoc), before);
+
+  t.throws(
+    () =>
+      apply(yDoc, [
+        {
+          op: "apply_mark",
+          target: { path: [0] },
+          to: 9,
+          mark: { type: "bold" },
+        },
+      ]),
+    { message: "operations[0]: range 0-9 is outside the block's 4 characters" }
+  );
+  t.throws(
+    () =>
+      apply(yDoc, [
+        { op: "replace_block", target: { id: "x" }, content: paragraph("y") },
+      ]),
+    {
+      message: 'operations[0]: no block with id "x"',
+    }
+  );
+});
+
+test("operations keep concurrent edits and cursors in other blocks", (t) => {
+  const yDoc = createDoc([
+    paragraph("First clause"),
+    paragraph("Second clause"),
+  ]);
+
+  // A collaborator with a cursor in the second paragraph types concurrently
+  const client = new Y.Doc();
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(yDoc));
+  const clientText = (
+    client.getXmlFragment("default").get(1) as Y.XmlElement
+  ).get(0) as Y.XmlText;
+  const cursor = Y.createRelativePositionFromTypeIndex(clientText, 6);
+  clientText.insert(13, " amended");
+
+  apply(yDoc, [
+    {
+      op: "insert_block",
+      after: { path: [0] },
+      content: paragraph("Inserted"),
+    },
+    { op: "apply_mark", target: { path: [0] }, mark: { type: "bold" } },
+  ]);
+
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(yDoc));
+  Y.applyUpdate(yDoc, Y.encodeStateAsUpdate(client));
+
+  const expected = [
+    paragraph([text("First clause", [{ type: "bold" }])]),
+    paragraph("Inserted"),
+    paragraph("Second clause amended"),
+  ];
+  t.deepEqual(readDoc(yDoc), expected);
+  t.deepEqual(readDoc(client), expected);
+
+  const position = Y.createAbsolutePositionFromRelativePosition(cursor, client);
+  t.is(position?.type, clientText);
+  t.is(position?.index, 6);
+});
+
+test("parseOperations rejects malformed operations", (t) => {
+  const service = new DocumentOperationService();
+  const invalid: [unknown, string][] = [
+    [{ op: "delete_everything" }, "op must be one of"],
+    [
+      { op: "replace_block", target: { path: [0], id: "a" }, content: {} },
+      "target must have exactly one of path, id or heading",
+    ],
+    [
+      {
+        op: "insert_block",
+        after: { path: [0] },
+        before: { path: [1] },
+        content: {},
+      },
+      "either after or before",
+    ],
+    [
+      { op: "replace_block", target: { path: [-1] }, content: {} },
+      "target.path",
+    ],
+    [
+      { op: "append_to_section", heading: { id: "h" }, content: [] },
+      "content must be",
+    ],
+    [{ op: "apply_mark", target: { path: [0] }, mark: "bold" }, "mark must be"],
+    [
+      { op: "set_attribute", target: { path: [0] }, attrs: {} },
+      "attrs must be",
+    ],
+    [
+      {
+        op: "set_attribute",
+        target: { path: [0] },
+        attrs: { textAlign: { value: "center" } },
+      },
+      "attrs.textAlign must be",
+    ],
+  ];
+
+  for (const [operation, message] of invalid) {
+    const error = t.throws(() => service.parseOperations([operation]));
+    t.true(error?.message.includes(message), error?.message);
+  }
+
+  const operations: DocumentOperation[] = service.parseOperations([
+    {
+      op: "apply_mark",
+      target: { heading: "Terms", level: 2 },
+      mark: { type: "bold" },
+    },
+  ]);
+  t.deepEqual(operations, [
+    {
+      op: "apply_mark",
+      target: { heading: "Terms", level: 2 },
+      mark: { type: "bold" },
+    },
+  ]);
+});
@@ -1,7 +1,12 @@
 import test from "ava";
 import * as Y from "yjs";
 import sinon from "sinon";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { DocumentService } from "../document";
+import { UpdateJournal } from "../update-journal";
+import { DeadLetterStore } from "../dead-letter";
 import { logger } from "../../config/logger";
 
 // Mocks
@@ -100,3 +105,481 @@ test("registerHocuspocusDocument skips re-registration on reconnection", (t) =>
   t.is(retrievedText.toString(), "Test content");
 });
 
+
+test("loadInitialStateFromAPI applies state from the persistence adapter", async (t) => {
+  const source = new Y.Doc();
+  source.getText("content").insert(0, "Stored content");
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(Y.encodeStateAsUpdate(source)),
+    save: sinon.stub().resolves(),
+  };
+  const service = new DocumentService(persistence);
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+
+  await service.loadInitialStateFromAPI(roomId, yDoc);
+
+  t.true(
+    persistence.load.calledWith(
+      "123e4567-e89b-12d3-a456-426614174000",
+      "123e4567-e89b-12d3-a456-426614174001"
+    )
+  );
+  t.is(yDoc.getText("content").toString(), "Stored content");
+});
+
+test("loadInitialStateFromAPI keeps an empty document when nothing is stored", async (t) => {
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().resolves(),
+  };
+  const service = new DocumentService(persistence);
+  const yDoc = new Y.Doc();
+
+  await service.loadInitialStateFromAPI(createRoomId(), yDoc);
+
+  t.is(yDoc.getText("content").toString(), "");
+});
+
+test("saveSnapshot stores the encoded state through the persistence adapter", async (t) => {
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().resolves(),
+  };
+  const service = new DocumentService(persistence);
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "Saved content");
+
+  await service.saveSnapshot(roomId);
+
+  t.true(persistence.save.calledOnce);
+  const [draftId, versionId, snapshot] = persistence.save.firstCall.args;
+  t.is(draftId, "123e4567-e89b-12d3-a456-426614174000");
+  t.is(versionId, "123e4567-e89b-12d3-a456-426614174001");
+  t.deepEqual(
+    new Uint8Array(Buffer.from(snapshot.content, "base64")),
+    Y.encodeStateAsUpdate(yDoc)
+  );
+  t.is(snapshot.checksum.length, 64);
+  t.false(service["dirtyFlags"].get(roomId));
+});
+
+test("document updates are journaled and replayed after the base snapshot", async (t) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "hocuspocus-doc-"));
+  t.teardown(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  const base = new Y.Doc();
+  base.getText("content").insert(0, "Base");
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(Y.encodeStateAsUpdate(base)),
+    save: sinon.stub().rejects(new Error("API down")),
+  };
+  const roomId = createRoomId();
+
+  // Session before the crash: load the base, then edit without a snapshot
+  const service = new DocumentService(
+    persistence,
+    new UpdateJournal(directory)
+  );
+  const liveDoc = new Y.Doc();
+  await service.loadInitialStateFromAPI(roomId, liveDoc);
+  service.registerHocuspocusDocument(roomId, liveDoc);
+  liveDoc.getText("content").insert(4, " and journaled edit");
+  await service.saveSnapshot(roomId);
+  await service["journal"]!.flush(roomId);
+
+  // Restarted process: base snapshot plus journal replay restores the edit
+  const restarted = new DocumentService(
+    persistence,
+    new UpdateJournal(directory)
+  );
+  const restoredDoc = new Y.Doc();
+  await restarted.loadInitialStateFromAPI(roomId, restoredDoc);
+  restarted.registerHocuspocusDocument(roomId, restoredDoc);
+
+  t.is(restoredDoc.getText("content").toString(), "Base and journaled edit");
+  t.true(restarted["dirtyFlags"].get(roomId));
+});
+
+test("saveSnapshot compacts the journal once the snapshot is committed", async (t) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "hocuspocus-doc-"));
+  t.teardown(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().resolves(),
+  };
+  const journal = new UpdateJournal(directory);
+  const service = new DocumentService(persistence, journal);
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "Saved content");
+
+  await service.saveSnapshot(roomId);
+  await journal.flush(roomId);
+
+  t.deepEqual(await new UpdateJournal(directory).replay(roomId), []);
+});
+
+function createAutosaveService(
+  autosave = { enabled: true, debounceMs: 1000, maxIntervalMs: 5000 }
+) {
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().resolves(),
+  };
+  return {
+    persistence,
+    service: new DocumentService(persistence, null, autosave),
+  };
+}
+
+test.serial("autosave debounces updates to a dirty room", async (t) => {
+  const clock = sinon.useFakeTimers({
+    now: 0,
+    toFake: ["setTimeout", "clearTimeout", "Date"],
+  });
+  t.teardown(() => clock.restore());
+
+  const { persistence, service } = createAutosaveService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  yDoc.getText("content").insert(0, "a");
+  await clock.tickAsync(500);
+  yDoc.getText("content").insert(1, "b");
+  await clock.tickAsync(900);
+  t.true(persistence.save.notCalled);
+
+  await clock.tickAsync(200);
+  t.true(persistence.save.calledOnce);
+  t.false(service.getSaveStatus(roomId).dirty);
+  t.is(
+    service.getSaveStatus(roomId).lastSavedAt,
+    new Date(1500).toISOString()
+  );
+});
+
+test.serial("autosave saves at the max interval despite continuous edits", async (t) => {
+  const clock = sinon.useFakeTimers({
+    now: 0,
+    toFake: ["setTimeout", "clearTimeout", "Date"],
+  });
+  t.teardown(() => clock.restore());
+
+  const { persistence, service } = createAutosaveService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  // An edit every 500ms never lets the 1s debounce settle
+  for (let i = 0; i < 10; i++) {
+    yDoc.getText("content").insert(0, "x");
+    await clock.tickAsync(500);
+  }
+
+  t.true(persistence.save.calledOnce);
+  t.is(
+    service.getSaveStatus(roomId).lastSavedAt,
+    new Date(5000).toISOString()
+  );
+});
+
+test.serial("autosave skips clean rooms and can be disabled", async (t) => {
+  const clock = sinon.useFakeTimers({
+    now: 0,
+    toFake: ["setTimeout", "clearTimeout", "Date"],
+  });
+  t.teardown(() => clock.restore());
+
+  const { persistence, service } = createAutosaveService({
+    enabled: false,
+    debounceMs: 1000,
+    maxIntervalMs: 5000,
+  });
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "unsaved");
+
+  await clock.tickAsync(10000);
+
+  t.true(persistence.save.notCalled);
+  t.deepEqual(service.getSaveStatuses(), [
+    { roomId, loaded: true, dirty: true, lastSavedAt: null },
+  ]);
+});
+
+test("saveSnapshot keeps the room dirty when the save fails", async (t) => {
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().rejects(new Error("API down")),
+  };
+  const service = new DocumentService(persistence, null, {
+    enabled: false,
+    debounceMs: 1000,
+    maxIntervalMs: 5000,
+  });
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "unsaved");
+
+  await service.saveSnapshot(roomId);
+
+  t.true(service.getSaveStatus(roomId).dirty);
+  t.is(service.getSaveStatus(roomId).lastSavedAt, null);
+});
+
+function createRetryService(t: { teardown: (fn: () => void) => void }) {
+  const directory = fs.mkdtempSync(
+    path.join(os.tmpdir(), "hocuspocus-dead-letter-")
+  );
+  t.teardown(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  const persistence = {
+    name: "filesystem" as const,
+    load: sinon.stub().resolves(null),
+    save: sinon.stub().rejects(new Error("API down")),
+  };
+  const deadLetters = new DeadLetterStore(directory);
+  const service = new DocumentService(
+    persistence,
+    null,
+    { enabled: false, debounceMs: 1000, maxIntervalMs: 5000 },
+    {
+      maxAttempts: 3,
+      baseDelayMs: 1,
+      maxDelayMs: 1,
+      deadLetterDirectory: directory,
+    },
+    deadLetters
+  );
+
+  return { persistence, deadLetters, service };
+}
+
+test("saveSnapshot retries a failed save until it succeeds", async (t) => {
+  const { persistence, service } = createRetryService(t);
+  persistence.save.onSecondCall().resolves();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "retried");
+
+  t.true(await service.saveSnapshot(roomId));
+
+  t.true(persistence.save.calledTwice);
+  t.false(service.getSaveStatus(roomId).dirty);
+});
+
+test("removeDocument dead-letters and keeps a document whose save keeps failing", async (t) => {
+  const { persistence, deadLetters, service } = createRetryService(t);
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "unsaved");
+
+  t.false(await service.removeDocument(roomId));
+
+  t.is(persistence.save.callCount, 3);
+  t.false(yDoc.isDestroyed);
+  t.false(service.isDocumentRegistered(roomId));
+  t.deepEqual(service.getSaveStatus(roomId), {
+    roomId,
+    loaded: false,
+    dirty: true,
+    lastSavedAt: null,
+  });
+
+  const stored = await deadLetters.get(roomId);
+  const recovered = new Y.Doc();
+  Y.applyUpdate(recovered, Buffer.from(stored!.content, "base64"));
+  t.is(recovered.getText("content").toString(), "unsaved");
+
+  clearTimeout(service["persistenceTimers"].get(roomId));
+});
+
+test("reloading a room restores its unsaved state and clears the dead letter once saved", async (t) => {
+  const { persistence, deadLetters, service } = createRetryService(t);
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+  yDoc.getText("content").insert(0, "unsaved");
+  await service.removeDocument(roomId);
+
+  const reloaded = new Y.Doc();
+  await service.loadInitialStateFromAPI(roomId, reloaded);
+  service.registerHocuspocusDocument(roomId, reloaded);
+
+  t.is(reloaded.getText("content").toString(), "unsaved");
+  t.true(service.getSaveStatus(roomId).dirty);
+  t.false(service["persistenceTimers"].has(roomId));
+
+  persistence.save.resolves();
+  t.true(await service.saveSnapshot(roomId));
+  t.is(await deadLetters.get(roomId), null);
+});
+
+test("replayDeadLetters merges stored states into the persisted document", async (t) => {
+  const { persistence, deadLetters, service } = createRetryService(t);
+  const roomId = createRoomId();
+
+  const lost = new Y.Doc();
+  lost.getArray("items").push(["lost"]);
+  const content = Buffer.from(Y.encodeStateAsUpdate(lost)).toString("base64");
+  await deadLetters.add(roomId, { content, checksum: "abc" }, "API down");
+
+  const persisted = new Y.Doc();
+  persisted.getArray("items").push(["persisted"]);
+  persistence.load.resolves(Y.encodeStateAsUpdate(persisted));
+  persistence.save.resolves();
+
+  t.deepEqual(await service.replayDeadLetters(), [{ roomId, saved: true }]);
+
+  const saved = new Y.Doc();
+  Y.applyUpdate(
+    saved,
+    Buffer.from(persistence.save.firstCall.args[2].content, "base64")
+  );
+  t.deepEqual(saved.getArray("items").toArray().sort(), ["lost", "persisted"]);
+  t.deepEqual(await deadLetters.list(), []);
+});
+
+test("replayDeadLetters keeps the entry when the save still fails", async (t) => {
+  const { deadLetters, service } = createRetryService(t);
+  const roomId = createRoomId();
+  await deadLetters.add(roomId, { content: "AA==", checksum: "abc" }, "down");
+
+  const [result] = await service.replayDeadLetters(roomId);
+
+  t.false(result.saved);
+  t.is(result.error, "API down");
+  t.is((await deadLetters.list()).length, 1);
+});
+
+test("recordUpdateAuthor attributes the update's client IDs to the user", (t) => {
+  const service = new DocumentService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  const clientDoc = new Y.Doc();
+  clientDoc.getText("content").insert(0, "Clause");
+  const update = Y.encodeStateAsUpdate(clientDoc);
+  Y.applyUpdate(yDoc, update);
+
+  service.recordUpdateAuthor(roomId, update, {
+    id: "user-1",
+    email: "lawyer@example.com",
+  });
+
+  t.deepEqual(service.getClientAuthor(yDoc, clientDoc.clientID), {
+    id: "user-1",
+    email: "lawyer@example.com",
+  });
+  t.is(service.getClientAuthor(yDoc, yDoc.clientID), null);
+});
+
+test("recordUpdateAuthor never reassigns a client ID to another user", (t) => {
+  const service = new DocumentService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  const clientDoc = new Y.Doc();
+  clientDoc.getText("content").insert(0, "Clause");
+  const update = Y.encodeStateAsUpdate(clientDoc);
+
+  service.recordUpdateAuthor(roomId, update, { id: "user-1" });
+  service.recordUpdateAuthor(roomId, update, { id: "user-2" });
+
+  t.deepEqual(service.getClientAuthor(yDoc, clientDoc.clientID), {
+    id: "user-1",
+  });
+  t.true(
+    (logger.warn as sinon.SinonStub).calledWith(
+      "Y.js client ID already attributed to another user"
+    )
+  );
+});
+
+test("client writes to the authors map are reverted", (t) => {
+  const service = new DocumentService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  const victimDoc = new Y.Doc();
+  victimDoc.getText("content").insert(0, "Clause");
+  const victimUpdate = Y.encodeStateAsUpdate(victimDoc);
+  Y.applyUpdate(yDoc, victimUpdate);
+  service.recordUpdateAuthor(roomId, victimUpdate, { id: "user-1" });
+
+  // A client claims another client's ID for itself
+  const clientDoc = new Y.Doc();
+  Y.applyUpdate(clientDoc, Y.encodeStateAsUpdate(yDoc));
+  clientDoc
+    .getMap("authors")
+    .set(String(victimDoc.clientID), { id: "user-2" });
+  Y.applyUpdate(
+    yDoc,
+    Y.encodeStateAsUpdate(clientDoc, Y.encodeStateVector(yDoc)),
+    "client"
+  );
+
+  t.deepEqual(service.getClientAuthor(yDoc, victimDoc.clientID), {
+    id: "user-1",
+  });
+  t.true(
+    (logger.warn as sinon.SinonStub).calledWith(
+      "Reverted a client's change to document authors"
+    )
+  );
+});
+
+test("getDocumentStats caches the stats of a room until its next update", (t) => {
+  const service = new DocumentService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+  service.registerHocuspocusDocument(roomId, yDoc);
+
+  const writeParagraph = (text: string) => {
+    const paragraph = new Y.XmlElement("paragraph");
+    paragraph.insert(0, [new Y.XmlText(text)]);
+    const fragment = yDoc.getXmlFragment("default");
+    fragment.insert(fragment.length, [paragraph]);
+  };
+
+  writeParagraph("First clause");
+  const first = service.getDocumentStats(roomId, yDoc);
+  t.is(first.words, 2);
+  t.is(service.getDocumentStats(roomId, yDoc), first);
+
+  writeParagraph("Second clause");
+  const second = service.getDocumentStats(roomId, yDoc);
+  t.not(second, first);
+  t.is(second.words, 4);
+  t.is(second.paragraphs, 2);
+});
+
+test("getDocumentStats does not cache documents it is not tracking", (t) => {
+  const service = new DocumentService();
+  const roomId = createRoomId();
+  const yDoc = new Y.Doc();
+
+  const stats = service.getDocumentStats(roomId, yDoc);
+  t.is(stats.words, 0);
+  t.not(service.getDocumentStats(roomId, yDoc), stats);
+});
@@ -0,0 +1,132 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { FieldService, FieldValueError } from "../fields";
+import { jsonToYDoc, yDocToJSON } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+});
+
+const field = (name: string, type?: string, value?: string | number) => ({
+  type: "field",
+  attrs: { name, ...(type && { type }), ...(value !== undefined && { value }) },
+});
+
+const text = (value: string) => ({ type: "text", text: value });
+
+function createDoc(): Y.Doc {
+  const yDoc = new Y.Doc();
+  jsonToYDoc(
+    {
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            text("Between "),
+            field("landlord", "text", "Acme Ltd"),
+            text(" and "),
+            field("tenant"),
+          ],
+        },
+        {
+          type: "bulletList",
+          content: [
+            {
+              type: "listItem",
+              content: [
+                {
+                  type: "paragraph",
+                  content: [
+                    field("tenant"),
+                    text(" pays "),
+                    field("rent", "number"),
+                    text(" from "),
+                    field("start", "date"),
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    yDoc,
+    schema,
+    "default"
+  );
+  return yDoc;
+}
+
+function readText(yDoc: Y.Doc): string {
+  const doc = schema.nodeFromJSON(
+    JSON.parse(yDocToJSON(yDoc, schema, "default"))
+  );
+  return doc.textBetween(0, doc.content.size, "\n");
+}
+
+test("listFields groups fields by name in document order", (t) => {
+  const service = new FieldService();
+
+  t.deepEqual(service.listFields(createDoc()), [
+    { name: "landlord", type: "text", value: "Acme Ltd", occurrences: 1 },
+    { name: "tenant", type: "text", value: null, occurrences: 2 },
+    { name: "rent", type: "number", value: null, occurrences: 1 },
+    { name: "start", type: "date", value: null, occurrences: 1 },
+  ]);
+});
+
+test("setFieldValues fills every occurrence and clears with null", (t) => {
+  const service = new FieldService();
+  const yDoc = createDoc();
+
+  const updated = service.setFieldValues(ROOM_ID, yDoc, {
+    tenant: "Ann Lee",
+    rent: "1250.50",
+    start: "2024-03-01",
+    landlord: null,
+  });
+
+  t.deepEqual(updated, [
+    { name: "tenant", occurrences: 2 },
+    { name: "rent", occurrences: 1 },
+    { name: "start", occurrences: 1 },
+    { name: "landlord", occurrences: 1 },
+  ]);
+  t.is(
+    readText(yDoc),
+    "Between [landlord] and Ann Lee\nAnn Lee pays 1250.5 from 2024-03-01"
+  );
+  t.is(service.listFields(yDoc)[2].value, 1250.5);
+});
+
+test("setFieldValues sets nothing when a value is invalid", (t) => {
+  const service = new FieldService();
+  const yDoc = createDoc();
+  const before = Y.encodeStateVector(yDoc);
+
+  const invalid: [Record<string, unknown>, string][] = [
+    [{ tenant: "Ann Lee", rent: "a lot" }, "rent must be a number"],
+    [{ tenant: "Ann Lee", start: "2024-02-30" }, "start must be a date"],
+    [{ tenant: { first: "Ann" } }, "tenant must be a string or a number"],
+    [{ tenant: "Ann Lee", guarantor: "Bob" }, 'no field named "guarantor"'],
+  ];
+
+  for (const [values, message] of invalid) {
+    const error = t.throws(
+      () => service.setFieldValues(ROOM_ID, yDoc, values),
+      {
+        instanceOf: FieldValueError,
+      }
+    );
+    t.true(error?.message.startsWith(message), error?.message);
+  }
+  t.deepEqual(Y.encodeStateVector(yDoc), before);
+});
@@ -0,0 +1,213 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { FindReplaceService, UnsafePatternError } from "../find-replace";
+import { jsonToYDoc, yDocToJSON } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+});
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+// Schema defaults the JSON converter writes out
+const TYPOGRAPHY = { fontFamily: "Times New Roman", fontSize: 12 };
+
+const paragraph = (value: string | any[]) => ({
+  type: "paragraph",
+  attrs: TYPOGRAPHY,
+  content: typeof value === "string" ? [text(value)] : value,
+});
+
+function createDoc(content: any[]): Y.Doc {
+  const yDoc = new Y.Doc();
+  jsonToYDoc({ type: "doc", content }, yDoc, schema, "default");
+  return yDoc;
+}
+
+function readDoc(yDoc: Y.Doc): any[] {
+  return JSON.parse(yDocToJSON(yDoc, schema, "default")).content;
+}
+
+test("findMatches reports literal matches with their position and context", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([
+    paragraph("Definitions"),
+    {
+      type: "bulletList",
+      content: [
+        {
+          type: "listItem",
+          content: [paragraph("The Buyer (a.k.a. buyer) pays.")],
+        },
+      ],
+    },
+  ]);
+
+  const matches = service.findMatches(yDoc, { find: "buyer" });
+
+  t.deepEqual(matches, [
+    {
+      path: [1, 0, 0],
+      from: 4,
+      to: 9,
+      text: "Buyer",
+      replacement: null,
+      before: "The ",
+      after: " (a.k.a. buyer) pays.",
+    },
+    {
+      path: [1, 0, 0],
+      from: 18,
+      to: 23,
+      text: "buyer",
+      replacement: null,
+      before: "The Buyer (a.k.a. ",
+      after: ") pays.",
+    },
+  ]);
+  // Regex characters in a literal search match themselves
+  t.is(service.findMatches(yDoc, { find: "a.k.a." }).length, 1);
+  t.is(service.findMatches(yDoc, { find: "a.k.a.", regex: true }).length, 1);
+  t.is(service.findMatches(yDoc, { find: "a\\.", regex: true }).length, 2);
+  t.is(
+    service.findMatches(yDoc, { find: "buyer", caseSensitive: true }).length,
+    1
+  );
+});
+
+test("whole-word matching skips matches inside longer words", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([
+    paragraph("Seller, Sellers and resellers; seller_1"),
+  ]);
+
+  t.deepEqual(
+    service
+      .findMatches(yDoc, { find: "seller", wholeWord: true })
+      .map((match) => match.text),
+    ["Seller"]
+  );
+  t.is(service.findMatches(yDoc, { find: "seller" }).length, 4);
+});
+
+test("replaceMatches expands regex groups in the replacement", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([paragraph("Due on 2024-03-01 and 2024-04-01.")]);
+
+  const replaced = service.replaceMatches(ROOM_ID, yDoc, {
+    find: "(\\d{4})-(?<month>\\d{2})-(\\d{2})",
+    replace: "$3/$<month>/$1 ($$)",
+    regex: true,
+  });
+
+  t.deepEqual(
+    replaced.map((match) => match.replacement),
+    ["01/03/2024 ($)", "01/04/2024 ($)"]
+  );
+  t.deepEqual(readDoc(yDoc), [
+    paragraph("Due on 01/03/2024 ($) and 01/04/2024 ($)."),
+  ]);
+});
+
+test("replaceMatches keeps the marks of the replaced text", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([
+    paragraph([
+      text("Sold to "),
+      text("the Buyer", [{ type: "bold" }]),
+      text(" by the Seller."),
+    ]),
+    paragraph([text("the buyer", [{ type: "italic" }])]),
+  ]);
+
+  service.replaceMatches(ROOM_ID, yDoc, {
+    find: "the Buyer",
+    replace: "the Purchaser",
+  });
+
+  t.deepEqual(readDoc(yDoc), [
+    paragraph([
+      text("Sold to "),
+      text("the Purchaser", [{ type: "bold" }]),
+      text(" by the Seller."),
+    ]),
+    paragraph([text("the Purchaser", [{ type: "italic" }])]),
+  ]);
+});
+
+test("replaceMatches only edits the characters that change", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([paragraph("The Buyer signs.")]);
+
+  // A collaborator with cursors before and inside the match types concurrently
+  const client = new Y.Doc();
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(yDoc));
+  const clientText = (
+    client.getXmlFragment("default").get(0) as Y.XmlElement
+  ).get(0) as Y.XmlText;
+  const cursor = Y.createRelativePositionFromTypeIndex(clientText, 2);
+  clientText.insert(15, " today");
+
+  service.replaceMatches(ROOM_ID, yDoc, {
+    find: "The Buyer",
+    replace: "The Purchaser",
+  });
+
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(yDoc));
+  Y.applyUpdate(yDoc, Y.encodeStateAsUpdate(client));
+
+  const expected = [paragraph("The Purchaser signs today.")];
+  t.deepEqual(readDoc(yDoc), expected);
+  t.deepEqual(readDoc(client), expected);
+
+  // "The " was kept, so a cursor inside it has not moved
+  const position = Y.createAbsolutePositionFromRelativePosition(cursor, client);
+  t.is(position?.type, clientText);
+  t.is(position?.index, 2);
+});
+
+test("findMatches leaves the document unchanged", (t) => {
+  const service = new FindReplaceService();
+  const yDoc = createDoc([paragraph("The Buyer signs.")]);
+  const before = Y.encodeStateVector(yDoc);
+
+  const matches = service.findMatches(yDoc, {
+    find: "Buyer",
+    replace: "Purchaser",
+  });
+
+  t.is(matches[0].replacement, "Purchaser");
+  t.deepEqual(Y.encodeStateVector(yDoc), before);
+});
+
+test("compilePattern throws for an invalid regular expression", (t) => {
+  const service = new FindReplaceService();
+
+  t.throws(() => service.compilePattern({ find: "(Buyer", regex: true }), {
+    instanceOf: SyntaxError,
+  });
+  t.notThrows(() => service.compilePattern({ find: "(Buyer" }));
+});
+
+test("compilePattern rejects regular expressions that backtrack catastrophically", (t) => {
+  const service = new FindReplaceService();
+
+  t.throws(() => service.compilePattern({ find: "(a+)+$", regex: true }), {
+    instanceOf: UnsafePatternError,
+  });
+  t.notThrows(() => service.compilePattern({ find: "(a+)+$" }));
+  t.notThrows(() =>
+    service.compilePattern({ find: "(\\w+)@(\\w+)", regex: true })
+  );
+});
@@ -0,0 +1,143 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { HistoryService } from "../history";
+import { jsonToYDoc } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+function paragraphDoc(text: string) {
+  return {
+    type: "doc",
+    content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+  };
+}
+
+function firstParagraphText(json: any): string {
+  return json.content[0].content[0].text;
+}
+
+function createTrackedDoc(service: HistoryService, text: string): Y.Doc {
+  const yDoc = new Y.Doc();
+  service.track(yDoc);
+  jsonToYDoc(paragraphDoc(text), yDoc, schema, "default");
+  return yDoc;
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test("track keeps deleted content only when history is enabled", (t) => {
+  const enabledService = new HistoryService({
+    enabled: true,
+    maxSnapshots: 50,
+  });
+  const enabled = new Y.Doc();
+  enabledService.track(enabled);
+  t.true(enabledService.isTracked(enabled));
+
+  const disabledService = new HistoryService({
+    enabled: false,
+    maxSnapshots: 50,
+  });
+  const disabled = new Y.Doc();
+  disabledService.track(disabled);
+  t.false(disabledService.isTracked(disabled));
+});
+
+test("recordSnapshot skips documents that are not tracked", (t) => {
+  const service = new HistoryService({ enabled: true, maxSnapshots: 50 });
+  const yDoc = new Y.Doc();
+
+  t.is(service.recordSnapshot(yDoc, "Draft"), null);
+  t.deepEqual(service.listHistory(yDoc), []);
+});
+
+test("getSnapshotContent renders the state at the time of the snapshot", (t) => {
+  const service = new HistoryService({ enabled: true, maxSnapshots: 50 });
+  const yDoc = createTrackedDoc(service, "First draft");
+
+  const entry = service.recordSnapshot(yDoc, "Sent to client", "checkpoint-1");
+  jsonToYDoc(paragraphDoc("Second draft"), yDoc, schema, "default");
+
+  t.deepEqual(service.listHistory(yDoc), [entry!]);
+  t.is(entry!.checkpointId, "checkpoint-1");
+  t.is(
+    firstParagraphText(service.getSnapshotContent(yDoc, entry!.id)),
+    "First draft"
+  );
+  t.is(service.getSnapshotContent(yDoc, "missing"), null);
+});
+
+test("restoreSnapshot applies the old content as a forward change", (t) => {
+  const service = new HistoryService({ enabled: true, maxSnapshots: 50 });
+  const yDoc = createTrackedDoc(service, "First draft");
+  const entry = service.recordSnapshot(yDoc, "Sent to client")!;
+  jsonToYDoc(paragraphDoc("Second draft"), yDoc, schema, "default");
+
+  const peer = new Y.Doc();
+  Y.applyUpdate(peer, Y.encodeStateAsUpdate(yDoc));
+  const stateBefore = Y.encodeStateVector(yDoc);
+
+  const result = service.restoreSnapshot(ROOM_ID, yDoc, entry.id);
+
+  t.is(result!.restored.id, entry.id);
+  t.is(result!.backup.name, "Before restore of Sent to client");
+
+  // Peers catch up through an ordinary update on top of their state
+  Y.applyUpdate(peer, Y.encodeStateAsUpdate(yDoc, stateBefore));
+  t.is(
+    peer.getXmlFragment("default").toString(),
+    yDoc.getXmlFragment("default").toString()
+  );
+  t.is(
+    firstParagraphText(service.getSnapshotContent(yDoc, result!.backup.id)),
+    "Second draft"
+  );
+  t.regex(yDoc.getXmlFragment("default").toString(), /First draft/);
+});
+
+test("recordSnapshot prunes the oldest snapshots beyond the maximum", (t) => {
+  const service = new HistoryService({ enabled: true, maxSnapshots: 2 });
+  const yDoc = createTrackedDoc(service, "First draft");
+  const clock = sinon.useFakeTimers(new Date("2024-01-01T00:00:00Z"));
+
+  for (const name of ["First", "Second", "Third"]) {
+    service.recordSnapshot(yDoc, name);
+    clock.tick(1000);
+  }
+  clock.restore();
+
+  t.deepEqual(
+    service.listHistory(yDoc).map((entry) => entry.name),
+    ["Second", "Third"]
+  );
+
+  // Pruned snapshot data is garbage collected, unlike deleted content
+  const pruned = Y.encodeStateAsUpdate(yDoc).length;
+  for (const name of ["Fourth", "Fifth"]) {
+    service.recordSnapshot(yDoc, name);
+  }
+  t.true(Y.encodeStateAsUpdate(yDoc).length < pruned * 2);
+  t.is(
+    firstParagraphText(
+      service.getSnapshotContent(yDoc, service.listHistory(yDoc)[0].id)
+    ),
+    "First draft"
+  );
+});
+
+test("restoreSnapshot returns null for unknown snapshots", (t) => {
+  const service = new HistoryService({ enabled: true, maxSnapshots: 50 });
+  const yDoc = createTrackedDoc(service, "First draft");
+
+  t.is(service.restoreSnapshot(ROOM_ID, yDoc, "missing"), null);
+});
@@ -0,0 +1,139 @@
+import test from "ava";
+import sinon from "sinon";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createPersistenceAdapter,
+  FileSystemPersistenceAdapter,
+  VettamPersistenceAdapter,
+} from "../persistence";
+import { VettamAPIService } from "../vettam-api";
+import { logger } from "../../config/logger";
+
+const DRAFT_ID = "123e4567-e89b-12d3-a456-426614174000";
+const VERSION_ID = "123e4567-e89b-12d3-a456-426614174001";
+
+const tempDirectories: string[] = [];
+
+function createTempDirectory(): string {
+  const directory = fs.mkdtempSync(
+    path.join(os.tmpdir(), "hocuspocus-persistence-")
+  );
+  tempDirectories.push(directory);
+  return directory;
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test.after.always(() => {
+  for (const directory of tempDirectories) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test("createPersistenceAdapter returns the Vettam adapter", (t) => {
+  const adapter = createPersistenceAdapter({
+    backend: "vettam",
+    filesystem: { directory: "./unused" },
+  });
+  t.true(adapter instanceof VettamPersistenceAdapter);
+  t.is(adapter.name, "vettam");
+});
+
+test("createPersistenceAdapter returns the filesystem adapter", (t) => {
+  const adapter = createPersistenceAdapter({
+    backend: "filesystem",
+    filesystem: { directory: "./data" },
+  });
+  t.true(adapter instanceof FileSystemPersistenceAdapter);
+  t.is(adapter.name, "filesystem");
+});
+
+test("createPersistenceAdapter throws for unknown backends", (t) => {
+  t.throws(
+    () =>
+      createPersistenceAdapter({
+        backend: "s3" as any,
+        filesystem: { directory: "./data" },
+      }),
+    { message: /Unknown persistence backend: s3/ }
+  );
+});
+
+test("VettamPersistenceAdapter delegates to the Vettam API", async (t) => {
+  const api = new VettamAPIService();
+  const loadStub = sinon
+    .stub(api, "loadDocumentFromDraft")
+    .resolves(new Uint8Array([1, 2, 3]));
+  const saveStub = sinon.stub(api, "saveDocumentSnapshot").resolves();
+  const adapter = new VettamPersistenceAdapter(api);
+
+  t.deepEqual(
+    await adapter.load(DRAFT_ID, VERSION_ID),
+    new Uint8Array([1, 2, 3])
+  );
+  t.true(loadStub.calledWith(DRAFT_ID, VERSION_ID));
+
+  await adapter.save(DRAFT_ID, VERSION_ID, {
+    content: "AQID",
+    checksum: "abc",
+    versionName: "Sent to client",
+  });
+  t.true(
+    saveStub.calledWith(DRAFT_ID, VERSION_ID, "AQID", "abc", "Sent to client")
+  );
+});
+
+test("FileSystemPersistenceAdapter returns null when nothing is stored", async (t) => {
+  const adapter = new FileSystemPersistenceAdapter(createTempDirectory());
+  t.is(await adapter.load(DRAFT_ID, VERSION_ID), null);
+});
+
+test("FileSystemPersistenceAdapter round-trips a snapshot", async (t) => {
+  const directory = createTempDirectory();
+  const adapter = new FileSystemPersistenceAdapter(directory);
+  const update = new Uint8Array([5, 4, 3, 2, 1]);
+
+  await adapter.save(DRAFT_ID, VERSION_ID, {
+    content: Buffer.from(update).toString("base64"),
+    checksum: "checksum-1",
+  });
+
+  t.deepEqual(await adapter.load(DRAFT_ID, VERSION_ID), update);
+
+  const metadata = JSON.parse(
+    fs.readFileSync(
+      path.join(directory, DRAFT_ID, `${VERSION_ID}.json`),
+      "utf8"
+    )
+  );
+  t.is(metadata.checksum, "checksum-1");
+  t.truthy(metadata.savedAt);
+});
+
+test("FileSystemPersistenceAdapter skips unchanged snapshots", async (t) => {
+  const directory = createTempDirectory();
+  const adapter = new FileSystemPersistenceAdapter(directory);
+  const snapshot = { content: "AQID", checksum: "same" };
+
+  await adapter.save(DRAFT_ID, VERSION_ID, snapshot);
+  const metadataPath = path.join(directory, DRAFT_ID, `${VERSION_ID}.json`);
+  const firstWrite = fs.readFileSync(metadataPath, "utf8");
+
+  await adapter.save(DRAFT_ID, VERSION_ID, snapshot);
+  t.is(fs.readFileSync(metadataPath, "utf8"), firstWrite);
+});
+
+test("FileSystemPersistenceAdapter rejects non-UUID identifiers", async (t) => {
+  const adapter = new FileSystemPersistenceAdapter(createTempDirectory());
+  await t.throwsAsync(() => adapter.load("../../etc", VERSION_ID), {
+    message: /Invalid draft or version ID/,
+  });
+});
@@ -0,0 +1,140 @@
+import test from "ava";
+import * as Y from "yjs";
+import sinon from "sinon";
+import { SuggestionService } from "../suggestions";
+import { logger } from "../../config/logger";
+import { yDocToJSON, jsonToYDoc } from "../../utils/ydoc/converters";
+import { schema } from "../../utils/ydoc/schema";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+function insertion(id: string, author = "alice") {
+  return {
+    type: "insertion",
+    attrs: { id, author, timestamp: "2024-01-01T00:00:00.000Z" },
+  };
+}
+
+function deletion(id: string, author = "bob") {
+  return {
+    type: "deletion",
+    attrs: { id, author, timestamp: "2024-01-02T00:00:00.000Z" },
+  };
+}
+
+// "The rent is [due monthly](deleted by bob)[payable quarterly](inserted by alice)."
+function createSuggestedDoc(): Y.Doc {
+  const yDoc = new Y.Doc();
+  jsonToYDoc(
+    {
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "The rent is " },
+            { type: "text", text: "due monthly", marks: [deletion("d1")] },
+            {
+              type: "text",
+              text: "payable ",
+              marks: [insertion("i1")],
+            },
+            {
+              type: "text",
+              text: "quarterly",
+              marks: [{ type: "bold" }, insertion("i1")],
+            },
+            { type: "text", text: "." },
+          ],
+        },
+      ],
+    },
+    yDoc,
+    schema,
+    "default"
+  );
+  return yDoc;
+}
+
+function paragraphText(yDoc: Y.Doc): string {
+  const json = JSON.parse(yDocToJSON(yDoc, schema, "default"));
+  return json.content[0].content.map((node: any) => node.text).join("");
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+});
+
+test("listSuggestions merges adjacent text with the same suggestion mark", (t) => {
+  const service = new SuggestionService();
+
+  t.deepEqual(service.listSuggestions(createSuggestedDoc()), [
+    {
+      id: "d1",
+      type: "deletion",
+      author: "bob",
+      timestamp: "2024-01-02T00:00:00.000Z",
+      text: "due monthly",
+    },
+    {
+      id: "i1",
+      type: "insertion",
+      author: "alice",
+      timestamp: "2024-01-01T00:00:00.000Z",
+      text: "payable quarterly",
+    },
+  ]);
+});
+
+test("accepting keeps insertions and drops deleted text", (t) => {
+  const service = new SuggestionService();
+  const yDoc = createSuggestedDoc();
+
+  t.is(service.resolveSuggestions(ROOM_ID, yDoc, "accept"), 2);
+
+  t.is(paragraphText(yDoc), "The rent is payable quarterly.");
+  t.deepEqual(service.listSuggestions(yDoc), []);
+
+  // Other marks on accepted text survive
+  const json = JSON.parse(yDocToJSON(yDoc, schema, "default"));
+  t.deepEqual(json.content[0].content[1], {
+    type: "text",
+    text: "quarterly",
+    marks: [{ type: "bold" }],
+  });
+});
+
+test("rejecting drops insertions and restores deleted text", (t) => {
+  const service = new SuggestionService();
+  const yDoc = createSuggestedDoc();
+
+  t.is(service.resolveSuggestions(ROOM_ID, yDoc, "reject"), 2);
+
+  t.is(paragraphText(yDoc), "The rent is due monthly.");
+  t.deepEqual(service.listSuggestions(yDoc), []);
+});
+
+test("resolves only the selected suggestions", (t) => {
+  const service = new SuggestionService();
+  const yDoc = createSuggestedDoc();
+
+  t.is(service.resolveSuggestions(ROOM_ID, yDoc, "accept", { ids: ["d1"] }), 1);
+
+  t.is(paragraphText(yDoc), "The rent is payable quarterly.");
+  t.deepEqual(
+    service.listSuggestions(yDoc).map((suggestion) => suggestion.id),
+    ["i1"]
+  );
+
+  t.is(
+    service.resolveSuggestions(ROOM_ID, yDoc, "reject", { author: "bob" }),
+    0
+  );
+  t.is(
+    service.resolveSuggestions(ROOM_ID, yDoc, "reject", { author: "alice" }),
+    1
+  );
+  t.is(paragraphText(yDoc), "The rent is .");
+});
@@ -0,0 +1,118 @@
+import test from "ava";
+import sinon from "sinon";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as Y from "yjs";
+import { UpdateJournal, createUpdateJournal } from "../update-journal";
+import { logger } from "../../config/logger";
+
+const ROOM_ID =
+  "123e4567-e89b-12d3-a456-426614174000:123e4567-e89b-12d3-a456-426614174001";
+
+const tempDirectories: string[] = [];
+
+function createTempDirectory(): string {
+  const directory = fs.mkdtempSync(
+    path.join(os.tmpdir(), "hocuspocus-journal-")
+  );
+  tempDirectories.push(directory);
+  return directory;
+}
+
+function journalPath(directory: string): string {
+  return path.join(directory, `${ROOM_ID.replace(":", "_")}.journal`);
+}
+
+function createUpdate(text: string): Uint8Array {
+  const doc = new Y.Doc();
+  doc.getText("content").insert(0, text);
+  return Y.encodeStateAsUpdate(doc);
+}
+
+test.beforeEach(() => {
+  sinon.restore();
+  sinon.stub(logger, "info");
+  sinon.stub(logger, "warn");
+  sinon.stub(logger, "error");
+  sinon.stub(logger, "debug");
+});
+
+test.after.always(() => {
+  for (const directory of tempDirectories) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test("createUpdateJournal returns null when disabled", (t) => {
+  t.is(createUpdateJournal({ enabled: false, directory: "./unused" }), null);
+  t.true(
+    createUpdateJournal({ enabled: true, directory: "./unused" }) instanceof
+      UpdateJournal
+  );
+});
+
+test("replay returns nothing for a room without a journal", async (t) => {
+  const journal = new UpdateJournal(createTempDirectory());
+  t.deepEqual(await journal.replay(ROOM_ID), []);
+  t.is(journal.getPosition(ROOM_ID), 0);
+});
+
+test("appended updates are replayed in order", async (t) => {
+  const directory = createTempDirectory();
+  const journal = new UpdateJournal(directory);
+  const first = createUpdate("first");
+  const second = createUpdate("second");
+
+  journal.append(ROOM_ID, first);
+  journal.append(ROOM_ID, second);
+  await journal.flush(ROOM_ID);
+
+  // A fresh instance simulates a restart after a crash
+  const restarted = new UpdateJournal(directory);
+  t.deepEqual(await restarted.replay(ROOM_ID), [first, second]);
+  t.is(
+    restarted.getPosition(ROOM_ID),
+    fs.statSync(journalPath(directory)).size
+  );
+});
+
+test("replay truncates a torn trailing record", async (t) => {
+  const directory = createTempDirectory();
+  const journal = new UpdateJournal(directory);
+  const update = createUpdate("complete");
+
+  journal.append(ROOM_ID, update);
+  await journal.flush(ROOM_ID);
+  const validSize = fs.statSync(journalPath(directory)).size;
+  fs.appendFileSync(journalPath(directory), Buffer.from([0, 0, 0, 50, 1, 2]));
+
+  const restarted = new UpdateJournal(directory);
+  t.deepEqual(await restarted.replay(ROOM_ID), [update]);
+  t.is(fs.statSync(journalPath(directory)).size, validSize);
+});
+
+test("compact removes records covered by a snapshot and keeps later ones", async (t) => {
+  const directory = createTempDirectory();
+  const journal = new UpdateJournal(directory);
+  const covered = createUpdate("covered");
+  const later = createUpdate("later");
+
+  journal.append(ROOM_ID, covered);
+  const mark = journal.getPosition(ROOM_ID);
+  journal.append(ROOM_ID, later);
+  await journal.compact(ROOM_ID, mark);
+
+  t.deepEqual(await new UpdateJournal(directory).replay(ROOM_ID), [later]);
+});
+
+test("compact deletes the journal when everything is covered", async (t) => {
+  const directory = createTempDirectory();
+  const journal = new UpdateJournal(directory);
+
+  journal.append(ROOM_ID, createUpdate("covered"));
+  await journal.compact(ROOM_ID, journal.getPosition(ROOM_ID));
+
+  t.false(fs.existsSync(journalPath(directory)));
+  t.is(journal.getPosition(ROOM_ID), 0);
+});
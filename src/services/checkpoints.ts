@@ -0,0 +1,87 @@
+import * as Y from "yjs";
+import * as crypto from "crypto";
+import { documentService, DocumentService } from "./document";
+import { historyService, HistoryService } from "./history";
+import { logger } from "../config/logger";
+import { DocumentCheckpoint, DocumentHistoryEntry } from "../types";
+
+// Name of the Y.Map holding checkpoint records, next to the "default" fragment
+const CHECKPOINTS_MAP = "checkpoints";
+
+/**
+ * Named version checkpoints of a document
+ * Checkpoint records live inside the Y.Doc itself, so they are persisted
+ * with every snapshot and synced to connected clients like any other change
+ */
+export class CheckpointService {
+  constructor(
+    private documents: DocumentService = documentService,
+    private history: HistoryService = historyService
+  ) {}
+
+  /**
+   * Record a named checkpoint and immediately save a snapshot under that name
+   * Tracked documents also get a history snapshot the checkpoint can be restored from
+   */
+  async createCheckpoint(
+    roomId: string,
+    yDoc: Y.Doc,
+    name: string,
+    createdBy?: string
+  ): Promise<DocumentCheckpoint> {
+    const checkpoint: DocumentCheckpoint = {
+      id: crypto.randomUUID(),
+      name,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (createdBy) {
+      checkpoint.createdBy = createdBy;
+    }
+
+    const checkpoints = this.getCheckpointMap(yDoc);
+    let historyEntry: DocumentHistoryEntry | null = null;
+    yDoc.transact(() => {
+      historyEntry = this.history.recordSnapshot(yDoc, name, checkpoint.id);
+      checkpoints.set(checkpoint.id, checkpoint);
+    });
+
+    const saved = await this.documents.saveSnapshot(roomId, name);
+
+    if (!saved) {
+      // Never list a checkpoint the backend has no snapshot for
+      yDoc.transact(() => {
+        checkpoints.delete(checkpoint.id);
+        if (historyEntry) {
+          this.history.removeSnapshot(yDoc, historyEntry.id);
+        }
+      });
+      throw new Error("Failed to save checkpoint snapshot");
+    }
+
+    logger.info("Checkpoint created", {
+      roomId,
+      checkpointId: checkpoint.id,
+      name,
+    });
+
+    return checkpoint;
+  }
+
+  /**
+   * List the checkpoints of a document, oldest first
+   */
+  listCheckpoints(yDoc: Y.Doc): DocumentCheckpoint[] {
+    return Array.from(this.getCheckpointMap(yDoc).values()).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  private getCheckpointMap(yDoc: Y.Doc): Y.Map<DocumentCheckpoint> {
+    return yDoc.getMap<DocumentCheckpoint>(CHECKPOINTS_MAP);
+  }
+}
+
+// Export a singleton instance
+export const checkpointService = new CheckpointService();
+export default checkpointService;
@@ -0,0 +1,397 @@
+import * as Y from "yjs";
+import * as crypto from "crypto";
+import { logger } from "../config/logger";
+import { schema } from "../utils/ydoc/schema";
+import {
+  documentOperationService,
+  DocumentOperationService,
+  pathOf,
+} from "./document-operations";
+import {
+  BlockTarget,
+  CommentRange,
+  CommentThread,
+  CommentThreadStatus,
+  DocumentComment,
+  User,
+} from "../types";
+
+// Name of the Y.Map holding comment threads, next to the "default" fragment
+const COMMENTS_MAP = "comments";
+
+/**
+ * A comment anchored to text that cannot be commented on
+ */
+export class CommentAnchorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentAnchorError";
+  }
+}
+
+// Text a new thread is anchored to: character offsets within a text block
+// (inline nodes count as one), the whole block when omitted
+export interface CommentAnchor {
+  target: BlockTarget;
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Comment threads anchored to ranges of a document's text
+ * Threads live in a "comments" Y.Map of the Y.Doc, each a Y.Map whose range
+ * is a pair of Y.RelativePositions, so the anchor follows the text through
+ * concurrent edits. Replies are appended to a Y.Array, so concurrent replies
+ * are all kept
+ */
+export class CommentService {
+  constructor(
+    private operations: DocumentOperationService = documentOperationService
+  ) {}
+
+  /**
+   * List the threads of a document in order of their position, threads
+   * whose text has been deleted last
+   */
+  listThreads(yDoc: Y.Doc, status?: CommentThreadStatus): CommentThread[] {
+    return Array.from(this.getCommentMap(yDoc).values())
+      .map((thread) => this.toThread(yDoc, thread))
+      .filter((thread) => !status || thread.status === status)
+      .sort(compareThreads);
+  }
+
+  /**
+   * Read one thread; null if it does not exist
+   */
+  getThread(yDoc: Y.Doc, threadId: string): CommentThread | null {
+    const thread = this.getCommentMap(yDoc).get(threadId);
+    return thread ? this.toThread(yDoc, thread) : null;
+  }
+
+  /**
+   * Start a thread on a range of text with its first comment
+   * @throws DocumentOperationError if the target block does not exist
+   * @throws CommentAnchorError if the range is not text of a text block
+   */
+  createThread(
+    roomId: string,
+    yDoc: Y.Doc,
+    anchor: CommentAnchor,
+    author: User,
+    body: string
+  ): CommentThread {
+    const block = this.operations.findTarget(yDoc, anchor.target);
+    if (!schema.nodes[block.nodeName]?.isTextblock) {
+      throw new CommentAnchorError(`${block.nodeName} is not a text block`);
+    }
+
+    const length = blockLength(block);
+    const from = anchor.from ?? 0;
+    const to = anchor.to ?? length;
+    if (from >= to || to > length) {
+      throw new CommentAnchorError(
+        `range ${from}-${to} is outside the block's ${length} characters`
+      );
+    }
+
+    const id = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+
+    yDoc.transact(() => {
+      const thread = new Y.Map<unknown>();
+      this.getCommentMap(yDoc).set(id, thread);
+      thread.set("id", id);
+      // The start stays before the first character and the end after the
+      // last one, so text typed at either edge is not commented
+      thread.set(
+        "start",
+        Y.relativePositionToJSON(relativePosition(block, from, "start"))
+      );
+      thread.set(
+        "end",
+        Y.relativePositionToJSON(relativePosition(block, to, "end"))
+      );
+      thread.set("quote", rangeText(block, from, to));
+      thread.set("createdAt", createdAt);
+      thread.set("resolved", false);
+      thread.set("resolvedBy", null);
+      thread.set("resolvedAt", null);
+      const comments = new Y.Array<DocumentComment>();
+      thread.set("comments", comments);
+      comments.push([{ id: crypto.randomUUID(), author, body, createdAt }]);
+    });
+
+    logger.info("Comment thread created", {
+      roomId,
+      threadId: id,
+      userId: author.id,
+    });
+
+    return this.getThread(yDoc, id)!;
+  }
+
+  /**
+   * Reply to a thread; null if the thread does not exist
+   */
+  addComment(
+    roomId: string,
+    yDoc: Y.Doc,
+    threadId: string,
+    author: User,
+    body: string
+  ): DocumentComment | null {
+    const thread = this.getCommentMap(yDoc).get(threadId);
+    if (!thread) {
+      return null;
+    }
+
+    const comment: DocumentComment = {
+      id: crypto.randomUUID(),
+      author,
+      body,
+      createdAt: new Date().toISOString(),
+    };
+    (thread.get("comments") as Y.Array<DocumentComment>).push([comment]);
+
+    logger.info("Comment added", {
+      roomId,
+      threadId,
+      commentId: comment.id,
+      userId: author.id,
+    });
+
+    return comment;
+  }
+
+  /**
+   * Resolve a thread, or reopen it; null if the thread does not exist
+   */
+  setResolved(
+    roomId: string,
+    yDoc: Y.Doc,
+    threadId: string,
+    resolved: boolean,
+    user: User
+  ): CommentThread | null {
+    const thread = this.getCommentMap(yDoc).get(threadId);
+    if (!thread) {
+      return null;
+    }
+
+    yDoc.transact(() => {
+      thread.set("resolved", resolved);
+      thread.set("resolvedBy", resolved ? user : null);
+      thread.set("resolvedAt", resolved ? new Date().toISOString() : null);
+    });
+
+    logger.info(
+      resolved ? "Comment thread resolved" : "Comment thread reopened",
+      {
+        roomId,
+        threadId,
+        userId: user.id,
+      }
+    );
+
+    return this.toThread(yDoc, thread);
+  }
+
+  private toThread(yDoc: Y.Doc, thread: Y.Map<unknown>): CommentThread {
+    const resolved = thread.get("resolved") === true;
+    return {
+      id: thread.get("id") as string,
+      range: resolveRange(yDoc, thread.get("start"), thread.get("end")),
+      quote: (thread.get("quote") as string) ?? "",
+      status: resolved ? "resolved" : "open",
+      createdAt: thread.get("createdAt") as string,
+      resolvedBy: (thread.get("resolvedBy") as User | null) ?? null,
+      resolvedAt: (thread.get("resolvedAt") as string | null) ?? null,
+      comments:
+        (
+          thread.get("comments") as Y.Array<DocumentComment> | undefined
+        )?.toArray() ?? [],
+    };
+  }
+
+  private getCommentMap(yDoc: Y.Doc): Y.Map<Y.Map<unknown>> {
+    return yDoc.getMap<Y.Map<unknown>>(COMMENTS_MAP);
+  }
+}
+
+/**
+ * Relative position of a block offset, in the text run holding the character
+ * after it (start) or before it (end); inline nodes are children of the block
+ */
+function relativePosition(
+  block: Y.XmlElement,
+  offset: number,
+  edge: "start" | "end"
+): Y.RelativePosition {
+  const children = block.toArray();
+  let childOffset = 0;
+
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+    const length = childLength(child);
+    const inChild =
+      edge === "start"
+        ? offset < childOffset + length
+        : offset <= childOffset + length;
+    if (!inChild) {
+      childOffset += length;
+      continue;
+    }
+
+    const assoc = edge === "start" ? 0 : -1;
+    if (child instanceof Y.XmlText) {
+      return Y.createRelativePositionFromTypeIndex(
+        child,
+        offset - childOffset,
+        assoc
+      );
+    }
+    return Y.createRelativePositionFromTypeIndex(
+      block,
+      edge === "start" ? index : index + 1,
+      assoc
+    );
+  }
+
+  return Y.createRelativePositionFromTypeIndex(block, children.length, -1);
+}
+
+/**
+ * Current block and offsets of a thread's stored range; null once either end
+ * is gone or the ends no longer share a block
+ */
+function resolveRange(
+  yDoc: Y.Doc,
+  start: unknown,
+  end: unknown
+): CommentRange | null {
+  const from = resolveOffset(yDoc, start);
+  const to = resolveOffset(yDoc, end);
+  if (!from || !to || from.block !== to.block || from.offset > to.offset) {
+    return null;
+  }
+
+  return {
+    path: pathOf(from.block),
+    from: from.offset,
+    to: to.offset,
+    text: rangeText(from.block, from.offset, to.offset),
+  };
+}
+
+function resolveOffset(
+  yDoc: Y.Doc,
+  position: unknown
+): { block: Y.XmlElement; offset: number } | null {
+  if (!position) {
+    return null;
+  }
+
+  const absolute = Y.createAbsolutePositionFromRelativePosition(
+    Y.createRelativePositionFromJSON(position),
+    yDoc
+  );
+  if (!absolute) {
+    return null;
+  }
+
+  // A position in a text run, or between the inline nodes of a block
+  const block =
+    absolute.type instanceof Y.XmlText ? absolute.type.parent : absolute.type;
+  if (!(block instanceof Y.XmlElement) || isDeleted(block)) {
+    return null;
+  }
+
+  let offset = 0;
+  for (const [index, child] of block.toArray().entries()) {
+    if (child === absolute.type) {
+      return { block, offset: offset + absolute.index };
+    }
+    if (block === absolute.type && index === absolute.index) {
+      return { block, offset };
+    }
+    offset += childLength(child);
+  }
+  return block === absolute.type ? { block, offset } : null;
+}
+
+/**
+ * Whether a type or any of its ancestors has been deleted
+ */
+function isDeleted(type: Y.AbstractType<any>): boolean {
+  for (
+    let current: Y.AbstractType<any> | null = type;
+    current;
+    current = current.parent
+  ) {
+    if (current._item?.deleted) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function childLength(child: Y.XmlElement | Y.XmlText | Y.XmlHook): number {
+  return child instanceof Y.XmlText ? child.length : 1;
+}
+
+function blockLength(block: Y.XmlElement): number {
+  return block.toArray().reduce((sum, child) => sum + childLength(child), 0);
+}
+
+/**
+ * Text between two offsets of a block; inline nodes have no text
+ */
+function rangeText(block: Y.XmlElement, from: number, to: number): string {
+  let text = "";
+  let offset = 0;
+  for (const child of block.toArray()) {
+    const length = childLength(child);
+    if (child instanceof Y.XmlText && offset < to && offset + length > from) {
+      const runText = child
+        .toDelta()
+        .map((op: { insert: unknown }) =>
+          typeof op.insert === "string" ? op.insert : ""
+        )
+        .join("");
+      text += runText.slice(
+        Math.max(from - offset, 0),
+        Math.min(to - offset, length)
+      );
+    }
+    offset += length;
+  }
+  return text;
+}
+
+/**
+ * Threads by position in the document, then by creation time
+ */
+function compareThreads(a: CommentThread, b: CommentThread): number {
+  if (!a.range || !b.range) {
+    return (
+      Number(!a.range) - Number(!b.range) ||
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  const length = Math.min(a.range.path.length, b.range.path.length);
+  for (let index = 0; index < length; index++) {
+    if (a.range.path[index] !== b.range.path[index]) {
+      return a.range.path[index] - b.range.path[index];
+    }
+  }
+  return (
+    a.range.path.length - b.range.path.length ||
+    a.range.from - b.range.from ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+// Export a singleton instance
+export const commentService = new CommentService();
+export default commentService;
@@ -0,0 +1,137 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { serverConfig } from "../config";
+import { logger } from "../config/logger";
+import { RegexMatcher } from "../utils/regex_matcher";
+import { DeadLetterEntry, DocumentSnapshot } from "../types";
+
+interface StoredDeadLetter extends DeadLetterEntry {
+  content: string;
+}
+
+/**
+ * Local store of document states whose snapshot save kept failing
+ * One file per room; a newer failure replaces the older entry since a
+ * full state update already contains everything before it
+ */
+export class DeadLetterStore {
+  constructor(private directory: string) {}
+
+  /**
+   * Record an unsaved document state
+   */
+  async add(
+    roomId: string,
+    snapshot: DocumentSnapshot,
+    error: string
+  ): Promise<void> {
+    const existing = await this.read(roomId);
+
+    const entry: StoredDeadLetter = {
+      roomId,
+      checksum: snapshot.checksum,
+      content: snapshot.content,
+      error,
+      failures: (existing?.failures ?? 0) + 1,
+      firstFailedAt: existing?.firstFailedAt ?? new Date().toISOString(),
+      lastFailedAt: new Date().toISOString(),
+    };
+
+    const entryPath = this.getEntryPath(roomId);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), "utf8");
+    await fs.rename(tempPath, entryPath);
+
+    logger.warn("Document state written to dead-letter store", {
+      roomId,
+      checksum: entry.checksum,
+      failures: entry.failures,
+    });
+  }
+
+  /**
+   * Get the stored snapshot of a room, if any
+   */
+  async get(roomId: string): Promise<DocumentSnapshot | null> {
+    const entry = await this.read(roomId);
+    return entry ? { content: entry.content, checksum: entry.checksum } : null;
+  }
+
+  /**
+   * List all dead-lettered rooms (without their content)
+   */
+  async list(): Promise<DeadLetterEntry[]> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: DeadLetterEntry[] = [];
+
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const roomId = file.slice(0, -".json".length).replace("_", ":");
+      const entry = await this.read(roomId);
+      if (entry) {
+        const { content: _content, ...summary } = entry;
+        entries.push(summary);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Remove a room's entry once its state has been saved
+   */
+  async remove(roomId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.getEntryPath(roomId));
+      logger.info("Dead-letter entry removed", { roomId });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async read(roomId: string): Promise<StoredDeadLetter | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getEntryPath(roomId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      logger.error("Failed to read dead-letter entry", {
+        roomId,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private getEntryPath(roomId: string): string {
+    if (!RegexMatcher.matchUUIDPair(roomId)) {
+      throw new Error(`Invalid room ID for dead-letter store: ${roomId}`);
+    }
+    return path.join(this.directory, `${roomId.replace(":", "_")}.json`);
+  }
+}
+
+/**
+ * Create the dead-letter store configured for this server
+ */
+export function createDeadLetterStore(
+  directory: string = serverConfig.snapshotRetry.deadLetterDirectory
+): DeadLetterStore {
+  return new DeadLetterStore(directory);
+}
@@ -0,0 +1,618 @@
+import * as Y from "yjs";
+import { Node as ProseMirrorNode } from "prosemirror-model";
+import { yXmlFragmentToProsemirrorJSON } from "y-prosemirror";
+import { logger } from "../config/logger";
+import { schema } from "../utils/ydoc/schema";
+import {
+  AttributeValue,
+  BlockTarget,
+  DocumentOperation,
+  DocumentOperationResult,
+  OperationContent,
+} from "../types";
+
+const OPERATION_TYPES: DocumentOperation["op"][] = [
+  "insert_block",
+  "replace_block",
+  "append_to_section",
+  "set_attribute",
+  "apply_mark",
+];
+
+/**
+ * An operation that is malformed, addresses a missing block or would leave
+ * the document invalid; none of the batch has been applied
+ */
+export class DocumentOperationError extends Error {
+  constructor(
+    // Why the operation failed, without the operation's index
+    public readonly reason: string,
+    public readonly index: number
+  ) {
+    super(`operations[${index}]: ${reason}`);
+    this.name = "DocumentOperationError";
+  }
+}
+
+type BlockParent = Y.XmlFragment | Y.XmlElement;
+
+interface ResolvedBlock {
+  element: Y.XmlElement;
+  parent: BlockParent;
+  index: number;
+}
+
+/**
+ * Fine-grained edits of a document's "default" fragment
+ * Each operation touches only the blocks it addresses, so collaborators'
+ * concurrent edits and cursors elsewhere in the document are preserved
+ */
+export class DocumentOperationService {
+  /**
+   * Validate the shape of a batch of operations from a request body
+   */
+  parseOperations(value: unknown[]): DocumentOperation[] {
+    return value.map((operation, index) =>
+      this.parseOperation(operation, index)
+    );
+  }
+
+  /**
+   * Apply a batch of operations in one transaction
+   * The batch is first run on a copy of the document and checked against
+   * the schema after every operation, so it is applied entirely or not at all
+   */
+  applyOperations(
+    roomId: string,
+    yDoc: Y.Doc,
+    operations: DocumentOperation[]
+  ): DocumentOperationResult[] {
+    // Only the content is copied, without the rest of the Y.Doc (such as
+    // its snapshot history) or deleted items, so the cost follows its size
+    const scratch = new Y.Doc();
+    try {
+      scratch.getXmlFragment("default").insert(
+        0,
+        yDoc
+          .getXmlFragment("default")
+          .toArray()
+          .flatMap((node) => (node instanceof Y.XmlHook ? [] : [node.clone()]))
+      );
+      operations.forEach((operation, index) => {
+        this.runOperation(scratch, operation, index);
+        this.checkDocument(scratch, index);
+      });
+    } finally {
+      scratch.destroy();
+    }
+
+    let results: DocumentOperationResult[] = [];
+    yDoc.transact(() => {
+      results = operations.map((operation, index) => ({
+        op: operation.op,
+        paths: this.runOperation(yDoc, operation, index).map(pathOf),
+      }));
+    });
+
+    logger.info("Document operations applied", {
+      roomId,
+      operations: operations.map((operation) => operation.op),
+    });
+
+    return results;
+  }
+
+  /**
+   * Run one operation, returning the blocks it wrote
+   */
+  private runOperation(
+    yDoc: Y.Doc,
+    operation: DocumentOperation,
+    index: number
+  ): Y.XmlElement[] {
+    const fragment = yDoc.getXmlFragment("default");
+
+    switch (operation.op) {
+      case "insert_block": {
+        const blocks = this.toBlocks(operation.content, index);
+        const anchor = operation.after ?? operation.before;
+        if (!anchor) {
+          fragment.insert(fragment.length, blocks);
+          return blocks;
+        }
+        const block = this.resolveBlock(fragment, anchor, index);
+        block.parent.insert(block.index + (operation.after ? 1 : 0), blocks);
+        return blocks;
+      }
+
+      case "replace_block": {
+        const blocks = this.toBlocks(operation.content, index);
+        const block = this.resolveBlock(fragment, operation.target, index);
+        block.parent.delete(block.index, 1);
+        block.parent.insert(block.index, blocks);
+        return blocks;
+      }
+
+      case "append_to_section": {
+        const blocks = this.toBlocks(operation.content, index);
+        const heading = this.resolveBlock(fragment, operation.heading, index);
+        if (heading.element.nodeName !== "heading") {
+          throw new DocumentOperationError(
+            `${heading.element.nodeName} is not a heading`,
+            index
+          );
+        }
+
+        // The section ends at the next heading of the same or a higher level
+        const level = headingLevel(heading.element);
+        const siblings = heading.parent.toArray();
+        let end = heading.index + 1;
+        while (
+          end < siblings.length &&
+          !(
+            siblings[end] instanceof Y.XmlElement &&
+            (siblings[end] as Y.XmlElement).nodeName === "heading" &&
+            headingLevel(siblings[end] as Y.XmlElement) <= level
+          )
+        ) {
+          end++;
+        }
+        heading.parent.insert(end, blocks);
+        return blocks;
+      }
+
+      case "set_attribute": {
+        const block = this.resolveBlock(fragment, operation.target, index);
+        const element = block.element;
+        // Unlike those y-prosemirror writes, attributes set here can be
+        // numbers or arrays too
+        const attributes: Y.XmlElement<Record<string, AttributeValue>> =
+          element;
+        const specs = schema.nodes[element.nodeName]?.spec.attrs || {};
+
+        for (const [key, value] of Object.entries(operation.attrs)) {
+          if (!(key in specs)) {
+            throw new DocumentOperationError(
+              `${element.nodeName} has no attribute "${key}"`,
+              index
+            );
+          }
+          // Attributes at their default are not stored
+          if (value === null) {
+            attributes.removeAttribute(key);
+          } else {
+            attributes.setAttribute(key, value);
+          }
+        }
+        return [element];
+      }
+
+      case "apply_mark": {
+        const block = this.resolveBlock(fragment, operation.target, index);
+        this.applyMark(block.element, operation, index);
+        return [block.element];
+      }
+    }
+  }
+
+  private applyMark(
+    element: Y.XmlElement,
+    operation: Extract<DocumentOperation, { op: "apply_mark" }>,
+    index: number
+  ): void {
+    const nodeType = schema.nodes[element.nodeName];
+    if (!nodeType?.isTextblock) {
+      throw new DocumentOperationError(
+        `${element.nodeName} is not a text block`,
+        index
+      );
+    }
+
+    const markType = schema.marks[operation.mark.type];
+    if (!markType) {
+      throw new DocumentOperationError(
+        `unknown mark "${operation.mark.type}"`,
+        index
+      );
+    }
+    if (!nodeType.allowsMarkType(markType)) {
+      throw new DocumentOperationError(
+        `${element.nodeName} does not allow ${markType.name} marks`,
+        index
+      );
+    }
+
+    let attrs: Record<string, unknown>;
+    try {
+      attrs = markType.create(operation.mark.attrs ?? null).attrs;
+    } catch (error) {
+      throw new DocumentOperationError(
+        `invalid ${markType.name} mark: ${(error as Error).message}`,
+        index
+      );
+    }
+
+    // Text runs are Y.XmlText children; inline nodes count as one character
+    const children = element.toArray();
+    const length = children.reduce(
+      (sum, child) => sum + (child instanceof Y.XmlText ? child.length : 1),
+      0
+    );
+    const from = operation.from ?? 0;
+    const to = operation.to ?? length;
+    if (from >= to || to > length) {
+      throw new DocumentOperationError(
+        `range ${from}-${to} is outside the block's ${length} characters`,
+        index
+      );
+    }
+
+    let offset = 0;
+    for (const child of children) {
+      const childLength = child instanceof Y.XmlText ? child.length : 1;
+      const start = Math.max(from, offset);
+      const end = Math.min(to, offset + childLength);
+      if (child instanceof Y.XmlText && end > start) {
+        child.format(start - offset, end - start, { [markType.name]: attrs });
+      }
+      offset += childLength;
+    }
+  }
+
+  private resolveBlock(
+    fragment: Y.XmlFragment,
+    target: BlockTarget,
+    index: number
+  ): ResolvedBlock {
+    if (target.path) {
+      let parent: BlockParent = fragment;
+      let resolved: ResolvedBlock | null = null;
+      for (const childIndex of target.path) {
+        const child: unknown =
+          childIndex < parent.length ? parent.get(childIndex) : null;
+        if (!(child instanceof Y.XmlElement)) {
+          throw new DocumentOperationError(
+            `no block at path [${target.path.join(", ")}]`,
+            index
+          );
+        }
+        resolved = { element: child, parent, index: childIndex };
+        parent = child;
+      }
+      return resolved!;
+    }
+
+    const found = findBlock(fragment, (element) =>
+      target.id !== undefined
+        ? element.getAttribute("id") === target.id
+        : element.nodeName === "heading" &&
+          (target.level === undefined ||
+            headingLevel(element) === target.level) &&
+          normalizeText(elementText(element)) === normalizeText(target.heading!)
+    );
+    if (!found) {
+      throw new DocumentOperationError(
+        target.id !== undefined
+          ? `no block with id "${target.id}"`
+          : `no heading "${target.heading}"`,
+        index
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Convert operation content to Y.js blocks, checked against the schema
+   */
+  private toBlocks(content: OperationContent, index: number): Y.XmlElement[] {
+    const nodes = Array.isArray(content) ? content : [content];
+    return nodes.map((json) => {
+      let node: ProseMirrorNode;
+      try {
+        node = schema.nodeFromJSON(json);
+        node.check();
+      } catch (error) {
+        throw new DocumentOperationError(
+          `invalid content: ${(error as Error).message}`,
+          index
+        );
+      }
+      if (node.isInline) {
+        throw new DocumentOperationError(
+          `invalid content: ${node.type.name} is not a block`,
+          index
+        );
+      }
+      return toYElement(node);
+    });
+  }
+
+  private checkDocument(yDoc: Y.Doc, index: number): void {
+    try {
+      schema
+        .nodeFromJSON(
+          yXmlFragmentToProsemirrorJSON(yDoc.getXmlFragment("default"))
+        )
+        .check();
+    } catch (error) {
+      throw new DocumentOperationError(
+        `would leave the document invalid: ${(error as Error).message}`,
+        index
+      );
+    }
+  }
+
+  private parseOperation(value: unknown, index: number): DocumentOperation {
+    const fail = (message: string): never => {
+      throw new DocumentOperationError(message, index);
+    };
+
+    if (!isObject(value)) {
+      return fail("operation must be an object");
+    }
+    const op = value.op as DocumentOperation["op"];
+    if (!OPERATION_TYPES.includes(op)) {
+      return fail(`op must be one of: ${OPERATION_TYPES.join(", ")}`);
+    }
+
+    const target = (field: string): BlockTarget => {
+      const parsed = this.parseTarget(value[field], field);
+      if (typeof parsed === "string") {
+        return fail(parsed);
+      }
+      return parsed;
+    };
+    const content = (): OperationContent => {
+      const items = Array.isArray(value.content)
+        ? value.content
+        : [value.content];
+      if (items.length === 0 || !items.every(isObject)) {
+        return fail("content must be a node or a non-empty array of nodes");
+      }
+      return value.content as OperationContent;
+    };
+
+    switch (op) {
+      case "insert_block":
+        if (value.after !== undefined && value.before !== undefined) {
+          return fail("insert_block takes either after or before, not both");
+        }
+        return {
+          op,
+          ...(value.after !== undefined && { after: target("after") }),
+          ...(value.before !== undefined && { before: target("before") }),
+          content: content(),
+        };
+
+      case "replace_block":
+        return { op, target: target("target"), content: content() };
+
+      case "append_to_section":
+        return { op, heading: target("heading"), content: content() };
+
+      case "set_attribute":
+        if (!isObject(value.attrs) || Object.keys(value.attrs).length === 0) {
+          return fail("attrs must be a non-empty object");
+        }
+        for (const [key, attr] of Object.entries(value.attrs)) {
+          if (attr !== null && !isAttributeValue(attr)) {
+            return fail(
+              `attrs.${key} must be a string, number, boolean, array of numbers or null`
+            );
+          }
+        }
+        return {
+          op,
+          target: target("target"),
+          attrs: value.attrs as Record<string, AttributeValue | null>,
+        };
+
+      case "apply_mark": {
+        const mark = value.mark;
+        if (!isObject(mark) || typeof mark.type !== "string") {
+          return fail("mark must be an object with a type");
+        }
+        if (mark.attrs !== undefined && !isObject(mark.attrs)) {
+          return fail("mark.attrs must be an object");
+        }
+        for (const field of ["from", "to"]) {
+          if (value[field] !== undefined && !isOffset(value[field])) {
+            return fail(`${field} must be a non-negative integer`);
+          }
+        }
+        return {
+          op,
+          target: target("target"),
+          ...(value.from !== undefined && { from: value.from as number }),
+          ...(value.to !== undefined && { to: value.to as number }),
+          mark: {
+            type: mark.type,
+            ...(mark.attrs !== undefined && {
+              attrs: mark.attrs as Record<string, unknown>,
+            }),
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Find the block a target addresses in a document's "default" fragment
+   * @throws DocumentOperationError if no block matches
+   */
+  findTarget(yDoc: Y.Doc, target: BlockTarget): Y.XmlElement {
+    return this.resolveBlock(yDoc.getXmlFragment("default"), target, 0).element;
+  }
+
+  /**
+   * Parse a block target, or describe why it is invalid
+   */
+  parseTarget(value: unknown, field: string): BlockTarget | string {
+    if (!isObject(value)) {
+      return `${field} must be an object with a path, id or heading`;
+    }
+
+    const { path, id, heading, level } = value;
+    const given = [path, id, heading].filter((key) => key !== undefined);
+    if (given.length !== 1) {
+      return `${field} must have exactly one of path, id or heading`;
+    }
+    if (
+      path !== undefined &&
+      (!Array.isArray(path) || path.length === 0 || !path.every(isOffset))
+    ) {
+      return `${field}.path must be a non-empty array of non-negative integers`;
+    }
+    if (id !== undefined && (typeof id !== "string" || id.length === 0)) {
+      return `${field}.id must be a non-empty string`;
+    }
+    if (heading !== undefined && typeof heading !== "string") {
+      return `${field}.heading must be a string`;
+    }
+    if (
+      level !== undefined &&
+      (heading === undefined ||
+        !Number.isInteger(level) ||
+        (level as number) < 1 ||
+        (level as number) > 6)
+    ) {
+      return `${field}.level must be a heading level from 1 to 6`;
+    }
+
+    return {
+      ...(path !== undefined && { path: path as number[] }),
+      ...(id !== undefined && { id: id as string }),
+      ...(heading !== undefined && { heading: heading as string }),
+      ...(level !== undefined && { level: level as number }),
+    };
+  }
+}
+
+/**
+ * Create the Y.js type of a ProseMirror block the way y-prosemirror does:
+ * attributes other than null, and consecutive text as one Y.XmlText with
+ * marks as formatting attributes
+ */
+function toYElement(node: ProseMirrorNode): Y.XmlElement {
+  const element = new Y.XmlElement(node.type.name);
+  for (const [key, value] of Object.entries(node.attrs)) {
+    if (value !== null) {
+      element.setAttribute(key, value);
+    }
+  }
+
+  const children: Array<Y.XmlElement | Y.XmlText> = [];
+  let delta: Array<{ insert: string; attributes: Record<string, unknown> }> =
+    [];
+  const flushText = () => {
+    if (delta.length > 0) {
+      const text = new Y.XmlText();
+      text.applyDelta(delta);
+      children.push(text);
+      delta = [];
+    }
+  };
+
+  node.forEach((child) => {
+    if (child.isText) {
+      const attributes: Record<string, unknown> = {};
+      for (const mark of child.marks) {
+        attributes[mark.type.name] = mark.attrs;
+      }
+      delta.push({ insert: child.text!, attributes });
+    } else {
+      flushText();
+      children.push(toYElement(child));
+    }
+  });
+  flushText();
+
+  element.insert(0, children);
+  return element;
+}
+
+/**
+ * First element, depth first, matching a predicate
+ */
+function findBlock(
+  parent: BlockParent,
+  predicate: (element: Y.XmlElement) => boolean
+): ResolvedBlock | null {
+  const children = parent.toArray();
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+    if (!(child instanceof Y.XmlElement)) {
+      continue;
+    }
+    if (predicate(child)) {
+      return { element: child, parent, index };
+    }
+    const nested = findBlock(child, predicate);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+/**
+ * Child indexes from the fragment down to an element
+ */
+export function pathOf(element: Y.XmlElement): number[] {
+  const path: number[] = [];
+  let current: Y.AbstractType<any> = element;
+  while (
+    current.parent instanceof Y.XmlElement ||
+    current.parent instanceof Y.XmlFragment
+  ) {
+    const parent = current.parent as BlockParent;
+    path.unshift(parent.toArray().indexOf(current as Y.XmlElement));
+    current = parent;
+  }
+  return path;
+}
+
+function elementText(element: Y.XmlElement): string {
+  return element
+    .toArray()
+    .map((child) =>
+      child instanceof Y.XmlText
+        ? child
+            .toDelta()
+            .map((op: { insert: unknown }) =>
+              typeof op.insert === "string" ? op.insert : ""
+            )
+            .join("")
+        : child instanceof Y.XmlElement
+          ? elementText(child)
+          : ""
+    )
+    .join("");
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function headingLevel(element: Y.XmlElement): number {
+  return Number(element.getAttribute("level")) || 1;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return (
+    ["string", "number", "boolean"].includes(typeof value) ||
+    (Array.isArray(value) && value.every((item) => typeof item === "number"))
+  );
+}
+
+function isOffset(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Export a singleton instance
+export const documentOperationService = new DocumentOperationService();
+export default documentOperationService;
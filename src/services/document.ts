@@ -1,17 +1,58 @@
 import * as Y from "yjs";
 import * as crypto from "crypto";
 import { Hocuspocus, Document as HocuspocusDocument } from "@hocuspocus/server";
-import { vettamAPI } from "./vettam-api";
+import { createPersistenceAdapter } from "./persistence";
+import { createUpdateJournal, UpdateJournal } from "./update-journal";
+import { createDeadLetterStore, DeadLetterStore } from "./dead-letter";
 import { logger } from "../config/logger";
 import { RegexMatcher } from "../utils/regex_matcher";
+import { retryWithBackoff } from "../utils/retry";
+import { yDocToJSON } from "../utils/ydoc/converters";
+import { schema } from "../utils/ydoc/schema";
+import {
+  computeDocumentStats,
+  DocumentStats,
+} from "../utils/stats/document-stats";
+import { serverConfig } from "../config";
+import {
+  DeadLetterEntry,
+  DeadLetterReplayResult,
+  DocumentSaveStatus,
+  DocumentSnapshot,
+  PersistenceAdapter,
+  ServerConfig,
+  User,
+} from "../types";
+
+// Name of the Y.Map attributing Y.js client IDs to users, next to the "default" fragment
+const AUTHORS_MAP = "authors";
+
+// Transaction origin of the server's own writes to the authors map
+const AUTHORS_ORIGIN = Symbol("authors");
 
 export class DocumentService {
   private documents: Map<string, Y.Doc> = new Map();
   private dirtyFlags: Map<string, boolean> = new Map();
+  private dirtySince: Map<string, number> = new Map();
+  private lastSavedAt: Map<string, Date> = new Map();
+  private autosaveTimers: Map<string, NodeJS.Timeout> = new Map();
   private persistenceTimers: Map<string, NodeJS.Timeout> = new Map();
   private loadingPromises: Map<string, Promise<void>> = new Map();
+  // Documents unloaded from Hocuspocus whose final save failed, kept until it succeeds
+  private unsavedDocuments: Map<string, Y.Doc> = new Map();
+  private deadLetteredRooms: Set<string> = new Set();
+  // Stats of registered documents, dropped on their next update
+  private statsCache: Map<string, DocumentStats> = new Map();
   private readonly PERSISTENCE_DELAY_MS = 2 * 60 * 1000; // 2 minutes
 
+  constructor(
+    private persistence: PersistenceAdapter = createPersistenceAdapter(),
+    private journal: UpdateJournal | null = createUpdateJournal(),
+    private autosave: ServerConfig["autosave"] = serverConfig.autosave,
+    private snapshotRetry: ServerConfig["snapshotRetry"] = serverConfig.snapshotRetry,
+    private deadLetters: DeadLetterStore = createDeadLetterStore()
+  ) {}
+
   /**
    * Check if a document is already registered
    */
@@ -43,14 +84,23 @@ export class DocumentService {
     }
 
     // First-time registration
+    // Keep the dirty flag if journal replay already applied unsaved changes
     this.documents.set(roomId, yDoc);
-    this.dirtyFlags.set(roomId, false);
+    this.dirtyFlags.set(roomId, this.dirtyFlags.get(roomId) ?? false);
+    this.statsCache.delete(roomId);
+
+    if (this.dirtyFlags.get(roomId)) {
+      this.scheduleAutosave(roomId);
+    }
 
     // Set up document update listener
-    yDoc.on("update", () => {
+    yDoc.on("update", (update: Uint8Array) => {
+      this.journalUpdate(roomId, update);
       this.onDocumentUpdate(roomId);
     });
 
+    this.protectAuthors(roomId, yDoc);
+
     logger.debug("Document registration complete", {
       roomId,
       wasAlreadyRegistered: false,
@@ -58,7 +108,7 @@ export class DocumentService {
   }
 
   /**
-   * Load initial state from API into a YDoc
+   * Load initial state from the persistence backend into a YDoc
    * This is called by Hocuspocus after a document is created
    */
   async loadInitialStateFromAPI(roomId: string, yDoc: Y.Doc): Promise<void> {
@@ -74,31 +124,43 @@ export class DocumentService {
         const draftId = this.extractDraftId(roomId);
         const versionId = this.extractVersionId(roomId);
 
-        logger.info("Loading initial state from API", {
+        logger.info("Loading initial state from persistence backend", {
           roomId,
           draftId,
           versionId,
+          backend: this.persistence.name,
         });
 
-        // Fetch the binary update from the API
-        const update = await vettamAPI.loadDocumentFromDraft(
-          draftId,
-          versionId
-        );
-
-        // Apply the loaded state to the Hocuspocus YDoc
-        Y.applyUpdate(yDoc, update);
+        // Fetch the binary update from the persistence backend
+        const update = await this.persistence.load(draftId, versionId);
 
-        logger.info("Initial state loaded successfully", { roomId });
+        if (update) {
+          // Apply the loaded state to the Hocuspocus YDoc
+          Y.applyUpdate(yDoc, update);
+          logger.info("Initial state loaded successfully", { roomId });
+        } else {
+          logger.info("No stored state found, starting with empty document", {
+            roomId,
+          });
+        }
       } catch (error) {
         logger.warn(
-          "Failed to load initial state from API, starting with empty document",
+          "Failed to load initial state, starting with empty document",
           {
             roomId,
             error: (error as Error).message,
           }
         );
         // If loading fails, the document remains empty (which is fine)
+      }
+
+      try {
+        // Recover state that never made it to the persistence backend
+        this.restoreUnsavedDocument(roomId, yDoc);
+        await this.applyDeadLetter(roomId, yDoc);
+
+        // Replay updates journaled since the last committed snapshot
+        await this.replayJournal(roomId, yDoc);
       } finally {
         this.loadingPromises.delete(roomId);
       }
@@ -108,6 +170,24 @@ export class DocumentService {
     return loadPromise;
   }
 
+  /**
+   * Load the last committed snapshot of a room into a standalone YDoc
+   * Independent of the live document; empty when nothing has been stored yet
+   */
+  async loadStoredDocument(roomId: string): Promise<Y.Doc> {
+    const yDoc = new Y.Doc();
+    const update = await this.persistence.load(
+      this.extractDraftId(roomId),
+      this.extractVersionId(roomId)
+    );
+
+    if (update) {
+      Y.applyUpdate(yDoc, update);
+    }
+
+    return yDoc;
+  }
+
   applyUpdate(roomId: string, update: Uint8Array): void {
     logger.debug("Applying update to room:", { roomId });
     let yDoc = this.documents.get(roomId);
@@ -116,9 +196,123 @@ export class DocumentService {
       this.documents.set(roomId, yDoc);
     }
     Y.applyUpdate(yDoc, update);
+    this.journalUpdate(roomId, update);
     this.onDocumentUpdate(roomId);
   }
 
+  /**
+   * Undo every change to the authors map that the server did not make
+   * Clients can write to any part of the YDoc, so one could otherwise claim
+   * its own or another client's ID for a different user before editing
+   */
+  private protectAuthors(roomId: string, yDoc: Y.Doc): void {
+    const authors = yDoc.getMap<User>(AUTHORS_MAP);
+
+    authors.observe((event) => {
+      if (event.transaction.origin === AUTHORS_ORIGIN) {
+        return;
+      }
+
+      yDoc.transact(() => {
+        event.changes.keys.forEach((change, key) => {
+          if (change.action === "add") {
+            authors.delete(key);
+          } else {
+            authors.set(key, change.oldValue);
+          }
+        });
+      }, AUTHORS_ORIGIN);
+
+      logger.warn("Reverted a client's change to document authors", {
+        roomId,
+        clientIds: Array.from(event.changes.keys.keys()),
+      });
+    });
+  }
+
+  /**
+   * Attribute the Y.js client IDs that produced an update to the user who sent it
+   * The map lives inside the YDoc, so it is persisted with every snapshot;
+   * only the server writes to it (see protectAuthors)
+   */
+  recordUpdateAuthor(roomId: string, update: Uint8Array, user: User): void {
+    const yDoc = this.documents.get(roomId);
+    if (!yDoc) {
+      return;
+    }
+
+    const authors = yDoc.getMap<User>(AUTHORS_MAP);
+    const unattributed: number[] = [];
+
+    for (const clientId of Y.parseUpdateMeta(update).from.keys()) {
+      const author = authors.get(String(clientId));
+
+      if (!author) {
+        unattributed.push(clientId);
+      } else if (author.id !== user.id) {
+        // Client IDs are chosen by clients, never let one claim another's text
+        logger.warn("Y.js client ID already attributed to another user", {
+          roomId,
+          clientId,
+          userId: user.id,
+          authorId: author.id,
+        });
+      }
+    }
+
+    if (unattributed.length === 0) {
+      return;
+    }
+
+    const author: User = { id: user.id };
+    if (user.email) {
+      author.email = user.email;
+    }
+    if (user.name) {
+      author.name = user.name;
+    }
+
+    yDoc.transact(() => {
+      for (const clientId of unattributed) {
+        authors.set(String(clientId), author);
+      }
+    }, AUTHORS_ORIGIN);
+
+    logger.debug("Attributed Y.js client IDs to user", {
+      roomId,
+      userId: user.id,
+      clientIds: unattributed,
+    });
+  }
+
+  /**
+   * Look up the user a Y.js client ID is attributed to
+   */
+  getClientAuthor(yDoc: Y.Doc, clientId: number): User | null {
+    return yDoc.getMap<User>(AUTHORS_MAP).get(String(clientId)) ?? null;
+  }
+
+  /**
+   * Get the stats of a room's document
+   * Stats of the registered document are cached until its next update; any
+   * other instance has no update listener, so is computed every time
+   */
+  getDocumentStats(roomId: string, yDoc: Y.Doc): DocumentStats {
+    const registered = this.documents.get(roomId) === yDoc;
+    const cached = registered ? this.statsCache.get(roomId) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const stats = computeDocumentStats(
+      JSON.parse(yDocToJSON(yDoc, schema, "default"))
+    );
+    if (registered) {
+      this.statsCache.set(roomId, stats);
+    }
+    return stats;
+  }
+
   /**
    * Extract draftId from roomId format: <uuid:draft_id>:<uuid:version_id>
    */
@@ -169,45 +363,314 @@ export class DocumentService {
   }
 
   /**
-   * Save document snapshot
+   * Save document snapshot, retrying failed saves with exponential backoff
+   * A version name marks the snapshot as a named checkpoint in the backend
+   * Returns false if every attempt failed; the room then stays dirty
    */
-  async saveSnapshot(roomId: string): Promise<void> {
+  async saveSnapshot(roomId: string, versionName?: string): Promise<boolean> {
+    const yDoc =
+      this.documents.get(roomId) ?? this.unsavedDocuments.get(roomId);
+    if (!yDoc) {
+      logger.warn("Attempted to save non-existent document", { roomId });
+      return false;
+    }
+
     try {
-      const yDoc = this.documents.get(roomId);
-      if (!yDoc) {
-        logger.warn("Attempted to save non-existent document", { roomId });
+      await retryWithBackoff(
+        () => this.persistSnapshot(roomId, yDoc, versionName),
+        this.snapshotRetry,
+        (error, attempt, delayMs) => {
+          logger.warn("Document snapshot save failed, retrying", {
+            roomId,
+            attempt,
+            delayMs,
+            error: error.message,
+          });
+        }
+      );
+    } catch (error) {
+      logger.error("Failed to save document snapshot", {
+        roomId,
+        attempts: this.snapshotRetry.maxAttempts,
+        error: (error as Error).message,
+      });
+      return false;
+    }
+
+    // The committed snapshot supersedes any dead-lettered state
+    if (this.deadLetteredRooms.has(roomId)) {
+      await this.clearDeadLetter(roomId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Encode the full document state as a snapshot
+   */
+  private encodeSnapshot(yDoc: Y.Doc): DocumentSnapshot {
+    // Encode state as binary update and convert to Base64 string
+    const content = Buffer.from(Y.encodeStateAsUpdate(yDoc)).toString("base64");
+
+    return { content, checksum: this.calculateChecksum(content) };
+  }
+
+  /**
+   * Make a single attempt at saving a document snapshot
+   */
+  private async persistSnapshot(
+    roomId: string,
+    yDoc: Y.Doc,
+    versionName?: string
+  ): Promise<void> {
+    const snapshot = this.encodeSnapshot(yDoc);
+    if (versionName) {
+      snapshot.versionName = versionName;
+    }
+    const draftId = this.extractDraftId(roomId);
+    const versionId = this.extractVersionId(roomId);
+
+    // Everything journaled up to now is covered by this snapshot
+    const journalPosition = this.journal?.getPosition(roomId) ?? 0;
+
+    // Reset dirty flag before uploading so edits made during the upload
+    // keep the room dirty; restore it if the save fails
+    const wasDirty = this.dirtyFlags.get(roomId) ?? false;
+    const wasDirtySince = this.dirtySince.get(roomId);
+    this.dirtyFlags.set(roomId, false);
+    this.dirtySince.delete(roomId);
+
+    try {
+      await this.persistence.save(draftId, versionId, snapshot);
+    } catch (error) {
+      if (wasDirty && !this.dirtyFlags.get(roomId)) {
+        this.dirtyFlags.set(roomId, true);
+        this.dirtySince.set(roomId, wasDirtySince ?? Date.now());
+      }
+      throw error;
+    }
+
+    this.lastSavedAt.set(roomId, new Date());
+
+    // Drop journaled updates the committed snapshot now contains
+    await this.journal?.compact(roomId, journalPosition);
+
+    logger.info("Document snapshot saved", {
+      roomId,
+      draftId,
+      checksum: snapshot.checksum,
+      versionName,
+    });
+  }
+
+  /**
+   * Write the state of a document that could not be saved to the dead-letter store
+   */
+  private async deadLetterDocument(
+    roomId: string,
+    yDoc: Y.Doc,
+    error: string
+  ): Promise<void> {
+    try {
+      await this.deadLetters.add(roomId, this.encodeSnapshot(yDoc), error);
+      this.deadLetteredRooms.add(roomId);
+    } catch (deadLetterError) {
+      logger.error("Failed to write document to dead-letter store", {
+        roomId,
+        error: (deadLetterError as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Remove a room's dead-letter entry once its state has been saved
+   */
+  private async clearDeadLetter(roomId: string): Promise<void> {
+    try {
+      await this.deadLetters.remove(roomId);
+      this.deadLetteredRooms.delete(roomId);
+    } catch (error) {
+      logger.error("Failed to remove dead-letter entry", {
+        roomId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Merge a dead-lettered state into a freshly loaded document
+   * It stays dirty so the next save commits the recovered changes
+   */
+  private async applyDeadLetter(roomId: string, yDoc: Y.Doc): Promise<void> {
+    try {
+      const snapshot = await this.deadLetters.get(roomId);
+
+      if (!snapshot) {
         return;
       }
 
-      let draftId = "";
-      let checksum = "";
+      Y.applyUpdate(yDoc, Buffer.from(snapshot.content, "base64"));
+      this.deadLetteredRooms.add(roomId);
+      this.dirtyFlags.set(roomId, true);
 
-      try {
-        // Encode state as binary update
-        const update = Y.encodeStateAsUpdate(yDoc);
-        // Convert to Base64 string
-        const content = Buffer.from(update).toString("base64");
+      logger.info("Applied dead-lettered state to loaded document", {
+        roomId,
+        checksum: snapshot.checksum,
+      });
+    } catch (error) {
+      logger.error("Failed to apply dead-lettered state", {
+        roomId,
+        error: (error as Error).message,
+      });
+    }
+  }
 
-        draftId = this.extractDraftId(roomId);
-        const versionId = this.extractVersionId(roomId);
-        checksum = this.calculateChecksum(content);
+  /**
+   * Move the state of an unsaved, unloaded document into its reloaded instance
+   */
+  private restoreUnsavedDocument(roomId: string, yDoc: Y.Doc): void {
+    const unsaved = this.unsavedDocuments.get(roomId);
 
-        await vettamAPI.saveDocumentSnapshot(
-          draftId,
-          versionId,
+    if (!unsaved) {
+      return;
+    }
+
+    // The reloaded document now carries the changes, stop retrying the old one
+    this.cancelPersistenceTimer(roomId);
+    Y.applyUpdate(yDoc, Y.encodeStateAsUpdate(unsaved));
+    this.unsavedDocuments.delete(roomId);
+    unsaved.destroy();
+    this.dirtyFlags.set(roomId, true);
+
+    logger.info("Restored unsaved state into reloaded document", { roomId });
+  }
+
+  /**
+   * List rooms whose state is waiting in the dead-letter store
+   */
+  listDeadLetters(): Promise<DeadLetterEntry[]> {
+    return this.deadLetters.list();
+  }
+
+  /**
+   * Check whether a room has a dead-lettered state
+   */
+  async hasDeadLetter(roomId: string): Promise<boolean> {
+    return (await this.deadLetters.get(roomId)) !== null;
+  }
+
+  /**
+   * Replay dead-lettered states to the persistence backend
+   * Replays a single room when roomId is given, otherwise every entry
+   */
+  async replayDeadLetters(roomId?: string): Promise<DeadLetterReplayResult[]> {
+    const roomIds = roomId
+      ? [roomId]
+      : (await this.deadLetters.list()).map((entry) => entry.roomId);
+
+    const results: DeadLetterReplayResult[] = [];
+
+    for (const id of roomIds) {
+      results.push(await this.replayDeadLetter(id));
+    }
+
+    return results;
+  }
+
+  private async replayDeadLetter(
+    roomId: string
+  ): Promise<DeadLetterReplayResult> {
+    // Rooms still in memory hold the dead-lettered state plus later edits
+    if (this.unsavedDocuments.has(roomId)) {
+      return { roomId, saved: await this.removeDocument(roomId) };
+    }
+    if (this.documents.has(roomId)) {
+      return { roomId, saved: await this.saveSnapshot(roomId) };
+    }
+
+    try {
+      const stored = await this.deadLetters.get(roomId);
+      if (!stored) {
+        return { roomId, saved: false, error: "No dead-letter entry found" };
+      }
+
+      const draftId = this.extractDraftId(roomId);
+      const versionId = this.extractVersionId(roomId);
+
+      await retryWithBackoff(async () => {
+        // Merge with whatever was saved since, so neither side is lost
+        const current = await this.persistence.load(draftId, versionId);
+        const update = Buffer.from(stored.content, "base64");
+        const merged = current ? Y.mergeUpdates([current, update]) : update;
+        const content = Buffer.from(merged).toString("base64");
+
+        await this.persistence.save(draftId, versionId, {
           content,
-          checksum
-        );
+          checksum: this.calculateChecksum(content),
+        });
+      }, this.snapshotRetry);
 
-        // Reset dirty flag on successful save
-        this.dirtyFlags.set(roomId, false);
+      await this.clearDeadLetter(roomId);
+      logger.info("Dead-lettered document state replayed", { roomId });
 
-        logger.info("Document snapshot saved", { roomId, draftId, checksum });
-      } catch (error) {
-        throw error;
+      return { roomId, saved: true };
+    } catch (error) {
+      logger.error("Failed to replay dead-lettered document state", {
+        roomId,
+        error: (error as Error).message,
+      });
+      return { roomId, saved: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Append an update to the write-ahead journal, if enabled
+   */
+  private journalUpdate(roomId: string, update: Uint8Array): void {
+    if (!this.journal) {
+      return;
+    }
+
+    try {
+      this.journal.append(roomId, update);
+    } catch (error) {
+      logger.error("Failed to journal document update", {
+        roomId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Apply journaled updates on top of the loaded snapshot
+   */
+  private async replayJournal(roomId: string, yDoc: Y.Doc): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
+
+    try {
+      const updates = await this.journal.replay(roomId);
+
+      if (updates.length === 0) {
+        return;
       }
+
+      Y.transact(yDoc, () => {
+        for (const update of updates) {
+          Y.applyUpdate(yDoc, update);
+        }
+      });
+
+      // Replayed changes are not in the stored snapshot yet
+      this.dirtyFlags.set(roomId, true);
+
+      logger.info("Replayed journaled updates", {
+        roomId,
+        updates: updates.length,
+      });
     } catch (error) {
-      logger.error("Failed to save document snapshot", {
+      logger.error("Failed to replay update journal", {
         roomId,
         error: (error as Error).message,
       });
@@ -215,10 +678,103 @@ export class DocumentService {
   }
 
   /**
-   * Handle document updates - mark as dirty
+   * Handle document updates - mark as dirty, drop cached stats and schedule
+   * an autosave
    */
   private onDocumentUpdate(roomId: string): void {
+    this.statsCache.delete(roomId);
+    if (!this.dirtyFlags.get(roomId)) {
+      this.dirtySince.set(roomId, Date.now());
+    }
     this.dirtyFlags.set(roomId, true);
+    this.scheduleAutosave(roomId);
+  }
+
+  /**
+   * (Re)schedule the autosave of a dirty room
+   * Each update pushes the save back by the debounce interval, but a room
+   * is never left dirty for longer than the max interval
+   */
+  private scheduleAutosave(roomId: string): void {
+    if (!this.autosave.enabled || !this.documents.has(roomId)) {
+      return;
+    }
+
+    const existingTimer = this.autosaveTimers.get(roomId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const dirtySince = this.dirtySince.get(roomId) ?? Date.now();
+    const untilCeiling = dirtySince + this.autosave.maxIntervalMs - Date.now();
+    const delay = Math.max(0, Math.min(this.autosave.debounceMs, untilCeiling));
+
+    const timer = setTimeout(() => {
+      this.runAutosave(roomId).catch((error) => {
+        logger.error("Autosave failed", {
+          roomId,
+          error: (error as Error).message,
+        });
+      });
+    }, delay);
+
+    // Autosave must never keep the process alive on its own
+    timer.unref();
+    this.autosaveTimers.set(roomId, timer);
+  }
+
+  /**
+   * Save a room if it is still dirty when its autosave timer fires
+   */
+  private async runAutosave(roomId: string): Promise<void> {
+    this.autosaveTimers.delete(roomId);
+
+    if (!this.dirtyFlags.get(roomId) || !this.documents.has(roomId)) {
+      return;
+    }
+
+    logger.debug("Autosaving dirty document", { roomId });
+    await this.saveSnapshot(roomId);
+
+    // Edits arrived during the save, or the save failed: try again later
+    if (this.dirtyFlags.get(roomId) && !this.autosaveTimers.has(roomId)) {
+      this.dirtySince.set(roomId, Date.now());
+      this.scheduleAutosave(roomId);
+    }
+  }
+
+  /**
+   * Cancel the pending autosave for a room
+   */
+  private cancelAutosave(roomId: string): void {
+    const timer = this.autosaveTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.autosaveTimers.delete(roomId);
+    }
+  }
+
+  /**
+   * Report whether a room has unsaved changes and when it was last saved
+   */
+  getSaveStatus(roomId: string): DocumentSaveStatus {
+    const lastSavedAt = this.lastSavedAt.get(roomId);
+
+    return {
+      roomId,
+      loaded: this.documents.has(roomId),
+      dirty: this.dirtyFlags.get(roomId) ?? false,
+      lastSavedAt: lastSavedAt ? lastSavedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Report the save status of every active room
+   */
+  getSaveStatuses(): DocumentSaveStatus[] {
+    return this.getActiveDocuments().map((roomId) =>
+      this.getSaveStatus(roomId)
+    );
   }
 
   /**
@@ -300,22 +856,62 @@ export class DocumentService {
 
   /**
    * Remove document from memory
+   * If the snapshot cannot be saved the document is kept in memory and
+   * dead-lettered, and removal is retried later; returns whether it was saved
    */
-  async removeDocument(roomId: string): Promise<void> {
+  async removeDocument(roomId: string): Promise<boolean> {
     // Save snapshot before removing
-    await this.saveSnapshot(roomId);
+    const saved = await this.saveSnapshot(roomId);
+    const doc = this.documents.get(roomId) ?? this.unsavedDocuments.get(roomId);
+
+    this.documents.delete(roomId);
+    this.cancelAutosave(roomId);
+
+    if (doc && !saved) {
+      this.unsavedDocuments.set(roomId, doc);
+      await this.deadLetterDocument(roomId, doc, "Snapshot save failed");
+      this.scheduleUnsavedRetry(roomId);
+
+      logger.warn("Document kept in memory until its snapshot is saved", {
+        roomId,
+      });
+      return false;
+    }
 
     // Destroy and remove document
-    const doc = this.documents.get(roomId);
     if (doc) {
       doc.destroy();
-      this.documents.delete(roomId);
+      this.unsavedDocuments.delete(roomId);
     }
 
     // Clean up all tracking data
     this.dirtyFlags.delete(roomId);
+    this.dirtySince.delete(roomId);
+    this.lastSavedAt.delete(roomId);
+    this.statsCache.delete(roomId);
 
     logger.info("Document removed from memory", { roomId });
+    return true;
+  }
+
+  /**
+   * Schedule another attempt at saving and removing an unsaved document
+   */
+  private scheduleUnsavedRetry(roomId: string): void {
+    this.cancelPersistenceTimer(roomId);
+
+    const timer = setTimeout(async () => {
+      this.persistenceTimers.delete(roomId);
+
+      if (this.unsavedDocuments.has(roomId)) {
+        logger.info("Retrying save of unsaved document", { roomId });
+        await this.removeDocument(roomId);
+      }
+    }, this.PERSISTENCE_DELAY_MS);
+
+    // The dead-letter store already holds the state, never block exit on this
+    timer.unref();
+    this.persistenceTimers.set(roomId, timer);
   }
 
   /**
@@ -380,6 +976,11 @@ export class DocumentService {
     }
     this.persistenceTimers.clear();
 
+    // Cancel all pending autosaves, documents are saved below anyway
+    for (const roomId of this.autosaveTimers.keys()) {
+      this.cancelAutosave(roomId);
+    }
+
     // Immediately persist all documents
     for (const [roomId, doc] of hocuspocusInstance.documents) {
       await this.persistAndCleanupDocumentImmediate(
@@ -389,6 +990,12 @@ export class DocumentService {
       );
     }
 
+    // Last attempt for documents whose earlier save failed; anything still
+    // failing remains in the dead-letter store for replay after restart
+    for (const roomId of Array.from(this.unsavedDocuments.keys())) {
+      await this.removeDocument(roomId);
+    }
+
     return Promise.resolve();
   }
 
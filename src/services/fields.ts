@@ -0,0 +1,175 @@
+import * as Y from "yjs";
+import { logger } from "../config/logger";
+import { DocumentField, FieldType, FieldValue } from "../types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A field node as y-prosemirror stores it; a blank value is not stored
+type FieldElement = Y.XmlElement<{
+  name: string;
+  type: string;
+  value: FieldValue;
+}>;
+
+export class FieldValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FieldValueError";
+  }
+}
+
+/**
+ * Form fields of a document: inline "field" nodes with a name, type and
+ * value, filled in through the API rather than typed
+ */
+export class FieldService {
+  /**
+   * List the fields of a document by name, in order of first occurrence
+   */
+  listFields(yDoc: Y.Doc): DocumentField[] {
+    const fields = new Map<string, DocumentField>();
+
+    for (const element of this.collectFields(yDoc)) {
+      const name = String(element.getAttribute("name") ?? "");
+      const field = fields.get(name);
+      if (field) {
+        field.occurrences++;
+        continue;
+      }
+      fields.set(name, {
+        name,
+        type: fieldType(element),
+        value: element.getAttribute("value") ?? null,
+        occurrences: 1,
+      });
+    }
+
+    return [...fields.values()];
+  }
+
+  /**
+   * Set the values of fields by name in one transaction; null clears a field
+   * Every name must exist and every value suit its field's type, otherwise
+   * nothing is set. Returns the number of occurrences set per name
+   */
+  setFieldValues(
+    roomId: string,
+    yDoc: Y.Doc,
+    values: Record<string, unknown>
+  ): { name: string; occurrences: number }[] {
+    const elements = this.collectFields(yDoc);
+
+    const updates = Object.entries(values).map(([name, value]) => {
+      const matching = elements.filter(
+        (element) => element.getAttribute("name") === name
+      );
+      if (matching.length === 0) {
+        throw new FieldValueError(`no field named "${name}"`);
+      }
+      return {
+        name,
+        edits: matching.map((element) => ({
+          element,
+          value: normalizeValue(name, fieldType(element), value),
+        })),
+      };
+    });
+
+    yDoc.transact(() => {
+      for (const { edits } of updates) {
+        for (const { element, value } of edits) {
+          // Blank values are not stored, as y-prosemirror does for defaults
+          if (value === null) {
+            element.removeAttribute("value");
+          } else {
+            element.setAttribute("value", value);
+          }
+        }
+      }
+    });
+
+    logger.info("Field values set", {
+      roomId,
+      fields: updates.map(({ name }) => name),
+    });
+
+    return updates.map(({ name, edits }) => ({
+      name,
+      occurrences: edits.length,
+    }));
+  }
+
+  private collectFields(yDoc: Y.Doc): FieldElement[] {
+    const fields: FieldElement[] = [];
+
+    const visit = (parent: Y.XmlFragment | Y.XmlElement) => {
+      for (const child of parent.toArray()) {
+        if (!(child instanceof Y.XmlElement)) {
+          continue;
+        }
+        if (child.nodeName === "field") {
+          fields.push(child);
+        } else {
+          visit(child);
+        }
+      }
+    };
+
+    visit(yDoc.getXmlFragment("default"));
+    return fields;
+  }
+}
+
+function fieldType(element: FieldElement): string {
+  return element.getAttribute("type") ?? "text";
+}
+
+/**
+ * Check a value against a field's type: dates as YYYY-MM-DD, numbers as
+ * numbers or numeric text, anything else as text
+ */
+function normalizeValue(
+  name: string,
+  type: FieldType | string,
+  value: unknown
+): FieldValue | null {
+  if (value === null || value === "") {
+    return null;
+  }
+
+  switch (type) {
+    case "number": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        throw new FieldValueError(`${name} must be a number`);
+      }
+      return number;
+    }
+
+    case "date": {
+      const date = new Date(`${value}T00:00:00Z`);
+      if (
+        typeof value !== "string" ||
+        !DATE_PATTERN.test(value) ||
+        Number.isNaN(date.getTime()) ||
+        date.toISOString().slice(0, 10) !== value
+      ) {
+        throw new FieldValueError(`${name} must be a date as YYYY-MM-DD`);
+      }
+      return value;
+    }
+
+    default:
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new FieldValueError(`${name} must be a string or a number`);
+      }
+      return String(value);
+  }
+}
+
+// Export a singleton instance
+export const fieldService = new FieldService();
+export default fieldService;
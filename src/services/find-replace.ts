@@ -0,0 +1,260 @@
+import * as Y from "yjs";
+import safeRegex from "safe-regex";
+import { logger } from "../config/logger";
+import { FindReplaceOptions, TextMatch } from "../types";
+
+// Characters of context reported on each side of a match
+const CONTEXT_LENGTH = 30;
+
+// Letters, digits and underscores make up words for whole-word matching
+const WORD_BOUNDARY_BEFORE = "(?<![\\p{L}\\p{N}_])";
+const WORD_BOUNDARY_AFTER = "(?![\\p{L}\\p{N}_])";
+
+interface TextRun {
+  insert: string;
+  attributes?: Record<string, unknown>;
+}
+
+interface PendingMatch extends TextMatch {
+  // Offset of the match within its Y.XmlText
+  index: number;
+}
+
+/**
+ * A regular expression that could backtrack catastrophically, e.g. "(a+)+$",
+ * which would block the server while it runs over the document
+ */
+export class UnsafePatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafePatternError";
+  }
+}
+
+/**
+ * Find and replace text across a document
+ * Matches are found within each Y.XmlText, so never span inline nodes or
+ * blocks, and are replaced with minimal in-place text edits: text shared by
+ * the match and its replacement is kept, and inserted text takes the marks
+ * of the text it replaces
+ */
+export class FindReplaceService {
+  /**
+   * Build the pattern for a search, throwing for an invalid regex
+   * @throws UnsafePatternError if the regex could backtrack catastrophically
+   */
+  compilePattern(options: FindReplaceOptions): RegExp {
+    const source = options.regex
+      ? options.find
+      : options.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = options.wholeWord
+      ? `${WORD_BOUNDARY_BEFORE}(?:${source})${WORD_BOUNDARY_AFTER}`
+      : source;
+
+    const compiled = new RegExp(pattern, options.caseSensitive ? "gu" : "giu");
+    // Checked once valid, since safe-regex also rejects what it cannot parse
+    if (options.regex && !safeRegex(options.find)) {
+      throw new UnsafePatternError(
+        "pattern has nested or overlapping repetition"
+      );
+    }
+    return compiled;
+  }
+
+  /**
+   * List the matches of a search in document order, with their replacements
+   */
+  findMatches(yDoc: Y.Doc, options: FindReplaceOptions): TextMatch[] {
+    return this.collectMatches(yDoc, options).flatMap(({ matches }) =>
+      matches.map(toTextMatch)
+    );
+  }
+
+  /**
+   * Replace every match of a search in one transaction, returning the
+   * replaced matches
+   */
+  replaceMatches(
+    roomId: string,
+    yDoc: Y.Doc,
+    options: FindReplaceOptions
+  ): TextMatch[] {
+    const found = this.collectMatches(yDoc, options);
+
+    yDoc.transact(() => {
+      for (const { text, matches } of found) {
+        const runs = text.toDelta() as TextRun[];
+        // Edit from the end so earlier offsets stay valid
+        for (const match of [...matches].reverse()) {
+          replaceInPlace(text, runs, match);
+        }
+      }
+    });
+
+    const replaced = found.flatMap(({ matches }) => matches.map(toTextMatch));
+    logger.info("Text replaced", { roomId, replaced: replaced.length });
+    return replaced;
+  }
+
+  private collectMatches(
+    yDoc: Y.Doc,
+    options: FindReplaceOptions
+  ): { text: Y.XmlText; matches: PendingMatch[] }[] {
+    const pattern = this.compilePattern(options);
+    const found: { text: Y.XmlText; matches: PendingMatch[] }[] = [];
+
+    const visit = (parent: Y.XmlFragment | Y.XmlElement, path: number[]) => {
+      let offset = 0;
+      parent.toArray().forEach((child, childIndex) => {
+        if (child instanceof Y.XmlText) {
+          const matches = this.matchText(child, pattern, options, path, offset);
+          if (matches.length > 0) {
+            found.push({ text: child, matches });
+          }
+          offset += child.length;
+        } else if (child instanceof Y.XmlElement) {
+          visit(child, [...path, childIndex]);
+          offset += 1;
+        }
+      });
+    };
+
+    visit(yDoc.getXmlFragment("default"), []);
+    return found;
+  }
+
+  private matchText(
+    text: Y.XmlText,
+    pattern: RegExp,
+    options: FindReplaceOptions,
+    path: number[],
+    offset: number
+  ): PendingMatch[] {
+    const value = (text.toDelta() as TextRun[])
+      .map((run) => (typeof run.insert === "string" ? run.insert : ""))
+      .join("");
+    const matches: PendingMatch[] = [];
+
+    pattern.lastIndex = 0;
+    for (let match; (match = pattern.exec(value));) {
+      if (match[0].length === 0) {
+        // Empty matches replace nothing; step past them
+        pattern.lastIndex++;
+        continue;
+      }
+
+      const index = match.index;
+      matches.push({
+        path,
+        from: offset + index,
+        to: offset + index + match[0].length,
+        text: match[0],
+        replacement:
+          options.replace === undefined
+            ? null
+            : options.regex
+              ? expandReplacement(options.replace, match)
+              : options.replace,
+        before: value.slice(Math.max(index - CONTEXT_LENGTH, 0), index),
+        after: value.slice(
+          index + match[0].length,
+          index + match[0].length + CONTEXT_LENGTH
+        ),
+        index,
+      });
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Replace a match, editing only the characters that differ
+ */
+function replaceInPlace(
+  text: Y.XmlText,
+  runs: TextRun[],
+  match: PendingMatch
+): void {
+  const replacement = match.replacement ?? "";
+  let prefix = 0;
+  while (
+    prefix < match.text.length &&
+    prefix < replacement.length &&
+    match.text[prefix] === replacement[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < match.text.length - prefix &&
+    suffix < replacement.length - prefix &&
+    match.text[match.text.length - 1 - suffix] ===
+      replacement[replacement.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const start = match.index + prefix;
+  const removed = match.text.length - prefix - suffix;
+  const inserted = replacement.slice(prefix, replacement.length - suffix);
+
+  // Inserted text is formatted like the first replaced character, or the
+  // character before it when nothing is removed
+  const attributes = attributesAt(
+    runs,
+    removed > 0 || start === 0 ? start : start - 1
+  );
+
+  if (removed > 0) {
+    text.delete(start, removed);
+  }
+  if (inserted) {
+    text.insert(start, inserted, attributes);
+  }
+}
+
+function attributesAt(
+  runs: TextRun[],
+  position: number
+): Record<string, unknown> {
+  let offset = 0;
+  for (const run of runs) {
+    offset += typeof run.insert === "string" ? run.insert.length : 1;
+    if (position < offset) {
+      return { ...run.attributes };
+    }
+  }
+  return {};
+}
+
+/**
+ * Expand $$, $&, $1.. and $<name> in a regex replacement
+ */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(
+    /\$(\$|&|\d{1,2}|<([^>]*)>)/g,
+    (token, reference: string, name?: string) => {
+      if (reference === "$") {
+        return "$";
+      }
+      if (reference === "&") {
+        return match[0];
+      }
+      if (name !== undefined) {
+        return match.groups?.[name] ?? "";
+      }
+      const group = Number(reference);
+      return group > 0 && group < match.length ? (match[group] ?? "") : token;
+    }
+  );
+}
+
+function toTextMatch(match: PendingMatch): TextMatch {
+  const { index, ...textMatch } = match;
+  return textMatch;
+}
+
+// Export a singleton instance
+export const findReplaceService = new FindReplaceService();
+export default findReplaceService;
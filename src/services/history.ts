@@ -0,0 +1,202 @@
+import * as Y from "yjs";
+import * as crypto from "crypto";
+import { serverConfig } from "../config";
+import { logger } from "../config/logger";
+import { yDocToJSON, jsonToYDoc, TiptapJSON } from "../utils/ydoc/converters";
+import { schema } from "../utils/ydoc/schema";
+import { DocumentHistoryEntry, ServerConfig } from "../types";
+
+// Name of the Y.Map holding history snapshots, next to the "default" fragment
+const HISTORY_MAP = "history";
+
+interface StoredHistoryEntry extends DocumentHistoryEntry {
+  // Base64 encoded Y.js snapshot (state vector + delete set)
+  snapshot: string;
+}
+
+// The snapshot a restore applied, and the one recorded just before it
+export interface RestoredSnapshot {
+  restored: DocumentHistoryEntry;
+  backup: DocumentHistoryEntry;
+}
+
+/**
+ * Point-in-time history of documents built on Y.js snapshots
+ * A snapshot only references items in the document, so tracked documents
+ * keep deleted content restorable: garbage collection only drops snapshot
+ * entries that were pruned, which would otherwise be synced forever
+ */
+export class HistoryService {
+  private tracked = new WeakSet<Y.Doc>();
+
+  constructor(private config: ServerConfig["history"] = serverConfig.history) {}
+
+  /**
+   * Limit garbage collection on a document to pruned history entries, so its
+   * history can be rendered
+   * Must be called before any state is applied to the document
+   */
+  track(yDoc: Y.Doc): void {
+    if (this.config.enabled) {
+      const history = this.getHistoryMap(yDoc);
+      yDoc.gcFilter = (item) => item.parent === history;
+      this.tracked.add(yDoc);
+    }
+  }
+
+  /**
+   * Check whether snapshots can be recorded and rendered for a document
+   */
+  isTracked(yDoc: Y.Doc): boolean {
+    return this.config.enabled && this.tracked.has(yDoc);
+  }
+
+  /**
+   * Record a snapshot of the document's current state, pruning the oldest
+   * ones beyond the configured maximum
+   * Returns null when the document is not tracked
+   */
+  recordSnapshot(
+    yDoc: Y.Doc,
+    name: string,
+    checkpointId?: string
+  ): DocumentHistoryEntry | null {
+    if (!this.isTracked(yDoc)) {
+      return null;
+    }
+
+    const entry: DocumentHistoryEntry = {
+      id: crypto.randomUUID(),
+      name,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (checkpointId) {
+      entry.checkpointId = checkpointId;
+    }
+
+    // Taken before the entry is written, so the snapshot excludes it
+    const snapshot = Buffer.from(Y.encodeSnapshot(Y.snapshot(yDoc))).toString(
+      "base64"
+    );
+
+    yDoc.transact(() => {
+      const history = this.getHistoryMap(yDoc);
+      history.set(entry.id, { ...entry, snapshot });
+
+      this.listHistory(yDoc)
+        .slice(0, Math.max(0, history.size - this.config.maxSnapshots))
+        .forEach((pruned) => history.delete(pruned.id));
+    });
+
+    return entry;
+  }
+
+  /**
+   * Delete a recorded snapshot
+   */
+  removeSnapshot(yDoc: Y.Doc, snapshotId: string): void {
+    yDoc.transact(() => {
+      this.getHistoryMap(yDoc).delete(snapshotId);
+    });
+  }
+
+  /**
+   * List the recorded snapshots of a document, oldest first
+   */
+  listHistory(yDoc: Y.Doc): DocumentHistoryEntry[] {
+    return Array.from(this.getHistoryMap(yDoc).values())
+      .map(({ snapshot: _snapshot, ...entry }) => entry)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get a history entry without its snapshot data
+   */
+  getEntry(yDoc: Y.Doc, snapshotId: string): DocumentHistoryEntry | null {
+    const stored = this.getHistoryMap(yDoc).get(snapshotId);
+    if (!stored) {
+      return null;
+    }
+
+    const { snapshot: _snapshot, ...entry } = stored;
+    return entry;
+  }
+
+  /**
+   * Render the document content as it was when a snapshot was recorded
+   * Returns null when no snapshot with that ID exists
+   */
+  getSnapshotContent(yDoc: Y.Doc, snapshotId: string): TiptapJSON | null {
+    const stored = this.getHistoryMap(yDoc).get(snapshotId);
+    if (!stored) {
+      return null;
+    }
+
+    if (!this.isTracked(yDoc)) {
+      throw new Error(
+        "Document history is unavailable for documents that are not tracked"
+      );
+    }
+
+    const snapshot = Y.decodeSnapshot(Buffer.from(stored.snapshot, "base64"));
+    // Y.js refuses to render snapshots of documents with garbage collection,
+    // although the filter set by track keeps everything a snapshot references
+    const gc = yDoc.gc;
+    yDoc.gc = false;
+    let historicDoc: Y.Doc;
+    try {
+      historicDoc = Y.createDocFromSnapshot(yDoc, snapshot);
+    } finally {
+      yDoc.gc = gc;
+    }
+
+    try {
+      return JSON.parse(yDocToJSON(historicDoc, schema, "default"));
+    } finally {
+      historicDoc.destroy();
+    }
+  }
+
+  /**
+   * Restore the content of a snapshot as a new forward change
+   * The current state is recorded first, so the restore can itself be undone
+   * Live documents are restored inside a direct connection's transaction, so
+   * the change reaches connected clients
+   */
+  restoreSnapshot(
+    roomId: string,
+    yDoc: Y.Doc,
+    snapshotId: string
+  ): RestoredSnapshot | null {
+    const restored = this.getEntry(yDoc, snapshotId);
+    const content = this.getSnapshotContent(yDoc, snapshotId);
+
+    if (!restored || !content) {
+      return null;
+    }
+
+    // Rendering the snapshot succeeded, so the document is tracked
+    const backup = this.recordSnapshot(
+      yDoc,
+      `Before restore of ${restored.name}`
+    )!;
+    jsonToYDoc(content, yDoc, schema, "default");
+
+    logger.info("Document restored from history snapshot", {
+      roomId,
+      snapshotId,
+      backupId: backup.id,
+    });
+
+    return { restored, backup };
+  }
+
+  private getHistoryMap(yDoc: Y.Doc): Y.Map<StoredHistoryEntry> {
+    return yDoc.getMap<StoredHistoryEntry>(HISTORY_MAP);
+  }
+}
+
+// Export a singleton instance
+export const historyService = new HistoryService();
+export default historyService;
@@ -0,0 +1,147 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { logger } from "../../config/logger";
+import { RegexMatcher } from "../../utils/regex_matcher";
+import { DocumentSnapshot, PersistenceAdapter } from "../../types";
+
+interface SnapshotMetadata {
+  checksum: string;
+  versionName?: string;
+  savedAt: string;
+}
+
+/**
+ * Persistence adapter storing snapshots on the local filesystem
+ * Layout: <directory>/<draft_id>/<version_id>.ydoc (Base64 content)
+ *         <directory>/<draft_id>/<version_id>.json (metadata)
+ */
+export class FileSystemPersistenceAdapter implements PersistenceAdapter {
+  readonly name = "filesystem" as const;
+
+  constructor(private directory: string) {}
+
+  /**
+   * Load document state from disk
+   */
+  async load(draftId: string, versionId: string): Promise<Uint8Array | null> {
+    const contentPath = this.getContentPath(draftId, versionId);
+
+    try {
+      const content = await fs.readFile(contentPath, "utf8");
+
+      logger.info("Document loaded from filesystem", {
+        draftId,
+        versionId,
+        contentLength: content.length,
+      });
+
+      return new Uint8Array(Buffer.from(content, "base64"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        logger.debug("No stored document found on filesystem", {
+          draftId,
+          versionId,
+        });
+        return null;
+      }
+      throw new Error(
+        `Failed to load document from filesystem: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Save document snapshot to disk
+   * Writes go to a temporary file first so a crash never leaves a partial snapshot
+   */
+  async save(
+    draftId: string,
+    versionId: string,
+    snapshot: DocumentSnapshot
+  ): Promise<void> {
+    const contentPath = this.getContentPath(draftId, versionId);
+    const metadataPath = this.getMetadataPath(draftId, versionId);
+
+    const existing = await this.readMetadata(metadataPath);
+    if (existing?.checksum === snapshot.checksum && !snapshot.versionName) {
+      logger.info("Document snapshot unchanged - skipping write", {
+        draftId,
+        versionId,
+        checksum: snapshot.checksum,
+      });
+      return;
+    }
+
+    const metadata: SnapshotMetadata = {
+      checksum: snapshot.checksum,
+      savedAt: new Date().toISOString(),
+    };
+
+    if (snapshot.versionName) {
+      metadata.versionName = snapshot.versionName;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(contentPath), { recursive: true });
+      await this.writeAtomic(contentPath, snapshot.content);
+      await this.writeAtomic(metadataPath, JSON.stringify(metadata));
+
+      logger.info("Document snapshot written to filesystem", {
+        draftId,
+        versionId,
+        checksum: snapshot.checksum,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to save document snapshot: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async readMetadata(
+    metadataPath: string
+  ): Promise<SnapshotMetadata | null> {
+    try {
+      return JSON.parse(await fs.readFile(metadataPath, "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data, "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getContentPath(draftId: string, versionId: string): string {
+    return path.join(
+      this.getDraftDirectory(draftId, versionId),
+      `${versionId}.ydoc`
+    );
+  }
+
+  private getMetadataPath(draftId: string, versionId: string): string {
+    return path.join(
+      this.getDraftDirectory(draftId, versionId),
+      `${versionId}.json`
+    );
+  }
+
+  /**
+   * Resolve the directory of a draft, only accepting UUIDs to keep paths inside the root
+   */
+  private getDraftDirectory(draftId: string, versionId: string): string {
+    if (
+      !RegexMatcher.matchUUID(draftId) ||
+      !RegexMatcher.matchUUID(versionId)
+    ) {
+      throw new Error(
+        `Invalid draft or version ID for filesystem persistence: ${draftId}/${versionId}`
+      );
+    }
+    return path.join(this.directory, draftId);
+  }
+}
+
+export default FileSystemPersistenceAdapter;
@@ -0,0 +1,28 @@
+import { serverConfig } from "../../config";
+import { logger } from "../../config/logger";
+import { PersistenceAdapter, ServerConfig } from "../../types";
+import { VettamPersistenceAdapter } from "./vettam";
+import { FileSystemPersistenceAdapter } from "./filesystem";
+
+/**
+ * Create the persistence adapter selected in the server configuration
+ */
+export function createPersistenceAdapter(
+  config: ServerConfig["persistence"] = serverConfig.persistence
+): PersistenceAdapter {
+  switch (config.backend) {
+    case "filesystem":
+      logger.info("Using filesystem persistence backend", {
+        directory: config.filesystem.directory,
+      });
+      return new FileSystemPersistenceAdapter(config.filesystem.directory);
+
+    case "vettam":
+      return new VettamPersistenceAdapter();
+
+    default:
+      throw new Error(`Unknown persistence backend: ${config.backend}`);
+  }
+}
+
+export { VettamPersistenceAdapter, FileSystemPersistenceAdapter };
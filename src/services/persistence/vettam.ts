@@ -0,0 +1,37 @@
+import { vettamAPI, VettamAPIService } from "../vettam-api";
+import { DocumentSnapshot, PersistenceAdapter } from "../../types";
+
+/**
+ * Persistence adapter backed by the Vettam API signed URL flow
+ */
+export class VettamPersistenceAdapter implements PersistenceAdapter {
+  readonly name = "vettam" as const;
+
+  constructor(private api: VettamAPIService = vettamAPI) {}
+
+  /**
+   * Load document state through the Vettam API
+   */
+  async load(draftId: string, versionId: string): Promise<Uint8Array | null> {
+    return this.api.loadDocumentFromDraft(draftId, versionId);
+  }
+
+  /**
+   * Save document snapshot through the Vettam API
+   */
+  async save(
+    draftId: string,
+    versionId: string,
+    snapshot: DocumentSnapshot
+  ): Promise<void> {
+    await this.api.saveDocumentSnapshot(
+      draftId,
+      versionId,
+      snapshot.content,
+      snapshot.checksum,
+      snapshot.versionName
+    );
+  }
+}
+
+export default VettamPersistenceAdapter;
@@ -0,0 +1,228 @@
+import * as Y from "yjs";
+import { logger } from "../config/logger";
+import { DocumentSuggestion, SuggestionFilter, SuggestionType } from "../types";
+
+export type SuggestionAction = "accept" | "reject";
+
+interface SuggestionAttrs {
+  id?: string | null;
+  author?: string | null;
+  timestamp?: string | number | null;
+}
+
+interface SuggestionRun {
+  text: Y.XmlText;
+  index: number;
+  length: number;
+  attributes: Record<string, unknown>;
+  value: string;
+}
+
+const SUGGESTION_TYPES: SuggestionType[] = ["insertion", "deletion"];
+
+/**
+ * Track changes (suggestion mode) of a document
+ * Suggestions are the insertion and deletion marks TipTap writes in
+ * suggestion mode; y-prosemirror stores them as formatting attributes on
+ * Y.XmlText, so they are resolved with minimal text edits in place
+ */
+export class SuggestionService {
+  /**
+   * List the suggestions of a document in document order
+   * Adjacent text with the same suggestion mark is reported as one suggestion
+   */
+  listSuggestions(yDoc: Y.Doc): DocumentSuggestion[] {
+    const suggestions: DocumentSuggestion[] = [];
+
+    for (const texts of this.collectTextBlocks(yDoc)) {
+      let previous: Record<SuggestionType, DocumentSuggestion | null> = {
+        insertion: null,
+        deletion: null,
+      };
+
+      for (const run of texts.flatMap((text) => this.readRuns(text))) {
+        const current: Record<SuggestionType, DocumentSuggestion | null> = {
+          insertion: null,
+          deletion: null,
+        };
+
+        for (const type of SUGGESTION_TYPES) {
+          const attrs = run.attributes[type] as SuggestionAttrs | undefined;
+          if (!attrs) {
+            continue;
+          }
+
+          const suggestion = toSuggestion(type, attrs, run.value);
+          const last = previous[type];
+          if (last && isSameSuggestion(last, suggestion)) {
+            last.text += run.value;
+            current[type] = last;
+          } else {
+            suggestions.push(suggestion);
+            current[type] = suggestion;
+          }
+        }
+
+        previous = current;
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Accept or reject the suggestions matching a filter (all when omitted)
+   * Accepting keeps insertions and removes deleted text, rejecting does the
+   * opposite. Returns the number of suggestions resolved
+   */
+  resolveSuggestions(
+    roomId: string,
+    yDoc: Y.Doc,
+    action: SuggestionAction,
+    filter: SuggestionFilter = {}
+  ): number {
+    const resolved = this.listSuggestions(yDoc).filter((suggestion) =>
+      matchesFilter(suggestion, filter)
+    ).length;
+
+    if (resolved === 0) {
+      return 0;
+    }
+
+    yDoc.transact(() => {
+      for (const texts of this.collectTextBlocks(yDoc)) {
+        for (const text of texts) {
+          // Edit from the end so earlier offsets stay valid
+          for (const run of this.readRuns(text).reverse()) {
+            this.resolveRun(run, action, filter);
+          }
+        }
+      }
+    });
+
+    logger.info("Suggestions resolved", { roomId, action, resolved });
+
+    return resolved;
+  }
+
+  private resolveRun(
+    run: SuggestionRun,
+    action: SuggestionAction,
+    filter: SuggestionFilter
+  ): void {
+    const selected = SUGGESTION_TYPES.filter((type) => {
+      const attrs = run.attributes[type] as SuggestionAttrs | undefined;
+      return attrs && matchesFilter(toSuggestion(type, attrs, ""), filter);
+    });
+
+    if (selected.length === 0) {
+      return;
+    }
+
+    // Text a resolved suggestion drops: rejected insertions, accepted deletions
+    const removed = selected.includes(
+      action === "accept" ? "deletion" : "insertion"
+    );
+
+    if (removed) {
+      run.text.delete(run.index, run.length);
+      return;
+    }
+
+    const cleared: Record<string, null> = {};
+    for (const type of selected) {
+      cleared[type] = null;
+    }
+    run.text.format(run.index, run.length, cleared);
+  }
+
+  /**
+   * Group the Y.XmlText nodes of the "default" fragment by parent element,
+   * so suggestions never merge across blocks
+   */
+  private collectTextBlocks(yDoc: Y.Doc): Y.XmlText[][] {
+    const blocks: Y.XmlText[][] = [];
+
+    const visit = (parent: Y.XmlFragment | Y.XmlElement) => {
+      const texts: Y.XmlText[] = [];
+      for (const child of parent.toArray()) {
+        if (child instanceof Y.XmlText) {
+          texts.push(child);
+        } else if (child instanceof Y.XmlElement) {
+          visit(child);
+        }
+      }
+      if (texts.length > 0) {
+        blocks.push(texts);
+      }
+    };
+
+    visit(yDoc.getXmlFragment("default"));
+    return blocks;
+  }
+
+  private readRuns(text: Y.XmlText): SuggestionRun[] {
+    const runs: SuggestionRun[] = [];
+    let index = 0;
+
+    for (const op of text.toDelta()) {
+      const value = typeof op.insert === "string" ? op.insert : "";
+      const length = typeof op.insert === "string" ? op.insert.length : 1;
+      runs.push({
+        text,
+        index,
+        length,
+        attributes: op.attributes ?? {},
+        value,
+      });
+      index += length;
+    }
+
+    return runs;
+  }
+}
+
+function toSuggestion(
+  type: SuggestionType,
+  attrs: SuggestionAttrs,
+  text: string
+): DocumentSuggestion {
+  return {
+    id: attrs.id ?? null,
+    type,
+    author: attrs.author ?? null,
+    timestamp: attrs.timestamp ?? null,
+    text,
+  };
+}
+
+function isSameSuggestion(
+  a: DocumentSuggestion,
+  b: DocumentSuggestion
+): boolean {
+  return (
+    a.type === b.type &&
+    a.id === b.id &&
+    a.author === b.author &&
+    a.timestamp === b.timestamp
+  );
+}
+
+function matchesFilter(
+  suggestion: DocumentSuggestion,
+  filter: SuggestionFilter
+): boolean {
+  if (filter.ids && (!suggestion.id || !filter.ids.includes(suggestion.id))) {
+    return false;
+  }
+
+  if (filter.author && suggestion.author !== filter.author) {
+    return false;
+  }
+
+  return true;
+}
+
+// Export a singleton instance
+export const suggestionService = new SuggestionService();
+export default suggestionService;
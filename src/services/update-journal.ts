@@ -0,0 +1,235 @@
+import { promises as fs, statSync } from "fs";
+import * as path from "path";
+import { serverConfig } from "../config";
+import { logger } from "../config/logger";
+import { RegexMatcher } from "../utils/regex_matcher";
+import { ServerConfig } from "../types";
+
+// Each record is a 4 byte big-endian length prefix followed by the update bytes
+const RECORD_HEADER_BYTES = 4;
+
+/**
+ * Append-only write-ahead journal of Y.js updates, one file per room
+ * Updates are journaled as they happen and replayed on top of the last
+ * snapshot after a crash; compaction drops everything a snapshot covers
+ */
+export class UpdateJournal {
+  private pending: Map<string, Buffer[]> = new Map();
+  private queues: Map<string, Promise<void>> = new Map();
+  private positions: Map<string, number> = new Map();
+
+  constructor(private directory: string) {}
+
+  /**
+   * Queue an update for appending to the room's journal
+   * Updates arriving while a write is in flight are batched into the next write
+   */
+  append(roomId: string, update: Uint8Array): void {
+    const record = Buffer.alloc(RECORD_HEADER_BYTES + update.length);
+    record.writeUInt32BE(update.length, 0);
+    record.set(update, RECORD_HEADER_BYTES);
+
+    this.positions.set(roomId, this.getPosition(roomId) + record.length);
+
+    const pending = this.pending.get(roomId);
+    if (pending) {
+      pending.push(record);
+      return;
+    }
+
+    this.pending.set(roomId, [record]);
+    this.enqueue(roomId, () => this.writePending(roomId));
+  }
+
+  /**
+   * Journal length in bytes once all queued writes have landed
+   * Used as the compaction mark for a snapshot taken right now
+   */
+  getPosition(roomId: string): number {
+    let position = this.positions.get(roomId);
+
+    if (position === undefined) {
+      try {
+        position = statSync(this.getJournalPath(roomId)).size;
+      } catch {
+        position = 0;
+      }
+      this.positions.set(roomId, position);
+    }
+
+    return position;
+  }
+
+  /**
+   * Read all complete updates from the room's journal
+   * A torn trailing record (crash mid-write) is truncated away
+   */
+  async replay(roomId: string): Promise<Uint8Array[]> {
+    const updates: Uint8Array[] = [];
+
+    await this.enqueue(roomId, async () => {
+      const journalPath = this.getJournalPath(roomId);
+      let data: Buffer;
+
+      try {
+        data = await fs.readFile(journalPath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          this.positions.set(roomId, 0);
+          return;
+        }
+        throw error;
+      }
+
+      let offset = 0;
+      while (offset + RECORD_HEADER_BYTES <= data.length) {
+        const length = data.readUInt32BE(offset);
+        const end = offset + RECORD_HEADER_BYTES + length;
+        if (end > data.length) {
+          break;
+        }
+        updates.push(
+          new Uint8Array(data.subarray(offset + RECORD_HEADER_BYTES, end))
+        );
+        offset = end;
+      }
+
+      if (offset < data.length) {
+        logger.warn("Truncating torn record at end of update journal", {
+          roomId,
+          validBytes: offset,
+          totalBytes: data.length,
+        });
+        await fs.truncate(journalPath, offset);
+      }
+
+      this.positions.set(roomId, offset + this.getPendingBytes(roomId));
+    });
+
+    return updates;
+  }
+
+  /**
+   * Drop the first `position` bytes of the journal (covered by a snapshot)
+   */
+  compact(roomId: string, position: number): Promise<void> {
+    if (position <= 0) {
+      return Promise.resolve();
+    }
+
+    const remaining = Math.max(0, this.getPosition(roomId) - position);
+    this.positions.set(roomId, remaining);
+
+    return this.enqueue(roomId, async () => {
+      const journalPath = this.getJournalPath(roomId);
+      let data: Buffer;
+
+      try {
+        data = await fs.readFile(journalPath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return;
+        }
+        throw error;
+      }
+
+      const remainder = data.subarray(position);
+
+      if (remainder.length === 0) {
+        await fs.unlink(journalPath);
+      } else {
+        const tempPath = `${journalPath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, remainder);
+        await fs.rename(tempPath, journalPath);
+      }
+
+      logger.debug("Update journal compacted", {
+        roomId,
+        removedBytes: Math.min(position, data.length),
+        remainingBytes: remainder.length,
+      });
+    });
+  }
+
+  /**
+   * Wait until all queued journal operations for a room have completed
+   */
+  flush(roomId: string): Promise<void> {
+    return this.queues.get(roomId) ?? Promise.resolve();
+  }
+
+  /**
+   * Write all batched records for a room in a single durable append
+   */
+  private async writePending(roomId: string): Promise<void> {
+    const records = this.pending.get(roomId);
+    this.pending.delete(roomId);
+
+    if (!records || records.length === 0) {
+      return;
+    }
+
+    const journalPath = this.getJournalPath(roomId);
+    await fs.mkdir(path.dirname(journalPath), { recursive: true });
+
+    const handle = await fs.open(journalPath, "a");
+    try {
+      await handle.write(Buffer.concat(records));
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private getPendingBytes(roomId: string): number {
+    return (this.pending.get(roomId) ?? []).reduce(
+      (total, record) => total + record.length,
+      0
+    );
+  }
+
+  /**
+   * Serialize journal operations per room so appends and compactions never interleave
+   */
+  private enqueue(
+    roomId: string,
+    operation: () => Promise<void>
+  ): Promise<void> {
+    const previous = this.queues.get(roomId) ?? Promise.resolve();
+
+    const next = previous.then(operation).catch((error) => {
+      logger.error("Update journal operation failed", {
+        roomId,
+        error: (error as Error).message,
+      });
+    });
+
+    this.queues.set(roomId, next);
+    next.then(() => {
+      if (this.queues.get(roomId) === next) {
+        this.queues.delete(roomId);
+      }
+    });
+
+    return next;
+  }
+
+  private getJournalPath(roomId: string): string {
+    if (!RegexMatcher.matchUUIDPair(roomId)) {
+      throw new Error(`Invalid room ID for update journal: ${roomId}`);
+    }
+    return path.join(this.directory, `${roomId.replace(":", "_")}.journal`);
+  }
+}
+
+/**
+ * Create the update journal configured for this server, or null when disabled
+ */
+export function createUpdateJournal(
+  config: ServerConfig["journal"] = serverConfig.journal
+): UpdateJournal | null {
+  if (!config.enabled) {
+    return null;
+  }
+  return new UpdateJournal(config.directory);
+}
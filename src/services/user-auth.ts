@@ -0,0 +1,65 @@
+import { vettamAPI } from "./vettam-api";
+import { documentService } from "./document";
+import { verifyJWT } from "../utils/auth-utils";
+import { AuthContext, AuthorizationRequest } from "../types";
+
+/**
+ * A valid user without access to the room
+ */
+export class RoomAccessError extends Error {
+  constructor(message: string = "User not authorized to access this room") {
+    super(message);
+    this.name = "RoomAccessError";
+  }
+}
+
+/**
+ * Authentication of users against a room, shared by WebSocket connections
+ * and the REST routes that act on a user's behalf
+ */
+export class UserAuthService {
+  /**
+   * Verify a user's JWT and check their access to a room with the Vettam API
+   */
+  async authenticate(token: string, roomId: string): Promise<AuthContext> {
+    // Verify JWT token
+    const payload = await verifyJWT(token);
+
+    if (!payload.sub) {
+      throw new Error("Invalid token: missing user ID");
+    }
+
+    const userId = payload.sub as string;
+    const draftID = documentService.extractDraftId(roomId);
+    const versionId = documentService.extractVersionId(roomId);
+
+    if (!draftID || !versionId) {
+      throw new Error("Invalid document name format");
+    }
+
+    // Check authorization with Vettam API
+    const authRequest: AuthorizationRequest = {
+      userId: userId,
+      roomId: roomId,
+      userJwt: token,
+      draftId: draftID,
+      versionId: versionId,
+    };
+
+    const authResponse = await vettamAPI.authorizeUser(authRequest);
+
+    if (!authResponse.access) {
+      throw new RoomAccessError();
+    }
+
+    return {
+      user: authResponse.user,
+      room_id: authResponse.room.room_id,
+      edit: authResponse.edit,
+    };
+  }
+}
+
+// Export a singleton instance
+export const userAuthService = new UserAuthService();
+export default userAuthService;
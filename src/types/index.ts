@@ -68,6 +68,210 @@ export interface APIErrorResponse {
   timestamp: string;
 }
 
+// Persistence types
+export type PersistenceBackend = "vettam" | "filesystem";
+
+export interface DocumentSnapshot {
+  // Base64 encoded Y.js state update
+  content: string;
+  // SHA256 checksum of the Base64 content
+  checksum: string;
+  versionName?: string;
+}
+
+export interface PersistenceAdapter {
+  readonly name: PersistenceBackend;
+  /**
+   * Load the stored Y.js state for a draft version
+   * Resolves to null when nothing has been stored yet
+   */
+  load(draftId: string, versionId: string): Promise<Uint8Array | null>;
+  /**
+   * Store a full snapshot of a draft version
+   */
+  save(
+    draftId: string,
+    versionId: string,
+    snapshot: DocumentSnapshot
+  ): Promise<void>;
+}
+
+export interface DocumentSaveStatus {
+  roomId: string;
+  loaded: boolean;
+  dirty: boolean;
+  lastSavedAt: string | null;
+}
+
+export interface DocumentCheckpoint {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface DocumentHistoryEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Checkpoint this snapshot was taken for, if any
+  checkpointId?: string;
+}
+
+export type SuggestionType = "insertion" | "deletion";
+
+export interface DocumentSuggestion {
+  // Suggestion ID from the mark, null when the client did not set one
+  id: string | null;
+  type: SuggestionType;
+  author: string | null;
+  timestamp: string | number | null;
+  text: string;
+}
+
+export interface SuggestionFilter {
+  ids?: string[];
+  author?: string;
+}
+
+// Field types whose values are checked when set; others take any text
+export type FieldType = "text" | "date" | "number";
+
+// Number fields hold numbers, other fields text
+export type FieldValue = string | number;
+
+export interface DocumentField {
+  name: string;
+  type: string;
+  // Value of the field's first occurrence, null while blank
+  value: FieldValue | null;
+  // Fields sharing a name are filled in together
+  occurrences: number;
+}
+
+export type CommentThreadStatus = "open" | "resolved";
+
+export interface DocumentComment {
+  id: string;
+  author: User;
+  body: string;
+  createdAt: string;
+}
+
+export interface CommentRange {
+  // Child indexes of the text block from the document root
+  path: number[];
+  // Character offsets within the block's text (inline nodes count as one)
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface CommentThread {
+  id: string;
+  // Where the anchor is now, null once the commented block is deleted
+  range: CommentRange | null;
+  // The commented text when the thread was started
+  quote: string;
+  status: CommentThreadStatus;
+  createdAt: string;
+  resolvedBy: User | null;
+  resolvedAt: string | null;
+  // Oldest first; the first comment starts the thread
+  comments: DocumentComment[];
+}
+
+export interface FindReplaceOptions {
+  find: string;
+  // Replacement text; with regex, $& and $1.. or $<name> refer to the match
+  replace?: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+}
+
+export interface TextMatch {
+  // Child indexes of the text block from the document root
+  path: number[];
+  // Character offsets within the block's text (inline nodes count as one)
+  from: number;
+  to: number;
+  text: string;
+  replacement: string | null;
+  // Text around the match within the block, for previews
+  before: string;
+  after: string;
+}
+
+// A block addressed by exactly one of: its path of child indexes from the
+// document root, its block ID, or the text of a heading (first match)
+export interface BlockTarget {
+  path?: number[];
+  id?: string;
+  heading?: string;
+  // Only match headings of this level
+  level?: number;
+}
+
+// Values a block attribute can be set to, e.g. a table cell's colwidth
+export type AttributeValue = string | number | boolean | number[];
+
+// Blocks as TipTap JSON nodes, one or several
+export type OperationContent = Record<string, unknown> | Record<string, unknown>[];
+
+export type DocumentOperation =
+  | {
+      // Insert after or before a block, or at the end of the document
+      op: "insert_block";
+      after?: BlockTarget;
+      before?: BlockTarget;
+      content: OperationContent;
+    }
+  | { op: "replace_block"; target: BlockTarget; content: OperationContent }
+  | {
+      // Insert at the end of a heading's section, before the next heading
+      // of the same or a higher level
+      op: "append_to_section";
+      heading: BlockTarget;
+      content: OperationContent;
+    }
+  | {
+      // Null resets an attribute to its default
+      op: "set_attribute";
+      target: BlockTarget;
+      attrs: Record<string, AttributeValue | null>;
+    }
+  | {
+      // Character offsets within the block's text (inline nodes count as
+      // one), the whole block when omitted
+      op: "apply_mark";
+      target: BlockTarget;
+      from?: number;
+      to?: number;
+      mark: { type: string; attrs?: Record<string, unknown> };
+    };
+
+export interface DocumentOperationResult {
+  op: DocumentOperation["op"];
+  // Paths of the blocks the operation wrote, after it was applied
+  paths: number[][];
+}
+
+export interface DeadLetterEntry {
+  roomId: string;
+  checksum: string;
+  error: string;
+  failures: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
+export interface DeadLetterReplayResult {
+  roomId: string;
+  saved: boolean;
+  error?: string;
+}
+
 // Configuration types
 export interface ServerConfig {
   port: {
@@ -91,4 +295,29 @@ export interface ServerConfig {
     audience: string;
     issuer: string;
   };
+  persistence: {
+    backend: PersistenceBackend;
+    filesystem: {
+      directory: string;
+    };
+  };
+  journal: {
+    enabled: boolean;
+    directory: string;
+  };
+  autosave: {
+    enabled: boolean;
+    debounceMs: number;
+    maxIntervalMs: number;
+  };
+  history: {
+    enabled: boolean;
+    maxSnapshots: number;
+  };
+  snapshotRetry: {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    deadLetterDirectory: string;
+  };
 }
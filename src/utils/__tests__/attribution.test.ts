@@ -0,0 +1,98 @@
+import test from "ava";
+import * as Y from "yjs";
+import { attributeXmlFragment } from "../ydoc/attribution";
+import { User } from "../../types";
+
+const alice: User = { id: "alice" };
+const bob: User = { id: "bob" };
+
+function createClient(clientID: number): Y.Doc {
+  const doc = new Y.Doc();
+  doc.clientID = clientID;
+  return doc;
+}
+
+function sync(from: Y.Doc, to: Y.Doc): void {
+  Y.applyUpdate(to, Y.encodeStateAsUpdate(from, Y.encodeStateVector(to)));
+}
+
+const authors: Record<number, User> = { 1: alice, 2: bob };
+const resolveAuthor = (clientId: number) => authors[clientId] ?? null;
+
+test("attributes ranges of a paragraph to the clients that typed them", (t) => {
+  const aliceDoc = createClient(1);
+  const paragraph = new Y.XmlElement("paragraph");
+  const text = new Y.XmlText();
+  paragraph.insert(0, [text]);
+  aliceDoc.getXmlFragment("default").insert(0, [paragraph]);
+  text.insert(0, "Rent is due monthly");
+
+  const bobDoc = createClient(2);
+  sync(aliceDoc, bobDoc);
+  const bobText = (bobDoc.getXmlFragment("default").get(0) as Y.XmlElement).get(
+    0
+  ) as Y.XmlText;
+  bobText.delete(12, 7);
+  bobText.insert(12, "quarterly", { bold: true });
+
+  const [block] = attributeXmlFragment(
+    bobDoc.getXmlFragment("default"),
+    resolveAuthor
+  );
+
+  t.is(block.type, "paragraph");
+  t.is(block.text, "Rent is due quarterly");
+  t.deepEqual(block.ranges, [
+    { from: 0, to: 12, text: "Rent is due ", author: alice },
+    { from: 12, to: 21, text: "quarterly", author: bob },
+  ]);
+});
+
+test("walks nested blocks and reports unknown clients as null", (t) => {
+  const doc = createClient(3);
+  const list = new Y.XmlElement("bulletList");
+  const item = new Y.XmlElement("listItem");
+  const paragraph = new Y.XmlElement("paragraph");
+  const text = new Y.XmlText();
+  paragraph.insert(0, [text]);
+  item.insert(0, [paragraph]);
+  list.insert(0, [item]);
+  doc
+    .getXmlFragment("default")
+    .insert(0, [list, new Y.XmlElement("paragraph")]);
+  text.insert(0, "Item");
+
+  const blocks = attributeXmlFragment(
+    doc.getXmlFragment("default"),
+    resolveAuthor
+  );
+
+  t.deepEqual(blocks, [
+    {
+      type: "paragraph",
+      path: ["bulletList", "listItem"],
+      text: "Item",
+      ranges: [{ from: 0, to: 4, text: "Item", author: null }],
+    },
+    { type: "paragraph", path: [], text: "", ranges: [] },
+  ]);
+});
+
+test("counts hard breaks as a newline", (t) => {
+  const doc = createClient(1);
+  const paragraph = new Y.XmlElement("paragraph");
+  const first = new Y.XmlText();
+  const second = new Y.XmlText();
+  paragraph.insert(0, [first, new Y.XmlElement("hardBreak"), second]);
+  doc.getXmlFragment("default").insert(0, [paragraph]);
+  first.insert(0, "Line one");
+  second.insert(0, "Line two");
+
+  const [block] = attributeXmlFragment(
+    doc.getXmlFragment("default"),
+    resolveAuthor
+  );
+
+  t.is(block.text, "Line one\nLine two");
+  t.is(block.ranges.length, 1);
+});
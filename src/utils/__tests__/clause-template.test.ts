@@ -0,0 +1,135 @@
+import test from "ava";
+import {
+  ClauseTemplateError,
+  formatVariable,
+  parseClauseVariables,
+  renderClause,
+} from "../templates/clause-template";
+import { markdownToTiptapJson } from "../converters/json-to-tiptap";
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+const paragraph = (...content: any[]) => ({ type: "paragraph", content });
+
+test("renderClause substitutes placeholders and keeps their marks", (t) => {
+  const rendered = renderClause(
+    {
+      type: "doc",
+      content: [
+        paragraph(
+          text("This lease is between "),
+          text("{{ landlord }}", [{ type: "bold" }]),
+          text(" and {{tenant}}, starting {{start_date}}.")
+        ),
+        paragraph(text("Rent: {{rent}}. Pets: {{pets}}. {{notes}}")),
+      ],
+    },
+    parseClauseVariables({
+      landlord: "Acme Ltd",
+      tenant: "Ann Lee",
+      start_date: { type: "date", value: "2024-03-01" },
+      rent: { type: "currency", value: 1250, currency: "USD" },
+      pets: false,
+      notes: "",
+    })
+  );
+
+  t.deepEqual(rendered.content, [
+    paragraph(
+      text("This lease is between "),
+      text("Acme Ltd", [{ type: "bold" }]),
+      text(" and Ann Lee, starting March 1, 2024.")
+    ),
+    paragraph(text("Rent: $1,250.00. Pets: No. ")),
+  ]);
+  t.deepEqual(rendered.placeholders, [
+    "landlord",
+    "tenant",
+    "start_date",
+    "rent",
+    "pets",
+    "notes",
+  ]);
+  t.deepEqual(rendered.unresolved, []);
+});
+
+test("renderClause reports unresolved placeholders and unused variables", (t) => {
+  const rendered = renderClause(
+    markdownToTiptapJson(
+      "## {{party_name}} obligations\n\n{{party_name}} pays {{amount}}."
+    ),
+    { amount: 1500, party: "Buyer" }
+  );
+
+  t.deepEqual(rendered.content, [
+    {
+      type: "heading",
+      attrs: { level: 2 },
+      content: [text("{{party_name}} obligations")],
+    },
+    paragraph(text("{{party_name}} pays 1,500.")),
+  ]);
+  t.deepEqual(rendered.unresolved, ["party_name"]);
+  t.deepEqual(rendered.unused, ["party"]);
+});
+
+test("renderClause rejects clauses that are not valid for the schema", (t) => {
+  t.throws(
+    () =>
+      renderClause(
+        {
+          type: "doc",
+          content: [{ type: "listItem", content: [paragraph(text("x"))] }],
+        },
+        {}
+      ),
+    { instanceOf: ClauseTemplateError, message: /not valid for the schema/ }
+  );
+  t.throws(() => renderClause({ type: "paragraph" }, {}), {
+    message: "clause must be a TipTap document",
+  });
+  t.throws(() => renderClause({ type: "doc", content: [] }, {}), {
+    message: "clause has no content",
+  });
+});
+
+test("parseClauseVariables rejects values of unknown types", (t) => {
+  t.deepEqual(parseClauseVariables(undefined), {});
+  t.throws(() => parseClauseVariables(["a"]), {
+    message: "variables must be an object",
+  });
+
+  for (const value of [
+    null,
+    Number.NaN,
+    ["x"],
+    { type: "date", value: "2024-02-31" },
+    { type: "date", value: "01/03/2024" },
+    { type: "currency", value: 10, currency: "DOLLARS" },
+    { type: "percent", value: 5 },
+  ]) {
+    t.throws(() => parseClauseVariables({ term: value }), {
+      instanceOf: ClauseTemplateError,
+      message: /^variables\.term must be/,
+    });
+  }
+});
+
+test("formatVariable formats dates and amounts for a locale", (t) => {
+  t.is(
+    formatVariable({ type: "date", value: "2024-03-01" }, "en-GB"),
+    "1 March 2024"
+  );
+  t.is(
+    formatVariable(
+      { type: "currency", value: 1250.5, currency: "GBP" },
+      "en-GB"
+    ),
+    "£1,250.50"
+  );
+  t.is(formatVariable(true), "Yes");
+});
@@ -0,0 +1,165 @@
+import test from "ava";
+import { computeDocumentStats } from "../stats/document-stats";
+
+const text = (value: string) => ({ type: "text", text: value });
+
+const paragraph = (value?: string) => ({
+  type: "paragraph",
+  content: value ? [text(value)] : [],
+});
+
+const heading = (level: number, value: string) => ({
+  type: "heading",
+  attrs: { level },
+  content: [text(value)],
+});
+
+test("computeDocumentStats counts words, characters and blocks", (t) => {
+  const stats = computeDocumentStats({
+    type: "doc",
+    content: [
+      heading(1, "Lease"),
+      {
+        type: "paragraph",
+        content: [
+          text("The tenant — Ann"),
+          { type: "hardBreak" },
+          text("pays rent."),
+          { type: "image", attrs: { src: "seal.png" } },
+        ],
+      },
+      paragraph(),
+      {
+        type: "bulletList",
+        content: [{ type: "listItem", content: [paragraph("Keys")] }],
+      },
+      {
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [{ type: "tableCell", content: [paragraph("Deposit 2")] }],
+          },
+        ],
+      },
+    ],
+  });
+
+  t.is(stats.words, 9);
+  t.is(stats.characters, 5 + 16 + 10 + 4 + 9);
+  t.is(stats.charactersExcludingSpaces, 5 + 13 + 9 + 4 + 8);
+  t.is(stats.paragraphs, 3);
+  t.is(stats.headings, 1);
+  t.is(stats.tables, 1);
+  t.is(stats.images, 1);
+  t.is(stats.readingTimeMinutes, 1);
+});
+
+test("computeDocumentStats rounds reading time up and is zero when empty", (t) => {
+  const words = Array.from({ length: 401 }, () => "word").join(" ");
+  t.is(
+    computeDocumentStats({ type: "doc", content: [paragraph(words)] })
+      .readingTimeMinutes,
+    3
+  );
+
+  const empty = computeDocumentStats({ type: "doc", content: [paragraph()] });
+  t.is(empty.words, 0);
+  t.is(empty.readingTimeMinutes, 0);
+  t.deepEqual(empty.outline, []);
+});
+
+test("computeDocumentStats builds a heading tree with positions", (t) => {
+  const stats = computeDocumentStats({
+    type: "doc",
+    content: [
+      heading(1, "Terms"),
+      heading(2, "Rent"),
+      paragraph("Monthly"),
+      heading(3, "Late fees"),
+      heading(2, "Deposit"),
+      heading(1, "Signatures"),
+    ],
+  });
+
+  t.deepEqual(stats.outline, [
+    {
+      id: null,
+      level: 1,
+      number: "1",
+      text: "Terms",
+      position: 0,
+      children: [
+        {
+          id: null,
+          level: 2,
+          number: "1.1",
+          text: "Rent",
+          position: 7,
+          children: [
+            {
+              id: null,
+              level: 3,
+              number: "1.1.1",
+              text: "Late fees",
+              position: 22,
+              children: [],
+            },
+          ],
+        },
+        {
+          id: null,
+          level: 2,
+          number: "1.2",
+          text: "Deposit",
+          position: 33,
+          children: [],
+        },
+      ],
+    },
+    {
+      id: null,
+      level: 1,
+      number: "2",
+      text: "Signatures",
+      position: 42,
+      children: [],
+    },
+  ]);
+});
+
+test("computeDocumentStats numbers headings and reports broken references", (t) => {
+  const stats = computeDocumentStats({
+    type: "doc",
+    content: [
+      { ...heading(1, "Terms"), attrs: { level: 1, id: "terms" } },
+      heading(3, "Rent"),
+      { ...heading(2, "Deposit"), attrs: { level: 2, id: "deposit" } },
+      {
+        type: "paragraph",
+        content: [
+          text("See "),
+          { type: "crossReference", attrs: { target: "deposit" } },
+          { type: "footnote", attrs: { text: "Held in escrow." } },
+          text(" and "),
+          { type: "crossReference", attrs: { target: "schedule-b" } },
+        ],
+      },
+    ],
+  });
+
+  const [terms] = stats.outline;
+  t.is(terms.id, "terms");
+  t.deepEqual(
+    terms.children.map((entry) => [entry.number, entry.id]),
+    [
+      ["1.1", null],
+      ["1.2", "deposit"],
+    ]
+  );
+  t.is(stats.footnotes, 1);
+  t.is(stats.crossReferences, 2);
+  t.deepEqual(stats.brokenReferences, [{ target: "schedule-b", position: 34 }]);
+  // Footnotes and cross-references are not counted as words
+  t.is(stats.words, 5);
+});
@@ -0,0 +1,434 @@
+import test from "ava";
+import JSZip from "jszip";
+import { tiptapJsonToDocx } from "../converters/docx";
+import { docxToTiptapJson } from "../converters/docx-import";
+
+const W_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" ' +
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"';
+const RELATIONSHIPS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+/**
+ * Build a .docx file the way Word lays one out, with theme fonts, styles
+ * and numbering definitions
+ */
+async function wordDocument(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "_rels/.rels",
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIPS}/officeDocument" Target="word/document.xml"/></Relationships>`
+  );
+  zip.file(
+    "word/_rels/document.xml.rels",
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS}/styles" Target="styles.xml"/>` +
+      `<Relationship Id="rId2" Type="${RELATIONSHIPS}/numbering" Target="numbering.xml"/>` +
+      `<Relationship Id="rId3" Type="${RELATIONSHIPS}/theme" Target="theme/theme1.xml"/>` +
+      `<Relationship Id="rId4" Type="${RELATIONSHIPS}/header" Target="header1.xml"/>` +
+      `<Relationship Id="rId5" Type="${RELATIONSHIPS}/image" Target="media/image1.png"/>` +
+      `<Relationship Id="rId6" Type="${RELATIONSHIPS}/image" Target="media/image2.emf"/>` +
+      `<Relationship Id="rId7" Type="${RELATIONSHIPS}/hyperlink" Target="https://example.com/" TargetMode="External"/>` +
+      `</Relationships>`
+  );
+  zip.file(
+    "word/styles.xml",
+    `<w:styles ${W_NAMESPACES}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi" w:hAnsiTheme="minorHAnsi"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>` +
+      `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>` +
+      `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:rPr><w:sz w:val="56"/></w:rPr></w:style>` +
+      `<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>` +
+      `<w:style w:type="paragraph" w:styleId="ClauseHeading"><w:name w:val="Clause Heading"/><w:basedOn w:val="Normal"/><w:pPr><w:numPr><w:numId w:val="2"/></w:numPr><w:outlineLvl w:val="2"/></w:pPr></w:style>` +
+      `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:rPr><w:i/></w:rPr></w:style>` +
+      `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/></w:style>` +
+      `<w:style w:type="character" w:styleId="Strong"><w:name w:val="Strong"/><w:rPr><w:b/></w:rPr></w:style>` +
+      `</w:styles>`
+  );
+  zip.file(
+    "word/numbering.xml",
+    `<w:numbering ${W_NAMESPACES}>` +
+      `<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/></w:lvl><w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/></w:lvl></w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:start w:val="5"/><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>` +
+      `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+      `<w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>` +
+      `</w:numbering>`
+  );
+  zip.file(
+    "word/theme/theme1.xml",
+    `<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Office"><a:themeElements><a:fontScheme name="Office">` +
+      `<a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont>` +
+      `</a:fontScheme></a:themeElements></a:theme>`
+  );
+  zip.file(
+    "word/header1.xml",
+    `<w:hdr ${W_NAMESPACES}><w:p><w:r><w:t>Confidential</w:t></w:r></w:p></w:hdr>`
+  );
+  zip.file("word/media/image1.png", PNG);
+  zip.file("word/media/image2.emf", Buffer.from("not an image"));
+  zip.file(
+    "word/document.xml",
+    `<w:document ${W_NAMESPACES}><w:body>${body}<w:sectPr/></w:body></w:document>`
+  );
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+const paragraph = (content: any[], attrs?: any) => ({
+  type: "paragraph",
+  ...(attrs && { attrs }),
+  content,
+});
+
+test("docx import reads back what docx export writes", async (t) => {
+  const doc = {
+    type: "doc",
+    content: [
+      {
+        type: "heading",
+        attrs: {
+          level: 2,
+          textAlign: "center",
+          fontFamily: "Arial",
+          fontSize: 18,
+        },
+        content: [text("Lease")],
+      },
+      paragraph(
+        [
+          text("Bold", [{ type: "bold" }]),
+          text(" and "),
+          text("linked", [
+            { type: "italic" },
+            { type: "link", attrs: { href: "https://example.com/" } },
+          ]),
+          { type: "hardBreak" },
+          text("code", [{ type: "code" }]),
+          text(" added", [
+            {
+              type: "insertion",
+              attrs: {
+                id: "1",
+                author: "Ann",
+                timestamp: "2024-01-01T00:00:00Z",
+              },
+            },
+          ]),
+          text(" red", [
+            { type: "highlight" },
+            { type: "textStyle", attrs: { color: "#ff0000" } },
+          ]),
+        ],
+        { textAlign: "justify", marginTop: 6, marginBottom: 3 }
+      ),
+      {
+        type: "orderedList",
+        attrs: { start: 3 },
+        content: [
+          {
+            type: "listItem",
+            content: [
+              paragraph([text("Third")]),
+              paragraph([text("Continued")]),
+              {
+                type: "bulletList",
+                content: [
+                  { type: "listItem", content: [paragraph([text("Nested")])] },
+                ],
+              },
+            ],
+          },
+          { type: "listItem", content: [paragraph([text("Fourth")])] },
+        ],
+      },
+      {
+        type: "blockquote",
+        content: [
+          paragraph([text("Quoted")]),
+          { type: "blockquote", content: [paragraph([text("Nested")])] },
+        ],
+      },
+      { type: "codeBlock", content: [text("clause(1);\n\tindented")] },
+      { type: "horizontalRule" },
+      {
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [
+              {
+                type: "tableHeader",
+                attrs: { colspan: 2, rowspan: 1, colwidth: [100, 200] },
+                content: [paragraph([text("Parties")])],
+              },
+            ],
+          },
+          {
+            type: "tableRow",
+            content: [
+              {
+                type: "tableCell",
+                attrs: { colspan: 1, rowspan: 2, colwidth: [100] },
+                content: [paragraph([text("A")])],
+              },
+              {
+                type: "tableCell",
+                attrs: { colspan: 1, rowspan: 1, colwidth: [200] },
+                content: [paragraph([text("B")])],
+              },
+            ],
+          },
+          {
+            type: "tableRow",
+            content: [
+              {
+                type: "tableCell",
+                attrs: { colspan: 1, rowspan: 1, colwidth: [200] },
+                content: [paragraph([text("C")])],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const result = await docxToTiptapJson(await tiptapJsonToDocx(doc));
+
+  t.deepEqual(result.json, doc);
+  t.deepEqual(result.unsupported, []);
+});
+
+test("docx import resolves styles, theme fonts and numbering", async (t) => {
+  const result = await docxToTiptapJson(
+    await wordDocument(
+      `<w:p><w:pPr><w:pStyle w:val="Title"/></w:pPr><w:r><w:t>Services Agreement</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:pStyle w:val="Heading2"/><w:jc w:val="end"/></w:pPr><w:r><w:t>Scope</w:t></w:r></w:p>` +
+        `<w:p><w:r><w:t xml:space="preserve">The </w:t></w:r><w:r><w:rPr><w:rStyle w:val="Strong"/></w:rPr><w:t>Supplier</w:t></w:r>` +
+        `<w:r><w:rPr><w:b w:val="0"/><w:u w:val="none"/><w:color w:val="auto"/><w:highlight w:val="green"/></w:rPr><w:t xml:space="preserve"> shall</w:t></w:r>` +
+        `<w:r><w:rPr><w:shd w:val="clear" w:color="auto" w:fill="FFCC00"/><w:dstrike/></w:rPr><w:t xml:space="preserve"> not</w:t></w:r>` +
+        `<w:r><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/></w:rPr><w:t xml:space="preserve"> deliver()</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Goods</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="1"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Parts</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="2"/></w:numPr></w:pPr><w:r><w:t>Fifth</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:pStyle w:val="Quote"/></w:pPr><w:r><w:t>Time is of the essence.</w:t></w:r></w:p>`
+    )
+  );
+
+  t.deepEqual(result.json.content, [
+    {
+      type: "heading",
+      attrs: { level: 1, fontFamily: "Calibri", fontSize: 11 },
+      content: [text("Services Agreement")],
+    },
+    {
+      type: "heading",
+      attrs: {
+        level: 2,
+        textAlign: "right",
+        fontFamily: "Calibri",
+        fontSize: 11,
+      },
+      content: [text("Scope")],
+    },
+    paragraph(
+      [
+        text("The "),
+        text("Supplier", [{ type: "bold" }]),
+        text(" shall", [{ type: "highlight", attrs: { color: "#00ff00" } }]),
+        text(" not", [
+          { type: "strike" },
+          { type: "highlight", attrs: { color: "#ffcc00" } },
+        ]),
+        text(" deliver()", [{ type: "code" }]),
+      ],
+      { fontFamily: "Calibri", fontSize: 11 }
+    ),
+    {
+      type: "bulletList",
+      content: [
+        {
+          type: "listItem",
+          content: [
+            paragraph([text("Goods")], { fontFamily: "Calibri", fontSize: 11 }),
+            {
+              type: "orderedList",
+              attrs: { start: 1 },
+              content: [
+                {
+                  type: "listItem",
+                  content: [
+                    paragraph([text("Parts")], {
+                      fontFamily: "Calibri",
+                      fontSize: 11,
+                    }),
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: "orderedList",
+      attrs: { start: 5 },
+      content: [
+        {
+          type: "listItem",
+          content: [
+            paragraph([text("Fifth")], { fontFamily: "Calibri", fontSize: 11 }),
+          ],
+        },
+      ],
+    },
+    {
+      type: "blockquote",
+      content: [
+        paragraph([text("Time is of the essence.", [{ type: "italic" }])], {
+          fontFamily: "Calibri",
+          fontSize: 11,
+        }),
+      ],
+    },
+  ]);
+});
+
+test("docx import reports unsupported constructs", async (t) => {
+  const result = await docxToTiptapJson(
+    await wordDocument(
+      `<w:p><w:pPr><w:pStyle w:val="ClauseHeading"/></w:pPr><w:r><w:t>Payment</w:t></w:r></w:p>` +
+        `<w:p><w:r><w:t xml:space="preserve">See </w:t></w:r><w:hyperlink w:anchor="_Toc1"><w:r><w:t>clause 2</w:t></w:r></w:hyperlink>` +
+        `<w:r><w:footnoteReference w:id="1"/></w:r><w:r><w:commentReference w:id="0"/></w:r>` +
+        `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>3</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>` +
+        `<w:r><w:br w:type="page"/></w:r>` +
+        `<w:r><w:rPr><w:rFonts w:ascii="Arial"/><w:sz w:val="40"/></w:rPr><w:t xml:space="preserve"> big</w:t></w:r>` +
+        `<w:hyperlink r:id="rId7"><w:r><w:t xml:space="preserve"> site</w:t></w:r></w:hyperlink></w:p>` +
+        `<w:p><w:r><w:drawing><wp:inline><wp:docPr id="1" name="Picture 1" descr="Signature"/><a:graphic><a:graphicData><a:blip r:embed="rId5"/></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>` +
+        `<w:r><w:drawing><wp:anchor><wp:docPr id="2" name="Picture 2"/><a:graphic><a:graphicData><a:blip r:embed="rId6"/></a:graphicData></a:graphic></wp:anchor></w:drawing></w:r>` +
+        `<w:r><mc:AlternateContent><mc:Choice Requires="wps"><w:drawing><wps:txbx><w:txbxContent/></wps:txbx></w:drawing></mc:Choice></mc:AlternateContent></w:r>` +
+        `<m:oMath><m:r><m:t>x</m:t></m:r></m:oMath><w:customElement/></w:p>` +
+        `<w:p><w:pPr><w:sectPr/></w:pPr></w:p>`
+    )
+  );
+
+  t.deepEqual(result.json.content.slice(0, 3), [
+    {
+      type: "heading",
+      attrs: { level: 3, fontFamily: "Calibri", fontSize: 11 },
+      content: [text("Payment")],
+    },
+    paragraph(
+      [
+        text("See clause 23 big"),
+        text(" site", [
+          { type: "link", attrs: { href: "https://example.com/" } },
+        ]),
+      ],
+      { fontFamily: "Calibri", fontSize: 11 }
+    ),
+    paragraph([
+      {
+        type: "image",
+        attrs: {
+          src: `data:image/png;base64,${PNG.toString("base64")}`,
+          alt: "Signature",
+          title: null,
+        },
+      },
+    ]),
+  ]);
+  t.deepEqual(
+    result.unsupported.map(({ construct, count }) => [construct, count]),
+    [
+      ["headerFooter", 1],
+      ["headingNumbering", 1],
+      ["internalLink", 1],
+      ["footnote", 1],
+      ["comment", 1],
+      ["field", 1],
+      ["pageBreak", 1],
+      ["runFont", 1],
+      ["image", 1],
+      ["textBox", 1],
+      ["equation", 1],
+      ["w:customElement", 1],
+      ["sectionBreak", 1],
+    ]
+  );
+  t.is(
+    result.unsupported.find((entry) => entry.construct === "w:customElement")
+      ?.message,
+    "Unsupported element <w:customElement> was dropped"
+  );
+});
+
+test("docx import rejects files that are not .docx packages", async (t) => {
+  await t.throwsAsync(docxToTiptapJson(Buffer.from("plain text")), {
+    message: /^Invalid DOCX file/,
+  });
+
+  const zip = new JSZip();
+  zip.file("readme.txt", "no document part");
+  await t.throwsAsync(
+    docxToTiptapJson(await zip.generateAsync({ type: "nodebuffer" })),
+    { message: "Invalid DOCX file: word/document.xml is missing" }
+  );
+});
+
+test("docx import rejects packages with too many entries", async (t) => {
+  const zip = await JSZip.loadAsync(await wordDocument(""));
+  for (let index = 0; index < 1000; index++) {
+    zip.file(`customXml/item${index}.xml`, "");
+  }
+
+  await t.throwsAsync(
+    docxToTiptapJson(await zip.generateAsync({ type: "nodebuffer" })),
+    { message: "Invalid DOCX file: more than 1000 entries" }
+  );
+});
+
+test("docx import rejects packages that unpack too large", async (t) => {
+  const zip = new JSZip();
+  zip.file("word/document.xml", Buffer.alloc(51 * 1024 * 1024, " "));
+  const file = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+
+  await t.throwsAsync(docxToTiptapJson(file), {
+    message: "Invalid DOCX file: unpacks to more than 50 MB",
+  });
+
+  // A package can understate its sizes, so the parts are also measured as
+  // they are unpacked. The size is at offset 22 of the local file header
+  // and at offset 24 of the central directory header
+  for (const [signature, offset] of [
+    ["504b0304", 22],
+    ["504b0102", 24],
+  ] as const) {
+    const header = file.indexOf(Buffer.from(signature, "hex"));
+    file.writeUInt32LE(1024, header + offset);
+  }
+  await t.throwsAsync(docxToTiptapJson(file), {
+    message: "Invalid DOCX file: unpacks to more than 50 MB",
+  });
+});
+
+test("docx import returns an empty paragraph for an empty body", async (t) => {
+  const result = await docxToTiptapJson(await wordDocument(""));
+  t.deepEqual(result.json, { type: "doc", content: [{ type: "paragraph" }] });
+});
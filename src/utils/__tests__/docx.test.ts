@@ -0,0 +1,333 @@
+import test, { ExecutionContext } from "ava";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import JSZip from "jszip";
+import { tiptapJsonToDocx } from "../converters/docx";
+
+// Golden files of the generated package parts
+// Run with UPDATE_GOLDEN=1 to rewrite them after an intended change
+const GOLDEN_DIR = join(__dirname, "fixtures", "docx");
+
+async function exportParts(content: any[]): Promise<JSZip> {
+  return JSZip.loadAsync(await tiptapJsonToDocx({ type: "doc", content }));
+}
+
+async function assertGolden(
+  t: ExecutionContext,
+  zip: JSZip,
+  part: string,
+  golden: string
+) {
+  const actual = await zip.file(part)!.async("string");
+  const path = join(GOLDEN_DIR, golden);
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(path, actual);
+  }
+  t.is(actual, readFileSync(path, "utf8"), `${part} differs from ${golden}`);
+}
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+const paragraph = (content: any[] = [], attrs?: any) => ({
+  type: "paragraph",
+  ...(attrs && { attrs }),
+  content,
+});
+
+const cell = (type: string, content: string, attrs?: any) => ({
+  type,
+  ...(attrs && { attrs }),
+  content: [paragraph(content ? [text(content)] : [])],
+});
+
+test("docx export writes headings and block typography", async (t) => {
+  const zip = await exportParts([
+    {
+      type: "heading",
+      attrs: {
+        level: 1,
+        textAlign: "center",
+        fontFamily: "Arial",
+        fontSize: 18,
+      },
+      content: [text("Lease Agreement")],
+    },
+    ...[2, 3, 4, 5, 6].map((level) => ({
+      type: "heading",
+      attrs: { level },
+      content: [text(`Level ${level}`)],
+    })),
+    paragraph([text("Justified, set in Garamond 11pt.")], {
+      textAlign: "justify",
+      fontFamily: "Garamond",
+      fontSize: 11,
+      marginTop: 6,
+      marginBottom: 18,
+    }),
+    paragraph([text("Schema defaults add no run properties.")], {
+      textAlign: null,
+      fontFamily: "Times New Roman",
+      fontSize: 12,
+      marginTop: null,
+      marginBottom: null,
+    }),
+    paragraph([text("Right")], { textAlign: "right" }),
+  ]);
+
+  await assertGolden(t, zip, "word/document.xml", "typography.document.xml");
+});
+
+test("docx export writes marks, links and suggestions", async (t) => {
+  const link = {
+    type: "link",
+    attrs: { href: "https://example.com/terms?a=1&b=2" },
+  };
+  const zip = await exportParts([
+    paragraph([
+      text("Bold", [{ type: "bold" }]),
+      text(" "),
+      text("italic", [{ type: "italic" }]),
+      text(" "),
+      text("underline", [{ type: "underline" }]),
+      text(" "),
+      text("struck", [{ type: "strike" }]),
+      text(" "),
+      text("code", [{ type: "code" }]),
+      text(" H"),
+      text("2", [{ type: "subscript" }]),
+      text("O x"),
+      text("2", [{ type: "superscript" }]),
+    ]),
+    paragraph([
+      text("Terms ", [link]),
+      text("apply", [link, { type: "bold" }]),
+      text(" & "),
+      text("again", [link]),
+      text(" "),
+      text("elsewhere", [{ type: "link", attrs: { href: "mailto:a@b.com" } }]),
+    ]),
+    paragraph([
+      text("yellow", [{ type: "highlight" }]),
+      text(" "),
+      text("green", [{ type: "highlight", attrs: { color: "#0f0" } }]),
+      text(" "),
+      text("red", [{ type: "textStyle", attrs: { color: "red" } }]),
+      text(" "),
+      text("rgb", [{ type: "textStyle", attrs: { color: "rgb(0, 0, 128)" } }]),
+      text(" "),
+      text("var", [{ type: "textStyle", attrs: { color: "var(--ink)" } }]),
+    ]),
+    paragraph([
+      text("The "),
+      text("Tenant", [
+        {
+          type: "insertion",
+          attrs: { id: "s1", author: "Ann", timestamp: 1700000000000 },
+        },
+      ]),
+      text(" Landlord", [
+        {
+          type: "deletion",
+          attrs: {
+            id: "s2",
+            author: "Bob <bob@example.com>",
+            timestamp: "2024-03-01T10:00:00.000Z",
+          },
+        },
+      ]),
+      text(" shall pay", [
+        { type: "insertion", attrs: { id: "s3", author: null } },
+      ]),
+      { type: "hardBreak" },
+      text("Seal: "),
+      { type: "image", attrs: { src: "seal.png", alt: "Company seal" } },
+      { type: "image", attrs: { src: "blank.png", alt: null } },
+    ]),
+  ]);
+
+  await assertGolden(t, zip, "word/document.xml", "marks.document.xml");
+  await assertGolden(
+    t,
+    zip,
+    "word/_rels/document.xml.rels",
+    "marks.document.xml.rels"
+  );
+});
+
+test("docx export writes nested and restarting lists", async (t) => {
+  const item = (value: string, ...rest: any[]) => ({
+    type: "listItem",
+    content: [paragraph([text(value)]), ...rest],
+  });
+  const zip = await exportParts([
+    {
+      type: "bulletList",
+      content: [
+        item("Parties", paragraph([text("Continuation paragraph")]), {
+          type: "orderedList",
+          attrs: { start: 3 },
+          content: [item("Third"), item("Fourth")],
+        }),
+        item("Term"),
+      ],
+    },
+    {
+      type: "orderedList",
+      attrs: { start: 1 },
+      content: [item("Restarts at one")],
+    },
+  ]);
+
+  await assertGolden(t, zip, "word/document.xml", "lists.document.xml");
+  await assertGolden(t, zip, "word/numbering.xml", "lists.numbering.xml");
+});
+
+test("docx export writes tables with spans and column widths", async (t) => {
+  const zip = await exportParts([
+    {
+      type: "table",
+      content: [
+        {
+          type: "tableRow",
+          content: [
+            cell("tableHeader", "Party", {
+              colspan: 2,
+              rowspan: 1,
+              colwidth: [120, 200],
+            }),
+            cell("tableHeader", "Role"),
+          ],
+        },
+        {
+          type: "tableRow",
+          content: [
+            cell("tableCell", "Spans two rows", { rowspan: 2 }),
+            cell("tableCell", "B"),
+            cell("tableCell", "C"),
+          ],
+        },
+        {
+          type: "tableRow",
+          content: [cell("tableCell", "E")],
+        },
+        {
+          type: "tableRow",
+          content: [
+            {
+              type: "tableCell",
+              attrs: { colspan: 3 },
+              content: [
+                {
+                  type: "bulletList",
+                  content: [
+                    {
+                      type: "listItem",
+                      content: [paragraph([text("In a cell")])],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ]);
+
+  await assertGolden(t, zip, "word/document.xml", "tables.document.xml");
+});
+
+test("docx export writes quotes, code blocks and rules", async (t) => {
+  const zip = await exportParts([
+    {
+      type: "blockquote",
+      content: [
+        paragraph([text("Quoted")]),
+        { type: "blockquote", content: [paragraph([text("Nested")])] },
+      ],
+    },
+    {
+      type: "codeBlock",
+      attrs: { language: "text" },
+      content: [text("clause(1);\n\tindented")],
+    },
+    { type: "horizontalRule" },
+    paragraph(),
+  ]);
+
+  await assertGolden(t, zip, "word/document.xml", "blocks.document.xml");
+});
+
+test("docx export writes a complete package", async (t) => {
+  const zip = await exportParts([]);
+
+  t.deepEqual(Object.keys(zip.files).sort(), [
+    "[Content_Types].xml",
+    "_rels/.rels",
+    "word/_rels/document.xml.rels",
+    "word/document.xml",
+    "word/numbering.xml",
+    "word/styles.xml",
+  ]);
+  await assertGolden(t, zip, "word/styles.xml", "styles.xml");
+  t.regex(
+    await zip.file("word/document.xml")!.async("string"),
+    /<w:body>\n<w:p\/>\n<w:sectPr>/
+  );
+});
+
+test("docx export writes footnotes and resolves cross-references", async (t) => {
+  const zip = await exportParts([
+    {
+      type: "heading",
+      attrs: { level: 1, id: "terms" },
+      content: [text("Terms")],
+    },
+    paragraph([
+      text("See "),
+      { type: "crossReference", attrs: { target: "terms" } },
+      { type: "footnote", attrs: { text: "As amended & restated." } },
+      text(" and "),
+      { type: "crossReference", attrs: { target: "gone" } },
+    ]),
+  ]);
+
+  const document = await zip.file("word/document.xml")!.async("string");
+  t.true(document.includes(">Section 1</w:t>"));
+  t.true(document.includes(">[missing reference]</w:t>"));
+  t.true(
+    document.includes(
+      '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteReference w:id="1"/></w:r>'
+    )
+  );
+
+  const footnotes = await zip.file("word/footnotes.xml")!.async("string");
+  t.true(footnotes.includes('<w:footnote w:type="separator" w:id="-1">'));
+  t.true(footnotes.includes('<w:footnote w:id="1">'));
+  t.true(footnotes.includes("> As amended &amp; restated.</w:t>"));
+  t.regex(
+    await zip.file("word/_rels/document.xml.rels")!.async("string"),
+    /Id="rId3" Type="[^"]*\/footnotes" Target="footnotes.xml"/
+  );
+  t.true(
+    (await zip.file("[Content_Types].xml")!.async("string")).includes(
+      'PartName="/word/footnotes.xml"'
+    )
+  );
+});
+
+test("docx export is deterministic", async (t) => {
+  const doc = {
+    type: "doc",
+    content: [paragraph([text("Same bytes every time")])],
+  };
+  const first = await tiptapJsonToDocx(doc);
+  const second = await tiptapJsonToDocx(doc);
+
+  t.true(first.equals(second));
+  t.is(first.subarray(0, 2).toString(), "PK");
+});
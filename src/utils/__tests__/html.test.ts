@@ -0,0 +1,166 @@
+import test from "ava";
+import { htmlToTiptapJson, tiptapJsonToHtml } from "../converters/html";
+
+test("htmlToTiptapJson parses HTML through the schema", (t) => {
+  const result = htmlToTiptapJson(
+    '<h2 style="text-align: center">Lease</h2><p>Pay <b>rent</b> to <a href="https://example.com">us</a></p><ul><li><p>Item</p></li></ul>'
+  );
+  t.deepEqual(result, {
+    type: "doc",
+    content: [
+      {
+        type: "heading",
+        attrs: { level: 2, textAlign: "center" },
+        content: [{ type: "text", text: "Lease" }],
+      },
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Pay " },
+          { type: "text", text: "rent", marks: [{ type: "bold" }] },
+          { type: "text", text: " to " },
+          {
+            type: "text",
+            text: "us",
+            marks: [{ type: "link", attrs: { href: "https://example.com" } }],
+          },
+        ],
+      },
+      {
+        type: "bulletList",
+        content: [
+          {
+            type: "listItem",
+            content: [
+              { type: "paragraph", content: [{ type: "text", text: "Item" }] },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+});
+
+test("htmlToTiptapJson drops scripts and embedded content", (t) => {
+  const result = htmlToTiptapJson(
+    '<p>Safe<script>alert(1)</script></p><style>p { color: red }</style><iframe src="https://example.com"></iframe><p onclick="alert(1)">Text</p>'
+  );
+  t.deepEqual(result.content, [
+    { type: "paragraph", content: [{ type: "text", text: "Safe" }] },
+    { type: "paragraph", content: [{ type: "text", text: "Text" }] },
+  ]);
+});
+
+test("htmlToTiptapJson keeps the text of unknown tags", (t) => {
+  const result = htmlToTiptapJson("<p>A <blink>flashing</blink> clause</p>");
+  t.deepEqual(result.content, [
+    {
+      type: "paragraph",
+      content: [{ type: "text", text: "A flashing clause" }],
+    },
+  ]);
+});
+
+test("htmlToTiptapJson drops unsafe link and image URLs", (t) => {
+  const result = htmlToTiptapJson(
+    '<p><a href="java\tscript:alert(1)">click</a><img src="javascript:alert(1)"><img src="data:image/png;base64,AAAA" alt="Seal"></p>'
+  );
+  t.deepEqual(result.content[0].content, [
+    { type: "text", text: "click" },
+    {
+      type: "image",
+      attrs: { src: "data:image/png;base64,AAAA", alt: "Seal" },
+    },
+  ]);
+});
+
+test("htmlToTiptapJson keeps only color values in color styles", (t) => {
+  const result = htmlToTiptapJson(
+    '<p><mark style="background-color: rgb(255, 255, 0)">a</mark><span style="color: url(https://example.com/)">b</span><span style="color: #f00">c</span></p>'
+  );
+  t.deepEqual(result.content[0].content, [
+    {
+      type: "text",
+      marks: [{ type: "highlight", attrs: { color: "rgb(255, 255, 0)" } }],
+      text: "a",
+    },
+    { type: "text", text: "b" },
+    {
+      type: "text",
+      marks: [{ type: "textStyle", attrs: { color: "#f00" } }],
+      text: "c",
+    },
+  ]);
+});
+
+test("htmlToTiptapJson returns an empty paragraph for empty HTML", (t) => {
+  const result = htmlToTiptapJson("");
+  t.is(result.content.length, 1);
+  t.is(result.content[0].type, "paragraph");
+});
+
+test("tiptapJsonToHtml renders through the schema's DOM specs", (t) => {
+  const html = tiptapJsonToHtml({
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        attrs: { textAlign: "right" },
+        content: [
+          { type: "text", text: "Due", marks: [{ type: "highlight" }] },
+          { type: "text", text: " " },
+          {
+            type: "text",
+            text: "now",
+            marks: [{ type: "link", attrs: { href: "javascript:alert(1)" } }],
+          },
+        ],
+      },
+      { type: "horizontalRule" },
+    ],
+  });
+  t.is(html, '<p style="text-align: right"><mark>Due</mark> now</p><hr>');
+});
+
+test("tiptapJsonToHtml drops colors that are not color values", (t) => {
+  const html = tiptapJsonToHtml({
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          {
+            type: "text",
+            text: "Due",
+            marks: [
+              {
+                type: "highlight",
+                attrs: { color: "red; background: url(https://example.com/)" },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+  t.is(html, "<p><mark>Due</mark></p>");
+});
+
+test("HTML round-trips through TipTap JSON", (t) => {
+  const html =
+    '<h1>Title</h1><p>One <em>two</em> <s>three</s><br>four</p><blockquote><p>Quote</p></blockquote><table><tbody><tr><th colspan="2"><p>Parties</p></th></tr><tr><td><p>A</p></td><td><p>B</p></td></tr></tbody></table>';
+  t.is(tiptapJsonToHtml(htmlToTiptapJson(html)), html);
+});
+
+test("htmlToTiptapJson reads footnotes and cross-references before marks", (t) => {
+  const result = htmlToTiptapJson(
+    '<p>See <a href="#terms" data-cross-reference="terms">terms</a><sup data-footnote="As amended.">*</sup> <sup>2</sup></p>'
+  );
+  t.deepEqual(result.content[0].content, [
+    { type: "text", text: "See " },
+    { type: "crossReference", attrs: { target: "terms" } },
+    { type: "footnote", attrs: { text: "As amended." } },
+    { type: "text", text: " " },
+    { type: "text", text: "2", marks: [{ type: "superscript" }] },
+  ]);
+});
@@ -21,6 +21,25 @@ test("utils exports tiptapJsonToMarkdown", (t) => {
   t.truthy(utils.tiptapJsonToMarkdown);
 });
 
+test("utils exports tiptapJsonToHtml and htmlToTiptapJson", (t) => {
+  t.truthy(utils.tiptapJsonToHtml);
+  t.truthy(utils.htmlToTiptapJson);
+});
+
+test("utils exports tiptapJsonToDocx", (t) => {
+  t.truthy(utils.tiptapJsonToDocx);
+  t.truthy(utils.DOCX_CONTENT_TYPE);
+});
+
+test("utils exports docxToTiptapJson", (t) => {
+  t.truthy(utils.docxToTiptapJson);
+});
+
+test("utils exports tiptapJsonToPdf", (t) => {
+  t.truthy(utils.tiptapJsonToPdf);
+  t.truthy(utils.PDF_CONTENT_TYPE);
+});
+
 test("utils exports extractJWTFromRequest", (t) => {
   t.truthy(utils.extractJWTFromRequest);
 });
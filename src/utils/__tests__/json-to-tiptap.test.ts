@@ -293,3 +293,287 @@ This is a paragraph with **bold** and *italic* text.
   t.is(result.content[1].type, "paragraph");
   t.is(result.content[2].type, "bulletList");
 });
+
+// Tables
+test("markdownToTiptapJson converts a GFM table with alignment and marks", (t) => {
+  const result = markdownToTiptapJson(
+    "| Term | Amount |\n| :--- | ---: |\n| **Rent** | 1\\|2 |\n"
+  );
+
+  t.deepEqual(result.content, [
+    {
+      type: "table",
+      content: [
+        {
+          type: "tableRow",
+          content: [
+            {
+              type: "tableHeader",
+              content: [
+                {
+                  type: "paragraph",
+                  attrs: { textAlign: "left" },
+                  content: [{ type: "text", text: "Term" }],
+                },
+              ],
+            },
+            {
+              type: "tableHeader",
+              content: [
+                {
+                  type: "paragraph",
+                  attrs: { textAlign: "right" },
+                  content: [{ type: "text", text: "Amount" }],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          type: "tableRow",
+          content: [
+            {
+              type: "tableCell",
+              content: [
+                {
+                  type: "paragraph",
+                  attrs: { textAlign: "left" },
+                  content: [
+                    { type: "text", text: "Rent", marks: [{ type: "bold" }] },
+                  ],
+                },
+              ],
+            },
+            {
+              type: "tableCell",
+              content: [
+                {
+                  type: "paragraph",
+                  attrs: { textAlign: "right" },
+                  content: [{ type: "text", text: "1|2" }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ]);
+});
+
+test("markdownToTiptapJson converts an HTML table with merged cells", (t) => {
+  const result = markdownToTiptapJson(
+    '<table><tbody>\n<tr><th colspan="2"><p>Parties</p></th></tr>\n<tr><td><p>Landlord</p></td><td><p>Tenant</p></td></tr>\n</tbody></table>\n\nAfter'
+  );
+
+  t.is(result.content.length, 2);
+  t.is(result.content[0].type, "table");
+  t.deepEqual(result.content[0].content[0].content[0], {
+    type: "tableHeader",
+    attrs: { colspan: 2 },
+    content: [
+      { type: "paragraph", content: [{ type: "text", text: "Parties" }] },
+    ],
+  });
+  t.is(result.content[0].content[1].content.length, 2);
+  t.deepEqual(result.content[1], {
+    type: "paragraph",
+    content: [{ type: "text", text: "After" }],
+  });
+});
+
+test("markdownToTiptapJson keeps other HTML blocks as text", (t) => {
+  const result = markdownToTiptapJson("<div>Raw</div>");
+  t.deepEqual(result.content, [
+    { type: "paragraph", content: [{ type: "text", text: "<div>Raw</div>" }] },
+  ]);
+});
+
+// Blockquotes, rules, images and hard breaks
+test("markdownToTiptapJson converts nested blockquotes containing lists", (t) => {
+  const result = markdownToTiptapJson("> Quoted\n>\n> > - one\n> > - two\n");
+  t.deepEqual(result.content, [
+    {
+      type: "blockquote",
+      content: [
+        { type: "paragraph", content: [{ type: "text", text: "Quoted" }] },
+        {
+          type: "blockquote",
+          content: [
+            {
+              type: "bulletList",
+              content: [
+                {
+                  type: "listItem",
+                  content: [
+                    {
+                      type: "paragraph",
+                      content: [{ type: "text", text: "one" }],
+                    },
+                  ],
+                },
+                {
+                  type: "listItem",
+                  content: [
+                    {
+                      type: "paragraph",
+                      content: [{ type: "text", text: "two" }],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ]);
+});
+
+test("markdownToTiptapJson reads footnotes from their definitions", (t) => {
+  const result = markdownToTiptapJson(
+    "Paid on signing.[^a] Late fees[^missing] apply.\n" +
+      "[^a]: Or within **30** days.\n\n" +
+      "[^a]: Ignored, the first definition wins"
+  );
+
+  t.deepEqual(result.content, [
+    {
+      type: "paragraph",
+      content: [
+        { type: "text", text: "Paid on signing." },
+        { type: "footnote", attrs: { text: "Or within 30 days." } },
+        { type: "text", text: " Late fees[^missing] apply." },
+      ],
+    },
+  ]);
+});
+
+test("markdownToTiptapJson converts horizontal rules", (t) => {
+  const result = markdownToTiptapJson("Above\n\n---\n\nBelow");
+  t.deepEqual(result.content[1], { type: "horizontalRule" });
+  t.is(result.content.length, 3);
+});
+
+test("parseInlineContent parses images with alt text and title", (t) => {
+  const result = parseInlineContent(
+    'Signed: ![Signature](https://example.com/sig.png "Tenant")'
+  );
+  t.deepEqual(result, [
+    { type: "text", text: "Signed: " },
+    {
+      type: "image",
+      attrs: {
+        src: "https://example.com/sig.png",
+        alt: "Signature",
+        title: "Tenant",
+      },
+    },
+  ]);
+});
+
+test("parseInlineContent parses hard breaks", (t) => {
+  const result = parseInlineContent("One\\\nTwo  \n**Three**<br>Four");
+  t.deepEqual(result, [
+    { type: "text", text: "One" },
+    { type: "hardBreak" },
+    { type: "text", text: "Two" },
+    { type: "hardBreak" },
+    { type: "text", text: "Three", marks: [{ type: "bold" }] },
+    { type: "hardBreak" },
+    { type: "text", text: "Four" },
+  ]);
+});
+
+// Inline marks
+test("parseInlineContent parses nested marks", (t) => {
+  const result = parseInlineContent(
+    "[Pay **now**](https://example.com) *call `run()`*"
+  );
+  const link = {
+    type: "link",
+    attrs: { href: "https://example.com", target: "_blank" },
+  };
+  t.deepEqual(result, [
+    { type: "text", text: "Pay ", marks: [link] },
+    { type: "text", text: "now", marks: [{ type: "bold" }, link] },
+    { type: "text", text: " " },
+    { type: "text", text: "call ", marks: [{ type: "italic" }] },
+    {
+      type: "text",
+      text: "run()",
+      marks: [{ type: "italic" }, { type: "code" }],
+    },
+  ]);
+});
+
+test("parseInlineContent parses underscore emphasis and escapes", (t) => {
+  const result = parseInlineContent("_one_ __two__ snake\\_case \\*lit\\*");
+  t.deepEqual(result, [
+    { type: "text", text: "one", marks: [{ type: "italic" }] },
+    { type: "text", text: " " },
+    { type: "text", text: "two", marks: [{ type: "bold" }] },
+    { type: "text", text: " snake_case *lit*" },
+  ]);
+});
+
+test("parseInlineContent parses autolinks", (t) => {
+  const result = parseInlineContent("See <https://example.com>");
+  t.deepEqual(result, [
+    { type: "text", text: "See " },
+    {
+      type: "text",
+      text: "https://example.com",
+      marks: [
+        {
+          type: "link",
+          attrs: { href: "https://example.com", target: "_blank" },
+        },
+      ],
+    },
+  ]);
+});
+
+test("parseInlineContent parses inline HTML marks", (t) => {
+  const result = parseInlineContent(
+    'H<sub>2</sub>O x<sup>2</sup> <mark style="background-color: #ff0">hi</mark> <span style="color: red">red</span> <strong>b</strong>'
+  );
+  t.deepEqual(result, [
+    { type: "text", text: "H" },
+    { type: "text", text: "2", marks: [{ type: "subscript" }] },
+    { type: "text", text: "O x" },
+    { type: "text", text: "2", marks: [{ type: "superscript" }] },
+    { type: "text", text: " " },
+    {
+      type: "text",
+      text: "hi",
+      marks: [{ type: "highlight", attrs: { color: "#ff0" } }],
+    },
+    { type: "text", text: " " },
+    {
+      type: "text",
+      text: "red",
+      marks: [{ type: "textStyle", attrs: { color: "red" } }],
+    },
+    { type: "text", text: " " },
+    { type: "text", text: "b", marks: [{ type: "bold" }] },
+  ]);
+});
+
+test("parseInlineContent parses CriticMarkup suggestions", (t) => {
+  const result = parseInlineContent("Pay {--monthly--}{++**quarterly**++}");
+  t.deepEqual(result, [
+    { type: "text", text: "Pay " },
+    { type: "text", text: "monthly", marks: [{ type: "deletion" }] },
+    {
+      type: "text",
+      text: "quarterly",
+      marks: [{ type: "bold" }, { type: "insertion" }],
+    },
+  ]);
+});
+
+test("parseInlineContent keeps unknown inline HTML as text", (t) => {
+  const result = parseInlineContent("a <b>b</b>");
+  t.deepEqual(result, [{ type: "text", text: "a <b>b</b>" }]);
+});
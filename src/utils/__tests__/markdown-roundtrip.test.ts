@@ -0,0 +1,367 @@
+import test from "ava";
+import { markdownToTiptapJson } from "../converters/json-to-tiptap";
+import { tiptapJsonToMarkdown } from "../converters/tiptap-to-json";
+
+// Property-style round-trip tests over seeded random documents, so a failure
+// is reproducible from the case index in its message
+const CASES = 200;
+
+// Deterministic PRNG (mulberry32)
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * max),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+// Words include characters markdown reads as syntax, which must be escaped
+const WORDS = [
+  "Rent",
+  "due",
+  "Tenant",
+  "1.",
+  "#3",
+  "a*b",
+  "snake_case",
+  "[x]",
+  "<tag>",
+  "~tilde",
+  "x^2",
+  "a==b",
+  "{++",
+  "&amp;",
+  "back\\slash",
+  "50%",
+  "-",
+  ">",
+  "+",
+  "`tick",
+  "{{field",
+  "name=a}}",
+  "{{ref",
+  "target=a}}",
+  "[^1]",
+];
+
+const MARKS: any[] = [
+  { type: "bold" },
+  { type: "italic" },
+  { type: "underline" },
+  { type: "strike" },
+  { type: "code" },
+  { type: "link", attrs: { href: "https://example.com/a", target: "_blank" } },
+  { type: "highlight" },
+  { type: "highlight", attrs: { color: "#ffff00" } },
+  { type: "textStyle", attrs: { color: "red" } },
+  { type: "subscript" },
+  { type: "superscript" },
+  { type: "insertion" },
+  { type: "deletion" },
+];
+
+function randomText(random: Random): string {
+  return Array.from({ length: 1 + random.int(3) }, () =>
+    random.pick(WORDS)
+  ).join(" ");
+}
+
+function randomMarks(random: Random): any[] {
+  const marks: any[] = [];
+  for (const mark of MARKS) {
+    if (
+      random.next() < 0.15 &&
+      !marks.some((existing) => existing.type === mark.type)
+    ) {
+      marks.push(mark);
+    }
+  }
+  return marks;
+}
+
+function randomInlineContent(random: Random): any[] {
+  const content: any[] = [];
+  const length = 1 + random.int(6);
+
+  for (let i = 0; i < length; i++) {
+    const roll = random.next();
+    if (roll < 0.08 && i > 0 && i < length - 1) {
+      content.push({ type: "hardBreak" });
+    } else if (roll < 0.14) {
+      content.push({
+        type: "image",
+        attrs: { src: "sig.png", alt: random.pick(WORDS) },
+      });
+    } else if (roll < 0.18) {
+      const type = random.pick(["text", "date", "number"]);
+      const value = random.pick<string | number | null>([
+        null,
+        type === "number" ? 1250.5 : random.pick(WORDS),
+      ]);
+      content.push({
+        type: "field",
+        attrs: {
+          name: random.pick(["party", "start date", 'a "quoted" }} name']),
+          type,
+          ...(value !== null && { value }),
+        },
+      });
+    } else if (roll < 0.2) {
+      content.push({ type: "footnote", attrs: { text: randomText(random) } });
+    } else if (roll < 0.22) {
+      content.push({
+        type: "crossReference",
+        attrs: { target: random.pick(["terms", "clause 4.2", "a}}b"]) },
+      });
+    } else {
+      const marks = randomMarks(random);
+      content.push({
+        type: "text",
+        // Node boundaries sit on whitespace, where markdown delimiters flank
+        text: randomText(random) + (i < length - 1 ? " " : ""),
+        ...(marks.length > 0 && { marks }),
+      });
+    }
+  }
+
+  return content;
+}
+
+function randomBlock(random: Random, depth = 0): any {
+  const roll = random.next();
+  if (roll < 0.15) {
+    return {
+      type: "heading",
+      attrs: { level: 1 + random.int(6) },
+      content: randomInlineContent(random),
+    };
+  }
+  if (roll < 0.3 && depth < 2) {
+    return {
+      type: "blockquote",
+      content: [randomBlock(random, depth + 1)],
+    };
+  }
+  if (roll < 0.45 && depth < 2) {
+    return {
+      type: random.pick(["bulletList", "orderedList"]),
+      content: Array.from({ length: 1 + random.int(3) }, () => ({
+        type: "listItem",
+        content: [{ type: "paragraph", content: randomInlineContent(random) }],
+      })),
+    };
+  }
+  return { type: "paragraph", content: randomInlineContent(random) };
+}
+
+function randomDocument(random: Random): any {
+  return {
+    type: "doc",
+    content: Array.from({ length: 1 + random.int(3) }, () =>
+      randomBlock(random)
+    ),
+  };
+}
+
+/**
+ * Every non-whitespace character with its marks, and every inline node
+ * Whitespace may move in or out of a mark, which markdown cannot express
+ */
+function describeInline(json: any): string[] {
+  const described: string[] = [];
+
+  const visit = (node: any) => {
+    if (node.type === "text") {
+      const marks = JSON.stringify(
+        (node.marks || [])
+          .map((mark: any) => [mark.type, mark.attrs || {}])
+          .sort()
+      );
+      for (const char of node.text) {
+        if (char.trim()) {
+          described.push(`${char} ${marks}`);
+        }
+      }
+    } else if (
+      ["hardBreak", "image", "footnote", "crossReference"].includes(node.type)
+    ) {
+      described.push(JSON.stringify([node.type, node.attrs || {}]));
+    } else {
+      described.push(`<${node.type}>`);
+      (node.content || []).forEach(visit);
+    }
+  };
+
+  visit(json);
+  return described;
+}
+
+function randomMarkdownInline(random: Random, depth = 0): string {
+  const parts: string[] = [];
+  const length = 1 + random.int(5);
+
+  for (let i = 0; i < length; i++) {
+    const inner = () =>
+      depth < 2 ? randomMarkdownInline(random, depth + 1) : random.pick(WORDS);
+    const roll = random.int(19);
+    switch (roll) {
+      case 0:
+        parts.push(`**${inner()}**`);
+        break;
+      case 1:
+        parts.push(`*${inner()}*`);
+        break;
+      case 2:
+        parts.push(`_${inner()}_`);
+        break;
+      case 3:
+        parts.push(`~~${inner()}~~`);
+        break;
+      case 4:
+        parts.push("`" + random.pick(["code", "a|b", "x`y", "*raw*"]) + "`");
+        break;
+      case 5:
+        parts.push(`[${inner()}](https://example.com/${random.int(9)})`);
+        break;
+      case 6:
+        parts.push(`<u>${inner()}</u>`);
+        break;
+      case 7:
+        parts.push(`<sub>${inner()}</sub>`);
+        break;
+      case 8:
+        parts.push(`<sup>${inner()}</sup>`);
+        break;
+      case 9:
+        parts.push(`<mark>${inner()}</mark>`);
+        break;
+      case 10:
+        parts.push(`{++${inner()}++}`);
+        break;
+      case 11:
+        parts.push(`{--${inner()}--}`);
+        break;
+      case 12:
+        parts.push(`![${random.pick(WORDS)}](img.png "Title")`);
+        break;
+      case 13:
+        parts.push("<https://example.com/auto>");
+        break;
+      case 14:
+        parts.push(`~${random.pick(WORDS)}~`);
+        break;
+      case 15:
+        parts.push(`^${random.pick(WORDS)}^`);
+        break;
+      case 16:
+        parts.push(`==${inner()}==`);
+        break;
+      default:
+        parts.push(random.pick(WORDS));
+    }
+  }
+
+  return parts.join(random.pick([" ", " ", "\\\n"]));
+}
+
+function randomMarkdown(random: Random): string {
+  return Array.from({ length: 1 + random.int(3) }, () => {
+    const inline = randomMarkdownInline(random);
+    return random.pick(["", "", "# ", "> ", "- ", "1. "]) + inline;
+  }).join("\n\n");
+}
+
+test("tiptap -> markdown -> tiptap keeps every character's marks", (t) => {
+  const random = createRandom(2024);
+
+  for (let i = 0; i < CASES; i++) {
+    const json = randomDocument(random);
+    const markdown = tiptapJsonToMarkdown(json);
+    const parsed = markdownToTiptapJson(markdown);
+
+    t.deepEqual(
+      describeInline(parsed),
+      describeInline(json),
+      `case ${i}: ${JSON.stringify(markdown)}`
+    );
+    t.is(
+      tiptapJsonToMarkdown(parsed),
+      markdown,
+      `case ${i}: ${JSON.stringify(markdown)}`
+    );
+  }
+});
+
+test("markdown -> tiptap -> markdown is stable", (t) => {
+  const random = createRandom(7);
+
+  for (let i = 0; i < CASES; i++) {
+    const source = randomMarkdown(random);
+    const json = markdownToTiptapJson(source);
+    const markdown = tiptapJsonToMarkdown(json);
+    const reparsed = markdownToTiptapJson(markdown);
+
+    t.deepEqual(
+      describeInline(reparsed),
+      describeInline(json),
+      `case ${i}: ${JSON.stringify(source)} -> ${JSON.stringify(markdown)}`
+    );
+    t.is(
+      tiptapJsonToMarkdown(reparsed),
+      markdown,
+      `case ${i}: ${JSON.stringify(source)}`
+    );
+  }
+});
+
+test("markdown subscripts, superscripts and highlights round-trip", (t) => {
+  const json = markdownToTiptapJson("H~2~O, x^2^ and ==due *now*==");
+  t.deepEqual(json.content[0].content, [
+    { type: "text", text: "H" },
+    { type: "text", text: "2", marks: [{ type: "subscript" }] },
+    { type: "text", text: "O, x" },
+    { type: "text", text: "2", marks: [{ type: "superscript" }] },
+    { type: "text", text: " and " },
+    { type: "text", text: "due ", marks: [{ type: "highlight" }] },
+    {
+      type: "text",
+      text: "now",
+      marks: [{ type: "italic" }, { type: "highlight" }],
+    },
+  ]);
+  t.deepEqual(markdownToTiptapJson(tiptapJsonToMarkdown(json)), json);
+
+  // Delimiters that do not wrap a mark stay text, and are escaped on export
+  const text = "a ~ b, 2^10 and a == b";
+  const plain = markdownToTiptapJson(text);
+  t.deepEqual(plain.content[0].content, [{ type: "text", text }]);
+  t.deepEqual(markdownToTiptapJson(tiptapJsonToMarkdown(plain)), plain);
+});
+
+test("markdown -> tiptap -> markdown keeps spans apart across whitespace", (t) => {
+  const cases: [string, string][] = [
+    ["[a](x) [b](x)", "[a](x) [b](x)"],
+    ["**a** **b**", "**a** **b**"],
+    ["*it* _it2_", "*it* *it2*"],
+    ["**a**\n**b**", "**a**\n**b**"],
+    ["**a *b* c**", "**a *b* c**"],
+    ["***a*** *b*", "***a*** *b*"],
+  ];
+
+  for (const [source, expected] of cases) {
+    const json = markdownToTiptapJson(source);
+    const markdown = tiptapJsonToMarkdown(json);
+
+    t.is(markdown.trim(), expected, source);
+    t.deepEqual(markdownToTiptapJson(markdown), json, source);
+  }
+});
@@ -0,0 +1,243 @@
+import test from "ava";
+import { inflateSync } from "zlib";
+import { tiptapJsonToPdf } from "../converters/pdf";
+
+// 1x1 pixel PNG
+const PNG_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+interface RenderedPdf {
+  raw: string;
+  pages: number;
+  // Text shown on each page, one entry per drawn run
+  text: string[][];
+}
+
+async function renderPdf(content: any[], options = {}): Promise<RenderedPdf> {
+  const file = await tiptapJsonToPdf({ type: "doc", content }, options);
+  const raw = file.toString("latin1");
+
+  // Page content streams are written in page order
+  const text: string[][] = [];
+  const streams = /stream\r?\n([\s\S]*?)\r?\nendstream/g;
+  for (let match; (match = streams.exec(raw));) {
+    let stream: string;
+    try {
+      stream = inflateSync(Buffer.from(match[1], "latin1")).toString("latin1");
+    } catch {
+      continue;
+    }
+    if (!stream.includes("BT")) {
+      continue;
+    }
+    const runs = Array.from(stream.matchAll(/\[(.*?)\] TJ/g)).map((run) =>
+      Array.from(run[1].matchAll(/<([0-9a-f]*)>/g))
+        .map((hex) => Buffer.from(hex[1], "hex").toString("latin1"))
+        .join("")
+    );
+    text.push(runs);
+  }
+
+  return {
+    raw,
+    pages: (raw.match(/\/Type \/Page\b/g) || []).length,
+    text,
+  };
+}
+
+const text = (value: string, marks?: any[]) => ({
+  type: "text",
+  text: value,
+  ...(marks && { marks }),
+});
+
+const paragraph = (content: any[] = [], attrs?: any) => ({
+  type: "paragraph",
+  ...(attrs && { attrs }),
+  content,
+});
+
+const heading = (level: number, value: string) => ({
+  type: "heading",
+  attrs: { level },
+  content: [text(value)],
+});
+
+test("pdf export renders text with the schema's default typography", async (t) => {
+  const pdf = await renderPdf([
+    heading(1, "Lease Agreement"),
+    paragraph([
+      text("The "),
+      text("tenant", [{ type: "bold" }]),
+      text(" pays."),
+    ]),
+    paragraph([text("Signed")], { fontFamily: "Arial", fontSize: 10 }),
+  ]);
+
+  t.true(pdf.raw.startsWith("%PDF-"));
+  t.is(pdf.pages, 1);
+  t.deepEqual(pdf.text[0].slice(0, 7), [
+    "Lease",
+    "Agreement",
+    "The",
+    "tenant",
+    "pays.",
+    "Signed",
+    "Lease Agreement",
+  ]);
+  t.true(pdf.raw.includes("/BaseFont /Times-Roman"));
+  t.true(pdf.raw.includes("/BaseFont /Times-Bold"));
+  t.true(pdf.raw.includes("/BaseFont /Helvetica"));
+  t.true(pdf.raw.includes("(Lease Agreement)\nendobj"));
+});
+
+test("pdf export paginates with a header and page numbers on every page", async (t) => {
+  const pdf = await renderPdf([
+    heading(1, "Terms"),
+    ...Array.from({ length: 120 }, (_, index) =>
+      paragraph([text(`Clause ${index + 1} applies to both parties.`)])
+    ),
+  ]);
+
+  t.true(pdf.pages > 1);
+  t.is(pdf.text.length, pdf.pages);
+  pdf.text.forEach((runs, index) => {
+    t.true(runs.includes("Terms"), `header on page ${index + 1}`);
+    t.true(
+      runs.includes(`Page ${index + 1} of ${pdf.pages}`),
+      `footer on page ${index + 1}`
+    );
+  });
+  t.true(pdf.text[pdf.pages - 1].includes("120"));
+});
+
+test("pdf export takes the header from the options", async (t) => {
+  const custom = await renderPdf(
+    [heading(1, "Terms"), paragraph([text("x")])],
+    {
+      header: "Confidential",
+    }
+  );
+  t.true(custom.text[0].includes("Confidential"));
+  t.deepEqual(custom.text[0].filter((run) => run === "Terms").length, 1);
+
+  const none = await renderPdf([heading(1, "Terms")], { header: "" });
+  t.deepEqual(none.text[0], ["Terms", "Page 1 of 1"]);
+});
+
+test("pdf export renders lists, tables, code and marks", async (t) => {
+  const pdf = await renderPdf([
+    {
+      type: "orderedList",
+      attrs: { start: 3 },
+      content: [
+        {
+          type: "listItem",
+          content: [
+            paragraph([text("Rent")]),
+            {
+              type: "orderedList",
+              content: [
+                { type: "listItem", content: [paragraph([text("Deposit")])] },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: "bulletList",
+      content: [{ type: "listItem", content: [paragraph([text("Keys")])] }],
+    },
+    {
+      type: "table",
+      content: [
+        {
+          type: "tableRow",
+          content: [
+            { type: "tableHeader", content: [paragraph([text("Party")])] },
+            {
+              type: "tableHeader",
+              attrs: { rowspan: 2 },
+              content: [paragraph([text("Role")])],
+            },
+          ],
+        },
+        {
+          type: "tableRow",
+          content: [{ type: "tableCell", content: [paragraph([text("Ann")])] }],
+        },
+      ],
+    },
+    { type: "codeBlock", content: [text("let a = 1;\nlet b = 2;")] },
+    paragraph([
+      text("old", [{ type: "deletion", attrs: { author: "ann" } }]),
+      text("site", [{ type: "link", attrs: { href: "https://example.com" } }]),
+      text("2", [{ type: "superscript" }]),
+    ]),
+  ]);
+
+  const runs = pdf.text[0];
+  for (const expected of [
+    "3.",
+    "Rent",
+    "a.",
+    "Deposit",
+    "\x95",
+    "Keys",
+    "Party",
+    "Role",
+    "Ann",
+    "let a = 1;",
+    "let b = 2;",
+    "old",
+    "site",
+    "2",
+  ]) {
+    t.true(runs.includes(expected), `renders ${JSON.stringify(expected)}`);
+  }
+  t.true(pdf.raw.includes("/BaseFont /Courier"));
+  t.true(pdf.raw.includes("/URI (https://example.com)"));
+});
+
+test("pdf export embeds data URL images and replaces unencodable text", async (t) => {
+  const pdf = await renderPdf([
+    paragraph([
+      { type: "image", attrs: { src: PNG_DATA_URL, alt: "Seal" } },
+      {
+        type: "image",
+        attrs: { src: "https://example.com/a.png", alt: "Logo" },
+      },
+    ]),
+    paragraph([text("Café — “quoted” 日本")]),
+  ]);
+
+  t.true(pdf.raw.includes("/Subtype /Image"));
+  t.true(pdf.text[0].includes("[Logo]"));
+  t.false(pdf.text[0].includes("[Seal]"));
+  t.true(pdf.text[0].includes("Caf\xe9"));
+  t.true(pdf.text[0].includes("\x97"));
+  t.true(pdf.text[0].includes("\x93quoted\x94"));
+  t.true(pdf.text[0].includes("??"));
+});
+
+test("pdf export numbers footnotes and resolves cross-references", async (t) => {
+  const pdf = await renderPdf([
+    {
+      type: "heading",
+      attrs: { level: 1, id: "terms" },
+      content: [text("Terms")],
+    },
+    paragraph([
+      text("See "),
+      { type: "crossReference", attrs: { target: "terms" } },
+      { type: "footnote", attrs: { text: "As amended." } },
+    ]),
+  ]);
+
+  const runs = pdf.text[0];
+  t.true(runs.includes("Section"));
+  t.true(runs.includes("1"));
+  // Listed after the body, before the header and footer
+  t.deepEqual(runs.slice(runs.indexOf("1."), -2), ["1.", "As", "amended."]);
+});
@@ -0,0 +1,70 @@
+import test from "ava";
+import sinon from "sinon";
+import { getBackoffDelay, retryWithBackoff } from "../retry";
+
+const options = { maxAttempts: 4, baseDelayMs: 1, maxDelayMs: 3 };
+
+test("getBackoffDelay doubles the delay up to the cap", (t) => {
+  const delays = [1, 2, 3, 4, 5].map((attempt) =>
+    getBackoffDelay(attempt, {
+      maxAttempts: 5,
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+    })
+  );
+  t.deepEqual(delays, [100, 200, 400, 500, 500]);
+});
+
+test("retryWithBackoff returns the first successful result", async (t) => {
+  const operation = sinon
+    .stub()
+    .onFirstCall()
+    .rejects(new Error("flaky"))
+    .onSecondCall()
+    .resolves("done");
+  const onRetry = sinon.stub();
+
+  const result = await retryWithBackoff(operation, options, onRetry);
+
+  t.is(result, "done");
+  t.true(operation.calledTwice);
+  t.deepEqual(operation.secondCall.args, [2]);
+  t.true(onRetry.calledOnce);
+  t.is(onRetry.firstCall.args[0].message, "flaky");
+  t.is(onRetry.firstCall.args[1], 1);
+  t.is(onRetry.firstCall.args[2], 1);
+});
+
+test("retryWithBackoff rethrows the last error after all attempts", async (t) => {
+  let calls = 0;
+  const operation = async () => {
+    calls++;
+    throw new Error(`failure ${calls}`);
+  };
+
+  const error = await t.throwsAsync(retryWithBackoff(operation, options));
+
+  t.is(error?.message, "failure 4");
+  t.is(calls, 4);
+});
+
+test("retryWithBackoff waits between attempts", async (t) => {
+  const clock = sinon.useFakeTimers();
+  t.teardown(() => clock.restore());
+
+  const operation = sinon.stub().rejects(new Error("down"));
+  const promise = retryWithBackoff(operation, {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+  }).catch((error: Error) => error);
+
+  await clock.tickAsync(999);
+  t.is(operation.callCount, 1);
+  await clock.tickAsync(1);
+  t.is(operation.callCount, 2);
+  await clock.tickAsync(2000);
+  t.is(operation.callCount, 3);
+
+  t.is(((await promise) as Error).message, "down");
+});
@@ -0,0 +1,143 @@
+import test from "ava";
+import {
+  appendAttributeBlock,
+  formatAttributeBlock,
+  parseAttributeBlock,
+} from "../converters/rich-markdown";
+import { markdownToTiptapJson } from "../converters/json-to-tiptap";
+import { tiptapJsonToMarkdown } from "../converters/tiptap-to-json";
+
+test("formatAttributeBlock writes attributes that differ from the defaults", (t) => {
+  t.is(
+    formatAttributeBlock({
+      type: "paragraph",
+      attrs: {
+        textAlign: "center",
+        fontFamily: "Courier New",
+        fontSize: 12,
+        marginTop: 6,
+        marginBottom: null,
+      },
+    }),
+    '{align=center font-family="Courier New" margin-top=6}'
+  );
+  t.is(
+    formatAttributeBlock({ type: "paragraph", attrs: { fontSize: 12 } }),
+    ""
+  );
+});
+
+test("formatAttributeBlock skips attributes the node does not have", (t) => {
+  t.is(
+    formatAttributeBlock({
+      type: "heading",
+      attrs: { level: 2, fontSize: 18, marginTop: 6 },
+    }),
+    "{font-size=18}"
+  );
+});
+
+test("parseAttributeBlock splits a trailing attribute block off text", (t) => {
+  t.deepEqual(
+    parseAttributeBlock('Parties {align=right font-family="A \\"B\\""}'),
+    {
+      text: "Parties",
+      attrs: { textAlign: "right", fontFamily: 'A "B"' },
+    }
+  );
+  t.deepEqual(parseAttributeBlock("{font-size=14 margin-bottom=6pt}"), {
+    text: "",
+    attrs: { fontSize: 14, marginBottom: "6pt" },
+  });
+});
+
+test("parseAttributeBlock leaves text that is not an attribute block", (t) => {
+  t.is(parseAttributeBlock("Set {x}"), null);
+  t.is(parseAttributeBlock("Set {color=red}"), null);
+  t.is(parseAttributeBlock("Set {align=middle}"), null);
+  t.is(parseAttributeBlock("Set{align=left}"), null);
+  t.is(parseAttributeBlock("Set {}"), null);
+});
+
+test("appendAttributeBlock escapes text that ends like an attribute block", (t) => {
+  t.is(
+    appendAttributeBlock("See {align=left}", { type: "paragraph" }),
+    "See \\{align=left}"
+  );
+});
+
+test("rich markdown round-trips block typography", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "heading",
+        attrs: { level: 1, textAlign: "center", fontSize: 18 },
+        content: [{ type: "text", text: "Lease" }],
+      },
+      {
+        type: "paragraph",
+        attrs: { fontFamily: "Arial", marginTop: 12 },
+        content: [{ type: "text", text: "Literal {align=left}" }],
+      },
+      { type: "paragraph", attrs: { textAlign: "justify" }, content: [] },
+      {
+        type: "bulletList",
+        content: [
+          {
+            type: "listItem",
+            content: [
+              {
+                type: "paragraph",
+                attrs: { fontSize: 10 },
+                content: [{ type: "text", text: "Item" }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const markdown = tiptapJsonToMarkdown(tiptapJson, { rich: true });
+  t.is(
+    markdown,
+    "# Lease {align=center font-size=18}\n\nLiteral \\{align=left} {font-family=Arial margin-top=12}\n\n{align=justify}\n\n- Item {font-size=10}\n\n"
+  );
+  t.deepEqual(markdownToTiptapJson(markdown, { rich: true }), tiptapJson);
+});
+
+test("rich markdown keeps table cell typography beside column alignment", (t) => {
+  const markdown = "| Term {font-size=10} |\n| :---: |\n| Rent |\n";
+  const result = markdownToTiptapJson(markdown, { rich: true });
+
+  t.deepEqual(result.content[0].content[0].content[0].content[0].attrs, {
+    textAlign: "center",
+    fontSize: 10,
+  });
+  t.is(
+    tiptapJsonToMarkdown(result, { rich: true }),
+    "| Term {font-size=10} |\n| :---: |\n| Rent |\n\n"
+  );
+});
+
+test("attribute blocks are plain text without rich markdown", (t) => {
+  const result = markdownToTiptapJson("Title {align=center}");
+  t.deepEqual(result.content[0], {
+    type: "paragraph",
+    content: [{ type: "text", text: "Title {align=center}" }],
+  });
+  t.is(
+    tiptapJsonToMarkdown({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          attrs: { textAlign: "center" },
+          content: [{ type: "text", text: "Title" }],
+        },
+      ],
+    }),
+    "Title\n\n"
+  );
+});
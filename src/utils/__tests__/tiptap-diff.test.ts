@@ -0,0 +1,161 @@
+import test from "ava";
+import {
+  diffTiptapDocuments,
+  diffToRedlineMarkdown,
+} from "../diff/tiptap-diff";
+
+function text(value: string, marks: string[] = []) {
+  return marks.length > 0
+    ? { type: "text", text: value, marks: marks.map((type) => ({ type })) }
+    : { type: "text", text: value };
+}
+
+function paragraph(...content: any[]) {
+  return { type: "paragraph", content };
+}
+
+function heading(level: number, value: string) {
+  return { type: "heading", attrs: { level }, content: [text(value)] };
+}
+
+function doc(...content: any[]) {
+  return { type: "doc", content };
+}
+
+test("identical documents have no changes", (t) => {
+  const document = doc(heading(1, "Title"), paragraph(text("Body text")));
+
+  const diff = diffTiptapDocuments(document, document);
+
+  t.deepEqual(diff.summary, {
+    unchanged: 2,
+    inserted: 0,
+    deleted: 0,
+    modified: 0,
+  });
+  t.true(diff.changes.every((change) => change.type === "equal"));
+});
+
+test("reports inserted and deleted blocks", (t) => {
+  const before = doc(
+    paragraph(text("Keep this")),
+    paragraph(text("Remove this clause entirely"))
+  );
+  const after = doc(
+    paragraph(text("Keep this")),
+    heading(2, "Brand new section")
+  );
+
+  const diff = diffTiptapDocuments(before, after);
+
+  t.deepEqual(diff.summary, {
+    unchanged: 1,
+    inserted: 1,
+    deleted: 1,
+    modified: 0,
+  });
+  t.like(diff.changes[1], {
+    type: "delete",
+    blockType: "paragraph",
+    before: "Remove this clause entirely",
+  });
+  t.like(diff.changes[2], {
+    type: "insert",
+    blockType: "heading",
+    after: "Brand new section",
+  });
+});
+
+test("reports word-level changes inside a modified block", (t) => {
+  const before = doc(paragraph(text("The tenant shall pay rent monthly")));
+  const after = doc(paragraph(text("The tenant shall pay rent quarterly")));
+
+  const diff = diffTiptapDocuments(before, after);
+
+  t.is(diff.summary.modified, 1);
+  t.deepEqual(diff.changes[0].inline, [
+    { type: "equal", text: "The tenant shall pay rent ", marks: [] },
+    { type: "delete", text: "monthly", marks: [] },
+    { type: "insert", text: "quarterly", marks: [] },
+  ]);
+});
+
+test("reports mark changes as format changes", (t) => {
+  const before = doc(paragraph(text("Payment is due now")));
+  const after = doc(
+    paragraph(text("Payment is "), text("due", ["bold"]), text(" now"))
+  );
+
+  const [change] = diffTiptapDocuments(before, after).changes;
+
+  t.is(change.type, "modify");
+  t.deepEqual(change.inline![1], {
+    type: "format",
+    text: "due",
+    marks: ["bold"],
+    previousMarks: [],
+  });
+});
+
+test("reports block attribute changes", (t) => {
+  const [change] = diffTiptapDocuments(
+    doc(heading(1, "Definitions")),
+    doc(heading(2, "Definitions"))
+  ).changes;
+
+  t.is(change.type, "modify");
+  t.deepEqual(change.attrs, { before: { level: 1 }, after: { level: 2 } });
+});
+
+test("diffs blocks nested in lists", (t) => {
+  const list = (...items: string[]) => ({
+    type: "bulletList",
+    content: items.map((item) => ({
+      type: "listItem",
+      content: [paragraph(text(item))],
+    })),
+  });
+
+  const diff = diffTiptapDocuments(
+    doc(list("First item", "Second item")),
+    doc(list("First item", "Second item", "Third item"))
+  );
+
+  t.is(diff.summary.inserted, 1);
+  t.deepEqual(diff.changes[2].path, ["bulletList", "listItem"]);
+});
+
+test("renders a CriticMarkup redline", (t) => {
+  const before = doc(
+    heading(1, "Lease"),
+    paragraph(text("The tenant shall pay rent monthly")),
+    paragraph(text("Pets are not allowed anywhere"))
+  );
+  const after = doc(
+    heading(1, "Lease"),
+    paragraph(text("The tenant shall pay rent "), text("quarterly", ["bold"]))
+  );
+
+  const diff = diffTiptapDocuments(before, after);
+
+  t.is(
+    diffToRedlineMarkdown(diff, before, after),
+    "# Lease\n\n" +
+      "The tenant shall pay rent {--monthly--}{++**quarterly**++}\n\n" +
+      "{--Pets are not allowed anywhere--}\n\n"
+  );
+});
+
+test("renders format changes with a comment", (t) => {
+  const before = doc(paragraph(text("Payment is due now")));
+  const after = doc(
+    paragraph(text("Payment is "), text("due", ["italic"]), text(" now"))
+  );
+
+  const diff = diffTiptapDocuments(before, after);
+
+  t.is(
+    diffToRedlineMarkdown(diff, before, after),
+    "Payment is {==*due*==}{>>+italic<<} now\n\n"
+  );
+});
@@ -1,5 +1,6 @@
 import test from "ava";
 import { tiptapJsonToMarkdown } from "../converters/tiptap-to-json";
+import { markdownToTiptapJson } from "../converters/json-to-tiptap";
 
 // Basic node types
 test("tiptapJsonToMarkdown converts simple paragraph", (t) => {
@@ -384,3 +385,531 @@ test("tiptapJsonToMarkdown preserves newlines in code blocks", (t) => {
   const result = tiptapJsonToMarkdown(tiptapJson);
   t.is(result, '```python\ndef hello():\n    print("Hi")\n```\n\n');
 });
+
+// Track changes
+test("tiptapJsonToMarkdown renders suggestions as CriticMarkup", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Pay " },
+          {
+            type: "text",
+            text: "monthly",
+            marks: [{ type: "deletion", attrs: { author: "bob" } }],
+          },
+          {
+            type: "text",
+            text: "quarterly",
+            marks: [
+              { type: "bold" },
+              { type: "insertion", attrs: { author: "alice" } },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(result, "Pay {--monthly--}{++**quarterly**++}\n\n");
+});
+
+// Tables
+function createCell(type: string, content: any[], textAlign?: string): any {
+  return {
+    type,
+    content: [
+      {
+        type: "paragraph",
+        ...(textAlign && { attrs: { textAlign } }),
+        content,
+      },
+    ],
+  };
+}
+
+test("tiptapJsonToMarkdown converts a table to a GFM pipe table", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [
+              createCell("tableHeader", [{ type: "text", text: "Term" }]),
+              createCell(
+                "tableHeader",
+                [{ type: "text", text: "Amount" }],
+                "right"
+              ),
+            ],
+          },
+          {
+            type: "tableRow",
+            content: [
+              createCell("tableCell", [
+                { type: "text", text: "Rent", marks: [{ type: "bold" }] },
+              ]),
+              createCell("tableCell", [{ type: "text", text: "1|2" }], "right"),
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(result, "| Term | Amount |\n| --- | ---: |\n| **Rent** | 1\\|2 |\n\n");
+});
+
+test("tiptapJsonToMarkdown falls back to HTML for merged cells", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [
+              {
+                ...createCell("tableHeader", [{ type: "text", text: "Both" }]),
+                attrs: { colspan: 2 },
+              },
+            ],
+          },
+          {
+            type: "tableRow",
+            content: [
+              createCell("tableCell", [{ type: "text", text: "A" }]),
+              createCell("tableCell", [{ type: "text", text: "B" }]),
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(
+    result,
+    '<table><tbody>\n<tr><th colspan="2"><p>Both</p></th></tr>\n<tr><td><p>A</p></td><td><p>B</p></td></tr>\n</tbody></table>\n\n'
+  );
+});
+
+test("tiptapJsonToMarkdown falls back to HTML for multi-block cells", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "table",
+        content: [
+          {
+            type: "tableRow",
+            content: [
+              {
+                type: "tableHeader",
+                content: [
+                  { type: "paragraph", content: [{ type: "text", text: "A" }] },
+                  { type: "paragraph", content: [{ type: "text", text: "B" }] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.true(result.startsWith("<table>"));
+  t.true(result.includes("<th><p>A</p><p>B</p></th>"));
+});
+
+test("tables round-trip through markdown", (t) => {
+  const pipeTable =
+    "| Term | Amount |\n| :--- | ---: |\n| **Rent** | *1\\|2* |\n| `code` |  |\n\n";
+  t.is(tiptapJsonToMarkdown(markdownToTiptapJson(pipeTable)), pipeTable);
+
+  const htmlTable =
+    '<table><tbody>\n<tr><th rowspan="2"><p>Party</p></th><th><p>Name</p></th></tr>\n<tr><th><p><em>Landlord</em></p></th></tr>\n</tbody></table>\n\n';
+  t.is(tiptapJsonToMarkdown(markdownToTiptapJson(htmlTable)), htmlTable);
+});
+
+// Blockquotes, rules, images and hard breaks
+test("tiptapJsonToMarkdown converts nested blockquotes containing lists", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "blockquote",
+        content: [
+          { type: "paragraph", content: [{ type: "text", text: "Quoted" }] },
+          {
+            type: "blockquote",
+            content: [
+              {
+                type: "bulletList",
+                content: [
+                  {
+                    type: "listItem",
+                    content: [
+                      {
+                        type: "paragraph",
+                        content: [{ type: "text", text: "one" }],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(result, "> Quoted\n>\n> > - one\n\n");
+});
+
+test("tiptapJsonToMarkdown converts horizontal rules, images and hard breaks", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Line one" },
+          { type: "hardBreak" },
+          {
+            type: "image",
+            attrs: { src: "sig.png", alt: "Signature", title: "Tenant" },
+          },
+        ],
+      },
+      { type: "horizontalRule" },
+      {
+        type: "heading",
+        attrs: { level: 2 },
+        content: [
+          { type: "text", text: "A" },
+          { type: "hardBreak" },
+          { type: "text", text: "B" },
+        ],
+      },
+    ],
+  };
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(
+    result,
+    'Line one\\\n![Signature](sig.png "Tenant")\n\n---\n\n## A<br>B\n\n'
+  );
+});
+
+test("blockquotes, rules, images and hard breaks round-trip losslessly", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "blockquote",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: "Quoted " },
+              { type: "text", text: "clause", marks: [{ type: "bold" }] },
+            ],
+          },
+          {
+            type: "blockquote",
+            content: [
+              {
+                type: "orderedList",
+                content: [
+                  {
+                    type: "listItem",
+                    content: [
+                      {
+                        type: "paragraph",
+                        content: [{ type: "text", text: "first" }],
+                      },
+                      {
+                        type: "bulletList",
+                        content: [
+                          {
+                            type: "listItem",
+                            content: [
+                              {
+                                type: "paragraph",
+                                content: [{ type: "text", text: "nested" }],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      { type: "horizontalRule" },
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Signed" },
+          { type: "hardBreak" },
+          { type: "image", attrs: { src: "sig.png", alt: "Signature" } },
+        ],
+      },
+      {
+        type: "bulletList",
+        content: [
+          {
+            type: "listItem",
+            content: [
+              { type: "paragraph", content: [{ type: "text", text: "item" }] },
+              {
+                type: "blockquote",
+                content: [
+                  {
+                    type: "paragraph",
+                    content: [{ type: "text", text: "quoted in item" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  t.deepEqual(
+    markdownToTiptapJson(tiptapJsonToMarkdown(tiptapJson)),
+    tiptapJson
+  );
+});
+
+// Inline marks
+const paragraph = (...content: any[]) => ({
+  type: "doc",
+  content: [{ type: "paragraph", content }],
+});
+
+test("tiptapJsonToMarkdown nests a mark spanning differently formatted text", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph(
+      {
+        type: "text",
+        text: "Pay ",
+        marks: [{ type: "link", attrs: { href: "https://example.com" } }],
+      },
+      {
+        type: "text",
+        text: "now",
+        marks: [
+          { type: "bold" },
+          { type: "link", attrs: { href: "https://example.com" } },
+        ],
+      }
+    )
+  );
+  t.is(result, "[Pay **now**](https://example.com)\n\n");
+});
+
+test("tiptapJsonToMarkdown writes italic spanning code", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph(
+      { type: "text", text: "call ", marks: [{ type: "italic" }] },
+      {
+        type: "text",
+        text: "run()",
+        marks: [{ type: "italic" }, { type: "code" }],
+      }
+    )
+  );
+  t.is(result, "*call `run()`*\n\n");
+});
+
+test("tiptapJsonToMarkdown moves whitespace outside of delimiters", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph(
+      { type: "text", text: "a" },
+      { type: "text", text: " bold ", marks: [{ type: "bold" }] },
+      { type: "text", text: "b" }
+    )
+  );
+  t.is(result, "a **bold** b\n\n");
+});
+
+test("tiptapJsonToMarkdown escapes markdown syntax in text", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph({
+      type: "text",
+      text: "1. snake_case *not* [x] <tag> {++ &amp; ++}",
+    })
+  );
+  t.is(
+    result,
+    "1\\. snake\\_case \\*not\\* \\[x\\] \\<tag> \\{++ \\&amp; ++\\}\n\n"
+  );
+});
+
+test("tiptapJsonToMarkdown writes marks without markdown syntax as HTML", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph(
+      { type: "text", text: "u", marks: [{ type: "underline" }] },
+      { type: "text", text: " " },
+      { type: "text", text: "2", marks: [{ type: "subscript" }] },
+      { type: "text", text: "3", marks: [{ type: "superscript" }] },
+      { type: "text", text: " " },
+      {
+        type: "text",
+        text: "hi",
+        marks: [{ type: "highlight", attrs: { color: "#ff0" } }],
+      },
+      { type: "text", text: " " },
+      {
+        type: "text",
+        text: "red",
+        marks: [{ type: "textStyle", attrs: { color: "red" } }],
+      }
+    )
+  );
+  t.is(
+    result,
+    '<u>u</u> <sub>2</sub><sup>3</sup> <mark style="background-color: #ff0">hi</mark> <span style="color: red">red</span>\n\n'
+  );
+});
+
+test("tiptapJsonToMarkdown uses HTML emphasis where delimiters cannot close", (t) => {
+  const result = tiptapJsonToMarkdown(
+    paragraph(
+      { type: "text", text: "(a)", marks: [{ type: "bold" }] },
+      { type: "text", text: "b" }
+    )
+  );
+  t.is(result, "<strong>(a)</strong>b\n\n");
+  t.deepEqual(markdownToTiptapJson(result).content[0].content, [
+    { type: "text", text: "(a)", marks: [{ type: "bold" }] },
+    { type: "text", text: "b" },
+  ]);
+});
+
+test("tiptapJsonToMarkdown keeps adjacent lists of one type apart", (t) => {
+  const list = (text: string) => ({
+    type: "bulletList",
+    content: [
+      {
+        type: "listItem",
+        content: [{ type: "paragraph", content: [{ type: "text", text }] }],
+      },
+    ],
+  });
+  const tiptapJson = { type: "doc", content: [list("a"), list("b")] };
+
+  const result = tiptapJsonToMarkdown(tiptapJson);
+  t.is(result, "- a\n\n* b\n\n");
+  t.deepEqual(markdownToTiptapJson(result), tiptapJson);
+});
+
+test("tiptapJsonToMarkdown writes comment threads as CriticMarkup", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "The " },
+          { type: "text", text: "Buyer pays", marks: [{ type: "bold" }] },
+          { type: "text", text: " later." },
+        ],
+      },
+    ],
+  };
+  const thread = {
+    id: "thread-1",
+    range: { path: [0], from: 4, to: 9, text: "Buyer" },
+    quote: "Buyer",
+    status: "open" as const,
+    createdAt: "2024-03-01T00:00:00.000Z",
+    resolvedBy: null,
+    resolvedAt: null,
+    comments: [
+      {
+        id: "c1",
+        author: { id: "u1", name: "Ann Lee" },
+        body: "Which\nbuyer?",
+        createdAt: "2024-03-01T00:00:00.000Z",
+      },
+      {
+        id: "c2",
+        author: { id: "u2" },
+        body: "Acme <<}",
+        createdAt: "2024-03-01T00:00:00.000Z",
+      },
+    ],
+  };
+
+  t.is(
+    tiptapJsonToMarkdown(tiptapJson, { comments: [thread] }),
+    "The **{==Buyer==}{>>Ann Lee: Which buyer?<<}{>>u2: Acme << }<<} pays** later.\n\n"
+  );
+  t.is(tiptapJsonToMarkdown(tiptapJson), "The **Buyer pays** later.\n\n");
+});
+
+test("tiptapJsonToMarkdown numbers footnotes and writes cross-references", (t) => {
+  const tiptapJson = {
+    type: "doc",
+    content: [
+      {
+        type: "heading",
+        attrs: { level: 1, id: "payment" },
+        content: [{ type: "text", text: "Payment" }],
+      },
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Rent is due monthly." },
+          { type: "footnote", attrs: { text: "In *advance*,\nby transfer." } },
+          { type: "text", text: " See " },
+          { type: "crossReference", attrs: { target: "payment" } },
+          { type: "footnote", attrs: { text: "Or cash." } },
+        ],
+      },
+      {
+        type: "paragraph",
+        content: [{ type: "text", text: "Not a [^3] or {{ref target=x}}." }],
+      },
+    ],
+  };
+
+  t.is(
+    tiptapJsonToMarkdown(tiptapJson),
+    "# Payment\n\n" +
+      "Rent is due monthly.[^1] See {{ref target=payment}}[^2]\n\n" +
+      "Not a \\[\\^3\\] or \\{{ref target=x}}.\n\n" +
+      "[^1]: In \\*advance\\*, by transfer.\n" +
+      "[^2]: Or cash.\n"
+  );
+  t.deepEqual(
+    markdownToTiptapJson(tiptapJsonToMarkdown(tiptapJson)).content.slice(1),
+    [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Rent is due monthly." },
+          { type: "footnote", attrs: { text: "In *advance*, by transfer." } },
+          { type: "text", text: " See " },
+          { type: "crossReference", attrs: { target: "payment" } },
+          { type: "footnote", attrs: { text: "Or cash." } },
+        ],
+      },
+      tiptapJson.content[2],
+    ]
+  );
+});
@@ -692,6 +692,32 @@ test("TextStyle mark with color preserved", (t) => {
   t.is(textStyleMark.attrs.color, "#ff0000");
 });
 
+test("Mark colors that are not color values are dropped", (t) => {
+  const ydoc = new Y.Doc();
+  const doc = createTiptapDoc([
+    {
+      type: "paragraph",
+      content: [
+        {
+          type: "text",
+          text: "Colored text",
+          marks: [
+            {
+              type: "textStyle",
+              attrs: { color: "red; background: url(https://example.com/)" },
+            },
+          ],
+        },
+      ],
+    },
+  ]);
+
+  jsonToYDoc(doc, ydoc, schema, "test");
+  const result = JSON.parse(yDocToJSON(ydoc, schema, "test"));
+
+  t.deepEqual(result.content[0].content[0].marks, [{ type: "textStyle" }]);
+});
+
 test("Table cell colspan and rowspan preserved", (t) => {
   const ydoc = new Y.Doc();
   const doc = createTiptapDoc([
@@ -746,3 +772,142 @@ test("Multiple marks on same text preserved", (t) => {
   t.true(markTypes.includes("italic"));
   t.true(markTypes.includes("underline"));
 });
+
+test("round-trip preserves track changes marks with author and timestamp", (t) => {
+  const ydoc = new Y.Doc();
+  const marks = [
+    {
+      type: "insertion",
+      attrs: {
+        id: "s1",
+        author: "alice",
+        timestamp: "2024-01-01T00:00:00.000Z",
+      },
+    },
+  ];
+
+  jsonToYDoc(
+    createTiptapDoc([
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Keep " },
+          { type: "text", text: "added", marks },
+          {
+            type: "text",
+            text: "removed",
+            marks: [{ type: "deletion", attrs: { author: "bob" } }],
+          },
+        ],
+      },
+    ]),
+    ydoc,
+    schema,
+    "default"
+  );
+
+  const parsed = JSON.parse(yDocToJSON(ydoc, schema, "default"));
+
+  t.deepEqual(parsed.content[0].content, [
+    { type: "text", text: "Keep " },
+    { type: "text", text: "added", marks },
+    {
+      type: "text",
+      text: "removed",
+      marks: [{ type: "deletion", attrs: { author: "bob" } }],
+    },
+  ]);
+});
+
+test("round-trip preserves block IDs and omits unassigned ones", (t) => {
+  const ydoc = new Y.Doc();
+  jsonToYDoc(
+    createTiptapDoc([
+      { ...createHeading(1, "Terms"), attrs: { level: 1, id: "terms" } },
+      {
+        type: "bulletList",
+        attrs: { id: "list-1" },
+        content: [{ type: "listItem", content: [createParagraph("Rent")] }],
+      },
+      { type: "blockquote", content: [createParagraph("Quoted")] },
+    ]),
+    ydoc,
+    schema,
+    "default"
+  );
+
+  const parsed = JSON.parse(yDocToJSON(ydoc, schema, "default"));
+
+  t.is(parsed.content[0].attrs.id, "terms");
+  t.deepEqual(parsed.content[1].attrs, { id: "list-1" });
+  t.is(parsed.content[1].content[0].content[0].attrs.id, undefined);
+  t.is(parsed.content[2].attrs, undefined);
+});
+
+test("round-trip preserves field nodes and omits blank values", (t) => {
+  const ydoc = new Y.Doc();
+  jsonToYDoc(
+    createTiptapDoc([
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Rent of " },
+          {
+            type: "field",
+            attrs: { name: "rent", type: "number", value: 1250 },
+          },
+          { type: "text", text: " is paid by " },
+          { type: "field", attrs: { name: "tenant" } },
+        ],
+      },
+    ]),
+    ydoc,
+    schema,
+    "default"
+  );
+
+  const parsed = JSON.parse(yDocToJSON(ydoc, schema, "default"));
+
+  t.deepEqual(parsed.content[0].content[1], {
+    type: "field",
+    attrs: { name: "rent", type: "number", value: 1250 },
+  });
+  t.deepEqual(parsed.content[0].content[3], {
+    type: "field",
+    attrs: { name: "tenant", type: "text" },
+  });
+  t.is(
+    schema.nodeFromJSON(parsed).textContent,
+    "Rent of 1250 is paid by [tenant]"
+  );
+});
+
+test("round-trip preserves footnotes and cross-references", (t) => {
+  const ydoc = new Y.Doc();
+  jsonToYDoc(
+    createTiptapDoc([
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "See " },
+          { type: "crossReference", attrs: { target: "clause-4" } },
+          { type: "footnote", attrs: { id: "note-1", text: "As amended." } },
+          { type: "footnote" },
+        ],
+      },
+    ]),
+    ydoc,
+    schema,
+    "default"
+  );
+
+  const parsed = JSON.parse(yDocToJSON(ydoc, schema, "default"));
+
+  t.deepEqual(parsed.content[0].content.slice(1), [
+    { type: "crossReference", attrs: { target: "clause-4" } },
+    { type: "footnote", attrs: { id: "note-1", text: "As amended." } },
+    { type: "footnote", attrs: { text: "" } },
+  ]);
+  // Neither adds to the text of the paragraph
+  t.is(schema.nodeFromJSON(parsed).textContent, "See ");
+});
@@ -1,9 +1,10 @@
 import { Request } from "express";
-import { jwtVerify, createRemoteJWKSet } from "jose";
+import { jwtVerify, createRemoteJWKSet, JWTPayload } from "jose";
 import { serverConfig } from "../config";
 
-// Create JWKS function that fetches public keys from the JWKS endpoint
-const JWKS = createRemoteJWKSet(new URL(serverConfig.jwt.jwksUrl));
+// JWKS function that fetches public keys from the JWKS endpoint, created on
+// first use so importing this module does not need the JWT configuration
+let JWKS: ReturnType<typeof createRemoteJWKSet> | null = null;
 
 /**
  * Extract JWT token from request headers or query parameters
@@ -18,6 +19,19 @@ export function extractJWTFromRequest(req: Request): string | null {
   return null;
 }
 
+/**
+ * Verify a JWT's signature, audience and issuer against the JWKS endpoint
+ * @throws if the token is invalid or expired
+ */
+export async function verifyJWT(token: string): Promise<JWTPayload> {
+  JWKS ??= createRemoteJWKSet(new URL(serverConfig.jwt.jwksUrl));
+  const { payload } = await jwtVerify(token, JWKS, {
+    audience: serverConfig.jwt.audience,
+    issuer: serverConfig.jwt.issuer,
+  });
+  return payload;
+}
+
 /**
  * Extract user ID from JWT token with full signature validation
  * Returns null for invalid/expired tokens
@@ -25,10 +39,7 @@ export function extractJWTFromRequest(req: Request): string | null {
  */
 export async function getUserIdFromJWT(token: string): Promise<string | null> {
   try {
-    const { payload } = await jwtVerify(token, JWKS, {
-      audience: serverConfig.jwt.audience,
-      issuer: serverConfig.jwt.issuer,
-    });
+    const payload = await verifyJWT(token);
     return payload.sub || null;
   } catch (error) {
     // Return null for invalid tokens, let other middleware handle auth
@@ -0,0 +1,74 @@
+import { CommentThread } from "../../types";
+
+/**
+ * Mark the text of comment threads in TipTap JSON with "comment" marks,
+ * for exports that include comments
+ * Threads whose text has been deleted are left out
+ */
+export function overlayComments(
+  tiptapJson: any,
+  threads: CommentThread[],
+  markAttrs: (thread: CommentThread) => Record<string, unknown> = (thread) => ({
+    threadId: thread.id,
+  })
+): any {
+  const json = structuredClone(tiptapJson);
+
+  for (const thread of threads) {
+    const range = thread.range;
+    if (!range || range.from >= range.to) {
+      continue;
+    }
+
+    const block = range.path.reduce(
+      (node: any, index) => node?.content?.[index],
+      json
+    );
+    if (!Array.isArray(block?.content)) {
+      continue;
+    }
+
+    block.content = markRange(block.content, range.from, range.to, {
+      type: "comment",
+      attrs: markAttrs(thread),
+    });
+  }
+
+  return json;
+}
+
+/**
+ * Add a mark to the text between two offsets of a block's inline content,
+ * splitting text nodes at the offsets (inline nodes count as one)
+ */
+function markRange(content: any[], from: number, to: number, mark: any): any[] {
+  const marked: any[] = [];
+  let offset = 0;
+
+  for (const node of content) {
+    const length = node.type === "text" ? String(node.text).length : 1;
+    const start = Math.max(from, offset) - offset;
+    const end = Math.min(to, offset + length) - offset;
+    offset += length;
+
+    if (node.type !== "text" || end <= start) {
+      marked.push(node);
+      continue;
+    }
+
+    const text = String(node.text);
+    if (start > 0) {
+      marked.push({ ...node, text: text.slice(0, start) });
+    }
+    marked.push({
+      ...node,
+      text: text.slice(start, end),
+      marks: [...(node.marks || []), mark],
+    });
+    if (end < length) {
+      marked.push({ ...node, text: text.slice(end) });
+    }
+  }
+
+  return marked;
+}
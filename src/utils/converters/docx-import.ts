@@ -0,0 +1,1285 @@
+import JSZip from "jszip";
+import { posix } from "path";
+import { DOMParser } from "linkedom";
+import { schema } from "../ydoc/schema";
+
+/**
+ * A construct found in the .docx file that could not be imported
+ */
+export interface UnsupportedConstruct {
+  construct: string;
+  count: number;
+  message: string;
+}
+
+export interface DocxImportResult {
+  json: any;
+  unsupported: UnsupportedConstruct[];
+}
+
+const UNSUPPORTED_MESSAGES: Record<string, string> = {
+  headerFooter: "Headers and footers were not imported",
+  footnote:
+    "Footnotes and endnotes were not imported; their reference marks were dropped",
+  comment: "Comments were not imported",
+  textBox: "Text boxes were not imported",
+  equation: "Equations were not imported",
+  drawing: "Charts, diagrams and shapes were not imported",
+  embeddedObject: "Embedded objects were not imported",
+  image:
+    "Images other than embedded PNG, JPEG, GIF and WebP files were not imported",
+  floatingImage: "Floating images were imported inline",
+  pageBreak: "Page and column breaks were dropped",
+  sectionBreak:
+    "Section breaks (page size, orientation, columns) were not imported",
+  field: "Fields were imported as their displayed text",
+  symbol: "Symbol font characters were not imported",
+  internalLink:
+    "Links to bookmarks in the document were imported as plain text",
+  headingNumbering: "Heading numbering was dropped",
+  runFont:
+    "Font and size changes inside a paragraph were not imported; each paragraph uses its most common font and size",
+};
+
+// Schema defaults, left off the imported paragraphs
+const DEFAULT_FONT_FAMILY = "Times New Roman";
+const DEFAULT_FONT_SIZE = 12;
+
+// Limits on the unpacked package, so a small zip bomb cannot exhaust memory
+const MAX_PACKAGE_ENTRIES = 1000;
+const MAX_PACKAGE_BYTES = 50 * 1024 * 1024;
+
+const TWIPS_PER_POINT = 20;
+const TWIPS_PER_PIXEL = 15;
+const INDENT_STEP = 720;
+
+const ALIGNMENTS: Record<string, string> = {
+  left: "left",
+  start: "left",
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+const MONOSPACE_FONTS = [
+  "courier new",
+  "courier",
+  "consolas",
+  "menlo",
+  "monaco",
+  "lucida console",
+];
+
+const QUOTE_STYLES = ["quote", "intense quote", "block text"];
+const CODE_STYLES = ["code", "html preformatted", "source code"];
+
+// Word's highlight palette; yellow is the schema's default highlight
+const HIGHLIGHT_COLORS: Record<string, string> = {
+  black: "#000000",
+  blue: "#0000ff",
+  cyan: "#00ffff",
+  green: "#00ff00",
+  magenta: "#ff00ff",
+  red: "#ff0000",
+  white: "#ffffff",
+  darkBlue: "#000080",
+  darkCyan: "#008080",
+  darkGreen: "#008000",
+  darkMagenta: "#800080",
+  darkRed: "#800000",
+  darkYellow: "#808000",
+  darkGray: "#808080",
+  lightGray: "#c0c0c0",
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+// Elements that carry no content of their own
+const IGNORED_ELEMENTS = new Set([
+  "w:pPr",
+  "w:rPr",
+  "w:tblPr",
+  "w:tblGrid",
+  "w:trPr",
+  "w:tcPr",
+  "w:tblPrEx",
+  "w:sectPr",
+  "w:bookmarkStart",
+  "w:bookmarkEnd",
+  "w:proofErr",
+  "w:permStart",
+  "w:permEnd",
+  "w:commentRangeStart",
+  "w:commentRangeEnd",
+  "w:lastRenderedPageBreak",
+  "w:softHyphen",
+  "w:instrText",
+  "w:delInstrText",
+  "w:footnoteRef",
+  "w:endnoteRef",
+  "w:annotationRef",
+  "w:separator",
+  "w:continuationSeparator",
+  "w:sdtPr",
+  "w:sdtEndPr",
+  "w:customXmlPr",
+  "w:smartTagPr",
+]);
+
+// Elements whose children are read as if they were not there
+const TRANSPARENT_ELEMENTS = new Set([
+  "w:sdt",
+  "w:sdtContent",
+  "w:customXml",
+  "w:smartTag",
+  "w:dir",
+  "w:bdo",
+]);
+
+// An element of a parsed OOXML part, with the members the import reads
+interface XmlElement {
+  readonly tagName: string;
+  readonly children: ArrayLike<XmlElement>;
+  readonly textContent: string | null;
+  getAttribute(name: string): string | null;
+  getElementsByTagName(tag: string): ArrayLike<XmlElement>;
+}
+
+// JSZip keeps the sizes read from the zip's central directory on a private
+// property that its typings leave out
+interface LoadedZipObject extends JSZip.JSZipObject {
+  _data?: { uncompressedSize?: number };
+}
+
+/**
+ * A loaded .docx package, with the bytes its parts may still unpack to
+ */
+interface DocxPackage {
+  zip: JSZip;
+  remainingBytes: number;
+}
+
+interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+interface StyleDefinition {
+  name: string;
+  basedOn: string | null;
+  pPr: XmlElement | null;
+  rPr: XmlElement | null;
+}
+
+interface ListLevel {
+  format: string;
+  start: number;
+}
+
+// Everything read from the package before walking the document body
+interface ImportContext {
+  relationships: Map<string, Relationship>;
+  styles: Map<string, StyleDefinition>;
+  defaultRunProperties: XmlElement | null;
+  abstractNumbering: Map<string, Map<number, ListLevel>>;
+  numbering: Map<string, { abstractId: string; starts: Map<number, number> }>;
+  themeFonts: Record<string, string>;
+  images: Map<string, string>;
+  unsupported: Map<string, number>;
+}
+
+// Where inline content is read: a table header cell drops the bold its
+// export added, a code block keeps only text
+interface InlineOptions {
+  header: boolean;
+  code: boolean;
+}
+
+interface ParagraphInfo {
+  node: any;
+  headingLevel: number | null;
+  list: { numId: string; level: number } | null;
+  quoteDepth: number;
+  code: boolean;
+  indent: number;
+}
+
+interface OpenList {
+  node: any;
+  numId: string;
+}
+
+/**
+ * Import a .docx file as a TipTap JSON document
+ * Paragraphs, headings, run formatting, lists, tables, links, images and
+ * Word revisions map to the schema; anything else is listed in the result's
+ * unsupported constructs instead of being dropped silently
+ */
+export async function docxToTiptapJson(
+  file: Buffer
+): Promise<DocxImportResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (error) {
+    throw new Error(`Invalid DOCX file: ${(error as Error).message}`);
+  }
+
+  const entries: LoadedZipObject[] = Object.values(zip.files);
+  if (entries.length > MAX_PACKAGE_ENTRIES) {
+    throw new Error(
+      `Invalid DOCX file: more than ${MAX_PACKAGE_ENTRIES} entries`
+    );
+  }
+  const declaredBytes = entries.reduce(
+    (total, entry) => total + (entry._data?.uncompressedSize || 0),
+    0
+  );
+  if (declaredBytes > MAX_PACKAGE_BYTES) {
+    throw packageTooLarge();
+  }
+  const docx: DocxPackage = { zip, remainingBytes: MAX_PACKAGE_BYTES };
+
+  const packageRelationships = await readRelationships(docx, "");
+  const mainPart =
+    Array.from(packageRelationships.values()).find((relationship) =>
+      relationship.type.endsWith("/officeDocument")
+    )?.target || "word/document.xml";
+  const documentXml = await readPart(docx, mainPart, "utf8");
+  if (!documentXml) {
+    throw new Error(`Invalid DOCX file: ${mainPart} is missing`);
+  }
+
+  const context = await readContext(docx, mainPart);
+  const body = child(parseXml(documentXml), "w:body");
+  const content = body ? readBlocks(body, context, false) : [];
+
+  const json = {
+    type: "doc",
+    content: content.length > 0 ? content : [{ type: "paragraph" }],
+  };
+
+  try {
+    schema.nodeFromJSON(json).check();
+  } catch (error) {
+    throw new Error(`Failed to convert DOCX: ${(error as Error).message}`);
+  }
+
+  return {
+    json,
+    unsupported: Array.from(context.unsupported.entries()).map(
+      ([construct, count]) => ({
+        construct,
+        count,
+        message:
+          UNSUPPORTED_MESSAGES[construct] ||
+          `Unsupported element <${construct}> was dropped`,
+      })
+    ),
+  };
+}
+
+async function readContext(
+  docx: DocxPackage,
+  mainPart: string
+): Promise<ImportContext> {
+  const relationships = await readRelationships(docx, mainPart);
+  const partOfType = async (type: string) => {
+    const relationship = Array.from(relationships.values()).find(
+      (candidate) => candidate.type.endsWith(`/${type}`) && !candidate.external
+    );
+    const xml = relationship
+      ? await readPart(docx, relationship.target, "utf8")
+      : undefined;
+    return xml ? parseXml(xml) : null;
+  };
+
+  const context: ImportContext = {
+    relationships,
+    styles: new Map(),
+    defaultRunProperties: null,
+    abstractNumbering: new Map(),
+    numbering: new Map(),
+    themeFonts: {},
+    images: new Map(),
+    unsupported: new Map(),
+  };
+
+  const styles = await partOfType("styles");
+  if (styles) {
+    context.defaultRunProperties =
+      child(child(child(styles, "w:docDefaults"), "w:rPrDefault"), "w:rPr") ||
+      null;
+    for (const style of children(styles, "w:style")) {
+      context.styles.set(attr(style, "w:styleId") || "", {
+        name: (attr(child(style, "w:name"), "w:val") || "").toLowerCase(),
+        basedOn: attr(child(style, "w:basedOn"), "w:val"),
+        pPr: child(style, "w:pPr"),
+        rPr: child(style, "w:rPr"),
+      });
+    }
+  }
+
+  const numbering = await partOfType("numbering");
+  if (numbering) {
+    for (const abstractNum of children(numbering, "w:abstractNum")) {
+      const levels = new Map<number, ListLevel>();
+      for (const level of children(abstractNum, "w:lvl")) {
+        levels.set(Number(attr(level, "w:ilvl")) || 0, {
+          format: attr(child(level, "w:numFmt"), "w:val") || "decimal",
+          start: Number(attr(child(level, "w:start"), "w:val") ?? 1),
+        });
+      }
+      context.abstractNumbering.set(
+        attr(abstractNum, "w:abstractNumId") || "",
+        levels
+      );
+    }
+    for (const num of children(numbering, "w:num")) {
+      const starts = new Map<number, number>();
+      for (const override of children(num, "w:lvlOverride")) {
+        const start = attr(child(override, "w:startOverride"), "w:val");
+        if (start !== null) {
+          starts.set(Number(attr(override, "w:ilvl")) || 0, Number(start));
+        }
+      }
+      context.numbering.set(attr(num, "w:numId") || "", {
+        abstractId: attr(child(num, "w:abstractNumId"), "w:val") || "",
+        starts,
+      });
+    }
+  }
+
+  const theme = await partOfType("theme");
+  if (theme) {
+    for (const [key, tag] of [
+      ["major", "a:majorFont"],
+      ["minor", "a:minorFont"],
+    ]) {
+      const typeface = attr(
+        child(descendant(theme, tag), "a:latin"),
+        "typeface"
+      );
+      if (typeface) {
+        context.themeFonts[key] = typeface;
+      }
+    }
+  }
+
+  // Image data is read up front, so the document walk stays synchronous
+  for (const [id, relationship] of relationships) {
+    const extension = posix.extname(relationship.target).slice(1);
+    const mimeType = IMAGE_TYPES[extension.toLowerCase()];
+    const data =
+      relationship.type.endsWith("/image") && mimeType && !relationship.external
+        ? await readPart(docx, relationship.target, "base64")
+        : undefined;
+    if (data !== undefined) {
+      context.images.set(id, `data:${mimeType};base64,${data}`);
+    }
+    if (
+      relationship.type.endsWith("/header") ||
+      relationship.type.endsWith("/footer")
+    ) {
+      report(context, "headerFooter");
+    }
+  }
+
+  return context;
+}
+
+/**
+ * Read the relationships of a package part ("" for the package itself),
+ * with internal targets resolved to zip paths
+ */
+async function readRelationships(
+  docx: DocxPackage,
+  part: string
+): Promise<Map<string, Relationship>> {
+  const directory = posix.dirname(part);
+  const path = posix.join(directory, "_rels", `${posix.basename(part)}.rels`);
+  const xml = await readPart(docx, path, "utf8");
+  const relationships = new Map<string, Relationship>();
+  if (!xml) {
+    return relationships;
+  }
+
+  for (const relationship of children(parseXml(xml), "Relationship")) {
+    const target = attr(relationship, "Target") || "";
+    const external = attr(relationship, "TargetMode") === "External";
+    relationships.set(attr(relationship, "Id") || "", {
+      type: attr(relationship, "Type") || "",
+      target: external
+        ? target
+        : target.startsWith("/")
+          ? target.slice(1)
+          : posix.join(directory, target),
+      external,
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Read a part of the package, or undefined when it is missing
+ * Parts are unpacked as a stream and the read fails once the package's byte
+ * budget runs out, since the sizes declared in the zip are not trusted
+ */
+async function readPart(
+  docx: DocxPackage,
+  path: string,
+  encoding: "utf8" | "base64"
+): Promise<string | undefined> {
+  const file = docx.zip.file(path);
+  if (!file) {
+    return undefined;
+  }
+
+  const chunks: Buffer[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      docx.remainingBytes -= chunk.length;
+      if (docx.remainingBytes < 0) {
+        stream.pause();
+        reject(packageTooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve());
+    stream.on("error", (error) =>
+      reject(new Error(`Invalid DOCX file: ${error.message}`))
+    );
+  });
+  return Buffer.concat(chunks).toString(encoding);
+}
+
+function packageTooLarge(): Error {
+  return new Error(
+    `Invalid DOCX file: unpacks to more than ${MAX_PACKAGE_BYTES / 1024 / 1024} MB`
+  );
+}
+
+/**
+ * Read the paragraphs and tables of a body or table cell as blocks, grouping
+ * list, quote and code paragraphs into their container nodes
+ */
+function readBlocks(
+  container: XmlElement,
+  context: ImportContext,
+  header: boolean
+): any[] {
+  const blocks: any[] = [];
+  const lists: OpenList[] = [];
+  const counters = new Map<string, number>();
+  let quote: any[] = [];
+  let code: { node: any; lines: string[] } | null = null;
+
+  const closeGroups = (keep: "list" | "quote" | "code" | null = null) => {
+    if (keep !== "list") {
+      lists.length = 0;
+    }
+    if (keep !== "quote") {
+      quote = [];
+    }
+    if (keep !== "code") {
+      code = null;
+    }
+  };
+
+  const visit = (element: XmlElement) => {
+    for (const node of Array.from(element.children)) {
+      const tag = node.tagName;
+      if (TRANSPARENT_ELEMENTS.has(tag)) {
+        visit(node);
+      } else if (tag === "w:tbl") {
+        closeGroups();
+        blocks.push(readTable(node, context));
+      } else if (tag === "w:p") {
+        const paragraph = readParagraph(node, context, header);
+        if (paragraph.code) {
+          addCodeLine(paragraph);
+        } else if (paragraph.list) {
+          closeGroups("list");
+          addListItem(paragraph);
+        } else if (paragraph.quoteDepth > 0) {
+          closeGroups("quote");
+          addQuoted(paragraph);
+        } else if (
+          lists.length > 0 &&
+          paragraph.indent >= INDENT_STEP &&
+          Math.round(paragraph.indent / INDENT_STEP) <= lists.length
+        ) {
+          // An indented paragraph continues the list item it lines up with
+          lists.length = Math.round(paragraph.indent / INDENT_STEP);
+          lastItem(lists[lists.length - 1].node).content.push(paragraph.node);
+        } else {
+          closeGroups();
+          blocks.push(paragraph.node);
+        }
+      } else if (tag === "w:altChunk") {
+        report(context, "embeddedObject");
+      } else if (!IGNORED_ELEMENTS.has(tag)) {
+        report(context, tag);
+      }
+    }
+  };
+
+  const addCodeLine = (paragraph: ParagraphInfo) => {
+    const text = (paragraph.node.content || [])
+      .map((node: any) => (node.type === "hardBreak" ? "\n" : node.text || ""))
+      .join("");
+    if (!code) {
+      closeGroups();
+      code = { node: { type: "codeBlock", content: [] }, lines: [] };
+      blocks.push(code.node);
+    }
+    code.lines.push(text);
+    const joined = code.lines.join("\n");
+    code.node.content = joined ? [{ type: "text", text: joined }] : [];
+  };
+
+  const addListItem = (paragraph: ParagraphInfo) => {
+    const { numId, level: wordLevel } = paragraph.list!;
+    const listLevel = listLevelOf(context, numId, wordLevel);
+    const type = listLevel.format === "bullet" ? "bulletList" : "orderedList";
+    // A level deeper than the open lists nests one level down
+    const level = Math.min(wordLevel, lists.length);
+
+    const key = `${numId}:${wordLevel}`;
+    const count =
+      (counters.get(key) ?? listStart(context, numId, wordLevel) - 1) + 1;
+    counters.set(key, count);
+    // Deeper levels restart after an item at this level
+    for (const counter of Array.from(counters.keys())) {
+      const [counterNumId, counterLevel] = counter.split(":");
+      if (counterNumId === numId && Number(counterLevel) > wordLevel) {
+        counters.delete(counter);
+      }
+    }
+
+    lists.length = Math.min(lists.length, level + 1);
+    const open = lists[level];
+    if (open && (open.node.type !== type || open.numId !== numId)) {
+      lists.length = level;
+    }
+
+    if (!lists[level]) {
+      const list: { type: string; attrs?: object; content: any[] } = {
+        type,
+        ...(type === "orderedList" && { attrs: { start: count } }),
+        content: [],
+      };
+      if (level === 0) {
+        blocks.push(list);
+      } else {
+        lastItem(lists[level - 1].node).content.push(list);
+      }
+      lists.push({ node: list, numId });
+    }
+
+    lists[level].node.content.push({
+      type: "listItem",
+      content: [paragraph.node],
+    });
+  };
+
+  const addQuoted = (paragraph: ParagraphInfo) => {
+    quote.length = Math.min(quote.length, paragraph.quoteDepth);
+    while (quote.length < paragraph.quoteDepth) {
+      const blockquote: { type: string; content: any[] } = {
+        type: "blockquote",
+        content: [],
+      };
+      if (quote.length === 0) {
+        blocks.push(blockquote);
+      } else {
+        quote[quote.length - 1].content.push(blockquote);
+      }
+      quote.push(blockquote);
+    }
+    quote[quote.length - 1].content.push(paragraph.node);
+  };
+
+  visit(container);
+  return blocks;
+}
+
+function lastItem(list: any): any {
+  return list.content[list.content.length - 1];
+}
+
+function listLevelOf(
+  context: ImportContext,
+  numId: string,
+  level: number
+): ListLevel {
+  const num = context.numbering.get(numId);
+  return (
+    context.abstractNumbering.get(num?.abstractId || "")?.get(level) || {
+      format: "decimal",
+      start: 1,
+    }
+  );
+}
+
+function listStart(
+  context: ImportContext,
+  numId: string,
+  level: number
+): number {
+  const start =
+    context.numbering.get(numId)?.starts.get(level) ??
+    listLevelOf(context, numId, level).start;
+  return Number.isInteger(start) && start >= 0 ? start : 1;
+}
+
+function readParagraph(
+  paragraph: XmlElement,
+  context: ImportContext,
+  header: boolean
+): ParagraphInfo {
+  const pPr = child(paragraph, "w:pPr");
+  const styleChain = resolveStyles(
+    context,
+    attr(child(pPr, "w:pStyle"), "w:val")
+  );
+  const styleNames = styleChain.map((style) => style.name);
+  const property = (tag: string) =>
+    child(pPr, tag) ||
+    styleChain.map((style) => child(style.pPr, tag)).find(Boolean) ||
+    null;
+
+  if (child(pPr, "w:sectPr")) {
+    report(context, "sectionBreak");
+  }
+
+  const headingLevel = headingLevelOf(styleNames, property("w:outlineLvl"));
+  const code = styleNames.some((name) => CODE_STYLES.includes(name));
+  const numPr = property("w:numPr");
+  const numId = attr(child(numPr, "w:numId"), "w:val");
+  let list =
+    numId && numId !== "0"
+      ? {
+          numId,
+          level: Math.min(
+            Number(attr(child(numPr, "w:ilvl"), "w:val")) || 0,
+            8
+          ),
+        }
+      : null;
+  if (list && headingLevel !== null) {
+    report(context, "headingNumbering");
+  }
+  if (headingLevel !== null || code) {
+    list = null;
+  }
+
+  const indent = twips(
+    attr(child(pPr, "w:ind"), "w:left") ?? attr(child(pPr, "w:ind"), "w:start")
+  );
+  const quoteDepth = styleNames.some((name) => QUOTE_STYLES.includes(name))
+    ? Math.max(Math.round(indent / INDENT_STEP), 1)
+    : 0;
+
+  const inline = readInline(paragraph, context, styleChain, headingLevel, {
+    header,
+    code,
+  });
+
+  const attrs: Record<string, any> = {};
+  const align = ALIGNMENTS[attr(property("w:jc"), "w:val") || ""];
+  if (align) {
+    attrs.textAlign = align;
+  }
+  if (inline.fontFamily && inline.fontFamily !== DEFAULT_FONT_FAMILY) {
+    attrs.fontFamily = inline.fontFamily;
+  }
+  if (inline.fontSize && inline.fontSize !== DEFAULT_FONT_SIZE) {
+    attrs.fontSize = inline.fontSize;
+  }
+
+  let node: any;
+  if (headingLevel !== null) {
+    node = { type: "heading", attrs: { level: headingLevel, ...attrs } };
+  } else {
+    // Only direct spacing is kept; style spacing is the document's look
+    const spacing = child(pPr, "w:spacing");
+    const before = attr(spacing, "w:before");
+    const after = attr(spacing, "w:after");
+    if (before !== null) {
+      attrs.marginTop = Number(before) / TWIPS_PER_POINT;
+    }
+    if (after !== null) {
+      attrs.marginBottom = Number(after) / TWIPS_PER_POINT;
+    }
+
+    // An empty paragraph with only a bottom border is a horizontal rule
+    if (
+      inline.content.length === 0 &&
+      child(child(pPr, "w:pBdr"), "w:bottom")
+    ) {
+      return {
+        node: { type: "horizontalRule" },
+        headingLevel: null,
+        list: null,
+        quoteDepth: 0,
+        code: false,
+        indent: 0,
+      };
+    }
+    node = {
+      type: "paragraph",
+      ...(Object.keys(attrs).length > 0 && { attrs }),
+    };
+  }
+  if (inline.content.length > 0) {
+    node.content = inline.content;
+  }
+
+  return { node, headingLevel, list, quoteDepth, code, indent };
+}
+
+function headingLevelOf(
+  styleNames: string[],
+  outline: XmlElement | null
+): number | null {
+  for (const name of styleNames) {
+    const heading = name.match(/^heading ([1-9])$/);
+    if (heading) {
+      return Math.min(Number(heading[1]), 6);
+    }
+    if (name === "title") {
+      return 1;
+    }
+  }
+
+  const level = Number(attr(outline, "w:val"));
+  return outline && level >= 0 && level <= 5 ? level + 1 : null;
+}
+
+/**
+ * Styles from a style ID up its basedOn chain, nearest first
+ */
+function resolveStyles(
+  context: ImportContext,
+  styleId: string | null
+): StyleDefinition[] {
+  const chain: StyleDefinition[] = [];
+  let style = styleId ? context.styles.get(styleId) : undefined;
+  while (style && !chain.includes(style) && chain.length < 16) {
+    chain.push(style);
+    style = style.basedOn ? context.styles.get(style.basedOn) : undefined;
+  }
+  return chain;
+}
+
+interface InlineRun {
+  node: any;
+  fontFamily: string | null;
+  fontSize: number | null;
+}
+
+/**
+ * Read a paragraph's runs as inline nodes, with the font and size most of
+ * its text is set in
+ */
+function readInline(
+  paragraph: XmlElement,
+  context: ImportContext,
+  paragraphStyles: StyleDefinition[],
+  headingLevel: number | null,
+  options: InlineOptions
+): {
+  content: any[];
+  fontFamily: string | null;
+  fontSize: number | null;
+} {
+  const runs: InlineRun[] = [];
+  // Heading styles carry the heading's look, which the heading node implies
+  const styleRunProperties =
+    headingLevel === null
+      ? paragraphStyles.map((style) => style.rPr).filter(Boolean)
+      : [];
+
+  const visit = (element: XmlElement, marks: any[]) => {
+    for (const node of Array.from(element.children)) {
+      const tag = node.tagName;
+      if (tag === "w:r") {
+        readRun(node, marks);
+      } else if (tag === "w:hyperlink") {
+        const relationship = context.relationships.get(
+          attr(node, "r:id") || ""
+        );
+        if (relationship?.external) {
+          visit(node, [
+            ...marks,
+            { type: "link", attrs: { href: relationship.target } },
+          ]);
+        } else {
+          if (attr(node, "w:anchor")) {
+            report(context, "internalLink");
+          }
+          visit(node, marks);
+        }
+      } else if (tag === "w:ins" || tag === "w:moveTo") {
+        visit(node, [...marks, revisionMark("insertion", node)]);
+      } else if (tag === "w:del" || tag === "w:moveFrom") {
+        visit(node, [...marks, revisionMark("deletion", node)]);
+      } else if (tag === "w:fldSimple") {
+        report(context, "field");
+        visit(node, marks);
+      } else if (tag === "m:oMath" || tag === "m:oMathPara") {
+        report(context, "equation");
+      } else if (tag === "mc:AlternateContent") {
+        readAlternateContent(node, marks);
+      } else if (TRANSPARENT_ELEMENTS.has(tag)) {
+        visit(node, marks);
+      } else if (!IGNORED_ELEMENTS.has(tag)) {
+        report(context, tag);
+      }
+    }
+  };
+
+  const readRun = (run: XmlElement, marks: any[]) => {
+    const rPr = child(run, "w:rPr");
+    const characterStyles = resolveStyles(
+      context,
+      attr(child(rPr, "w:rStyle"), "w:val")
+    ).filter((style) => style.name !== "hyperlink");
+    const sources = [
+      rPr,
+      ...characterStyles.map((style) => style.rPr),
+      ...styleRunProperties,
+    ].filter(Boolean);
+    const property = (tag: string) =>
+      sources.map((source) => child(source, tag)).find(Boolean) || null;
+    const fallback = (tag: string) =>
+      property(tag) || child(context.defaultRunProperties, tag);
+
+    const fontFamily = fontOf(fallback("w:rFonts"), context);
+    const size = Number(attr(fallback("w:sz"), "w:val"));
+    const fontSize = size > 0 ? size / 2 : null;
+    const runMarks = options.code
+      ? []
+      : [...marks, ...formattingMarks(property, options)];
+
+    const push = (node: any) =>
+      runs.push({
+        node:
+          node.type === "text" && runMarks.length > 0
+            ? { ...node, marks: runMarks }
+            : node,
+        fontFamily,
+        fontSize,
+      });
+
+    for (const node of Array.from(run.children)) {
+      const tag = node.tagName;
+      if (tag === "w:t" || tag === "w:delText") {
+        push({ type: "text", text: node.textContent || "" });
+      } else if (tag === "w:tab" || tag === "w:ptab") {
+        push({ type: "text", text: "\t" });
+      } else if (tag === "w:noBreakHyphen") {
+        push({ type: "text", text: "‑" });
+      } else if (tag === "w:br" || tag === "w:cr") {
+        const type = attr(node, "w:type");
+        if (type === "page" || type === "column") {
+          report(context, "pageBreak");
+        } else {
+          push({ type: "hardBreak" });
+        }
+      } else if (tag === "w:drawing") {
+        const image = readDrawing(node);
+        if (image) {
+          push(image);
+        }
+      } else if (tag === "w:pict" || tag === "w:object") {
+        report(
+          context,
+          descendant(node, "v:textbox") ? "textBox" : "embeddedObject"
+        );
+      } else if (tag === "w:fldChar") {
+        if (attr(node, "w:fldCharType") === "begin") {
+          report(context, "field");
+        }
+      } else if (
+        tag === "w:footnoteReference" ||
+        tag === "w:endnoteReference"
+      ) {
+        report(context, "footnote");
+      } else if (tag === "w:commentReference") {
+        report(context, "comment");
+      } else if (tag === "w:sym") {
+        report(context, "symbol");
+      } else if (tag === "mc:AlternateContent") {
+        readAlternateContent(node, marks, push);
+      } else if (!IGNORED_ELEMENTS.has(tag)) {
+        report(context, tag);
+      }
+    }
+  };
+
+  // Prefer the first choice that is a picture; report the rest by kind
+  const readAlternateContent = (
+    node: XmlElement,
+    marks: any[],
+    push?: (node: any) => void
+  ) => {
+    if (descendant(node, "wps:txbx") || descendant(node, "v:textbox")) {
+      report(context, "textBox");
+      return;
+    }
+    const drawing = descendant(node, "w:drawing");
+    if (!drawing) {
+      report(context, "drawing");
+    } else if (push) {
+      const image = readDrawing(drawing);
+      if (image) {
+        push(image);
+      }
+    } else {
+      visit(child(node, "mc:Choice") || node, marks);
+    }
+  };
+
+  const readDrawing = (drawing: XmlElement) => {
+    const blip = descendant(drawing, "a:blip");
+    if (!blip) {
+      report(context, descendant(drawing, "wps:txbx") ? "textBox" : "drawing");
+      return null;
+    }
+    const src = context.images.get(attr(blip, "r:embed") || "");
+    if (!src) {
+      report(context, "image");
+      return null;
+    }
+    if (child(drawing, "wp:anchor")) {
+      report(context, "floatingImage");
+    }
+    const properties = descendant(drawing, "wp:docPr");
+    return {
+      type: "image",
+      attrs: {
+        src,
+        alt: attr(properties, "descr") || null,
+        title: attr(properties, "title") || null,
+      },
+    };
+  };
+
+  visit(paragraph, []);
+
+  // The paragraph takes the font and size most of its text is set in
+  const typeface = mostCommon(runs, (run) => run.fontFamily);
+  const size = mostCommon(runs, (run) => run.fontSize);
+  const content: any[] = [];
+  for (const run of runs) {
+    let node = run.node;
+    const monospace =
+      run.fontFamily !== typeface &&
+      MONOSPACE_FONTS.includes((run.fontFamily || "").toLowerCase());
+    if (node.type === "text") {
+      if (
+        (run.fontFamily !== typeface && !monospace) ||
+        run.fontSize !== size
+      ) {
+        report(context, "runFont");
+      }
+      if (monospace && !options.code) {
+        node = { ...node, marks: [...(node.marks || []), { type: "code" }] };
+      }
+    }
+    appendInline(content, node);
+  }
+
+  return {
+    content: content.map((node) =>
+      node.marks ? { ...node, marks: sortMarks(node.marks) } : node
+    ),
+    fontFamily: typeface,
+    fontSize: size,
+  };
+}
+
+/**
+ * Marks from a run's properties; the property lookup walks the run's own
+ * properties, then its character and paragraph styles
+ */
+function formattingMarks(
+  property: (tag: string) => XmlElement | null,
+  options: InlineOptions
+): any[] {
+  const marks: any[] = [];
+  const on = (tag: string) => isOn(property(tag));
+
+  if (on("w:b") && !options.header) {
+    marks.push({ type: "bold" });
+  }
+  if (on("w:i")) {
+    marks.push({ type: "italic" });
+  }
+  const underline = attr(property("w:u"), "w:val");
+  if (property("w:u") && underline !== "none") {
+    marks.push({ type: "underline" });
+  }
+  if (on("w:strike") || on("w:dstrike")) {
+    marks.push({ type: "strike" });
+  }
+
+  const vertAlign = attr(property("w:vertAlign"), "w:val");
+  if (vertAlign === "subscript") {
+    marks.push({ type: "subscript" });
+  } else if (vertAlign === "superscript") {
+    marks.push({ type: "superscript" });
+  }
+
+  const color = hexColor(attr(property("w:color"), "w:val"));
+  if (color) {
+    marks.push({ type: "textStyle", attrs: { color } });
+  }
+
+  const highlight = attr(property("w:highlight"), "w:val");
+  const shading = hexColor(attr(property("w:shd"), "w:fill"));
+  if (highlight === "yellow") {
+    marks.push({ type: "highlight" });
+  } else if (highlight && HIGHLIGHT_COLORS[highlight]) {
+    marks.push({
+      type: "highlight",
+      attrs: { color: HIGHLIGHT_COLORS[highlight] },
+    });
+  } else if (shading) {
+    marks.push({ type: "highlight", attrs: { color: shading } });
+  }
+
+  return marks;
+}
+
+function revisionMark(
+  type: "insertion" | "deletion",
+  element: XmlElement
+): any {
+  return {
+    type,
+    attrs: {
+      id: attr(element, "w:id"),
+      author: attr(element, "w:author"),
+      timestamp: attr(element, "w:date"),
+    },
+  };
+}
+
+// Adjacent text with the same marks becomes one text node
+function appendInline(content: any[], node: any) {
+  const previous = content[content.length - 1];
+  if (node.type === "text" && !node.text) {
+    return;
+  }
+  if (
+    node.type === "text" &&
+    previous?.type === "text" &&
+    JSON.stringify(sortMarks(previous.marks || [])) ===
+      JSON.stringify(sortMarks(node.marks || []))
+  ) {
+    content[content.length - 1] = {
+      ...previous,
+      text: previous.text + node.text,
+    };
+    return;
+  }
+  content.push(node);
+}
+
+function sortMarks(marks: any[]): any[] {
+  const order = Object.keys(schema.marks);
+  const unique = marks.filter(
+    (mark, index) =>
+      marks.findIndex((other) => other.type === mark.type) === index
+  );
+  return unique.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+}
+
+function mostCommon<T>(
+  runs: InlineRun[],
+  key: (run: InlineRun) => T | null
+): T | null {
+  const totals = new Map<T | null, number>();
+  for (const run of runs) {
+    if (run.node.type === "text") {
+      const value = key(run);
+      totals.set(value, (totals.get(value) || 0) + run.node.text.length);
+    }
+  }
+
+  let best: T | null = null;
+  let bestTotal = 0;
+  for (const [value, total] of totals) {
+    if (total > bestTotal) {
+      best = value;
+      bestTotal = total;
+    }
+  }
+  return best;
+}
+
+function fontOf(
+  rFonts: XmlElement | null,
+  context: ImportContext
+): string | null {
+  const theme = attr(rFonts, "w:asciiTheme") || attr(rFonts, "w:hAnsiTheme");
+  if (theme) {
+    return (
+      context.themeFonts[theme.startsWith("major") ? "major" : "minor"] || null
+    );
+  }
+  return attr(rFonts, "w:ascii") || attr(rFonts, "w:hAnsi") || null;
+}
+
+function readTable(table: XmlElement, context: ImportContext): any {
+  const grid = children(child(table, "w:tblGrid"), "w:gridCol").map((column) =>
+    Math.round(twips(attr(column, "w:w")) / TWIPS_PER_PIXEL)
+  );
+
+  // Place each cell on the grid, so vertically merged cells line up
+  const rows = children(table, "w:tr").map((row) => {
+    const trPr = child(row, "w:trPr");
+    let column = Number(attr(child(trPr, "w:gridBefore"), "w:val")) || 0;
+    const cells = cellsOf(row).map((cell) => {
+      const tcPr = child(cell, "w:tcPr");
+      const colspan = Math.max(
+        Number(attr(child(tcPr, "w:gridSpan"), "w:val")) || 1,
+        1
+      );
+      const vMerge = child(tcPr, "w:vMerge");
+      const placed = {
+        element: cell,
+        column,
+        colspan,
+        merge: vMerge
+          ? attr(vMerge, "w:val") === "restart"
+            ? "restart"
+            : "continue"
+          : null,
+      };
+      column += colspan;
+      return placed;
+    });
+    return { header: !!child(trPr, "w:tblHeader"), cells };
+  });
+
+  return {
+    type: "table",
+    content: rows.map((row, rowIndex) => ({
+      type: "tableRow",
+      content: row.cells
+        .filter(
+          (cell) =>
+            cell.merge !== "continue" ||
+            !rows[rowIndex - 1]?.cells.some(
+              (above) => above.column === cell.column && above.merge
+            )
+        )
+        .map((cell) => {
+          let rowspan = 1;
+          if (cell.merge) {
+            while (
+              rows[rowIndex + rowspan]?.cells.some(
+                (below) =>
+                  below.column === cell.column && below.merge === "continue"
+              )
+            ) {
+              rowspan++;
+            }
+          }
+          const widths = grid.slice(cell.column, cell.column + cell.colspan);
+          const content = readBlocks(cell.element, context, row.header);
+
+          return {
+            type: row.header ? "tableHeader" : "tableCell",
+            attrs: {
+              colspan: cell.colspan,
+              rowspan,
+              colwidth:
+                widths.length === cell.colspan &&
+                widths.every((width) => width > 0)
+                  ? widths
+                  : null,
+            },
+            content: content.length > 0 ? content : [{ type: "paragraph" }],
+          };
+        }),
+    })),
+  };
+}
+
+// A row's cells, including those wrapped in content controls
+function cellsOf(row: XmlElement): XmlElement[] {
+  return Array.from(row.children).flatMap((node) => {
+    if (node.tagName === "w:tc") {
+      return [node];
+    }
+    return TRANSPARENT_ELEMENTS.has(node.tagName) ? cellsOf(node) : [];
+  });
+}
+
+function report(context: ImportContext, construct: string) {
+  context.unsupported.set(
+    construct,
+    (context.unsupported.get(construct) || 0) + 1
+  );
+}
+
+function hexColor(value: string | null): string | null {
+  return value && /^[0-9a-f]{6}$/i.test(value)
+    ? `#${value.toLowerCase()}`
+    : null;
+}
+
+function twips(value: string | null): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function isOn(element: XmlElement | null): boolean {
+  if (!element) {
+    return false;
+  }
+  const value = attr(element, "w:val");
+  return value === null || !["0", "false", "off", "none"].includes(value);
+}
+
+// The root element of an XML part
+function parseXml(xml: string): XmlElement {
+  return new DOMParser().parseFromString(xml, "text/xml").documentElement;
+}
+
+function children(element: XmlElement | null, tag: string): XmlElement[] {
+  return element
+    ? Array.from(element.children).filter((node) => node.tagName === tag)
+    : [];
+}
+
+function child(element: XmlElement | null, tag: string): XmlElement | null {
+  return children(element, tag)[0] || null;
+}
+
+function descendant(
+  element: XmlElement | null,
+  tag: string
+): XmlElement | null {
+  return element?.getElementsByTagName(tag)[0] || null;
+}
+
+function attr(element: XmlElement | null, name: string): string | null {
+  return element ? element.getAttribute(name) : null;
+}
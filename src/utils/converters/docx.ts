@@ -0,0 +1,773 @@
+import JSZip from "jszip";
+import {
+  PlacedCell,
+  columnWidths,
+  cssColorToHex,
+  layoutTable,
+} from "./export-layout";
+import { fieldText } from "../ydoc/schema";
+import { resolveReferences } from "./references";
+
+export const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const RELATIONSHIP_TYPES =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Word measures in twentieths of a point (twips); A4 with one inch margins
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const TWIPS_PER_POINT = 20;
+// TipTap column widths are CSS pixels, at 96 per inch
+const TWIPS_PER_PIXEL = 15;
+const MIN_COLUMN_WIDTH = 720;
+const INDENT_STEP = 720;
+
+// Schema defaults, which the styles carry instead of every run
+const DEFAULT_FONT_FAMILY = "Times New Roman";
+const DEFAULT_FONT_SIZE = 12;
+const CODE_FONT_FAMILY = "Courier New";
+
+const ALIGNMENTS: Record<string, string> = {
+  left: "left",
+  center: "center",
+  right: "right",
+  justify: "both",
+};
+
+// Heading font sizes in points, by level
+const HEADING_SIZES = [16, 14, 13, 12, 12, 12];
+
+const BULLETS = ["•", "◦", "▪"];
+const ORDERED_FORMATS = ["decimal", "lowerLetter", "lowerRoman"];
+const LIST_LEVELS = 9;
+
+// Fixed zip entry dates, so a document always exports to the same bytes
+const ZIP_DATE = new Date(Date.UTC(2000, 0, 1));
+
+// Relationship IDs taken by the styles and numbering parts; hyperlinks follow
+const RESERVED_RELATIONSHIPS = 2;
+
+interface ListNumbering {
+  format: "bullet" | "ordered";
+  level: number;
+  start: number;
+}
+
+// State collected while writing the document body
+interface ExportState {
+  links: string[];
+  numbering: ListNumbering[];
+  revisions: number;
+  // Footnote texts; Word numbers the footnotes itself
+  footnotes: string[];
+}
+
+// Where a block sits: indentation, enclosing lists and quotes, header cells
+interface BlockContext {
+  indent: number;
+  listLevel: number;
+  quote: boolean;
+  header: boolean;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  numbering?: { numId: number; level: number };
+  border?: boolean;
+  attrs?: Record<string, any>;
+}
+
+interface RunProperties {
+  fontFamily?: string;
+  fontSize?: number;
+  bold?: boolean;
+}
+
+/**
+ * Export a TipTap JSON document as a .docx file
+ * Headings, lists, tables, marks and block typography map to Word's own
+ * structures; track-changes marks become Word revisions and footnotes Word
+ * footnotes. Cross-references are written as the section number they show.
+ * Images are written as their alt text, since the server does not fetch
+ * image sources
+ */
+export async function tiptapJsonToDocx(tiptapJson: any): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, xml] of Object.entries(tiptapJsonToDocxParts(tiptapJson))) {
+    zip.file(name, xml, { date: ZIP_DATE, createFolders: false });
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/**
+ * Write the package parts of a .docx file, by part name
+ */
+function tiptapJsonToDocxParts(tiptapJson: any): Record<string, string> {
+  const state: ExportState = {
+    links: [],
+    // Bullet lists share one numbering; ordered lists each restart theirs
+    numbering: [{ format: "bullet", level: 0, start: 1 }],
+    revisions: 0,
+    footnotes: [],
+  };
+  const { json } = resolveReferences(tiptapJson);
+  const body = renderBlocks(json?.content || [], state, {
+    indent: 0,
+    listLevel: 0,
+    quote: false,
+    header: false,
+  });
+
+  const hasFootnotes = state.footnotes.length > 0;
+  return {
+    "[Content_Types].xml": contentTypesXml(hasFootnotes),
+    "_rels/.rels": packageRelationshipsXml(),
+    "word/document.xml": documentXml(body),
+    "word/_rels/document.xml.rels": documentRelationshipsXml(
+      state.links,
+      hasFootnotes
+    ),
+    "word/styles.xml": stylesXml(),
+    "word/numbering.xml": numberingXml(state.numbering),
+    ...(hasFootnotes && {
+      "word/footnotes.xml": footnotesXml(state.footnotes),
+    }),
+  };
+}
+
+function renderBlocks(
+  nodes: any[],
+  state: ExportState,
+  context: BlockContext
+): string[] {
+  return nodes.flatMap((node) => renderBlock(node, state, context));
+}
+
+function renderBlock(
+  node: any,
+  state: ExportState,
+  context: BlockContext
+): string[] {
+  switch (node.type) {
+    case "paragraph":
+      return [
+        renderParagraph(node.content || [], state, context, {
+          attrs: node.attrs,
+        }),
+      ];
+
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return [
+        renderParagraph(node.content || [], state, context, {
+          style: `Heading${level}`,
+          attrs: node.attrs,
+        }),
+      ];
+    }
+
+    case "bulletList":
+    case "orderedList":
+      return renderList(node, state, context);
+
+    case "blockquote":
+      return renderBlocks(node.content || [], state, {
+        ...context,
+        indent: context.indent + INDENT_STEP,
+        quote: true,
+      });
+
+    case "codeBlock":
+      return [
+        renderParagraph(node.content || [], state, context, {
+          style: "Code",
+        }),
+      ];
+
+    case "horizontalRule":
+      return [renderParagraph([], state, context, { border: true })];
+
+    case "table":
+      return [renderTable(node, state, context)];
+
+    default:
+      return renderBlocks(node.content || [], state, context);
+  }
+}
+
+function renderParagraph(
+  content: any[],
+  state: ExportState,
+  context: BlockContext,
+  options: ParagraphOptions
+): string {
+  const attrs = options.attrs || {};
+  const style = options.style || (context.quote ? "Quote" : undefined);
+  const properties: string[] = [];
+
+  if (style) {
+    properties.push(`<w:pStyle w:val="${style}"/>`);
+  }
+  if (options.numbering) {
+    properties.push(
+      `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>`
+    );
+  }
+  if (options.border) {
+    properties.push(
+      '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>'
+    );
+  }
+
+  const spacing = [
+    typeof attrs.marginTop === "number" &&
+      `w:before="${Math.round(attrs.marginTop * TWIPS_PER_POINT)}"`,
+    typeof attrs.marginBottom === "number" &&
+      `w:after="${Math.round(attrs.marginBottom * TWIPS_PER_POINT)}"`,
+  ].filter(Boolean);
+  if (spacing.length > 0) {
+    properties.push(`<w:spacing ${spacing.join(" ")}/>`);
+  }
+  // Numbered paragraphs take their indentation from the list level
+  if (context.indent > 0 && !options.numbering) {
+    properties.push(`<w:ind w:left="${context.indent}"/>`);
+  }
+  if (ALIGNMENTS[attrs.textAlign]) {
+    properties.push(`<w:jc w:val="${ALIGNMENTS[attrs.textAlign]}"/>`);
+  }
+
+  const paragraphProperties =
+    properties.length > 0 ? `<w:pPr>${properties.join("")}</w:pPr>` : "";
+  const runs = renderInline(content, state, {
+    fontFamily: attrs.fontFamily,
+    fontSize: attrs.fontSize,
+    bold: context.header,
+  });
+
+  return `<w:p>${paragraphProperties}${runs}</w:p>`;
+}
+
+/**
+ * Render inline nodes as runs, wrapping runs that share a link in a
+ * hyperlink and runs that share a suggestion in a revision
+ */
+function renderInline(
+  content: any[],
+  state: ExportState,
+  defaults: RunProperties
+): string {
+  const runs = content.flatMap((node) => {
+    const marks: any[] = node.marks || [];
+    const link = marks.find((mark) => mark.type === "link")?.attrs?.href;
+    const revision = marks.find(
+      (mark) => mark.type === "insertion" || mark.type === "deletion"
+    );
+    const xml =
+      node.type === "footnote"
+        ? renderFootnoteReference(node, marks, defaults, state)
+        : renderRun(node, marks, defaults, revision?.type === "deletion");
+    return xml ? [{ xml, link: link || null, revision: revision || null }] : [];
+  });
+
+  const output: string[] = [];
+  for (let i = 0; i < runs.length;) {
+    const link = runs[i].link;
+    let end = i;
+    while (end < runs.length && runs[end].link === link) {
+      end++;
+    }
+
+    const inner: string[] = [];
+    for (let j = i; j < end;) {
+      const revision = runs[j].revision;
+      let revisionEnd = j;
+      while (
+        revisionEnd < end &&
+        sameRevision(runs[revisionEnd].revision, revision)
+      ) {
+        revisionEnd++;
+      }
+      const xml = runs
+        .slice(j, revisionEnd)
+        .map((run) => run.xml)
+        .join("");
+      inner.push(revision ? wrapRevision(xml, revision, state) : xml);
+      j = revisionEnd;
+    }
+
+    output.push(
+      link
+        ? `<w:hyperlink r:id="${linkRelationship(link, state)}" w:history="1">${inner.join("")}</w:hyperlink>`
+        : inner.join("")
+    );
+    i = end;
+  }
+
+  return output.join("");
+}
+
+function renderRun(
+  node: any,
+  marks: any[],
+  defaults: RunProperties,
+  deleted: boolean
+): string {
+  let text: string;
+  if (node.type === "text") {
+    text = node.text || "";
+  } else if (node.type === "image") {
+    text = node.attrs?.alt || "";
+  } else if (node.type === "field") {
+    text = fieldText(node.attrs || {});
+  } else if (node.type === "crossReference") {
+    text = node.attrs?.text || "";
+  } else if (node.type === "hardBreak") {
+    return `<w:r>${runProperties(marks, defaults)}<w:br/></w:r>`;
+  } else {
+    return "";
+  }
+
+  if (!text) {
+    return "";
+  }
+  return `<w:r>${runProperties(marks, defaults)}${textElements(text, deleted)}</w:r>`;
+}
+
+/**
+ * Reference mark of a footnote, whose text goes to the footnotes part
+ * Footnote IDs start at 1, after the separators
+ */
+function renderFootnoteReference(
+  node: any,
+  marks: any[],
+  defaults: RunProperties,
+  state: ExportState
+): string {
+  const id = state.footnotes.push(String(node.attrs?.text ?? ""));
+  const properties = runProperties(
+    [
+      ...marks.filter((mark) => mark.type !== "subscript"),
+      { type: "superscript" },
+    ],
+    defaults
+  );
+  return `<w:r>${properties}<w:footnoteReference w:id="${id}"/></w:r>`;
+}
+
+function runProperties(marks: any[], defaults: RunProperties): string {
+  const has = (type: string) => marks.some((mark) => mark.type === type);
+  const attrsOf = (type: string) =>
+    marks.find((mark) => mark.type === type)?.attrs || {};
+  const properties: string[] = [];
+
+  if (has("link")) {
+    properties.push('<w:rStyle w:val="Hyperlink"/>');
+  }
+
+  const fontFamily = has("code")
+    ? CODE_FONT_FAMILY
+    : defaults.fontFamily !== DEFAULT_FONT_FAMILY && defaults.fontFamily;
+  if (fontFamily) {
+    const font = escapeXml(fontFamily);
+    properties.push(
+      `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>`
+    );
+  }
+  if (has("bold") || defaults.bold) {
+    properties.push("<w:b/>");
+  }
+  if (has("italic")) {
+    properties.push("<w:i/>");
+  }
+  if (has("strike")) {
+    properties.push("<w:strike/>");
+  }
+
+  const color = cssColorToHex(attrsOf("textStyle").color);
+  if (color) {
+    properties.push(`<w:color w:val="${color}"/>`);
+  }
+  if (
+    typeof defaults.fontSize === "number" &&
+    defaults.fontSize > 0 &&
+    defaults.fontSize !== DEFAULT_FONT_SIZE
+  ) {
+    const halfPoints = Math.round(defaults.fontSize * 2);
+    properties.push(
+      `<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/>`
+    );
+  }
+
+  // Word's highlight takes a fixed palette; other colors are shading
+  const highlight = has("highlight")
+    ? cssColorToHex(attrsOf("highlight").color)
+    : null;
+  if (has("highlight") && !highlight) {
+    properties.push('<w:highlight w:val="yellow"/>');
+  }
+  if (has("underline")) {
+    properties.push('<w:u w:val="single"/>');
+  }
+  if (highlight) {
+    properties.push(
+      `<w:shd w:val="clear" w:color="auto" w:fill="${highlight}"/>`
+    );
+  }
+  if (has("subscript")) {
+    properties.push('<w:vertAlign w:val="subscript"/>');
+  } else if (has("superscript")) {
+    properties.push('<w:vertAlign w:val="superscript"/>');
+  }
+
+  return properties.length > 0 ? `<w:rPr>${properties.join("")}</w:rPr>` : "";
+}
+
+/**
+ * Text, tabs and line breaks of a run; deleted text uses w:delText
+ */
+function textElements(text: string, deleted: boolean): string {
+  const tag = deleted ? "w:delText" : "w:t";
+  return text
+    .split(/(\t|\n)/)
+    .map((piece) => {
+      if (piece === "\t") {
+        return "<w:tab/>";
+      }
+      if (piece === "\n") {
+        return "<w:br/>";
+      }
+      return piece
+        ? `<${tag} xml:space="preserve">${escapeXml(piece)}</${tag}>`
+        : "";
+    })
+    .join("");
+}
+
+function sameRevision(a: any, b: any): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.type === b.type &&
+    a.attrs?.id === b.attrs?.id &&
+    a.attrs?.author === b.attrs?.author &&
+    a.attrs?.timestamp === b.attrs?.timestamp
+  );
+}
+
+function wrapRevision(xml: string, mark: any, state: ExportState): string {
+  const tag = mark.type === "insertion" ? "w:ins" : "w:del";
+  const author = escapeXml(String(mark.attrs?.author || "Unknown"));
+  const date = revisionDate(mark.attrs?.timestamp);
+  state.revisions++;
+
+  return `<${tag} w:id="${state.revisions}" w:author="${author}"${date ? ` w:date="${date}"` : ""}>${xml}</${tag}>`;
+}
+
+function revisionDate(timestamp: unknown): string | null {
+  if (typeof timestamp !== "string" && typeof timestamp !== "number") {
+    return null;
+  }
+  const date = new Date(timestamp);
+  return isNaN(date.getTime())
+    ? null
+    : date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function linkRelationship(href: string, state: ExportState): string {
+  let index = state.links.indexOf(href);
+  if (index === -1) {
+    index = state.links.push(href) - 1;
+  }
+  return `rId${index + 1 + RESERVED_RELATIONSHIPS}`;
+}
+
+function renderList(
+  node: any,
+  state: ExportState,
+  context: BlockContext
+): string[] {
+  const level = Math.min(context.listLevel, LIST_LEVELS - 1);
+  let numId = 1;
+  if (node.type === "orderedList") {
+    const start = Number(node.attrs?.start);
+    numId = state.numbering.push({
+      format: "ordered",
+      level,
+      start: Number.isInteger(start) && start >= 0 ? start : 1,
+    });
+  }
+
+  // Blocks after an item's first paragraph line up with its text
+  const itemContext: BlockContext = {
+    ...context,
+    indent: INDENT_STEP * (level + 1),
+    listLevel: context.listLevel + 1,
+  };
+
+  return (node.content || []).flatMap((item: any) => {
+    const [first, ...rest] = item.content || [];
+    if (first?.type !== "paragraph") {
+      return renderBlocks(item.content || [], state, itemContext);
+    }
+    return [
+      renderParagraph(first.content || [], state, context, {
+        numbering: { numId, level },
+        attrs: first.attrs,
+      }),
+      ...renderBlocks(rest, state, itemContext),
+    ];
+  });
+}
+
+function renderTable(
+  node: any,
+  state: ExportState,
+  context: BlockContext
+): string {
+  const rows: any[] = node.content || [];
+  const layout = layoutTable(rows);
+  const widths = columnWidths(layout, {
+    totalWidth: TEXT_WIDTH,
+    unitsPerPixel: TWIPS_PER_PIXEL,
+    minimum: MIN_COLUMN_WIDTH,
+  });
+  const width = (cell: PlacedCell) =>
+    widths
+      .slice(cell.column, cell.column + cell.colspan)
+      .reduce((sum, value) => sum + value, 0);
+
+  // Leading rows of header cells repeat on every page
+  const headerRows = rows.findIndex(
+    (row) =>
+      !(row.content || []).length ||
+      (row.content || []).some((cell: any) => cell.type !== "tableHeader")
+  );
+
+  const rowsXml = layout.map((cells, index) => {
+    const rowProperties =
+      index < (headerRows === -1 ? rows.length : headerRows)
+        ? "<w:trPr><w:tblHeader/></w:trPr>"
+        : "";
+
+    const cellsXml = cells.map((placed) => {
+      const properties = [
+        `<w:tcW w:w="${width(placed)}" w:type="dxa"/>`,
+        placed.colspan > 1 && `<w:gridSpan w:val="${placed.colspan}"/>`,
+        placed.continued
+          ? "<w:vMerge/>"
+          : Number(placed.cell?.attrs?.rowspan) > 1 &&
+            '<w:vMerge w:val="restart"/>',
+      ]
+        .filter(Boolean)
+        .join("");
+
+      const blocks = placed.cell
+        ? renderBlocks(placed.cell.content || [], state, {
+            indent: 0,
+            listLevel: 0,
+            quote: false,
+            header: placed.cell.type === "tableHeader",
+          })
+        : [];
+      // A cell must end with a paragraph
+      if (
+        blocks.length === 0 ||
+        !blocks[blocks.length - 1].startsWith("<w:p")
+      ) {
+        blocks.push("<w:p/>");
+      }
+
+      return `<w:tc><w:tcPr>${properties}</w:tcPr>${blocks.join("")}</w:tc>`;
+    });
+
+    return `<w:tr>${rowProperties}${cellsXml.join("")}</w:tr>`;
+  });
+
+  const total = widths.reduce((sum, value) => sum + value, 0);
+  const indent =
+    context.indent > 0
+      ? `<w:tblInd w:w="${context.indent}" w:type="dxa"/>`
+      : "";
+  const grid = widths.map((value) => `<w:gridCol w:w="${value}"/>`).join("");
+
+  return (
+    `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${total}" w:type="dxa"/>${indent}<w:tblLayout w:type="fixed"/></w:tblPr>` +
+    `<w:tblGrid>${grid}</w:tblGrid>\n${rowsXml.join("\n")}</w:tbl>`
+  );
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function documentXml(body: string[]): string {
+  const blocks = body.length > 0 ? body : ["<w:p/>"];
+  return (
+    `${XML_DECLARATION}<w:document ${WORD_NAMESPACES}><w:body>\n` +
+    `${blocks.join("\n")}\n` +
+    `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+    `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>\n` +
+    `</w:body></w:document>\n`
+  );
+}
+
+function documentRelationshipsXml(links: string[], footnotes: boolean): string {
+  const relationships = [
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/styles" Target="styles.xml"/>`,
+    `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPES}/numbering" Target="numbering.xml"/>`,
+    ...links.map(
+      (href, index) =>
+        `<Relationship Id="rId${index + 1 + RESERVED_RELATIONSHIPS}" Type="${RELATIONSHIP_TYPES}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+    ),
+    // After the hyperlinks, so their IDs do not depend on footnotes
+    ...(footnotes
+      ? [
+          `<Relationship Id="rId${links.length + 1 + RESERVED_RELATIONSHIPS}" Type="${RELATIONSHIP_TYPES}/footnotes" Target="footnotes.xml"/>`,
+        ]
+      : []),
+  ];
+  return (
+    `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n` +
+    `${relationships.join("\n")}\n</Relationships>\n`
+  );
+}
+
+function numberingXml(numbering: ListNumbering[]): string {
+  const abstractNum = (id: number, format: "bullet" | "ordered") => {
+    const levels = Array.from({ length: LIST_LEVELS }, (_, level) => {
+      const numFmt =
+        format === "bullet"
+          ? "bullet"
+          : ORDERED_FORMATS[level % ORDERED_FORMATS.length];
+      const text =
+        format === "bullet"
+          ? BULLETS[level % BULLETS.length]
+          : `%${level + 1}.`;
+      return (
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${numFmt}"/>` +
+        `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${INDENT_STEP * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+      );
+    });
+    return `<w:abstractNum w:abstractNumId="${id}"><w:multiLevelType w:val="hybridMultilevel"/>${levels.join("")}</w:abstractNum>`;
+  };
+
+  const nums = numbering.map((list, index) => {
+    const abstractId = list.format === "bullet" ? 0 : 1;
+    const override =
+      list.format === "ordered"
+        ? `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride>`
+        : "";
+    return `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${abstractId}"/>${override}</w:num>`;
+  });
+
+  return (
+    `${XML_DECLARATION}<w:numbering ${WORD_NAMESPACES}>\n` +
+    `${abstractNum(0, "bullet")}\n${abstractNum(1, "ordered")}\n` +
+    `${nums.join("\n")}\n</w:numbering>\n`
+  );
+}
+
+/**
+ * Footnotes part: the separator lines Word draws above footnotes, then each
+ * footnote as a paragraph starting with its number
+ */
+function footnotesXml(footnotes: string[]): string {
+  const size = (DEFAULT_FONT_SIZE - 2) * 2;
+  const footnote = (attributes: string, runs: string) =>
+    `<w:footnote ${attributes}><w:p><w:pPr><w:spacing w:after="0"/></w:pPr>${runs}</w:p></w:footnote>`;
+  const notes = footnotes.map((text, index) =>
+    footnote(
+      `w:id="${index + 1}"`,
+      `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteRef/></w:r>` +
+        `<w:r><w:rPr><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>${textElements(` ${text}`, false)}</w:r>`
+    )
+  );
+
+  return (
+    `${XML_DECLARATION}<w:footnotes ${WORD_NAMESPACES}>\n` +
+    `${footnote('w:type="separator" w:id="-1"', "<w:r><w:separator/></w:r>")}\n` +
+    `${footnote('w:type="continuationSeparator" w:id="0"', "<w:r><w:continuationSeparator/></w:r>")}\n` +
+    `${notes.join("\n")}\n</w:footnotes>\n`
+  );
+}
+
+function stylesXml(): string {
+  const font = DEFAULT_FONT_FAMILY;
+  const size = DEFAULT_FONT_SIZE * 2;
+  const border = (side: string) =>
+    `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`;
+
+  const headings = HEADING_SIZES.map(
+    (points, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/>` +
+      `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${points * 2}"/><w:szCs w:val="${points * 2}"/></w:rPr></w:style>`
+  );
+
+  const styles = [
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>` +
+      `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:rPrDefault>` +
+      `<w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>`,
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`,
+    ...headings,
+    `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="A6A6A6"/></w:pBdr></w:pPr></w:style>`,
+    `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>` +
+      `<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:pPr>` +
+      `<w:rPr><w:rFonts w:ascii="${CODE_FONT_FAMILY}" w:hAnsi="${CODE_FONT_FAMILY}" w:eastAsia="${CODE_FONT_FAMILY}" w:cs="${CODE_FONT_FAMILY}"/>` +
+      `<w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>`,
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>` +
+      `<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>`,
+    `<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/>` +
+      `<w:pPr><w:spacing w:after="0"/></w:pPr><w:tblPr><w:tblBorders>` +
+      ["top", "left", "bottom", "right", "insideH", "insideV"]
+        .map(border)
+        .join("") +
+      `</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>`,
+  ];
+
+  return `${XML_DECLARATION}<w:styles ${WORD_NAMESPACES}>\n${styles.join("\n")}\n</w:styles>\n`;
+}
+
+function contentTypesXml(footnotes: boolean): string {
+  const main = "application/vnd.openxmlformats-officedocument.wordprocessingml";
+  return (
+    `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\n` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\n` +
+    `<Default Extension="xml" ContentType="application/xml"/>\n` +
+    `<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/>\n` +
+    `<Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/>\n` +
+    `<Override PartName="/word/numbering.xml" ContentType="${main}.numbering+xml"/>\n` +
+    (footnotes
+      ? `<Override PartName="/word/footnotes.xml" ContentType="${main}.footnotes+xml"/>\n`
+      : "") +
+    `</Types>\n`
+  );
+}
+
+function packageRelationshipsXml(): string {
+  return (
+    `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/officeDocument" Target="word/document.xml"/>\n` +
+    `</Relationships>\n`
+  );
+}
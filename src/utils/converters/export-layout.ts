@@ -0,0 +1,176 @@
+// Layout helpers shared by the file exporters
+
+// CSS color keywords with their hex values
+const NAMED_COLORS: Record<string, string> = {
+  black: "000000",
+  white: "FFFFFF",
+  gray: "808080",
+  grey: "808080",
+  silver: "C0C0C0",
+  red: "FF0000",
+  maroon: "800000",
+  orange: "FFA500",
+  yellow: "FFFF00",
+  olive: "808000",
+  lime: "00FF00",
+  green: "008000",
+  aqua: "00FFFF",
+  cyan: "00FFFF",
+  teal: "008080",
+  blue: "0000FF",
+  navy: "000080",
+  fuchsia: "FF00FF",
+  magenta: "FF00FF",
+  purple: "800080",
+};
+
+export interface PlacedCell {
+  cell: any | null;
+  column: number;
+  colspan: number;
+  // Set on cells continuing a rowspan from the row above
+  continued: boolean;
+}
+
+/**
+ * Place each row's cells on the table grid, with a continuation cell where
+ * a cell above spans rows and empty cells padding short rows
+ */
+export function layoutTable(rows: any[]): PlacedCell[][] {
+  const spanning: ({ colspan: number; remaining: number } | undefined)[] = [];
+
+  const layout = rows.map((row) => {
+    const cells: any[] = [...(row.content || [])];
+    const placed: PlacedCell[] = [];
+    let column = 0;
+
+    while (cells.length > 0 || spanning.slice(column).some(Boolean)) {
+      const span = spanning[column];
+      if (span) {
+        placed.push({
+          cell: null,
+          column,
+          colspan: span.colspan,
+          continued: true,
+        });
+        span.remaining--;
+        if (span.remaining === 0) {
+          spanning[column] = undefined;
+        }
+        column += span.colspan;
+        continue;
+      }
+
+      const cell = cells.shift();
+      if (!cell) {
+        column++;
+        continue;
+      }
+      const colspan = Math.max(Number(cell.attrs?.colspan) || 1, 1);
+      const rowspan = Math.max(Number(cell.attrs?.rowspan) || 1, 1);
+      placed.push({ cell, column, colspan, continued: false });
+      if (rowspan > 1) {
+        spanning[column] = { colspan, remaining: rowspan - 1 };
+      }
+      column += colspan;
+    }
+
+    return placed;
+  });
+
+  const columns = Math.max(
+    1,
+    ...layout.map((cells) =>
+      cells.reduce((end, cell) => Math.max(end, cell.column + cell.colspan), 0)
+    )
+  );
+
+  // Fill the gaps of short rows and of columns skipped beside a rowspan
+  return layout.map((cells) => {
+    const filled: PlacedCell[] = [];
+    let column = 0;
+    for (const cell of [...cells].sort((a, b) => a.column - b.column)) {
+      for (; column < cell.column; column++) {
+        filled.push({ cell: null, column, colspan: 1, continued: false });
+      }
+      filled.push(cell);
+      column = cell.column + cell.colspan;
+    }
+    for (; column < columns; column++) {
+      filled.push({ cell: null, column, colspan: 1, continued: false });
+    }
+    return filled;
+  });
+}
+
+/**
+ * Grid column widths, from the cells' colwidth attributes (CSS pixels)
+ * Columns without a width share what is left of the total width
+ */
+export function columnWidths(
+  layout: PlacedCell[][],
+  options: { totalWidth: number; unitsPerPixel: number; minimum: number }
+): number[] {
+  const columns = layout[0]?.reduce((sum, cell) => sum + cell.colspan, 0) || 1;
+  const widths: (number | null)[] = Array(columns).fill(null);
+
+  for (const placed of layout.flat()) {
+    const colwidth = placed.cell?.attrs?.colwidth;
+    if (!Array.isArray(colwidth)) {
+      continue;
+    }
+    colwidth.slice(0, placed.colspan).forEach((value: unknown, offset) => {
+      const column = placed.column + offset;
+      if (widths[column] === null && typeof value === "number" && value > 0) {
+        widths[column] = Math.round(value * options.unitsPerPixel);
+      }
+    });
+  }
+
+  const known = widths.reduce<number>((sum, value) => sum + (value || 0), 0);
+  const unknown = widths.filter((value) => value === null).length;
+  const share = Math.max(
+    Math.floor((options.totalWidth - known) / Math.max(unknown, 1)),
+    options.minimum
+  );
+
+  return widths.map((value) => value ?? share);
+}
+
+/**
+ * A CSS color (hex, rgb() or a basic keyword) as six uppercase hex digits,
+ * or null when it cannot be read
+ */
+export function cssColorToHex(color: unknown): string | null {
+  if (typeof color !== "string") {
+    return null;
+  }
+  const value = color.trim().toLowerCase();
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split("")
+            .map((digit) => digit + digit)
+            .join("")
+        : hex[1];
+    return digits.toUpperCase();
+  }
+
+  const rgb = value.match(
+    /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(,[^)]*)?\)$/
+  );
+  if (rgb) {
+    return rgb
+      .slice(1, 4)
+      .map((channel) =>
+        Math.min(Number(channel), 255).toString(16).padStart(2, "0")
+      )
+      .join("")
+      .toUpperCase();
+  }
+
+  return NAMED_COLORS[value] || null;
+}
@@ -0,0 +1,168 @@
+import { parseHTML } from "linkedom";
+import {
+  DOMParser,
+  DOMSerializer,
+  Fragment,
+  NodeType,
+  MarkType,
+} from "prosemirror-model";
+import { schema } from "../ydoc/schema";
+
+// Server-side DOM for the schema's parseDOM/toDOM specs
+const { document } = parseHTML("<!DOCTYPE html><html><body></body></html>");
+
+// Elements dropped with their content before parsing; other unknown tags are
+// unwrapped by the schema's parser, which keeps only their text
+const REMOVED_ELEMENTS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "svg",
+  "math",
+  "head",
+  "title",
+  "meta",
+  "link",
+  "base",
+  "form",
+  "input",
+  "button",
+  "select",
+  "textarea",
+].join(", ");
+
+// URL schemes kept on links; images may also be inline data images
+const SAFE_URL_SCHEMES = ["http", "https", "mailto", "tel"];
+const SAFE_IMAGE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp);/i;
+
+/**
+ * Render a TipTap JSON document to HTML
+ */
+export function tiptapJsonToHtml(tiptapJson: any): string {
+  const content = sanitizeUrls(tiptapJson?.content || []);
+  return tiptapNodesToHtml(content);
+}
+
+/**
+ * Parse an HTML document or fragment into a TipTap JSON document
+ * Scripts, embedded content and unsafe URLs are dropped
+ */
+export function htmlToTiptapJson(html: string) {
+  const content = htmlToTiptapNodes(html);
+  return {
+    type: "doc",
+    content:
+      content.length > 0 ? content : [{ type: "paragraph", content: [] }],
+  };
+}
+
+/**
+ * Render TipTap JSON nodes to HTML through the schema's toDOM specs
+ */
+export function tiptapNodesToHtml(nodes: any[]): string {
+  const fragment = Fragment.fromArray(
+    nodes.map((node) => schema.nodeFromJSON(node))
+  );
+  const container = document.createElement("div");
+  container.appendChild(
+    DOMSerializer.fromSchema(schema).serializeFragment(fragment, {
+      document,
+    })
+  );
+  return container.innerHTML;
+}
+
+/**
+ * Parse HTML into TipTap JSON block nodes through the schema's parseDOM specs
+ * Attributes left at their schema default are omitted, like the markdown converter does
+ */
+export function htmlToTiptapNodes(html: string): any[] {
+  const container = document.createElement("div");
+  container.innerHTML = html;
+  container
+    .querySelectorAll(REMOVED_ELEMENTS)
+    .forEach((element) => element.remove());
+
+  const doc = DOMParser.fromSchema(schema).parse(container);
+  return sanitizeUrls((doc.toJSON().content ?? []).map(omitDefaultAttrs));
+}
+
+/**
+ * Drop links and images whose URL could run script (javascript:, data:, ...)
+ * Link text is kept without the link
+ */
+function sanitizeUrls(nodes: any[]): any[] {
+  return nodes.flatMap((node) => {
+    if (node.type === "image" && !isSafeUrl(node.attrs?.src, true)) {
+      return [];
+    }
+
+    const result = { ...node };
+    if (node.marks) {
+      result.marks = node.marks.filter(
+        (mark: any) => mark.type !== "link" || isSafeUrl(mark.attrs?.href)
+      );
+      if (result.marks.length === 0) {
+        delete result.marks;
+      }
+    }
+    if (node.content) {
+      result.content = sanitizeUrls(node.content);
+    }
+    return [result];
+  });
+}
+
+function isSafeUrl(url: unknown, image = false): boolean {
+  if (typeof url !== "string") {
+    return false;
+  }
+
+  // Browsers ignore whitespace and control characters inside the scheme
+  const normalized = url.replace(/[\u0000-\u0020]/g, "");
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+  return (
+    !scheme ||
+    SAFE_URL_SCHEMES.includes(scheme.toLowerCase()) ||
+    (image && SAFE_IMAGE_DATA_URL.test(normalized))
+  );
+}
+
+function omitDefaultAttrs(json: any): any {
+  const type: NodeType | MarkType | undefined =
+    schema.nodes[json.type] ?? schema.marks[json.type];
+  const result: any = { ...json };
+
+  if (json.attrs && type) {
+    const attrs: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(json.attrs)) {
+      const spec = type.spec.attrs?.[name];
+      if (!spec || !("default" in spec) || spec.default !== value) {
+        attrs[name] = value;
+      }
+    }
+
+    if (Object.keys(attrs).length > 0) {
+      result.attrs = attrs;
+    } else {
+      delete result.attrs;
+    }
+  }
+
+  if (json.content) {
+    result.content = json.content.map(omitDefaultAttrs);
+  }
+
+  if (json.marks) {
+    result.marks = json.marks.map(omitDefaultAttrs);
+  }
+
+  return result;
+}
@@ -1,4 +1,67 @@
 import MarkdownIt from "markdown-it";
+import type Token from "markdown-it/lib/token.mjs";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+import type StateInline from "markdown-it/lib/rules_inline/state_inline.mjs";
+import { htmlToTiptapNodes } from "./html";
+import {
+  attributeBlocks,
+  MarkdownOptions,
+  parseCrossReference,
+  parseField,
+} from "./rich-markdown";
+import { schema } from "../ydoc/schema";
+
+// Marks opened by markdown-it inline tokens
+const TOKEN_MARKS: Record<string, string> = {
+  strong_open: "bold",
+  em_open: "italic",
+  s_open: "strike",
+  insertion_open: "insertion",
+  deletion_open: "deletion",
+  sub_open: "subscript",
+  sup_open: "superscript",
+  mark_open: "highlight",
+};
+
+// Marks written as inline HTML tags
+const HTML_MARKS: Record<string, string> = {
+  strong: "bold",
+  em: "italic",
+  s: "strike",
+  u: "underline",
+  sub: "subscript",
+  sup: "superscript",
+  mark: "highlight",
+  span: "textStyle",
+};
+
+// Footnote references and their one-line definitions, e.g. "signing.[^1]"
+// and "[^1]: Or within 30 days."
+const FOOTNOTE_REFERENCE = /^\[\^([^\]\s]+)\]/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+
+// HTML is enabled so tables written as HTML (colspan, multi-block cells) and
+// marks written as inline HTML (<u>, <sub>, <sup>, <mark>) are kept
+const md = new MarkdownIt({ html: true });
+md.inline.ruler.before("strikethrough", "sub", delimitedMark("~", "sub"));
+md.inline.ruler.before("strikethrough", "sup", delimitedMark("^", "sup"));
+md.inline.ruler.before("strikethrough", "mark", delimitedMark("==", "mark"));
+md.inline.ruler.before("emphasis", "critic_markup", criticMarkup);
+md.inline.ruler.before(
+  "emphasis",
+  "field",
+  inlineNodeRule("field", parseField)
+);
+md.inline.ruler.before(
+  "emphasis",
+  "cross_reference",
+  inlineNodeRule("ref", parseCrossReference, "crossReference")
+);
+md.inline.ruler.before("link", "footnote", footnoteReference);
+md.block.ruler.before("reference", "footnote_definition", footnoteDefinition, {
+  alt: ["paragraph", "reference"],
+});
+md.core.ruler.before("inline", "attribute_blocks", attributeBlocks);
 
 /**
  * Remove HTML-style comments from markdown content
@@ -11,27 +74,49 @@ export function removeHtmlComments(content: string): string {
 
 /**
  * Convert markdown content to TipTap-compatible JSON structure
+ * With `rich`, trailing attribute blocks set block typography
  */
-export function markdownToTiptapJson(markdownContent: string) {
+export function markdownToTiptapJson(
+  markdownContent: string,
+  options: MarkdownOptions = {}
+) {
   // Remove HTML comments before processing
   const cleanedContent = removeHtmlComments(markdownContent);
 
-  const md = new MarkdownIt();
-  const tokens = md.parse(cleanedContent, {});
+  const tokens = md.parse(cleanedContent, { rich: options.rich });
+
+  const { content } = parseBlocks(tokens, 0);
 
+  return {
+    type: "doc",
+    content:
+      content.length > 0 ? content : [{ type: "paragraph", content: [] }],
+  };
+}
+
+/**
+ * Parse block tokens until the given closing token (or the end of the tokens)
+ * Returns the blocks and the index of the closing token
+ */
+export function parseBlocks(
+  tokens: any[],
+  startIndex: number,
+  closeType?: string
+): { content: any[]; endIndex: number } {
   const content: any[] = [];
+  let i = startIndex;
 
-  for (let i = 0; i < tokens.length; i++) {
+  for (; i < tokens.length && tokens[i].type !== closeType; i++) {
     const token = tokens[i];
 
     if (token.type === "heading_open") {
       const level = parseInt(token.tag.substring(1)); // h1 -> 1, h2 -> 2, etc.
       const nextToken = tokens[i + 1];
       if (nextToken && nextToken.type === "inline") {
-        const headingContent = parseInlineContent(nextToken.content);
+        const headingContent = parseInlineTokens(nextToken.children || []);
         content.push({
           type: "heading",
-          attrs: { level },
+          attrs: { level, ...token.meta?.attributes },
           content: headingContent,
         });
         i++; // Skip the inline token as we've processed it
@@ -39,9 +124,10 @@ export function markdownToTiptapJson(markdownContent: string) {
     } else if (token.type === "paragraph_open") {
       const nextToken = tokens[i + 1];
       if (nextToken && nextToken.type === "inline") {
-        const paragraphContent = parseInlineContent(nextToken.content);
+        const paragraphContent = parseInlineTokens(nextToken.children || []);
         content.push({
           type: "paragraph",
+          ...(token.meta?.attributes && { attrs: token.meta.attributes }),
           content: paragraphContent,
         });
         i++; // Skip the inline token
@@ -79,198 +165,435 @@ export function markdownToTiptapJson(markdownContent: string) {
         content: listItems.items,
       });
       i = listItems.endIndex;
+    } else if (token.type === "table_open") {
+      const table = parseTable(tokens, i);
+      content.push(table.table);
+      i = table.endIndex;
+    } else if (token.type === "blockquote_open") {
+      const quote = parseBlocks(tokens, i + 1, "blockquote_close");
+      content.push({
+        type: "blockquote",
+        content:
+          quote.content.length > 0
+            ? quote.content
+            : [{ type: "paragraph", content: [] }],
+      });
+      i = quote.endIndex;
+    } else if (token.type === "hr") {
+      content.push({ type: "horizontalRule" });
+    } else if (token.type === "html_block") {
+      if (/^<table[\s>]/i.test(token.content.trim())) {
+        content.push(...htmlToTiptapNodes(token.content));
+      } else {
+        // Other HTML is kept as text, as it was before HTML parsing was enabled
+        content.push({
+          type: "paragraph",
+          content: parseInlineContent(token.content.trim()),
+        });
+      }
     }
   }
 
-  return {
-    type: "doc",
-    content:
-      content.length > 0 ? content : [{ type: "paragraph", content: [] }],
-  };
+  return { content, endIndex: i };
 }
 
 /**
- * Parse inline content for text formatting (links, bold, italic, code)
+ * Parse inline markdown into TipTap text and inline nodes
  */
 export function parseInlineContent(content: string): any[] {
   if (!content.trim()) {
     return [];
   }
 
-  let workingContent = content;
+  const [inlineToken] = md.parseInline(content, {});
+  return parseInlineTokens(inlineToken?.children || []);
+}
+
+/**
+ * Plain text of inline tokens, as markdown-it renders an image's alt text
+ */
+function inlineTokensText(tokens: Token[]): string {
+  return tokens
+    .map((token) =>
+      token.type === "image"
+        ? inlineTokensText(token.children || [])
+        : token.type === "softbreak" || token.type === "hardbreak"
+          ? "\n"
+          : token.content
+    )
+    .join("");
+}
+
+/**
+ * Convert markdown-it inline tokens to TipTap inline nodes
+ * Marks are tracked as a stack of open tokens, so nested and overlapping
+ * formatting (bold inside a link, italic spanning code) is kept
+ */
+export function parseInlineTokens(tokens: Token[]): any[] {
   const result: any[] = [];
+  let marks: any[] = [];
 
-  // Process patterns in order of specificity (most specific first)
-  const patterns = [
-    { regex: /\[([^\]]+)\]\(([^)]+)\)/, type: "link" }, // [text](url)
-    { regex: /\*\*\*([^*\n]+?)\*\*\*/, type: "bold-italic" }, // ***text***
-    { regex: /___([^_\n]+?)___/, type: "bold-italic" }, // ___text___
-    { regex: /\*\*_([^*_\n]+?)_\*\*/, type: "bold-italic" }, // **_text_**
-    { regex: /_\*\*([^*_\n]+?)\*\*_/, type: "bold-italic" }, // _**text**_
-    { regex: /~~([^~\n]+?)~~/, type: "strikethrough" }, // ~~text~~
-    { regex: /<u>([^<\n]+?)<\/u>/, type: "underline" }, // <u>text</u>
-    { regex: /\*\*([^*\n]+?)\*\*/, type: "bold" }, // **text**
-    { regex: /__([^_\n]+?)__/, type: "bold" }, // __text__
-    { regex: /`([^`\n]+?)`/, type: "code" }, // `code`
-  ];
-
-  // Process each pattern
-  while (workingContent.length > 0) {
-    let foundMatch = false;
-    let earliestMatch = {
-      index: Infinity,
-      length: 0,
-      type: "",
-      text: "",
-      url: "",
-      fullMatch: "",
-    };
-
-    // Find the earliest match among all patterns
-    patterns.forEach((pattern) => {
-      const match = workingContent.match(pattern.regex);
-      if (
-        match &&
-        match.index !== undefined &&
-        match.index < earliestMatch.index
-      ) {
-        earliestMatch = {
-          index: match.index,
-          length: match[0].length,
-          type: pattern.type,
-          text: match[1],
-          url: pattern.type === "link" ? match[2] : "",
-          fullMatch: match[0],
-        };
-      }
-    });
+  const openMark = (mark: any) => {
+    marks = [...marks, mark];
+  };
 
-    if (earliestMatch.index !== Infinity) {
-      foundMatch = true;
+  const closeMark = (type: string): boolean => {
+    const index = marks.map((mark) => mark.type).lastIndexOf(type);
+    if (index === -1) {
+      return false;
+    }
+    marks = marks.filter((_, i) => i !== index);
+    return true;
+  };
 
-      // Add any plain text before the match
-      if (earliestMatch.index > 0) {
-        const plainText = workingContent.substring(0, earliestMatch.index);
-        result.push({ type: "text", text: plainText });
-      }
+  const pushNode = (node: any, extraMarks: any[] = []) => {
+    const nodeMarks = sortMarks([...marks, ...extraMarks]);
+    if (nodeMarks.length > 0) {
+      node.marks = nodeMarks;
+    }
 
-      // Add the formatted element
-      switch (earliestMatch.type) {
-        case "link":
-          result.push({
-            type: "text",
-            marks: [
-              {
-                type: "link",
-                attrs: { href: earliestMatch.url, target: "_blank" },
-              },
-            ],
-            text: earliestMatch.text,
-          });
-          break;
-        case "bold-italic":
-          result.push({
-            type: "text",
-            marks: [{ type: "bold" }, { type: "italic" }],
-            text: earliestMatch.text,
-          });
-          break;
-        case "bold":
-          result.push({
-            type: "text",
-            marks: [{ type: "bold" }],
-            text: earliestMatch.text,
-          });
-          break;
-        case "italic":
-          result.push({
-            type: "text",
-            marks: [{ type: "italic" }],
-            text: earliestMatch.text,
-          });
-          break;
-        case "strikethrough":
-          result.push({
-            type: "text",
-            marks: [{ type: "strike" }],
-            text: earliestMatch.text,
-          });
-          break;
-        case "underline":
-          result.push({
-            type: "text",
-            marks: [{ type: "underline" }],
-            text: earliestMatch.text,
-          });
-          break;
-        case "code":
-          result.push({
-            type: "text",
-            marks: [{ type: "code" }],
-            text: earliestMatch.text,
-          });
-          break;
-      }
+    const previous = result[result.length - 1];
+    if (
+      node.type === "text" &&
+      previous?.type === "text" &&
+      JSON.stringify(previous.marks) === JSON.stringify(node.marks)
+    ) {
+      previous.text += node.text;
+    } else {
+      result.push(node);
+    }
+  };
 
-      // Remove the processed part from working content
-      workingContent = workingContent.substring(
-        earliestMatch.index + earliestMatch.length
-      );
+  const pushText = (text: string, extraMarks: any[] = []) => {
+    if (text) {
+      pushNode({ type: "text", text }, extraMarks);
     }
+  };
 
-    // Handle italic patterns separately to avoid conflicts with bold
-    if (!foundMatch) {
-      // Check for single * or _ patterns (italic)
-      const italicStarMatch = workingContent.match(/\*([^*\n]+?)\*/);
-      const italicUnderMatch = workingContent.match(/_([^_\n]+?)_/);
-
-      let italicMatch = null;
-      if (
-        italicStarMatch &&
-        (!italicUnderMatch || italicStarMatch.index! < italicUnderMatch.index!)
-      ) {
-        italicMatch = { match: italicStarMatch, type: "italic" };
-      } else if (italicUnderMatch) {
-        italicMatch = { match: italicUnderMatch, type: "italic" };
+  for (const token of tokens) {
+    switch (token.type) {
+      case "text":
+      case "text_special":
+        pushText(token.content);
+        break;
+      case "softbreak":
+        pushText("\n");
+        break;
+      case "hardbreak":
+        pushNode({ type: "hardBreak" });
+        break;
+      case "code_inline":
+        pushText(token.content, [{ type: "code" }]);
+        break;
+      case "image": {
+        const alt = inlineTokensText(token.children || []);
+        pushNode({
+          type: "image",
+          attrs: {
+            src: token.attrGet("src"),
+            ...(alt && { alt }),
+            ...(token.attrGet("title") && { title: token.attrGet("title") }),
+          },
+        });
+        break;
       }
+      case "field":
+      case "crossReference":
+        pushNode({ type: token.type, attrs: token.meta.attrs });
+        break;
+      case "footnote":
+        pushNode({ type: "footnote", attrs: { text: token.meta.text } });
+        break;
+      case "link_open":
+        openMark({
+          type: "link",
+          attrs: {
+            href: token.attrGet("href"),
+            target: "_blank",
+            ...(token.attrGet("title") && { title: token.attrGet("title") }),
+          },
+        });
+        break;
+      case "link_close":
+        closeMark("link");
+        break;
+      case "html_inline":
+        if (!parseHtmlInline(token.content, openMark, closeMark)) {
+          if (/^<br\s*\/?>$/i.test(token.content)) {
+            pushNode({ type: "hardBreak" });
+          } else {
+            // Unsupported HTML is kept as text
+            pushText(token.content);
+          }
+        }
+        break;
+      default:
+        if (TOKEN_MARKS[token.type]) {
+          openMark({ type: TOKEN_MARKS[token.type] });
+        } else if (token.type.endsWith("_close")) {
+          closeMark(TOKEN_MARKS[token.type.replace(/_close$/, "_open")]);
+        }
+    }
+  }
 
-      if (italicMatch && italicMatch.match.index !== undefined) {
-        foundMatch = true;
+  return result;
+}
 
-        // Add plain text before match
-        if (italicMatch.match.index > 0) {
-          const plainText = workingContent.substring(
-            0,
-            italicMatch.match.index
-          );
-          result.push({ type: "text", text: plainText });
-        }
+/**
+ * Open or close a mark written as inline HTML (<u>, <sub>, <sup>, <mark>,
+ * <span style="color">). Returns false when the tag is not a mark
+ */
+function parseHtmlInline(
+  html: string,
+  openMark: (mark: any) => void,
+  closeMark: (type: string) => boolean
+): boolean {
+  const tag = html.match(
+    /^<(\/?)(strong|em|s|u|sub|sup|mark|span)(\s[^>]*)?>$/i
+  );
+  if (!tag) {
+    return false;
+  }
 
-        // Add italic text
-        result.push({
-          type: "text",
-          marks: [{ type: "italic" }],
-          text: italicMatch.match[1],
-        });
+  const [, closing, name, attributes = ""] = tag;
+  const type = HTML_MARKS[name.toLowerCase()];
 
-        // Remove processed part
-        workingContent = workingContent.substring(
-          italicMatch.match.index + italicMatch.match[0].length
-        );
-      }
+  if (closing) {
+    return closeMark(type);
+  }
+
+  const style = attributes.match(/style="([^"]*)"/i)?.[1] || "";
+  if (type === "highlight") {
+    const color = style.match(/background-color:\s*([^;]+)/i)?.[1].trim();
+    openMark({ type, ...(color && { attrs: { color } }) });
+  } else if (type === "textStyle") {
+    const color = style.match(/(?:^|;)\s*color:\s*([^;]+)/i)?.[1].trim();
+    if (!color) {
+      return false;
     }
+    openMark({ type, attrs: { color } });
+  } else {
+    openMark({ type });
+  }
 
-    // If no match found, add remaining text and break
-    if (!foundMatch) {
-      if (workingContent.trim()) {
-        result.push({ type: "text", text: workingContent });
-      }
-      break;
+  return true;
+}
+
+/**
+ * Order marks like the schema does, so parsed JSON matches ProseMirror's
+ * A mark nested in one of its own type replaces it, as in ProseMirror
+ */
+function sortMarks(marks: any[]): any[] {
+  const rank = (mark: any) => Object.keys(schema.marks).indexOf(mark.type);
+  return marks
+    .filter(
+      (mark, index) =>
+        !marks.slice(index + 1).some((inner) => inner.type === mark.type)
+    )
+    .map((mark) => ({ ...mark }))
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * CriticMarkup suggestions: {++inserted++} and {--deleted--}
+ */
+function criticMarkup(state: StateInline, silent: boolean): boolean {
+  const start = state.pos;
+  const marker = state.src.slice(start, start + 3);
+  const type =
+    marker === "{++" ? "insertion" : marker === "{--" ? "deletion" : null;
+  if (!type) {
+    return false;
+  }
+
+  const end = findCriticClose(
+    state.src,
+    type === "insertion" ? "++}" : "--}",
+    start + 3
+  );
+  if (end === -1 || end === start + 3 || end > state.posMax) {
+    return false;
+  }
+
+  if (!silent) {
+    const posMax = state.posMax;
+    state.push(`${type}_open`, "", 1);
+    state.pos = start + 3;
+    state.posMax = end;
+    state.md.inline.tokenize(state);
+    state.posMax = posMax;
+    state.push(`${type}_close`, "", -1);
+  }
+
+  state.pos = end + 3;
+  return true;
+}
+
+/**
+ * Marks written between delimiters, as Pandoc reads them: subscripts
+ * ("H~2~O"), superscripts ("x^2^") and highlights ("==due==")
+ * The content may not start or end with a space, and a subscript or
+ * superscript may not contain one
+ */
+function delimitedMark(marker: string, type: string) {
+  return (state: StateInline, silent: boolean): boolean => {
+    const start = state.pos;
+    const contentStart = start + marker.length;
+    if (
+      !state.src.startsWith(marker, start) ||
+      state.src[contentStart] === marker[0]
+    ) {
+      return false;
     }
+
+    let end = contentStart;
+    while (end < state.posMax && !state.src.startsWith(marker, end)) {
+      end += state.src[end] === "\\" ? 2 : 1;
+    }
+    const content = state.src.slice(contentStart, end);
+    if (
+      end >= state.posMax ||
+      !content ||
+      content !== content.trim() ||
+      (marker === "==" ? content.includes("\n") : /\s/.test(content))
+    ) {
+      return false;
+    }
+
+    if (!silent) {
+      const posMax = state.posMax;
+      state.push(`${type}_open`, "", 1);
+      state.pos = contentStart;
+      state.posMax = end;
+      state.md.inline.tokenize(state);
+      state.posMax = posMax;
+      state.push(`${type}_close`, "", -1);
+    }
+
+    state.pos = end + marker.length;
+    return true;
+  };
+}
+
+/**
+ * Inline nodes written as "{{name key=value ...}}", e.g. form fields
+ * ({{field name=party type=date value=2024-03-01}}) and cross-references
+ * ({{ref target=clause-4}}); quoted attribute values may contain braces
+ */
+function inlineNodeRule(
+  name: string,
+  parse: (body: string) => Record<string, any> | null,
+  nodeType = name
+) {
+  const opening = `{{${name} `;
+
+  return (state: StateInline, silent: boolean): boolean => {
+    const start = state.pos;
+    if (!state.src.startsWith(opening, start)) {
+      return false;
+    }
+
+    const match = state.src
+      .slice(start + opening.length, state.posMax)
+      .match(/^((?:"(?:[^"\\\n]|\\.)*"|[^"}\n]|\}(?!\}))*)\}\}/);
+    const attrs = match && parse(match[1]);
+    if (!attrs) {
+      return false;
+    }
+
+    if (!silent) {
+      const token = state.push(nodeType, "", 0);
+      token.meta = { attrs };
+    }
+
+    state.pos = start + opening.length + match![0].length;
+    return true;
+  };
+}
+
+/**
+ * Footnote references, "[^label]", for labels the document defines
+ * Other references are left as text
+ */
+function footnoteReference(state: StateInline, silent: boolean): boolean {
+  const match = state.src
+    .slice(state.pos, state.posMax)
+    .match(FOOTNOTE_REFERENCE);
+  const definition: string | undefined = match
+    ? state.env?.footnotes?.get(match[1])
+    : undefined;
+  if (definition === undefined) {
+    return false;
+  }
+
+  if (!silent) {
+    const [inlineToken] = state.md.parseInline(definition, {});
+    const token = state.push("footnote", "", 0);
+    token.meta = { text: inlineTokensText(inlineToken?.children || []) };
+  }
+
+  state.pos += match![0].length;
+  return true;
+}
+
+/**
+ * Footnote definitions, "[^label]: text" on one line, collected into the
+ * parse environment for footnoteReference; the first definition of a label
+ * wins
+ */
+function footnoteDefinition(
+  state: StateBlock,
+  startLine: number,
+  _endLine: number,
+  silent: boolean
+): boolean {
+  // Indented four spaces or more is code
+  if (state.sCount[startLine] - state.blkIndent >= 4) {
+    return false;
+  }
+
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const match = state.src
+    .slice(start, state.eMarks[startLine])
+    .match(FOOTNOTE_DEFINITION);
+  if (!match) {
+    return false;
   }
 
-  // Return result or plain text if no formatting found
-  return result.length > 0 ? result : [{ type: "text", text: content }];
+  if (silent) {
+    return true;
+  }
+
+  state.env.footnotes ??= new Map<string, string>();
+  if (!state.env.footnotes.has(match[1])) {
+    state.env.footnotes.set(match[1], match[2].trim());
+  }
+  state.line = startLine + 1;
+  return true;
+}
+
+/**
+ * Position of a CriticMarkup closing marker, skipping code spans, which
+ * bind tighter than suggestions as they do than emphasis
+ */
+function findCriticClose(src: string, close: string, from: number): number {
+  let pos = from;
+  while (pos < src.length) {
+    if (src.startsWith(close, pos)) {
+      return pos;
+    }
+
+    const run = src.slice(pos).match(/^`+/)?.[0];
+    if (run) {
+      const closeRun = new RegExp(`(?<!\`)${run}(?!\`)`, "g");
+      closeRun.lastIndex = pos + run.length;
+      const match = closeRun.exec(src);
+      pos = match ? match.index + run.length : pos + run.length;
+    } else {
+      pos += src[pos] === "\\" ? 2 : 1;
+    }
+  }
+  return -1;
 }
 
 /**
@@ -289,40 +612,12 @@ export function parseListItems(
     tokens[i].type !== "ordered_list_close"
   ) {
     if (tokens[i].type === "list_item_open") {
-      const listItemContent: any[] = [];
       i++; // Move past list_item_open
 
-      // Parse all content within this list item
-      while (i < tokens.length && tokens[i].type !== "list_item_close") {
-        if (tokens[i].type === "paragraph_open") {
-          const inlineToken = tokens[i + 1];
-          if (inlineToken && inlineToken.type === "inline") {
-            listItemContent.push({
-              type: "paragraph",
-              content: parseInlineContent(inlineToken.content),
-            });
-            i += 2; // Skip paragraph_open and inline tokens
-          }
-        } else if (tokens[i].type === "bullet_list_open") {
-          // Handle nested bullet list
-          const nestedList = parseListItems(tokens, i);
-          listItemContent.push({
-            type: "bulletList",
-            content: nestedList.items,
-          });
-          i = nestedList.endIndex;
-        } else if (tokens[i].type === "ordered_list_open") {
-          // Handle nested ordered list
-          const nestedList = parseListItems(tokens, i);
-          listItemContent.push({
-            type: "orderedList",
-            content: nestedList.items,
-          });
-          i = nestedList.endIndex;
-        } else {
-          i++; // Move to next token
-        }
-      }
+      // Parse all content within this list item, including nested lists
+      const listItem = parseBlocks(tokens, i, "list_item_close");
+      const listItemContent = listItem.content;
+      i = listItem.endIndex;
 
       // Add the list item with all its content
       items.push({
@@ -339,3 +634,47 @@ export function parseListItems(
 
   return { items, endIndex: i };
 }
+
+/**
+ * Parse a GFM pipe table from tokens
+ * Column alignment is kept as the textAlign of each cell's paragraph
+ */
+export function parseTable(
+  tokens: any[],
+  startIndex: number
+): { table: any; endIndex: number } {
+  const rows: any[] = [];
+  let i = startIndex + 1; // Skip the table_open token
+
+  while (i < tokens.length && tokens[i].type !== "table_close") {
+    if (tokens[i].type === "tr_open") {
+      rows.push({ type: "tableRow", content: [] });
+    } else if (tokens[i].type === "th_open" || tokens[i].type === "td_open") {
+      const style: string = tokens[i].attrGet("style") || "";
+      const alignment = style.match(/text-align:(left|center|right)/);
+      const inlineToken = tokens[i + 1];
+
+      const paragraph: any = {
+        type: "paragraph",
+        content:
+          inlineToken && inlineToken.type === "inline"
+            ? parseInlineTokens(inlineToken.children || [])
+            : [],
+      };
+      if (alignment || tokens[i].meta?.attributes) {
+        paragraph.attrs = {
+          ...(alignment && { textAlign: alignment[1] }),
+          ...tokens[i].meta?.attributes,
+        };
+      }
+
+      rows[rows.length - 1].content.push({
+        type: tokens[i].type === "th_open" ? "tableHeader" : "tableCell",
+        content: [paragraph],
+      });
+    }
+    i++;
+  }
+
+  return { table: { type: "table", content: rows }, endIndex: i };
+}
@@ -0,0 +1,1075 @@
+import PDFDocument from "pdfkit";
+import {
+  PlacedCell,
+  columnWidths,
+  cssColorToHex,
+  layoutTable,
+} from "./export-layout";
+import { fieldText } from "../ydoc/schema";
+import { resolveReferences } from "./references";
+
+export const PDF_CONTENT_TYPE = "application/pdf";
+
+export interface PdfOptions {
+  // Running header printed at the top of every page; defaults to the
+  // document's first heading, "" for none
+  header?: string;
+}
+
+// A4 in points, with one inch margins
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const PAGE_MARGIN = 72;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const HEADER_BASELINE = 44;
+const FOOTER_BASELINE = PAGE_HEIGHT - 36;
+
+// Schema defaults for paragraphs and headings
+const DEFAULT_FONT_FAMILY = "Times New Roman";
+const DEFAULT_FONT_SIZE = 12;
+// Heading sizes in points by level, unless the heading sets its own
+const HEADING_SIZES = [20, 16, 14, 12, 12, 12];
+const CODE_FONT_SIZE = 10;
+const NOTE_FONT_SIZE = 10;
+
+// Line box above and below the baseline, as a share of the font size
+const ASCENT = 0.9;
+const DESCENT = 0.3;
+const POINTS_PER_PIXEL = 0.75;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 18;
+const CELL_PADDING = 4;
+const MIN_COLUMN_WIDTH = 36;
+const MAX_IMAGE_HEIGHT = 400;
+
+const BULLETS = ["•", "–", "·"];
+
+const LINK_COLOR = "#1155cc";
+const INSERTION_COLOR = "#1a7f37";
+const DELETION_COLOR = "#c62828";
+const DEFAULT_HIGHLIGHT = "#ffff00";
+const RULE_COLOR = "#999999";
+const SHADING_COLOR = "#f2f2f2";
+const DECORATION_COLOR = "#666666";
+
+// PDF standard fonts, by family: regular, bold, italic, bold italic
+const STANDARD_FONTS: Record<string, string[]> = {
+  serif: ["Times-Roman", "Times-Bold", "Times-Italic", "Times-BoldItalic"],
+  sans: [
+    "Helvetica",
+    "Helvetica-Bold",
+    "Helvetica-Oblique",
+    "Helvetica-BoldOblique",
+  ],
+  mono: ["Courier", "Courier-Bold", "Courier-Oblique", "Courier-BoldOblique"],
+};
+
+const SANS_FONTS =
+  /arial|helvetica|calibri|verdana|tahoma|segoe|roboto|open sans|lato|inter|sans/i;
+const MONO_FONTS = /courier|consolas|menlo|monaco|mono/i;
+
+// Characters outside Latin-1 that the standard fonts' WinAnsi encoding has
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+interface TextStyle {
+  font: string;
+  size: number;
+  color: string | null;
+  underline: boolean;
+  strike: boolean;
+  highlight: string | null;
+  link: string | null;
+  // Baseline shift for superscript (up) and subscript (down)
+  rise: number;
+}
+
+interface Piece {
+  kind: "text" | "space" | "break" | "image";
+  text: string;
+  style: TextStyle;
+  width: number;
+  image?: { data: Buffer; height: number };
+}
+
+interface Line {
+  pieces: Piece[];
+  width: number;
+  ascent: number;
+  descent: number;
+  // Ends at a hard break or the end of the paragraph, so is not justified
+  last: boolean;
+}
+
+// A laid out slice of the document, drawn at a vertical position
+interface Box {
+  height: number;
+  draw: (y: number) => void;
+  // Space between blocks, dropped at the top of a page
+  spacing?: boolean;
+  keepWithNext?: boolean;
+  // Baseline offset and size of a first line, for list markers
+  baseline?: number;
+  fontSize?: number;
+}
+
+interface Frame {
+  x: number;
+  width: number;
+}
+
+interface BlockContext {
+  listLevel: number;
+  header: boolean;
+}
+
+interface ParagraphStyle {
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  align: string | null;
+  marginTop: number;
+  marginBottom: number;
+}
+
+type Pdf = InstanceType<typeof PDFDocument>;
+
+/**
+ * Render a TipTap JSON document as a print-ready A4 PDF
+ * Paragraph typography follows the schema defaults (Times New Roman 12pt)
+ * unless the paragraph sets its own; fonts map to the PDF standard fonts
+ * (serif, sans-serif, monospace). Every page has the running header and a
+ * "Page N of M" footer. Footnotes are numbered and listed after the body;
+ * cross-references show the section number of their target
+ */
+export async function tiptapJsonToPdf(
+  tiptapJson: any,
+  options: PdfOptions = {}
+): Promise<Buffer> {
+  const { json, footnotes } = resolveReferences(tiptapJson);
+  const content: any[] = json?.content || [];
+  const header = options.header ?? firstHeadingText(content);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 0,
+    bufferPages: true,
+    info: header ? { Title: header } : {},
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const frame = { x: PAGE_MARGIN, width: TEXT_WIDTH };
+  const boxes = [
+    ...layoutBlocks(doc, content, frame, { listLevel: 0, header: false }),
+    ...layoutNotes(doc, footnotes, frame),
+  ];
+  flowBoxes(doc, boxes);
+  decoratePages(doc, header);
+  doc.end();
+
+  return finished;
+}
+
+/**
+ * Place boxes down the pages, starting a new page when a box does not fit
+ */
+function flowBoxes(doc: Pdf, boxes: Box[]) {
+  const top = PAGE_MARGIN;
+  const bottom = PAGE_HEIGHT - PAGE_MARGIN;
+  let y = top;
+
+  boxes.forEach((box, index) => {
+    if (box.spacing && y === top) {
+      return;
+    }
+    const next = boxes[index + 1];
+    const needed = box.height + (box.keepWithNext && next ? next.height : 0);
+    if (y + needed > bottom && y > top) {
+      doc.addPage();
+      y = top;
+      if (box.spacing) {
+        return;
+      }
+    }
+    box.draw(y);
+    y += box.height;
+  });
+}
+
+function decoratePages(doc: Pdf, header: string) {
+  const range = doc.bufferedPageRange();
+  for (let index = 0; index < range.count; index++) {
+    doc.switchToPage(range.start + index);
+    doc.font(STANDARD_FONTS.sans[0]).fontSize(9).fillColor(DECORATION_COLOR);
+
+    if (header) {
+      const text = fitText(doc, toWinAnsi(header), TEXT_WIDTH);
+      doc.text(text, PAGE_MARGIN, HEADER_BASELINE, {
+        lineBreak: false,
+        baseline: "alphabetic",
+      });
+      doc
+        .moveTo(PAGE_MARGIN, HEADER_BASELINE + 6)
+        .lineTo(PAGE_WIDTH - PAGE_MARGIN, HEADER_BASELINE + 6)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke();
+    }
+
+    const footer = `Page ${index + 1} of ${range.count}`;
+    doc.text(
+      footer,
+      (PAGE_WIDTH - doc.widthOfString(footer)) / 2,
+      FOOTER_BASELINE,
+      { lineBreak: false, baseline: "alphabetic" }
+    );
+  }
+}
+
+function layoutBlocks(
+  doc: Pdf,
+  nodes: any[],
+  frame: Frame,
+  context: BlockContext
+): Box[] {
+  return nodes.flatMap((node) => layoutBlock(doc, node, frame, context));
+}
+
+function layoutBlock(
+  doc: Pdf,
+  node: any,
+  frame: Frame,
+  context: BlockContext
+): Box[] {
+  const attrs = node.attrs || {};
+
+  switch (node.type) {
+    case "paragraph": {
+      const fontSize = fontSizeOf(attrs.fontSize, DEFAULT_FONT_SIZE);
+      return layoutParagraph(doc, node.content || [], frame, {
+        fontFamily: attrs.fontFamily || DEFAULT_FONT_FAMILY,
+        fontSize,
+        bold: context.header,
+        align: attrs.textAlign || null,
+        marginTop: marginOf(attrs.marginTop, 0),
+        marginBottom: marginOf(attrs.marginBottom, fontSize / 2),
+      });
+    }
+
+    case "heading": {
+      const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6);
+      const fontSize =
+        attrs.fontSize && attrs.fontSize !== DEFAULT_FONT_SIZE
+          ? fontSizeOf(attrs.fontSize, DEFAULT_FONT_SIZE)
+          : HEADING_SIZES[level - 1];
+      const boxes = layoutParagraph(doc, node.content || [], frame, {
+        fontFamily: attrs.fontFamily || DEFAULT_FONT_FAMILY,
+        fontSize,
+        bold: true,
+        align: attrs.textAlign || null,
+        marginTop: fontSize * 0.75,
+        marginBottom: fontSize * 0.4,
+      });
+      // A heading is not left alone at the bottom of a page
+      boxes.forEach((box) => (box.keepWithNext = !box.spacing));
+      return boxes;
+    }
+
+    case "bulletList":
+    case "orderedList":
+      return layoutList(doc, node, frame, context);
+
+    case "blockquote": {
+      const inner = layoutBlocks(
+        doc,
+        node.content || [],
+        { x: frame.x + QUOTE_INDENT, width: frame.width - QUOTE_INDENT },
+        context
+      );
+      return inner.map((box) =>
+        box.spacing
+          ? box
+          : {
+              ...box,
+              draw: (y: number) => {
+                doc
+                  .rect(frame.x + 4, y, 2, box.height)
+                  .fillColor(RULE_COLOR)
+                  .fill();
+                box.draw(y);
+              },
+            }
+      );
+    }
+
+    case "codeBlock":
+      return layoutCodeBlock(doc, node, frame);
+
+    case "horizontalRule":
+      return [
+        {
+          height: 12,
+          draw: (y) => {
+            doc
+              .moveTo(frame.x, y + 6)
+              .lineTo(frame.x + frame.width, y + 6)
+              .lineWidth(0.75)
+              .strokeColor(RULE_COLOR)
+              .stroke();
+          },
+        },
+      ];
+
+    case "table":
+      return layoutTableBlock(doc, node, frame);
+
+    default:
+      return layoutBlocks(doc, node.content || [], frame, context);
+  }
+}
+
+/**
+ * Footnotes below a short rule, each starting with its number
+ */
+function layoutNotes(doc: Pdf, footnotes: string[], frame: Frame): Box[] {
+  if (footnotes.length === 0) {
+    return [];
+  }
+
+  const rule: Box = {
+    height: NOTE_FONT_SIZE,
+    draw: (y) => {
+      doc
+        .moveTo(frame.x, y + NOTE_FONT_SIZE / 2)
+        .lineTo(frame.x + frame.width / 3, y + NOTE_FONT_SIZE / 2)
+        .lineWidth(0.5)
+        .strokeColor(RULE_COLOR)
+        .stroke();
+    },
+  };
+
+  return [
+    spacingBox(DEFAULT_FONT_SIZE),
+    rule,
+    ...footnotes.flatMap((text, index) =>
+      layoutParagraph(
+        doc,
+        [{ type: "text", text: `${index + 1}. ${text}` }],
+        frame,
+        {
+          fontFamily: DEFAULT_FONT_FAMILY,
+          fontSize: NOTE_FONT_SIZE,
+          bold: false,
+          align: null,
+          marginTop: 0,
+          marginBottom: NOTE_FONT_SIZE / 3,
+        }
+      )
+    ),
+  ];
+}
+
+function layoutParagraph(
+  doc: Pdf,
+  content: any[],
+  frame: Frame,
+  paragraph: ParagraphStyle
+): Box[] {
+  const pieces = inlinePieces(doc, content, paragraph, frame.width);
+  const lines = breakLines(doc, pieces, frame.width, paragraph.fontSize);
+
+  const boxes: Box[] = lines.map((line) => ({
+    height: line.ascent + line.descent,
+    baseline: line.ascent,
+    fontSize: paragraph.fontSize,
+    draw: (y: number) => drawLine(doc, line, frame, y, paragraph.align),
+  }));
+
+  return [
+    ...(paragraph.marginTop > 0 ? [spacingBox(paragraph.marginTop)] : []),
+    ...boxes,
+    ...(paragraph.marginBottom > 0 ? [spacingBox(paragraph.marginBottom)] : []),
+  ];
+}
+
+function spacingBox(height: number): Box {
+  return { height, spacing: true, draw: () => {} };
+}
+
+/**
+ * Split inline content into words, spaces, breaks and images, each with the
+ * style its marks give it
+ */
+function inlinePieces(
+  doc: Pdf,
+  content: any[],
+  paragraph: ParagraphStyle,
+  maxWidth: number
+): Piece[] {
+  return content.flatMap((node): Piece[] => {
+    const style = textStyle(node.marks || [], paragraph);
+
+    if (node.type === "hardBreak") {
+      return [{ kind: "break", text: "", style, width: 0 }];
+    }
+
+    if (node.type === "image") {
+      const image = decodeImage(node.attrs?.src);
+      if (image) {
+        const scale = Math.min(
+          1,
+          maxWidth / (image.width * POINTS_PER_PIXEL),
+          MAX_IMAGE_HEIGHT / (image.height * POINTS_PER_PIXEL)
+        );
+        return [
+          {
+            kind: "image",
+            text: "",
+            style,
+            width: image.width * POINTS_PER_PIXEL * scale,
+            image: {
+              data: image.data,
+              height: image.height * POINTS_PER_PIXEL * scale,
+            },
+          },
+        ];
+      }
+      // Images that cannot be embedded are shown by their alt text
+      const alt = node.attrs?.alt;
+      return alt ? textPieces(doc, `[${alt}]`, style) : [];
+    }
+
+    if (node.type === "text") {
+      return textPieces(doc, node.text || "", style);
+    }
+    if (node.type === "field") {
+      return textPieces(doc, fieldText(node.attrs || {}), style);
+    }
+    if (node.type === "footnote") {
+      const marks = (node.marks || []).filter(
+        (mark: any) => mark.type !== "subscript"
+      );
+      return textPieces(
+        doc,
+        String(node.attrs?.number ?? ""),
+        textStyle([...marks, { type: "superscript" }], paragraph)
+      );
+    }
+    if (node.type === "crossReference") {
+      return textPieces(doc, node.attrs?.text || "", style);
+    }
+    return [];
+  });
+}
+
+function textPieces(doc: Pdf, text: string, style: TextStyle): Piece[] {
+  return toWinAnsi(text.replace(/\t/g, "    "))
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .map((part) => ({
+      kind: /^\s/.test(part) ? "space" : "text",
+      text: part,
+      style,
+      width: measure(doc, part, style),
+    }));
+}
+
+function textStyle(marks: any[], paragraph: ParagraphStyle): TextStyle {
+  const has = (type: string) => marks.some((mark) => mark.type === type);
+  const attrsOf = (type: string) =>
+    marks.find((mark) => mark.type === type)?.attrs || {};
+
+  const family = has("code") ? "mono" : fontFamilyOf(paragraph.fontFamily);
+  const bold = has("bold") || paragraph.bold;
+  const italic = has("italic");
+  const script = has("superscript") || has("subscript");
+  const size = script ? paragraph.fontSize * 0.7 : paragraph.fontSize;
+
+  const link = has("link") ? attrsOf("link").href || null : null;
+  const color = cssColorToHex(attrsOf("textStyle").color);
+  let textColor = color ? `#${color}` : link ? LINK_COLOR : null;
+  if (has("insertion")) {
+    textColor = INSERTION_COLOR;
+  } else if (has("deletion")) {
+    textColor = DELETION_COLOR;
+  }
+  const highlight = cssColorToHex(attrsOf("highlight").color);
+
+  return {
+    font: STANDARD_FONTS[family][(bold ? 1 : 0) + (italic ? 2 : 0)],
+    size,
+    color: textColor,
+    underline: has("underline") || has("insertion") || !!link,
+    strike: has("strike") || has("deletion"),
+    highlight: has("highlight")
+      ? highlight
+        ? `#${highlight}`
+        : DEFAULT_HIGHLIGHT
+      : null,
+    link,
+    rise: has("superscript")
+      ? paragraph.fontSize * 0.35
+      : has("subscript")
+        ? -paragraph.fontSize * 0.15
+        : 0,
+  };
+}
+
+/**
+ * Break pieces into lines no wider than the frame; words wider than a whole
+ * line are split between characters
+ */
+function breakLines(
+  doc: Pdf,
+  pieces: Piece[],
+  maxWidth: number,
+  fontSize: number
+): Line[] {
+  const lines: Line[] = [];
+  let current: Piece[] = [];
+  let width = 0;
+
+  const finish = (last: boolean) => {
+    while (current.length > 0 && current[current.length - 1].kind === "space") {
+      width -= current.pop()!.width;
+    }
+    lines.push(lineOf(current, width, fontSize, last));
+    current = [];
+    width = 0;
+  };
+
+  for (const piece of pieces) {
+    if (piece.kind === "break") {
+      finish(true);
+      continue;
+    }
+    if (piece.kind === "space") {
+      if (current.length > 0) {
+        current.push(piece);
+        width += piece.width;
+      }
+      continue;
+    }
+
+    const parts =
+      piece.kind === "text" && piece.width > maxWidth
+        ? splitWord(doc, piece, maxWidth)
+        : [piece];
+    for (const part of parts) {
+      if (
+        width + part.width > maxWidth &&
+        current.some((existing) => existing.kind !== "space")
+      ) {
+        finish(false);
+      }
+      current.push(part);
+      width += part.width;
+    }
+  }
+  finish(true);
+
+  return lines;
+}
+
+function splitWord(doc: Pdf, piece: Piece, maxWidth: number): Piece[] {
+  const parts: Piece[] = [];
+  let text = "";
+  for (const char of piece.text) {
+    if (text && measure(doc, text + char, piece.style) > maxWidth) {
+      parts.push({ ...piece, text, width: measure(doc, text, piece.style) });
+      text = "";
+    }
+    text += char;
+  }
+  parts.push({ ...piece, text, width: measure(doc, text, piece.style) });
+  return parts;
+}
+
+function lineOf(
+  pieces: Piece[],
+  width: number,
+  fontSize: number,
+  last: boolean
+): Line {
+  let ascent = 0;
+  let descent = 0;
+  for (const piece of pieces) {
+    if (piece.image) {
+      ascent = Math.max(ascent, piece.image.height);
+    } else {
+      ascent = Math.max(ascent, piece.style.size * ASCENT + piece.style.rise);
+      descent = Math.max(
+        descent,
+        piece.style.size * DESCENT - piece.style.rise
+      );
+    }
+  }
+
+  // An empty line keeps the height of the paragraph's text
+  return {
+    pieces,
+    width,
+    ascent: Math.max(ascent, pieces.length === 0 ? fontSize * ASCENT : 0),
+    descent: Math.max(descent, fontSize * DESCENT),
+    last,
+  };
+}
+
+function drawLine(
+  doc: Pdf,
+  line: Line,
+  frame: Frame,
+  top: number,
+  align: string | null
+) {
+  const free = Math.max(frame.width - line.width, 0);
+  const spaces = line.pieces.filter((piece) => piece.kind === "space").length;
+  const stretch =
+    align === "justify" && !line.last && spaces > 0 ? free / spaces : 0;
+  let x =
+    frame.x + (align === "center" ? free / 2 : align === "right" ? free : 0);
+  const baseline = top + line.ascent;
+
+  for (const piece of line.pieces) {
+    const width = piece.width + (piece.kind === "space" ? stretch : 0);
+    const style = piece.style;
+    const textBaseline = baseline - style.rise;
+
+    if (piece.image) {
+      doc.image(piece.image.data, x, baseline - piece.image.height, {
+        width: piece.width,
+        height: piece.image.height,
+      });
+    } else {
+      if (style.highlight) {
+        doc
+          .rect(
+            x,
+            textBaseline - style.size * ASCENT,
+            width,
+            style.size * (ASCENT + DESCENT)
+          )
+          .fillColor(style.highlight)
+          .fill();
+      }
+      if (piece.kind === "text") {
+        doc
+          .font(style.font)
+          .fontSize(style.size)
+          .fillColor(style.color || "black")
+          .text(piece.text, x, textBaseline, {
+            lineBreak: false,
+            baseline: "alphabetic",
+          });
+      }
+      const decorations = [
+        style.underline && textBaseline + style.size * 0.12,
+        style.strike && textBaseline - style.size * 0.28,
+      ].filter((value): value is number => value !== false);
+      for (const y of decorations) {
+        doc
+          .moveTo(x, y)
+          .lineTo(x + width, y)
+          .lineWidth(Math.max(style.size * 0.05, 0.5))
+          .strokeColor(style.color || "black")
+          .stroke();
+      }
+    }
+
+    if (style.link) {
+      doc.link(
+        x,
+        textBaseline - style.size * ASCENT,
+        width,
+        style.size * (ASCENT + DESCENT),
+        style.link
+      );
+    }
+    x += width;
+  }
+}
+
+function layoutList(
+  doc: Pdf,
+  node: any,
+  frame: Frame,
+  context: BlockContext
+): Box[] {
+  const level = context.listLevel;
+  const ordered = node.type === "orderedList";
+  const start = Number.isInteger(Number(node.attrs?.start))
+    ? Number(node.attrs.start)
+    : 1;
+  const itemFrame = {
+    x: frame.x + LIST_INDENT,
+    width: frame.width - LIST_INDENT,
+  };
+
+  return (node.content || []).flatMap((item: any, index: number) => {
+    const marker = ordered
+      ? orderedMarker(start + index, level)
+      : BULLETS[level % BULLETS.length];
+    const boxes = layoutBlocks(doc, item.content || [], itemFrame, {
+      ...context,
+      listLevel: level + 1,
+    });
+
+    // The marker sits on the baseline of the item's first line
+    const first = boxes.findIndex((box) => !box.spacing);
+    if (first === -1) {
+      return boxes;
+    }
+    const box = boxes[first];
+    const fontSize = box.fontSize || DEFAULT_FONT_SIZE;
+    boxes[first] = {
+      ...box,
+      draw: (y: number) => {
+        doc
+          .font(STANDARD_FONTS.serif[0])
+          .fontSize(fontSize)
+          .fillColor("black")
+          .text(marker, frame.x, y + (box.baseline ?? fontSize * ASCENT), {
+            lineBreak: false,
+            baseline: "alphabetic",
+          });
+        box.draw(y);
+      },
+    };
+    return boxes;
+  });
+}
+
+function orderedMarker(number: number, level: number): string {
+  switch (level % 3) {
+    case 1:
+      return `${toLetters(number)}.`;
+    case 2:
+      return `${toRoman(number)}.`;
+    default:
+      return `${number}.`;
+  }
+}
+
+function toLetters(number: number): string {
+  let letters = "";
+  for (let value = Math.max(number, 1); value > 0;) {
+    value--;
+    letters = String.fromCharCode(97 + (value % 26)) + letters;
+    value = Math.floor(value / 26);
+  }
+  return letters;
+}
+
+function toRoman(number: number): string {
+  const numerals: [number, string][] = [
+    [1000, "m"],
+    [900, "cm"],
+    [500, "d"],
+    [400, "cd"],
+    [100, "c"],
+    [90, "xc"],
+    [50, "l"],
+    [40, "xl"],
+    [10, "x"],
+    [9, "ix"],
+    [5, "v"],
+    [4, "iv"],
+    [1, "i"],
+  ];
+  let value = Math.max(number, 1);
+  let roman = "";
+  for (const [amount, numeral] of numerals) {
+    for (; value >= amount; value -= amount) {
+      roman += numeral;
+    }
+  }
+  return roman;
+}
+
+function layoutCodeBlock(doc: Pdf, node: any, frame: Frame): Box[] {
+  const style: TextStyle = {
+    font: STANDARD_FONTS.mono[0],
+    size: CODE_FONT_SIZE,
+    color: null,
+    underline: false,
+    strike: false,
+    highlight: null,
+    link: null,
+    rise: 0,
+  };
+  const inner = {
+    x: frame.x + CELL_PADDING,
+    width: frame.width - 2 * CELL_PADDING,
+  };
+  const text = (node.content || [])
+    .map((child: any) => child.text || "")
+    .join("");
+
+  // Lines keep their spaces; long lines wrap between characters
+  const lines = text.split("\n").flatMap((source: string) => {
+    const piece: Piece = {
+      kind: "text",
+      text: toWinAnsi(source.replace(/\t/g, "    ")),
+      style,
+      width: 0,
+    };
+    piece.width = measure(doc, piece.text, style);
+    const parts =
+      piece.width > inner.width ? splitWord(doc, piece, inner.width) : [piece];
+    return parts.map((part) =>
+      lineOf(part.text ? [part] : [], part.width, CODE_FONT_SIZE, true)
+    );
+  });
+
+  return [
+    ...lines.map((line: Line) => ({
+      height: line.ascent + line.descent,
+      draw: (y: number) => {
+        doc
+          .rect(frame.x, y, frame.width, line.ascent + line.descent)
+          .fillColor(SHADING_COLOR)
+          .fill();
+        drawLine(doc, line, inner, y, null);
+      },
+    })),
+    spacingBox(DEFAULT_FONT_SIZE / 2),
+  ];
+}
+
+interface TableCellLayout {
+  placed: PlacedCell;
+  row: number;
+  rowspan: number;
+  x: number;
+  width: number;
+  header: boolean;
+  boxes: Box[];
+  height: number;
+}
+
+/**
+ * Lay out a table as boxes of rows; rows tied together by a rowspan move to
+ * the next page together
+ */
+function layoutTableBlock(doc: Pdf, node: any, frame: Frame): Box[] {
+  const rows: any[] = node.content || [];
+  const layout = layoutTable(rows);
+  let widths = columnWidths(layout, {
+    totalWidth: frame.width,
+    unitsPerPixel: POINTS_PER_PIXEL,
+    minimum: MIN_COLUMN_WIDTH,
+  });
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  if (total > frame.width) {
+    widths = widths.map((width) => (width * frame.width) / total);
+  }
+  const offsets = widths.map((_, column) =>
+    widths.slice(0, column).reduce((sum, width) => sum + width, frame.x)
+  );
+
+  const cells: TableCellLayout[] = layout.flatMap((row, rowIndex) =>
+    row
+      .filter((placed) => !placed.continued)
+      .map((placed) => {
+        const x = offsets[placed.column];
+        const width = widths
+          .slice(placed.column, placed.column + placed.colspan)
+          .reduce((sum, value) => sum + value, 0);
+        const header = placed.cell?.type === "tableHeader";
+        const boxes = placed.cell
+          ? layoutBlocks(
+              doc,
+              placed.cell.content || [],
+              { x: x + CELL_PADDING, width: width - 2 * CELL_PADDING },
+              { listLevel: 0, header }
+            )
+          : [];
+        // Spacing after a cell's last block is padding enough
+        while (boxes.length > 0 && boxes[boxes.length - 1].spacing) {
+          boxes.pop();
+        }
+        return {
+          placed,
+          row: rowIndex,
+          rowspan: Math.min(
+            Math.max(Number(placed.cell?.attrs?.rowspan) || 1, 1),
+            rows.length - rowIndex
+          ),
+          x,
+          width,
+          header,
+          boxes,
+          height:
+            boxes.reduce((sum, box) => sum + box.height, 0) + 2 * CELL_PADDING,
+        };
+      })
+  );
+
+  const minimum = DEFAULT_FONT_SIZE * (ASCENT + DESCENT) + 2 * CELL_PADDING;
+  const heights = layout.map(() => minimum);
+  for (const cell of cells.filter((cell) => cell.rowspan === 1)) {
+    heights[cell.row] = Math.max(heights[cell.row], cell.height);
+  }
+  for (const cell of cells.filter((cell) => cell.rowspan > 1)) {
+    const last = cell.row + cell.rowspan - 1;
+    const spanned = heights
+      .slice(cell.row, last + 1)
+      .reduce((sum, height) => sum + height, 0);
+    heights[last] += Math.max(cell.height - spanned, 0);
+  }
+
+  // Group rows a rowspan crosses
+  const groups: [number, number][] = [];
+  for (let start = 0; start < layout.length;) {
+    let end = start;
+    for (let row = start; row <= end; row++) {
+      for (const cell of cells.filter((cell) => cell.row === row)) {
+        end = Math.max(end, cell.row + cell.rowspan - 1);
+      }
+    }
+    groups.push([start, end]);
+    start = end + 1;
+  }
+
+  return [
+    ...groups.map(([start, end]) => ({
+      height: heights
+        .slice(start, end + 1)
+        .reduce((sum, height) => sum + height, 0),
+      draw: (y: number) => {
+        const rowTop = (row: number) =>
+          heights.slice(start, row).reduce((sum, height) => sum + height, y);
+        for (const cell of cells.filter(
+          (cell) => cell.row >= start && cell.row <= end
+        )) {
+          const top = rowTop(cell.row);
+          const height = heights
+            .slice(cell.row, cell.row + cell.rowspan)
+            .reduce((sum, value) => sum + value, 0);
+          if (cell.header) {
+            doc
+              .rect(cell.x, top, cell.width, height)
+              .fillColor(SHADING_COLOR)
+              .fill();
+          }
+          let contentY = top + CELL_PADDING;
+          for (const box of cell.boxes) {
+            box.draw(contentY);
+            contentY += box.height;
+          }
+          doc
+            .rect(cell.x, top, cell.width, height)
+            .lineWidth(0.5)
+            .strokeColor("black")
+            .stroke();
+        }
+      },
+    })),
+    spacingBox(DEFAULT_FONT_SIZE / 2),
+  ];
+}
+
+function measure(doc: Pdf, text: string, style: TextStyle): number {
+  return doc.font(style.font).fontSize(style.size).widthOfString(text);
+}
+
+function fitText(doc: Pdf, text: string, maxWidth: number): string {
+  if (doc.widthOfString(text) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted && doc.widthOfString(`${fitted}…`) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+function fontFamilyOf(fontFamily: string): string {
+  if (MONO_FONTS.test(fontFamily)) {
+    return "mono";
+  }
+  return SANS_FONTS.test(fontFamily) ? "sans" : "serif";
+}
+
+function fontSizeOf(value: unknown, fallback: number): number {
+  return typeof value === "number" && value > 0 ? value : fallback;
+}
+
+function marginOf(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 0 ? value : fallback;
+}
+
+/**
+ * Replace characters the standard fonts cannot encode
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, (char) => {
+    if (WIN_ANSI_EXTRAS.includes(char)) {
+      return char;
+    }
+    return char === "‑" ? "-" : "?";
+  });
+}
+
+function firstHeadingText(content: any[]): string {
+  const heading = content.find((node) => node.type === "heading");
+  return (heading?.content || [])
+    .map((node: any) => (node.type === "text" ? node.text : " "))
+    .join("")
+    .trim();
+}
+
+/**
+ * Decode a PNG or JPEG data URL with its pixel size; other sources cannot
+ * be embedded, since the server does not fetch images
+ */
+function decodeImage(
+  src: unknown
+): { data: Buffer; width: number; height: number } | null {
+  const match =
+    typeof src === "string" &&
+    src.match(/^data:image\/(png|jpe?g);base64,([a-z0-9+/=\s]+)$/i);
+  if (!match) {
+    return null;
+  }
+  const data = Buffer.from(match[2], "base64");
+  const size =
+    match[1].toLowerCase() === "png" ? pngSize(data) : jpegSize(data);
+  return size && size.width > 0 && size.height > 0 ? { data, ...size } : null;
+}
+
+function pngSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 24 || data.toString("latin1", 12, 16) !== "IHDR") {
+    return null;
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function jpegSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  for (let offset = 2; offset + 9 < data.length;) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    // Start of frame markers hold the image size
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marker)
+    ) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
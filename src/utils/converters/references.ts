@@ -0,0 +1,102 @@
+// A heading's place in the outline, e.g. "4.2" for the second heading under
+// the fourth top-level one
+export interface HeadingNumber {
+  id: string | null;
+  level: number;
+  number: string;
+}
+
+// TipTap JSON prepared for export, with the footnotes in document order
+export interface ResolvedReferences {
+  json: any;
+  footnotes: string[];
+}
+
+/**
+ * Number the headings of TipTap JSON in document order
+ * A heading is numbered under the closest earlier heading of a higher level,
+ * so a skipped level does not leave a gap ("1.1" under "1", not "1.0.1")
+ */
+export function numberHeadings(tiptapJson: any): HeadingNumber[] {
+  const numbers: HeadingNumber[] = [];
+  // Innermost open heading last, with the number of headings under it
+  const open: Array<{ level: number; number: string; children: number }> = [];
+  let topLevel = 0;
+
+  visit(tiptapJson, (node) => {
+    if (node.type !== "heading") {
+      return;
+    }
+
+    const level = Number(node.attrs?.level) || 1;
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      open.pop();
+    }
+    const parent = open[open.length - 1];
+    const number = parent
+      ? `${parent.number}.${++parent.children}`
+      : String(++topLevel);
+    open.push({ level, number, children: 0 });
+
+    const id = node.attrs?.id;
+    numbers.push({
+      id: typeof id === "string" && id.length > 0 ? id : null,
+      level,
+      number,
+    });
+  });
+
+  return numbers;
+}
+
+/**
+ * Text a cross-reference shows: its target heading's current number, or a
+ * placeholder when no heading has the target ID
+ */
+export function crossReferenceText(number: string | undefined): string {
+  return number ? `Section ${number}` : "[missing reference]";
+}
+
+/**
+ * Number footnotes and resolve cross-references of TipTap JSON for export
+ * Returns a copy in which each footnote has its `number` and each
+ * cross-reference the `text` it shows, with the footnote texts in order
+ */
+export function resolveReferences(tiptapJson: any): ResolvedReferences {
+  const json = structuredClone(tiptapJson);
+  const sections = new Map<string, string>();
+  for (const heading of numberHeadings(json)) {
+    // The first heading with an ID is the target of references to it
+    if (heading.id !== null && !sections.has(heading.id)) {
+      sections.set(heading.id, heading.number);
+    }
+  }
+
+  const footnotes: string[] = [];
+  visit(json, (node) => {
+    if (node.type === "footnote") {
+      footnotes.push(String(node.attrs?.text ?? ""));
+      node.attrs = { ...node.attrs, number: footnotes.length };
+    } else if (node.type === "crossReference") {
+      node.attrs = {
+        ...node.attrs,
+        text: crossReferenceText(sections.get(node.attrs?.target)),
+      };
+    }
+  });
+
+  return { json, footnotes };
+}
+
+/**
+ * Call a function for a node and its descendants, in document order
+ */
+function visit(node: any, callback: (node: any) => void): void {
+  if (!node || typeof node !== "object") {
+    return;
+  }
+  callback(node);
+  if (Array.isArray(node.content)) {
+    node.content.forEach((child: any) => visit(child, callback));
+  }
+}
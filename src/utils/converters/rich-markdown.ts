@@ -0,0 +1,235 @@
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+import { schema, parseFieldValue } from "../ydoc/schema";
+import { CommentThread } from "../../types";
+
+/**
+ * Options shared by the markdown converters
+ */
+export interface MarkdownOptions {
+  // Rich markdown: block typography (alignment, font, margins) is written as
+  // a trailing attribute block, e.g. "# Title {align=center font-size=14}"
+  rich?: boolean;
+  // When writing, comment threads to include as CriticMarkup highlights
+  // followed by their comments, e.g. "{==text==}{>>Ann: Why?<<}"
+  comments?: CommentThread[];
+}
+
+// Attribute block keys and the node attributes they hold
+const BLOCK_ATTRIBUTES: Record<string, string> = {
+  align: "textAlign",
+  "font-family": "fontFamily",
+  "font-size": "fontSize",
+  "margin-top": "marginTop",
+  "margin-bottom": "marginBottom",
+};
+
+const TEXT_ALIGNMENTS = ["left", "center", "right", "justify"];
+
+// Attributes of a field written as "{{field name=... type=... value=...}}"
+const FIELD_ATTRIBUTES = ["name", "type", "value"];
+
+// Opening tokens whose inline content can end with an attribute block, and
+// the node the attributes belong to (a table cell's paragraph)
+const ATTRIBUTE_BLOCK_TOKENS: Record<string, string> = {
+  paragraph_open: "paragraph",
+  heading_open: "heading",
+  th_open: "paragraph",
+  td_open: "paragraph",
+};
+
+// "{key=value ...}" ending a block's text, after whitespace or on its own
+const ATTRIBUTE_BLOCK = /(^|[ \t])\{([^{}\n]*)\}[ \t]*$/;
+const ATTRIBUTE = /([a-z-]+)=("(?:[^"\\]|\\.)*"|[^\s"]+)/g;
+
+/**
+ * Format the typography attributes of a paragraph or heading that differ
+ * from the schema defaults as an attribute block, or "" when there are none
+ */
+export function formatAttributeBlock(
+  node: any,
+  exclude: string[] = []
+): string {
+  const specs = schema.nodes[node.type]?.spec.attrs || {};
+
+  const parts = Object.entries(BLOCK_ATTRIBUTES).flatMap(([key, attr]) => {
+    const value = node.attrs?.[attr];
+    if (
+      !(attr in specs) ||
+      exclude.includes(attr) ||
+      value === undefined ||
+      value === null ||
+      value === specs[attr].default
+    ) {
+      return [];
+    }
+    return [`${key}=${formatValue(value)}`];
+  });
+
+  return parts.length > 0 ? `{${parts.join(" ")}}` : "";
+}
+
+/**
+ * Append a node's attribute block to its markdown text
+ * Text that already ends like an attribute block has its brace escaped, so
+ * it is not read back as one
+ */
+export function appendAttributeBlock(
+  text: string,
+  node: any,
+  exclude: string[] = []
+): string {
+  const escaped = text.replace(
+    /(^|[ \t])\{([^{}\n]*\}[ \t]*)$/,
+    (_, space, rest) => `${space}\\{${rest}`
+  );
+  const block = formatAttributeBlock(node, exclude);
+
+  if (!block) {
+    return escaped;
+  }
+  return escaped ? `${escaped} ${block}` : block;
+}
+
+/**
+ * Split a trailing attribute block off a block's markdown text
+ * Returns null when the text does not end with a valid attribute block
+ */
+export function parseAttributeBlock(
+  text: string
+): { text: string; attrs: Record<string, string | number> } | null {
+  const match = text.match(ATTRIBUTE_BLOCK);
+  if (!match || !match[2].trim()) {
+    return null;
+  }
+
+  const attrs: Record<string, string | number> = {};
+  const body = match[2];
+  for (const [, key, raw] of body.matchAll(ATTRIBUTE)) {
+    const attr = BLOCK_ATTRIBUTES[key];
+    const value = parseValue(raw);
+    if (
+      !attr ||
+      (attr === "textAlign" && !TEXT_ALIGNMENTS.includes(`${value}`))
+    ) {
+      return null;
+    }
+    attrs[attr] = value;
+  }
+
+  // Anything but attributes inside the braces makes it plain text
+  if (body.replace(ATTRIBUTE, "").trim()) {
+    return null;
+  }
+
+  return { text: text.slice(0, match.index).trimEnd(), attrs };
+}
+
+/**
+ * markdown-it core rule reading attribute blocks off paragraphs, headings and
+ * table cells, before their inline content is parsed
+ * Only runs for rich markdown (env.rich); the attributes the node supports
+ * are left on the opening token's meta
+ */
+export function attributeBlocks(state: StateCore): void {
+  if (!state.env?.rich) {
+    return;
+  }
+
+  state.tokens.forEach((token, index) => {
+    const opening = state.tokens[index - 1];
+    const nodeType = opening && ATTRIBUTE_BLOCK_TOKENS[opening.type];
+    if (token.type !== "inline" || !nodeType) {
+      return;
+    }
+
+    const parsed = parseAttributeBlock(token.content);
+    if (!parsed) {
+      return;
+    }
+
+    const specs = schema.nodes[nodeType].spec.attrs || {};
+    token.content = parsed.text;
+    opening.meta = {
+      ...opening.meta,
+      attributes: Object.fromEntries(
+        Object.entries(parsed.attrs).filter(([attr]) => attr in specs)
+      ),
+    };
+  });
+}
+
+/**
+ * Format a field node as "{{field name=... type=... value=...}}"
+ * The type is omitted for text fields and the value while blank
+ */
+export function formatField(attrs: Record<string, any>): string {
+  const parts = [`name=${formatValue(attrs.name ?? "")}`];
+  if (attrs.type && attrs.type !== "text") {
+    parts.push(`type=${formatValue(attrs.type)}`);
+  }
+  if (attrs.value !== null && attrs.value !== undefined) {
+    parts.push(`value=${formatValue(attrs.value)}`);
+  }
+  return `{{field ${parts.join(" ")}}}`;
+}
+
+/**
+ * Parse the attributes of a field written as "{{field ...}}", or null when
+ * they are not valid field attributes
+ */
+export function parseField(body: string): Record<string, any> | null {
+  const raw: Record<string, string> = {};
+  for (const [, key, value] of body.matchAll(ATTRIBUTE)) {
+    if (!FIELD_ATTRIBUTES.includes(key)) {
+      return null;
+    }
+    raw[key] = value.startsWith('"') ? String(parseValue(value)) : value;
+  }
+  if (body.replace(ATTRIBUTE, "").trim() || !raw.name) {
+    return null;
+  }
+
+  const type = raw.type || "text";
+  const value = parseFieldValue(type, raw.value ?? null);
+  return { name: raw.name, type, ...(value !== null && { value }) };
+}
+
+/**
+ * Format a cross-reference node as "{{ref target=...}}"
+ */
+export function formatCrossReference(attrs: Record<string, any>): string {
+  return `{{ref target=${formatValue(attrs.target ?? "")}}}`;
+}
+
+/**
+ * Parse the attributes of a cross-reference written as "{{ref ...}}", or
+ * null when they are not valid cross-reference attributes
+ */
+export function parseCrossReference(body: string): Record<string, any> | null {
+  const matches = Array.from(body.matchAll(ATTRIBUTE));
+  if (
+    matches.length !== 1 ||
+    matches[0][1] !== "target" ||
+    body.replace(ATTRIBUTE, "").trim()
+  ) {
+    return null;
+  }
+
+  const raw = matches[0][2];
+  const target = raw.startsWith('"') ? String(parseValue(raw)) : raw;
+  return target ? { target } : null;
+}
+
+function formatValue(value: string | number): string {
+  const text = String(value);
+  return /^[^\s"{}\\]+$/.test(text)
+    ? text
+    : `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+function parseValue(raw: string): string | number {
+  if (raw.startsWith('"')) {
+    return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw;
+}
@@ -1,108 +1,274 @@
-export function tiptapJsonToMarkdown(tiptapJson: any): string {
+import { tiptapNodesToHtml } from "./html";
+import { schema } from "../ydoc/schema";
+import {
+  appendAttributeBlock,
+  formatCrossReference,
+  formatField,
+  MarkdownOptions,
+} from "./rich-markdown";
+import { overlayComments } from "./comments";
+import { resolveReferences } from "./references";
+import { CommentThread } from "../../types";
+
+// Hard breaks inside paragraphs; headings and table cells are single-line,
+// so they use <br> instead
+const HARD_BREAK = "\\\n";
+const HTML_HARD_BREAK = "<br>";
+
+// Nesting order of marks that open together, outermost first: suggestions
+// wrap everything else, then the schema's own order
+const MARK_ORDER = [
+  "insertion",
+  "deletion",
+  ...Object.keys(schema.marks).filter(
+    (type) => type !== "insertion" && type !== "deletion"
+  ),
+];
+
+// HTML tags for emphasis whose markdown delimiters would not be read as such
+const HTML_EMPHASIS: Record<string, [string, string]> = {
+  bold: ["<strong>", "</strong>"],
+  italic: ["<em>", "</em>"],
+  strike: ["<s>", "</s>"],
+};
+
+// Delimiter row cell of a pipe table column, by column alignment
+const PIPE_TABLE_DELIMITERS: Record<string, string> = {
+  none: "---",
+  left: ":---",
+  center: ":---:",
+  right: "---:",
+};
+
+/**
+ * Convert TipTap JSON to markdown
+ * With `rich`, block typography is written as trailing attribute blocks
+ * Footnotes are numbered in document order, their definitions following the
+ * document, e.g. "[^1]" and "[^1]: Or within 30 days."
+ */
+export function tiptapJsonToMarkdown(
+  tiptapJson: any,
+  options: MarkdownOptions = {}
+): string {
   if (!tiptapJson || !tiptapJson.content) {
     return "";
   }
 
-  return processContent(tiptapJson.content);
+  if (options.comments) {
+    // The comments are written after the highlight, from its mark
+    tiptapJson = overlayComments(tiptapJson, options.comments, (thread) => ({
+      threadId: thread.id,
+      notes: formatCommentNotes(thread),
+    }));
+  }
+
+  const { json, footnotes } = resolveReferences(tiptapJson);
+  const markdown = processContent(json.content, options);
+  if (footnotes.length === 0) {
+    return markdown;
+  }
+
+  // A definition is one line
+  const definitions = footnotes.map(
+    (text, index) =>
+      `[^${index + 1}]: ${escapeMarkdown(text.replace(/\s+/g, " ").trim(), false)}`
+  );
+  return `${markdown}${definitions.join("\n")}\n`;
+}
+
+/**
+ * CriticMarkup comments of a thread, one per comment
+ */
+function formatCommentNotes(thread: CommentThread): string {
+  return thread.comments
+    .map((comment) => {
+      const author =
+        comment.author.name || comment.author.email || comment.author.id;
+      // A comment is one line and cannot end the markup early
+      const body = comment.body.replace(/\s+/g, " ").replace(/<<\}/g, "<< }");
+      return `{>>${author}: ${body}<<}`;
+    })
+    .join("");
 }
 
 /**
  * Process an array of content nodes and convert them to markdown
  */
-function processContent(content: any[]): string {
+function processContent(content: any[], options: MarkdownOptions): string {
   if (!Array.isArray(content)) {
     return "";
   }
 
-  return content.map((node) => processNode(node)).join("");
+  let sameTypeRun = 0;
+  return content
+    .map((node, index) => {
+      // Lists in a row of one type alternate their markers to stay apart
+      sameTypeRun =
+        index > 0 && content[index - 1]?.type === node?.type
+          ? sameTypeRun + 1
+          : 0;
+      return processNode(node, options, sameTypeRun % 2 === 1);
+    })
+    .join("");
 }
 
 /**
  * Process a single node and convert it to markdown
  */
-function processNode(node: any): string {
+function processNode(
+  node: any,
+  options: MarkdownOptions = {},
+  alternateMarker = false
+): string {
   if (!node || !node.type) {
     return "";
   }
 
   switch (node.type) {
     case "doc":
-      return processContent(node.content || []);
+      return processContent(node.content || [], options);
 
     case "paragraph":
-      const paragraphContent = processContent(node.content || []);
+      let paragraphContent = processInline(node.content || []);
+      if (options.rich) {
+        paragraphContent = appendAttributeBlock(paragraphContent, node);
+      }
       return paragraphContent.trim() ? `${paragraphContent}\n\n` : "\n";
 
     case "heading":
       const level = node.attrs?.level || 1;
-      const headingContent = processContent(node.content || []);
+      let headingContent = processInline(node.content || [], HTML_HARD_BREAK);
+      if (options.rich) {
+        headingContent = appendAttributeBlock(headingContent, node);
+      }
       return `${"#".repeat(level)} ${headingContent}\n\n`;
 
     case "codeBlock":
       const language = node.attrs?.language || "";
-      const codeContent = processContent(node.content || []);
-      return `\`\`\`${language}\n${codeContent.trimEnd()}\n\`\`\`\n\n`;
+      // Code is written verbatim, without escaping
+      const codeContent = (node.content || [])
+        .map((child: any) => child.text || "")
+        .join("");
+      const fence = codeFence(codeContent, language);
+      return `${fence}${language}\n${codeContent.trimEnd()}\n${fence}\n\n`;
 
     case "bulletList":
-      return processListItems(node.content || [], "bullet", 0);
-
     case "orderedList":
-      return processListItems(node.content || [], "ordered", 0);
+      return processListItems(
+        node.content || [],
+        node.type === "bulletList" ? "bullet" : "ordered",
+        0,
+        options,
+        "",
+        alternateMarker
+      );
 
     case "listItem":
-      return processContent(node.content || []);
+      return processContent(node.content || [], options);
+
+    case "table":
+      return processTable(node, options);
+
+    case "blockquote":
+      const quoteContent = processContent(
+        node.content || [],
+        options
+      ).trimEnd();
+      return `${prefixLines(quoteContent, "> ")}\n\n`;
+
+    case "horizontalRule":
+      return "---\n\n";
+
+    case "image":
+    case "field":
+    case "footnote":
+    case "crossReference":
+      return processInline([node]);
+
+    case "hardBreak":
+      return HARD_BREAK;
 
     case "text":
-      return processTextNode(node);
+      return processInline([node]);
 
     default:
       // For unknown node types, try to process their content
-      return processContent(node.content || []);
+      return processContent(node.content || [], options);
   }
 }
 
 /**
  * Process list items with proper indentation
+ * A list right after another of its type uses the alternate marker ("*" or
+ * ")"), since markdown would otherwise continue the previous list
  */
 function processListItems(
   items: any[],
   listType: "bullet" | "ordered",
-  depth: number
+  depth: number,
+  options: MarkdownOptions,
+  indent = "",
+  alternateMarker = false
 ): string {
   if (!Array.isArray(items)) {
     return "";
   }
 
-  const indent = "  ".repeat(depth);
   let result = "";
 
   items.forEach((item, index) => {
     if (item.type === "listItem") {
       const content = item.content || [];
+      const marker =
+        listType === "bullet"
+          ? alternateMarker
+            ? "*"
+            : "-"
+          : `${index + 1}${alternateMarker ? ")" : "."}`;
+      // Nested blocks are indented past the marker
+      const childIndent = indent + " ".repeat(marker.length + 1);
       let itemContent = "";
 
       content.forEach((contentNode: any) => {
         if (contentNode.type === "paragraph") {
-          const paragraphText = processContent(
-            contentNode.content || []
-          ).trim();
+          let paragraphText = processInline(contentNode.content || []).trim();
+          if (options.rich) {
+            paragraphText = appendAttributeBlock(paragraphText, contentNode);
+          }
           if (paragraphText) {
             itemContent += paragraphText;
           }
         } else if (contentNode.type === "bulletList") {
           itemContent +=
             "\n" +
-            processListItems(contentNode.content || [], "bullet", depth + 1);
+            processListItems(
+              contentNode.content || [],
+              "bullet",
+              depth + 1,
+              options,
+              childIndent
+            );
         } else if (contentNode.type === "orderedList") {
           itemContent +=
             "\n" +
-            processListItems(contentNode.content || [], "ordered", depth + 1);
+            processListItems(
+              contentNode.content || [],
+              "ordered",
+              depth + 1,
+              options,
+              childIndent
+            );
         } else {
-          itemContent += processNode(contentNode);
+          // Other blocks (blockquotes, code) continue the item
+          itemContent +=
+            "\n" +
+            prefixLines(
+              processNode(contentNode, options).trimEnd(),
+              childIndent
+            );
         }
       });
 
-      const marker = listType === "bullet" ? "-" : `${index + 1}.`;
       result += `${indent}${marker} ${itemContent}\n`;
     }
   });
@@ -111,73 +277,563 @@ function processListItems(
 }
 
 /**
- * Process a text node with its marks (formatting)
+ * Process a table as a GFM pipe table, falling back to an HTML table when
+ * GFM cannot express it (merged or multi-block cells, no header row, or
+ * cells of one column aligned differently)
+ */
+function processTable(node: any, options: MarkdownOptions): string {
+  const rows: any[] = node.content || [];
+  const alignments = getPipeTableAlignments(rows);
+
+  if (!alignments) {
+    const html = tiptapNodesToHtml([node])
+      .replace(/<tr>/g, "\n<tr>")
+      .replace(/<\/tbody>/g, "\n</tbody>");
+    return `${html}\n\n`;
+  }
+
+  const formatCell = (cell: any) => {
+    const paragraph = cell.content?.[0];
+    let text = processInline(paragraph?.content || [], HTML_HARD_BREAK).trim();
+    // Alignment is the column's, in the delimiter row
+    if (options.rich && paragraph) {
+      text = appendAttributeBlock(text, paragraph, ["textAlign"]);
+    }
+    return text.replace(/\n/g, " ").replace(/\|/g, "\\|");
+  };
+
+  const formatRow = (row: any) =>
+    `| ${row.content.map(formatCell).join(" | ")} |`;
+
+  const delimiter = `| ${alignments
+    .map((alignment) => PIPE_TABLE_DELIMITERS[alignment ?? "none"])
+    .join(" | ")} |`;
+
+  const lines = [
+    formatRow(rows[0]),
+    delimiter,
+    ...rows.slice(1).map(formatRow),
+  ];
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Get the column alignments of a table that can be written as a pipe table,
+ * or null when it needs the HTML fallback
  */
-function processTextNode(node: any): string {
-  if (!node.text) {
+function getPipeTableAlignments(rows: any[]): Array<string | null> | null {
+  const columns = rows[0]?.content?.length || 0;
+  if (columns === 0) {
+    return null;
+  }
+
+  const alignments: Array<string | null | undefined> = new Array(columns);
+
+  for (let r = 0; r < rows.length; r++) {
+    const cells: any[] = rows[r].content || [];
+    if (rows[r].type !== "tableRow" || cells.length !== columns) {
+      return null;
+    }
+
+    for (let c = 0; c < columns; c++) {
+      const cell = cells[c];
+      const blocks: any[] = cell.content || [];
+
+      if (
+        cell.type !== (r === 0 ? "tableHeader" : "tableCell") ||
+        (cell.attrs?.colspan ?? 1) !== 1 ||
+        (cell.attrs?.rowspan ?? 1) !== 1 ||
+        blocks.length > 1 ||
+        (blocks.length === 1 && blocks[0].type !== "paragraph")
+      ) {
+        return null;
+      }
+
+      const alignment = blocks[0]?.attrs?.textAlign ?? null;
+      if (alignment === "justify") {
+        return null;
+      }
+      if (alignments[c] !== undefined && alignments[c] !== alignment) {
+        return null;
+      }
+      alignments[c] = alignment;
+    }
+  }
+
+  return alignments as Array<string | null>;
+}
+
+/**
+ * Process an image as ![alt](src "title")
+ */
+function processImage(node: any): string {
+  const { src, alt, title } = node.attrs || {};
+  if (!src) {
     return "";
   }
 
-  let text = node.text;
-  const marks = node.marks || [];
-
-  // Apply marks in the correct order
-  let isBold = false;
-  let isItalic = false;
-  let isCode = false;
-  let isStrike = false;
-  let isUnderline = false;
-  let linkAttrs: any = null;
-
-  marks.forEach((mark: any) => {
-    switch (mark.type) {
-      case "bold":
-        isBold = true;
-        break;
-      case "italic":
-        isItalic = true;
-        break;
-      case "code":
-        isCode = true;
-        break;
-      case "strike":
-        isStrike = true;
-        break;
-      case "underline":
-        isUnderline = true;
-        break;
-      case "link":
-        linkAttrs = mark.attrs;
-        break;
+  return `![${escapeMarkdown(alt || "", false)}](${formatDestination(src, title)})`;
+}
+
+/**
+ * Prefix every line of a block, e.g. "> " for blockquotes
+ * Blank lines only get the prefix without its trailing whitespace
+ */
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join("\n");
+}
+
+/**
+ * Process inline nodes (text, images, hard breaks) with their marks
+ * Marks are opened and closed across adjacent nodes like a stack, so a mark
+ * spanning differently formatted text is written once and nests correctly
+ */
+function processInline(content: any[], hardBreak = HARD_BREAK): string {
+  const nodes = splitWhitespace(
+    mergeTextNodes((content || []).filter((node) => node && node.type))
+  );
+  const pieces: InlinePiece[] = [];
+  const stack: ActiveMark[] = [];
+  let pendingSpace = "";
+  let atLineStart = true;
+
+  const write = (piece: InlinePiece) => {
+    // Markdown drops whitespace starting a line, e.g. after a hard break
+    if (atLineStart && !piece.markType) {
+      piece.text = piece.text.replace(/^[ \t]+/, "");
+    }
+    if (!piece.text) {
+      return;
+    }
+    pieces.push(piece);
+    atLineStart = piece.text.endsWith("\n");
+  };
+
+  const closeFrom = (depth: number) => {
+    while (stack.length > depth) {
+      const active = stack.pop()!;
+      write({
+        text: active.delimiters.close,
+        markType: active.mark.type,
+        openIndex: active.openIndex,
+      });
+    }
+  };
+
+  nodes.forEach((node, index) => {
+    const text: string = node.type === "text" ? node.text || "" : "";
+    const isCode = node.type === "text" && hasMark(node, "code");
+    const isPlainText = node.type === "text" && !isCode;
+
+    // Whitespace never opens marks, it moves outside of them; it only keeps
+    // open the marks it carries itself, so separate spans stay separate
+    const carried = getFormattingMarks(node).map(markKey);
+    const wanted =
+      isPlainText && !text.trim()
+        ? stack
+            .filter((active) => carried.includes(active.key))
+            .map((active) => active.mark)
+        : getFormattingMarks(node);
+    const wantedKeys = wanted.map(markKey);
+
+    const firstClosed = stack.findIndex(
+      (active) => !wantedKeys.includes(active.key)
+    );
+    if (firstClosed !== -1) {
+      closeFrom(firstClosed);
+    }
+    if (pendingSpace) {
+      write({ text: pendingSpace });
+      pendingSpace = "";
+    }
+
+    // Marks running longest are opened first, so they enclose shorter ones;
+    // none runs past the open marks enclosing it, which close it with them
+    const openKeys = stack.map((active) => active.key);
+    const enclosing = Math.min(
+      Infinity,
+      ...stack.map((active) => getMarkRunLength(nodes, index, active.mark))
+    );
+    const toOpen = wanted
+      .filter((mark) => !openKeys.includes(markKey(mark)))
+      .map((mark) => ({
+        mark,
+        length: Math.min(enclosing, getMarkRunLength(nodes, index, mark)),
+      }))
+      .sort(
+        (a, b) => b.length - a.length || markRank(a.mark) - markRank(b.mark)
+      );
+
+    // Surrounding whitespace is written outside of opening and closing
+    // delimiters, since "** bold **" is not bold in markdown
+    let core = text;
+    if (isPlainText) {
+      const [, leading, middle, trailing] = text.match(
+        /^(\s*)([\s\S]*?)(\s*)$/
+      )!;
+      if (!middle) {
+        core = "";
+        pendingSpace = leading;
+      } else {
+        if (toOpen.length > 0) {
+          write({ text: leading });
+          core = middle;
+        } else {
+          core = leading + middle;
+        }
+        pendingSpace = trailing;
+      }
+    }
+
+    for (const { mark } of toOpen) {
+      const delimiters = getMarkDelimiters(mark)!;
+      stack.push({
+        key: markKey(mark),
+        mark,
+        delimiters,
+        openIndex: pieces.length,
+      });
+      write({ text: delimiters.open, markType: mark.type });
+    }
+
+    if (isPlainText) {
+      write({ text: escapeMarkdown(core, atLineStart) });
+    } else if (isCode) {
+      write({ text: codeSpan(text) });
+    } else if (node.type === "hardBreak") {
+      write({ text: hardBreak });
+    } else if (node.type === "image") {
+      write({ text: processImage(node) });
+    } else if (node.type === "field") {
+      write({ text: formatField(node.attrs || {}) });
+    } else if (node.type === "footnote") {
+      write({ text: `[^${node.attrs?.number}]` });
+    } else if (node.type === "crossReference") {
+      write({ text: formatCrossReference(node.attrs || {}) });
+    } else {
+      write({ text: processNode(node) });
     }
   });
 
-  // Apply formatting in reverse order of parsing precedence
-  if (isCode) {
-    text = `\`${text}\``;
-  } else {
-    if (isBold && isItalic) {
-      text = `***${text}***`;
-    } else if (isBold) {
-      text = `**${text}**`;
-    } else if (isItalic) {
-      text = `*${text}*`;
+  // Trailing whitespace is dropped, as markdown does at the end of a block
+  closeFrom(0);
+
+  // A "*" closing right before a "*" opening reads as one delimiter run, so
+  // the italic span of the two is written with "_" instead
+  pieces.forEach((piece, index) => {
+    const next = pieces[index + 1];
+    if (
+      piece.openIndex === undefined ||
+      !piece.text.startsWith("*") ||
+      !next?.markType ||
+      next.openIndex !== undefined ||
+      !next.text.startsWith("*")
+    ) {
+      return;
     }
 
-    if (isStrike) {
-      text = `~~${text}~~`;
+    const italicClose =
+      piece.markType === "italic"
+        ? piece
+        : next.markType === "italic"
+          ? pieces.find((close) => close.openIndex === index + 1)
+          : undefined;
+    if (italicClose) {
+      italicClose.text = "_";
+      pieces[italicClose.openIndex!].text = "_";
     }
+  });
 
-    if (isUnderline) {
-      text = `<u>${text}</u>`;
+  useHtmlWhereNotFlanking(pieces);
+
+  return pieces.map((piece) => piece.text).join("");
+}
+
+/**
+ * Switch emphasis to its HTML tags where markdown would not read the
+ * delimiters as emphasis, e.g. "**" closing after punctuation right before
+ * a letter ("**(a)**b")
+ */
+function useHtmlWhereNotFlanking(pieces: InlinePiece[]): void {
+  const isDelimiterRun = (piece: InlinePiece) =>
+    !!piece.markType && /^[*_~]/.test(piece.text);
+  const charBefore = (index: number) => {
+    for (let i = index - 1; i >= 0; i--) {
+      if (pieces[i].text && !isDelimiterRun(pieces[i])) {
+        return pieces[i].text.slice(-1);
+      }
+    }
+    return "";
+  };
+  const charAfter = (index: number) => {
+    for (let i = index + 1; i < pieces.length; i++) {
+      if (pieces[i].text && !isDelimiterRun(pieces[i])) {
+        return pieces[i].text[0];
+      }
     }
+    return "";
+  };
+  const isSpace = (char: string) => !char || /\s/.test(char);
+  const isPunctuation = (char: string) => /[\p{P}\p{S}]/u.test(char);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    pieces.forEach((close, index) => {
+      const tags = close.markType && HTML_EMPHASIS[close.markType];
+      if (!tags || close.openIndex === undefined || !isDelimiterRun(close)) {
+        return;
+      }
+
+      const open = pieces[close.openIndex];
+      const [beforeOpen, afterOpen] = [
+        charBefore(close.openIndex),
+        charAfter(close.openIndex),
+      ];
+      const [beforeClose, afterClose] = [charBefore(index), charAfter(index)];
+      const opens =
+        !isSpace(afterOpen) &&
+        (!isPunctuation(afterOpen) ||
+          isSpace(beforeOpen) ||
+          isPunctuation(beforeOpen));
+      const closes =
+        !isSpace(beforeClose) &&
+        (!isPunctuation(beforeClose) ||
+          isSpace(afterClose) ||
+          isPunctuation(afterClose));
+
+      if (!opens || !closes) {
+        [open.text, close.text] = tags;
+        changed = true;
+      }
+    });
   }
+}
+
+/**
+ * Join adjacent text nodes with the same marks, so code is written as one
+ * span rather than back-to-back backtick fences
+ */
+function mergeTextNodes(nodes: any[]): any[] {
+  const marksKey = (node: any) =>
+    (node.marks || []).map(markKey).sort().join("|");
+
+  return nodes.reduce((merged: any[], node) => {
+    const previous = merged[merged.length - 1];
+    if (
+      node.type === "text" &&
+      previous?.type === "text" &&
+      marksKey(previous) === marksKey(node)
+    ) {
+      merged[merged.length - 1] = {
+        ...previous,
+        text: (previous.text || "") + (node.text || ""),
+      };
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Split whitespace off the ends of text nodes, keeping only the marks the
+ * node across it shares: markdown cannot open or close a mark on whitespace,
+ * so the text reads back the same however the whitespace was marked
+ */
+function splitWhitespace(nodes: any[]): any[] {
+  const shared = (node: any, ...neighbours: any[]) =>
+    (node.marks || []).filter((mark: any) =>
+      neighbours.every((neighbour) =>
+        (neighbour?.marks || []).map(markKey).includes(markKey(mark))
+      )
+    );
+  const withMarks = (node: any, text: string, marks: any[]) => {
+    const { marks: _marks, ...rest } = node;
+    return { ...rest, text, ...(marks.length > 0 && { marks }) };
+  };
+
+  const split = nodes.flatMap((node, index) => {
+    if (node.type !== "text" || hasMark(node, "code") || !node.marks?.length) {
+      return [node];
+    }
+    const previous = nodes[index - 1];
+    const next = nodes[index + 1];
+    const [, leading, middle, trailing] = String(node.text).match(
+      /^(\s*)([\s\S]*?)(\s*)$/
+    )!;
+    if (!middle) {
+      return [withMarks(node, leading, shared(node, previous, next))];
+    }
+    return [
+      withMarks(node, leading, shared(node, previous)),
+      { ...node, text: middle },
+      withMarks(node, trailing, shared(node, next)),
+    ].filter((piece) => piece.text);
+  });
+
+  return mergeTextNodes(split);
+}
+
+interface InlinePiece {
+  text: string;
+  // Set on mark delimiters
+  markType?: string;
+  // Set on closing delimiters: index of the matching opening delimiter
+  openIndex?: number;
+}
 
-  if (linkAttrs && linkAttrs.href) {
-    // Extract the original text without formatting for the link text
-    const linkText = node.text;
-    text = `[${linkText}](${linkAttrs.href})`;
+interface ActiveMark {
+  key: string;
+  mark: any;
+  delimiters: { open: string; close: string };
+  openIndex: number;
+}
+
+/**
+ * Markdown (or inline HTML) delimiters of a mark
+ * Returns null for marks markdown cannot express, which are dropped
+ */
+function getMarkDelimiters(mark: any): { open: string; close: string } | null {
+  const attrs = mark.attrs || {};
+
+  switch (mark.type) {
+    case "bold":
+      return { open: "**", close: "**" };
+    case "italic":
+      return { open: "*", close: "*" };
+    case "strike":
+    case "strikethrough":
+      return { open: "~~", close: "~~" };
+    case "underline":
+      return { open: "<u>", close: "</u>" };
+    case "subscript":
+      return { open: "<sub>", close: "</sub>" };
+    case "superscript":
+      return { open: "<sup>", close: "</sup>" };
+    case "highlight":
+      return {
+        open: attrs.color
+          ? `<mark style="background-color: ${attrs.color}">`
+          : "<mark>",
+        close: "</mark>",
+      };
+    case "textStyle":
+      return attrs.color
+        ? { open: `<span style="color: ${attrs.color}">`, close: "</span>" }
+        : null;
+    case "link":
+      return attrs.href
+        ? {
+            open: "[",
+            close: `](${formatDestination(attrs.href, attrs.title)})`,
+          }
+        : null;
+    // Suggestions are written as CriticMarkup
+    case "insertion":
+      return { open: "{++", close: "++}" };
+    case "deletion":
+      return { open: "{--", close: "--}" };
+    // Commented text is a CriticMarkup highlight, followed by the comments
+    // added for export
+    case "comment":
+      return { open: "{==", close: `==}${attrs.notes ?? ""}` };
+    default:
+      return null;
+  }
+}
+
+function getFormattingMarks(node: any): any[] {
+  return (node.marks || []).filter(
+    (mark: any) => mark.type !== "code" && getMarkDelimiters(mark)
+  );
+}
+
+function hasMark(node: any, type: string): boolean {
+  return (node.marks || []).some((mark: any) => mark.type === type);
+}
+
+function markKey(mark: any): string {
+  return JSON.stringify([mark.type, mark.attrs || {}]);
+}
+
+function markRank(mark: any): number {
+  return MARK_ORDER.indexOf(mark.type);
+}
+
+/**
+ * Number of nodes from index on that carry the mark
+ */
+function getMarkRunLength(nodes: any[], index: number, mark: any): number {
+  const key = markKey(mark);
+  let length = 0;
+  for (let i = index; i < nodes.length; i++) {
+    if (!getFormattingMarks(nodes[i]).map(markKey).includes(key)) {
+      break;
+    }
+    length++;
   }
+  return length;
+}
+
+/**
+ * Escape characters markdown would read as syntax
+ */
+function escapeMarkdown(text: string, atLineStart: boolean): string {
+  return text
+    .replace(/[\\`*_[\]<~^]/g, "\\$&")
+    .replace(/=(?==)/g, "\\=")
+    .replace(/\{(?=\+\+|--)/g, "\\{")
+    .replace(/(?<=\+\+|--)\}/g, "\\}")
+    .replace(/\{(?=\{(field|ref)(\s|$))/g, "\\{")
+    .replace(/&(?=#?\w+;)/g, "\\&")
+    .split("\n")
+    .map((line, index) =>
+      index > 0 || atLineStart
+        ? line
+            .replace(/^(\s*)([#>+=-])/, "$1\\$2")
+            .replace(/^(\s*\d+)([.)])/, "$1\\$2")
+        : line
+    )
+    .join("\n");
+}
+
+/**
+ * Fence for a code block, longer than any fence-like run in the code
+ * An info string containing backticks needs a tilde fence
+ */
+function codeFence(code: string, language: string): string {
+  const char = language.includes("`") ? "~" : "`";
+  const longestRun = Math.max(
+    2,
+    ...(code.match(char === "`" ? /`+/g : /~+/g) || []).map((run) => run.length)
+  );
+  return char.repeat(longestRun + 1);
+}
 
-  return text;
+/**
+ * Wrap code in a backtick fence longer than any backtick run inside it
+ */
+function codeSpan(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding =
+    /^`|`$/.test(text) || (/^ [\s\S]* $/.test(text) && text.trim()) ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Link or image destination with an optional title
+ */
+function formatDestination(href: string, title?: string | null): string {
+  const destination = /[\s()<>]/.test(href) ? `<${href}>` : href;
+  return typeof title === "string" && title
+    ? `${destination} "${title.replace(/"/g, '\\"')}"`
+    : destination;
 }
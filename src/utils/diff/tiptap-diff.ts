@@ -0,0 +1,631 @@
+import { tiptapJsonToMarkdown } from "../converters/tiptap-to-json";
+
+export type DiffOperation = "equal" | "insert" | "delete";
+
+export interface InlineChange {
+  type: DiffOperation | "format";
+  text: string;
+  // Mark types on the text (new marks for format changes)
+  marks: string[];
+  // Mark types before a format change
+  previousMarks?: string[];
+}
+
+export interface BlockChange {
+  type: DiffOperation | "modify";
+  blockType: string;
+  // Container nodes the block sits in, outermost first (e.g. ["bulletList", "listItem"])
+  path: string[];
+  // Position of the block in the flattened before/after documents
+  beforeIndex?: number;
+  afterIndex?: number;
+  before?: string;
+  after?: string;
+  attrs?: {
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  };
+  inline?: InlineChange[];
+}
+
+export interface DocumentDiff {
+  summary: {
+    unchanged: number;
+    inserted: number;
+    deleted: number;
+    modified: number;
+  };
+  changes: BlockChange[];
+}
+
+interface FlatBlock {
+  type: string;
+  attrs: Record<string, unknown>;
+  path: string[];
+  // Index of the enclosing list item, used to render ordered list markers
+  listIndex: number;
+  inlines: any[];
+  text: string;
+  key: string;
+}
+
+interface InlineToken {
+  // Compared between the two sides
+  key: string;
+  // Reported in inline changes
+  text: string;
+  marks: any[];
+  markKey: string;
+}
+
+// Paired blocks must share at least this much of their words to count as modified
+const MODIFIED_BLOCK_SIMILARITY = 0.4;
+
+/**
+ * Compare two TipTap JSON documents block by block, with a word-level diff
+ * of inline content for blocks that were modified rather than replaced
+ */
+export function diffTiptapDocuments(before: any, after: any): DocumentDiff {
+  const beforeBlocks = flattenBlocks(before?.content ?? [], []);
+  const afterBlocks = flattenBlocks(after?.content ?? [], []);
+
+  const operations = diffSequences(
+    beforeBlocks.map((block) => block.key),
+    afterBlocks.map((block) => block.key)
+  );
+
+  const changes: BlockChange[] = [];
+  const summary = { unchanged: 0, inserted: 0, deleted: 0, modified: 0 };
+
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+
+  const flushGap = () => {
+    for (const change of pairGap(
+      deleted,
+      inserted,
+      beforeBlocks,
+      afterBlocks
+    )) {
+      summary[
+        change.type === "modify"
+          ? "modified"
+          : change.type === "insert"
+            ? "inserted"
+            : "deleted"
+      ]++;
+      changes.push(change);
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const [operation, beforeIndex, afterIndex] of operations) {
+    if (operation === "delete") {
+      deleted.push(beforeIndex);
+    } else if (operation === "insert") {
+      inserted.push(afterIndex);
+    } else {
+      flushGap();
+      const block = afterBlocks[afterIndex];
+      summary.unchanged++;
+      changes.push({
+        type: "equal",
+        blockType: block.type,
+        path: block.path,
+        beforeIndex,
+        afterIndex,
+        after: block.text,
+      });
+    }
+  }
+  flushGap();
+
+  return { summary, changes };
+}
+
+/**
+ * Render a diff as markdown with CriticMarkup redlines:
+ * {++inserted++}, {--deleted--} and {==reformatted==}{>>note<<}
+ */
+export function diffToRedlineMarkdown(
+  diff: DocumentDiff,
+  before: any,
+  after: any
+): string {
+  const beforeBlocks = flattenBlocks(before?.content ?? [], []);
+  const afterBlocks = flattenBlocks(after?.content ?? [], []);
+
+  return diff.changes
+    .map((change) => {
+      if (change.type === "equal") {
+        const block = afterBlocks[change.afterIndex!];
+        return renderBlock(block, renderInline(block.inlines));
+      }
+
+      if (change.type === "insert") {
+        const block = afterBlocks[change.afterIndex!];
+        return renderBlock(block, wrap("++", renderInline(block.inlines)));
+      }
+
+      if (change.type === "delete") {
+        const block = beforeBlocks[change.beforeIndex!];
+        return renderBlock(block, wrap("--", renderInline(block.inlines)));
+      }
+
+      const block = afterBlocks[change.afterIndex!];
+      let content = renderInlineChanges(change.inline ?? []);
+
+      if (change.attrs) {
+        content += `{>>${describeAttrChange(change.attrs)}<<}`;
+      }
+
+      return renderBlock(block, content);
+    })
+    .join("");
+}
+
+/**
+ * Flatten a TipTap tree into its text blocks, remembering the containers
+ * (lists, list items, blockquotes, tables) each one is nested in
+ */
+function flattenBlocks(
+  nodes: any[],
+  path: string[],
+  listIndex: number = 0
+): FlatBlock[] {
+  const blocks: FlatBlock[] = [];
+
+  nodes.forEach((node, index) => {
+    if (!node || !node.type) {
+      return;
+    }
+
+    const children: any[] = node.content ?? [];
+    const isTextBlock =
+      children.length === 0
+        ? !isContainer(node.type)
+        : children.every((child) => isInline(child));
+
+    if (isTextBlock) {
+      const attrs = { ...(node.attrs ?? {}) };
+      const text = children.map((child) => child.text ?? "").join("");
+      blocks.push({
+        type: node.type,
+        attrs,
+        path,
+        listIndex,
+        inlines: children,
+        text,
+        key: JSON.stringify([path, node.type, attrs, children]),
+      });
+      return;
+    }
+
+    blocks.push(
+      ...flattenBlocks(
+        children,
+        [...path, node.type],
+        node.type === "listItem" ? index : listIndex
+      )
+    );
+  });
+
+  return blocks;
+}
+
+function isInline(node: any): boolean {
+  return ["text", "hardBreak", "image", "mention"].includes(node?.type);
+}
+
+function isContainer(type: string): boolean {
+  return [
+    "bulletList",
+    "orderedList",
+    "taskList",
+    "listItem",
+    "taskItem",
+    "blockquote",
+    "table",
+    "tableRow",
+    "tableCell",
+    "tableHeader",
+  ].includes(type);
+}
+
+/**
+ * Turn a run of deleted and inserted blocks between two unchanged blocks
+ * into changes, pairing similar blocks of the same kind as modifications
+ */
+function pairGap(
+  deleted: number[],
+  inserted: number[],
+  beforeBlocks: FlatBlock[],
+  afterBlocks: FlatBlock[]
+): BlockChange[] {
+  const changes: BlockChange[] = [];
+  let insertCursor = 0;
+
+  for (const beforeIndex of deleted) {
+    const before = beforeBlocks[beforeIndex];
+
+    const matchOffset = inserted
+      .slice(insertCursor)
+      .findIndex(
+        (afterIndex) =>
+          isSameKind(before, afterBlocks[afterIndex]) &&
+          similarity(before.text, afterBlocks[afterIndex].text) >=
+            MODIFIED_BLOCK_SIMILARITY
+      );
+
+    if (matchOffset === -1) {
+      changes.push({
+        type: "delete",
+        blockType: before.type,
+        path: before.path,
+        beforeIndex,
+        before: before.text,
+      });
+      continue;
+    }
+
+    // Blocks inserted ahead of the matching one come first
+    for (const afterIndex of inserted.slice(
+      insertCursor,
+      insertCursor + matchOffset
+    )) {
+      changes.push(insertChange(afterBlocks[afterIndex], afterIndex));
+    }
+
+    const afterIndex = inserted[insertCursor + matchOffset];
+    changes.push(
+      modifyChange(before, beforeIndex, afterBlocks[afterIndex], afterIndex)
+    );
+    insertCursor += matchOffset + 1;
+  }
+
+  for (const afterIndex of inserted.slice(insertCursor)) {
+    changes.push(insertChange(afterBlocks[afterIndex], afterIndex));
+  }
+
+  return changes;
+}
+
+function insertChange(block: FlatBlock, afterIndex: number): BlockChange {
+  return {
+    type: "insert",
+    blockType: block.type,
+    path: block.path,
+    afterIndex,
+    after: block.text,
+  };
+}
+
+function modifyChange(
+  before: FlatBlock,
+  beforeIndex: number,
+  after: FlatBlock,
+  afterIndex: number
+): BlockChange {
+  const change: BlockChange = {
+    type: "modify",
+    blockType: after.type,
+    path: after.path,
+    beforeIndex,
+    afterIndex,
+    before: before.text,
+    after: after.text,
+    inline: diffInline(before.inlines, after.inlines),
+  };
+
+  if (JSON.stringify(before.attrs) !== JSON.stringify(after.attrs)) {
+    change.attrs = { before: before.attrs, after: after.attrs };
+  }
+
+  return change;
+}
+
+function isSameKind(before: FlatBlock, after: FlatBlock): boolean {
+  return (
+    before.type === after.type &&
+    JSON.stringify(before.path) === JSON.stringify(after.path)
+  );
+}
+
+/**
+ * Share of words two texts have in common (Dice coefficient over word LCS)
+ */
+function similarity(before: string, after: string): number {
+  const beforeWords = before.split(/\s+/).filter(Boolean);
+  const afterWords = after.split(/\s+/).filter(Boolean);
+
+  if (beforeWords.length === 0 && afterWords.length === 0) {
+    return 1;
+  }
+
+  const common = diffSequences(beforeWords, afterWords).filter(
+    ([operation]) => operation === "equal"
+  ).length;
+
+  return (2 * common) / (beforeWords.length + afterWords.length);
+}
+
+/**
+ * Word-level diff of two inline node lists, reporting text whose marks
+ * changed as format changes rather than a deletion plus an insertion
+ */
+function diffInline(before: any[], after: any[]): InlineChange[] {
+  const beforeTokens = tokenizeInline(before);
+  const afterTokens = tokenizeInline(after);
+
+  const operations = diffSequences(
+    beforeTokens.map((token) => token.key),
+    afterTokens.map((token) => token.key)
+  );
+
+  const changes: InlineChange[] = [];
+
+  const push = (change: InlineChange) => {
+    const last = changes[changes.length - 1];
+    if (
+      last &&
+      last.type === change.type &&
+      last.marks.join() === change.marks.join() &&
+      (last.previousMarks ?? []).join() === (change.previousMarks ?? []).join()
+    ) {
+      last.text += change.text;
+      return;
+    }
+    changes.push(change);
+  };
+
+  for (const [operation, beforeIndex, afterIndex] of operations) {
+    if (operation === "delete") {
+      const token = beforeTokens[beforeIndex];
+      push({ type: "delete", text: token.text, marks: markTypes(token) });
+    } else if (operation === "insert") {
+      const token = afterTokens[afterIndex];
+      push({ type: "insert", text: token.text, marks: markTypes(token) });
+    } else {
+      const beforeToken = beforeTokens[beforeIndex];
+      const afterToken = afterTokens[afterIndex];
+
+      if (beforeToken.markKey === afterToken.markKey) {
+        push({
+          type: "equal",
+          text: afterToken.text,
+          marks: markTypes(afterToken),
+        });
+      } else {
+        push({
+          type: "format",
+          text: afterToken.text,
+          marks: markTypes(afterToken),
+          previousMarks: markTypes(beforeToken),
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Split inline nodes into word and whitespace tokens that keep their marks
+ * Non-text inline nodes (images, hard breaks) become single tokens
+ */
+function tokenizeInline(nodes: any[]): InlineToken[] {
+  const tokens: InlineToken[] = [];
+
+  for (const node of nodes) {
+    const marks = node.marks ?? [];
+    const markKey = JSON.stringify(marks);
+
+    if (node.type !== "text") {
+      tokens.push({
+        key: JSON.stringify({ type: node.type, attrs: node.attrs }),
+        text: node.type === "hardBreak" ? "\n" : `[${node.type}]`,
+        marks,
+        markKey,
+      });
+      continue;
+    }
+
+    for (const part of (node.text ?? "").split(/(\s+)/)) {
+      if (part) {
+        tokens.push({ key: part, text: part, marks, markKey });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function markTypes(token: InlineToken): string[] {
+  return token.marks.map((mark: any) => mark.type);
+}
+
+/**
+ * Longest-common-subsequence diff of two sequences
+ * Returns [operation, beforeIndex, afterIndex] triples in document order
+ */
+function diffSequences(
+  before: string[],
+  after: string[]
+): Array<[DiffOperation, number, number]> {
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    before[beforeEnd - 1] === after[afterEnd - 1]
+  ) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const rows = beforeEnd - start;
+  const columns = afterEnd - start;
+  const lengths = new Uint32Array((rows + 1) * (columns + 1));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * (columns + 1) + j] =
+        before[start + i] === after[start + j]
+          ? lengths[(i + 1) * (columns + 1) + j + 1] + 1
+          : Math.max(
+              lengths[(i + 1) * (columns + 1) + j],
+              lengths[i * (columns + 1) + j + 1]
+            );
+    }
+  }
+
+  const operations: Array<[DiffOperation, number, number]> = [];
+
+  for (let index = 0; index < start; index++) {
+    operations.push(["equal", index, index]);
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && before[start + i] === after[start + j]) {
+      operations.push(["equal", start + i, start + j]);
+      i++;
+      j++;
+    } else if (
+      j < columns &&
+      (i === rows ||
+        lengths[i * (columns + 1) + j + 1] >
+          lengths[(i + 1) * (columns + 1) + j])
+    ) {
+      operations.push(["insert", start + i, start + j]);
+      j++;
+    } else {
+      operations.push(["delete", start + i, start + j]);
+      i++;
+    }
+  }
+
+  for (let offset = 0; offset < before.length - beforeEnd; offset++) {
+    operations.push(["equal", beforeEnd + offset, afterEnd + offset]);
+  }
+
+  return operations;
+}
+
+/**
+ * Render inline nodes with the regular markdown converter
+ */
+function renderInline(nodes: any[]): string {
+  if (nodes.length === 0) {
+    return "";
+  }
+
+  return tiptapJsonToMarkdown({
+    type: "doc",
+    content: [{ type: "paragraph", content: nodes }],
+  }).trim();
+}
+
+function renderInlineChanges(changes: InlineChange[]): string {
+  return changes
+    .map((change) => {
+      const text = renderInline([
+        {
+          type: "text",
+          text: change.text,
+          marks: change.marks.map((type) => ({ type })),
+        },
+      ]);
+      // Keep surrounding whitespace that trimming removed
+      const leading = change.text.match(/^\s*/)![0];
+      const trailing = text ? change.text.match(/\s*$/)![0] : "";
+      const content = `${leading}${text}${trailing}`;
+
+      switch (change.type) {
+        case "insert":
+          return wrap("++", content);
+        case "delete":
+          return wrap("--", content);
+        case "format":
+          return `{==${content}==}{>>${describeMarkChange(change)}<<}`;
+        default:
+          return content;
+      }
+    })
+    .join("");
+}
+
+function wrap(marker: "++" | "--", content: string): string {
+  return content.trim() ? `{${marker}${content}${marker}}` : content;
+}
+
+function describeMarkChange(change: InlineChange): string {
+  const previous = change.previousMarks ?? [];
+  const added = change.marks.filter((mark) => !previous.includes(mark));
+  const removed = previous.filter((mark) => !change.marks.includes(mark));
+
+  return (
+    [
+      ...added.map((mark) => `+${mark}`),
+      ...removed.map((mark) => `-${mark}`),
+    ].join(" ") || "formatting changed"
+  );
+}
+
+function describeAttrChange(attrs: NonNullable<BlockChange["attrs"]>): string {
+  const keys = new Set([
+    ...Object.keys(attrs.before),
+    ...Object.keys(attrs.after),
+  ]);
+
+  return Array.from(keys)
+    .filter(
+      (key) =>
+        JSON.stringify(attrs.before[key]) !== JSON.stringify(attrs.after[key])
+    )
+    .map(
+      (key) =>
+        `${key}: ${JSON.stringify(attrs.before[key])} → ${JSON.stringify(attrs.after[key])}`
+    )
+    .join(", ");
+}
+
+/**
+ * Prefix a rendered block the way the markdown converter would
+ */
+function renderBlock(block: FlatBlock, content: string): string {
+  const listDepth = block.path.filter((type) => type === "listItem").length;
+  const quote = "> ".repeat(
+    block.path.filter((type) => type === "blockquote").length
+  );
+
+  if (listDepth > 0) {
+    const indent = "  ".repeat(listDepth - 1);
+    const list = [...block.path]
+      .reverse()
+      .find((type) => type === "bulletList" || type === "orderedList");
+    const marker = list === "orderedList" ? `${block.listIndex + 1}.` : "-";
+    return `${quote}${indent}${marker} ${content}\n`;
+  }
+
+  switch (block.type) {
+    case "heading":
+      return `${quote}${"#".repeat(Number(block.attrs.level) || 1)} ${content}\n\n`;
+    case "codeBlock":
+      return `${quote}\`\`\`${block.attrs.language || ""}\n${content}\n\`\`\`\n\n`;
+    default:
+      return `${quote}${content}\n\n`;
+  }
+}
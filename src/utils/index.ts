@@ -5,9 +5,14 @@ export {
   parseListItems,
 } from "./converters/json-to-tiptap";
 export { tiptapJsonToMarkdown } from "./converters/tiptap-to-json";
+export { tiptapJsonToHtml, htmlToTiptapJson } from "./converters/html";
+export { tiptapJsonToDocx, DOCX_CONTENT_TYPE } from "./converters/docx";
+export { docxToTiptapJson } from "./converters/docx-import";
+export { tiptapJsonToPdf, PDF_CONTENT_TYPE } from "./converters/pdf";
 export {
   extractJWTFromRequest,
   getUserIdFromJWT,
+  verifyJWT,
   createRateLimitKey,
 } from "./auth-utils";
 export {
@@ -18,3 +23,4 @@ export {
   sanitizeErrorMessage,
   asyncHandler,
 } from "./error-handling";
+export { retryWithBackoff, getBackoffDelay } from "./retry";
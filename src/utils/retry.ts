@@ -0,0 +1,48 @@
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Delay before the given retry attempt (1-based), doubling each time up to the cap
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: RetryOptions
+): number {
+  return Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1))
+  );
+}
+
+/**
+ * Run an async operation, retrying failures with exponential backoff
+ * Rethrows the last error once all attempts are exhausted
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void
+): Promise<T> {
+  let lastError: Error = new Error("No attempts made");
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error as Error;
+
+      if (attempt === options.maxAttempts) {
+        break;
+      }
+
+      const delayMs = getBackoffDelay(attempt, options);
+      onRetry?.(lastError, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,147 @@
+import { Node as ProseMirrorNode } from "prosemirror-model";
+import { schema } from "../ydoc/schema";
+import { numberHeadings } from "../converters/references";
+
+export interface OutlineEntry {
+  // Block ID cross-references point to, null until the editor assigns one
+  id: string | null;
+  level: number;
+  // Section number, e.g. "4.2", as cross-references show it
+  number: string;
+  text: string;
+  // ProseMirror position of the heading, as used by editor selections
+  position: number;
+  // Headings of a deeper level up to the next heading of this level or above
+  children: OutlineEntry[];
+}
+
+export interface DocumentStats {
+  words: number;
+  characters: number;
+  charactersExcludingSpaces: number;
+  // Paragraphs with text, including those in lists, quotes and tables
+  paragraphs: number;
+  headings: number;
+  tables: number;
+  images: number;
+  readingTimeMinutes: number;
+  outline: OutlineEntry[];
+  footnotes: number;
+  crossReferences: number;
+  // Cross-references whose target is not a heading of the document
+  brokenReferences: BrokenReference[];
+}
+
+export interface BrokenReference {
+  target: string;
+  // ProseMirror position of the cross-reference
+  position: number;
+}
+
+const WORDS_PER_MINUTE = 200;
+
+// A word is a run of non-space characters with at least one letter or digit
+const WORD_PATTERN = /\S+/g;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Compute word, character and block counts, reading time and the numbered
+ * heading outline of a TipTap JSON document, and check its cross-references
+ */
+export function computeDocumentStats(tiptapJson: any): DocumentStats {
+  const doc = schema.nodeFromJSON(tiptapJson);
+  const numbers = numberHeadings(tiptapJson);
+  const stats: DocumentStats = {
+    words: 0,
+    characters: 0,
+    charactersExcludingSpaces: 0,
+    paragraphs: 0,
+    headings: 0,
+    tables: 0,
+    images: 0,
+    readingTimeMinutes: 0,
+    outline: [],
+    footnotes: 0,
+    crossReferences: 0,
+    brokenReferences: [],
+  };
+  // Innermost open heading last
+  const openHeadings: OutlineEntry[] = [];
+  const references: BrokenReference[] = [];
+
+  doc.descendants((node, position) => {
+    switch (node.type.name) {
+      case "heading": {
+        const { id, number } = numbers[stats.headings++];
+        const entry: OutlineEntry = {
+          id,
+          level: node.attrs.level,
+          number,
+          text: node.textContent.trim(),
+          position,
+          children: [],
+        };
+        while (
+          openHeadings.length > 0 &&
+          openHeadings[openHeadings.length - 1].level >= entry.level
+        ) {
+          openHeadings.pop();
+        }
+        const parent = openHeadings[openHeadings.length - 1];
+        (parent ? parent.children : stats.outline).push(entry);
+        openHeadings.push(entry);
+        break;
+      }
+      case "paragraph":
+        if (node.textContent.trim()) {
+          stats.paragraphs++;
+        }
+        break;
+      case "table":
+        stats.tables++;
+        break;
+      case "image":
+        stats.images++;
+        break;
+      case "footnote":
+        stats.footnotes++;
+        break;
+      case "crossReference":
+        stats.crossReferences++;
+        references.push({ target: node.attrs.target, position });
+        break;
+    }
+
+    if (node.isTextblock) {
+      stats.words += countWords(blockText(node));
+    }
+    if (node.isText) {
+      const characters = Array.from(node.text || "");
+      stats.characters += characters.length;
+      stats.charactersExcludingSpaces += characters.filter(
+        (character) => !/\s/.test(character)
+      ).length;
+    }
+    return true;
+  });
+
+  const targets = new Set(numbers.map((heading) => heading.id));
+  stats.brokenReferences = references.filter(
+    (reference) => !targets.has(reference.target)
+  );
+  stats.readingTimeMinutes = Math.ceil(stats.words / WORDS_PER_MINUTE);
+  return stats;
+}
+
+/**
+ * Text of a block, with line breaks and inline images separating words
+ */
+function blockText(node: ProseMirrorNode): string {
+  return node.textBetween(0, node.content.size, undefined, " ");
+}
+
+function countWords(text: string): number {
+  return (text.match(WORD_PATTERN) || []).filter((word) =>
+    WORD_CHARACTER.test(word)
+  ).length;
+}
@@ -0,0 +1,199 @@
+import { schema } from "../ydoc/schema";
+
+// A variable's value: text as given, or a number, yes/no, date or amount
+// formatted for the clause's locale
+export type ClauseVariable =
+  | string
+  | number
+  | boolean
+  | { type: "date"; value: string }
+  | { type: "currency"; value: number; currency: string };
+
+export interface RenderedClause {
+  // The clause's blocks with its placeholders substituted
+  content: Record<string, unknown>[];
+  // Placeholder names in order of first use
+  placeholders: string[];
+  // Placeholders without a variable, left in the text as written
+  unresolved: string[];
+  // Variables that no placeholder refers to
+  unused: string[];
+}
+
+export class ClauseTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClauseTemplateError";
+  }
+}
+
+// {{name}}, with optional spaces inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the variables of a request body
+ */
+export function parseClauseVariables(
+  value: unknown
+): Record<string, ClauseVariable> {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ClauseTemplateError("variables must be an object");
+  }
+
+  for (const [name, variable] of Object.entries(value)) {
+    if (!isClauseVariable(variable)) {
+      throw new ClauseTemplateError(
+        `variables.${name} must be a string, number, boolean, ` +
+          `{ "type": "date", "value": "YYYY-MM-DD" } or ` +
+          `{ "type": "currency", "value": number, "currency": "ISO 4217 code" }`
+      );
+    }
+  }
+  return value as Record<string, ClauseVariable>;
+}
+
+/**
+ * Substitute the {{name}} placeholders of a clause's text and check the
+ * result against the schema
+ * A placeholder must be written in a single run of text, i.e. without its
+ * formatting changing midway; the substituted value takes that formatting
+ */
+export function renderClause(
+  tiptapJson: any,
+  variables: Record<string, ClauseVariable>,
+  locale = "en-US"
+): RenderedClause {
+  if (
+    !tiptapJson ||
+    tiptapJson.type !== "doc" ||
+    !Array.isArray(tiptapJson.content)
+  ) {
+    throw new ClauseTemplateError("clause must be a TipTap document");
+  }
+
+  const placeholders = new Set<string>();
+  const unresolved = new Set<string>();
+
+  const substitute = (node: any): any => {
+    if (node?.type === "text" && typeof node.text === "string") {
+      const text = node.text.replace(
+        PLACEHOLDER_PATTERN,
+        (placeholder: string, name: string) => {
+          placeholders.add(name);
+          if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+            unresolved.add(name);
+            return placeholder;
+          }
+          return formatVariable(variables[name], locale);
+        }
+      );
+      return { ...node, text };
+    }
+    if (Array.isArray(node?.content)) {
+      return {
+        ...node,
+        // Text emptied by a blank value is dropped
+        content: node.content
+          .map(substitute)
+          .filter((child: any) => child.type !== "text" || child.text),
+      };
+    }
+    return node;
+  };
+
+  const rendered = substitute(tiptapJson);
+  if (rendered.content.length === 0) {
+    throw new ClauseTemplateError("clause has no content");
+  }
+
+  try {
+    schema.nodeFromJSON(rendered).check();
+  } catch (error) {
+    throw new ClauseTemplateError(
+      `clause is not valid for the schema: ${(error as Error).message}`
+    );
+  }
+
+  return {
+    content: rendered.content,
+    placeholders: [...placeholders],
+    unresolved: [...unresolved],
+    unused: Object.keys(variables).filter((name) => !placeholders.has(name)),
+  };
+}
+
+/**
+ * Format a variable's value as clause text
+ */
+export function formatVariable(
+  variable: ClauseVariable,
+  locale = "en-US"
+): string {
+  if (typeof variable === "string") {
+    return variable;
+  }
+  if (typeof variable === "number") {
+    return new Intl.NumberFormat(locale).format(variable);
+  }
+  if (typeof variable === "boolean") {
+    return variable ? "Yes" : "No";
+  }
+  if (variable.type === "date") {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: "long",
+      timeZone: "UTC",
+    }).format(new Date(`${variable.value}T00:00:00Z`));
+  }
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: variable.currency,
+  }).format(variable.value);
+}
+
+function isClauseVariable(value: unknown): value is ClauseVariable {
+  if (typeof value === "string" || typeof value === "boolean") {
+    return true;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value);
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const typed = value as Record<string, unknown>;
+  if (typed.type === "date") {
+    if (typeof typed.value !== "string" || !DATE_PATTERN.test(typed.value)) {
+      return false;
+    }
+    // Rejects days past the end of the month, which Date rolls over
+    const date = new Date(`${typed.value}T00:00:00Z`);
+    return (
+      !Number.isNaN(date.getTime()) &&
+      date.toISOString().slice(0, 10) === typed.value
+    );
+  }
+  if (typed.type === "currency") {
+    if (
+      typeof typed.value !== "number" ||
+      !Number.isFinite(typed.value) ||
+      typeof typed.currency !== "string"
+    ) {
+      return false;
+    }
+    try {
+      new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: typed.currency,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  return false;
+}
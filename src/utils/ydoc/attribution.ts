@@ -0,0 +1,131 @@
+import * as Y from "yjs";
+import { schema } from "./schema";
+import { User } from "../../types";
+
+export interface AttributedRange {
+  // Character offsets within the block's text
+  from: number;
+  to: number;
+  text: string;
+  author: User | null;
+}
+
+export interface AttributedBlock {
+  type: string;
+  // Container nodes the block sits in, outermost first
+  path: string[];
+  text: string;
+  ranges: AttributedRange[];
+}
+
+// Inline nodes other than text count as one character
+const INLINE_NODE_PLACEHOLDER = "￼";
+
+/**
+ * Attribute every character of a Y.XmlFragment to the user whose Y.js client
+ * inserted it, grouped into text blocks with ranges of consecutive authorship
+ */
+export function attributeXmlFragment(
+  fragment: Y.XmlFragment,
+  resolveAuthor: (clientId: number) => User | null
+): AttributedBlock[] {
+  const blocks: AttributedBlock[] = [];
+
+  const visit = (parent: Y.XmlFragment | Y.XmlElement, path: string[]) => {
+    for (const child of parent.toArray()) {
+      if (!(child instanceof Y.XmlElement)) {
+        continue;
+      }
+
+      if (isTextBlock(child)) {
+        blocks.push(attributeBlock(child, path, resolveAuthor));
+      } else {
+        visit(child, [...path, child.nodeName]);
+      }
+    }
+  };
+
+  visit(fragment, []);
+  return blocks;
+}
+
+/**
+ * A text block holds only text and inline nodes (an empty block counts too)
+ */
+function isTextBlock(element: Y.XmlElement): boolean {
+  return element
+    .toArray()
+    .every(
+      (child) =>
+        child instanceof Y.XmlText ||
+        (child instanceof Y.XmlElement && isInlineNode(child.nodeName))
+    );
+}
+
+// A run of text inserted by one client, as reported by Y.XmlText#toDelta
+interface TextRun {
+  insert: string | object;
+  attributes: { ychange: { type: "added"; user: number } };
+}
+
+/**
+ * Split a text into runs by the client that inserted them
+ * Compared with an empty snapshot, the delta marks all of the text as added
+ * and reports the ID of each inserted item
+ */
+function textRuns(text: Y.XmlText): TextRun[] {
+  return text.toDelta(undefined, Y.emptySnapshot, (type, id) => ({
+    type,
+    user: id.client,
+  }));
+}
+
+function isInlineNode(nodeName: string): boolean {
+  return schema.nodes[nodeName]?.isInline ?? false;
+}
+
+function attributeBlock(
+  element: Y.XmlElement,
+  path: string[],
+  resolveAuthor: (clientId: number) => User | null
+): AttributedBlock {
+  const ranges: AttributedRange[] = [];
+  let text = "";
+
+  const append = (value: string, clientId: number) => {
+    const author = resolveAuthor(clientId);
+    const last = ranges[ranges.length - 1];
+
+    if (last && last.author?.id === author?.id) {
+      last.text += value;
+      last.to += value.length;
+    } else {
+      ranges.push({
+        from: text.length,
+        to: text.length + value.length,
+        text: value,
+        author,
+      });
+    }
+
+    text += value;
+  };
+
+  for (const child of element.toArray()) {
+    if (child instanceof Y.XmlText) {
+      for (const op of textRuns(child)) {
+        append(
+          typeof op.insert === "string" ? op.insert : INLINE_NODE_PLACEHOLDER,
+          op.attributes.ychange.user
+        );
+      }
+    } else if (child instanceof Y.XmlElement && child._item) {
+      append(
+        child.nodeName === "hardBreak" ? "\n" : INLINE_NODE_PLACEHOLDER,
+        child._item.id.client
+      );
+    }
+  }
+
+  return { type: element.nodeName, path, text, ranges };
+}
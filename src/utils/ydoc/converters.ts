@@ -5,6 +5,7 @@ import {
 } from "y-prosemirror";
 import { Schema } from "prosemirror-model";
 import logger from "../../config/logger";
+import { isCssColor } from "./schema";
 
 export interface TiptapJSON {
   type: "doc";
@@ -203,6 +204,11 @@ function sanitizeAttributes(
 ): Record<string, unknown> {
   const sanitized: Record<string, unknown> = {};
 
+  // Block ID, written once assigned
+  if (typeof attrs.id === "string" && attrs.id.length > 0) {
+    sanitized.id = attrs.id;
+  }
+
   switch (nodeType) {
     // Heading
     case "heading":
@@ -280,13 +286,45 @@ function sanitizeAttributes(
       }
       break;
 
+    // Form field with its name, type and value (omitted while blank)
+    case "field":
+      if (typeof attrs.name === "string") {
+        sanitized.name = attrs.name;
+      }
+      if (typeof attrs.type === "string" && attrs.type.length > 0) {
+        sanitized.type = attrs.type;
+      }
+      if (typeof attrs.value === "string" || typeof attrs.value === "number") {
+        sanitized.value = attrs.value;
+      }
+      break;
+
+    // Footnote with its text (the ID is kept above)
+    case "footnote":
+      if (typeof attrs.text === "string") {
+        sanitized.text = attrs.text;
+      }
+      break;
+
+    // Cross-reference with the block ID of its target heading
+    case "crossReference":
+      if (typeof attrs.target === "string" && attrs.target.length > 0) {
+        sanitized.target = attrs.target;
+      }
+      break;
+
     // Horizontal rule typically has no attrs
     case "horizontalRule":
       break;
 
-    // Default: pass through all attributes
+    // Default: pass through all other attributes
     default:
-      return attrs;
+      for (const [key, value] of Object.entries(attrs)) {
+        if (key !== "id") {
+          sanitized[key] = value;
+        }
+      }
+      break;
   }
 
   return sanitized;
@@ -317,18 +355,42 @@ function sanitizeMarkAttributes(
 
     // Highlight/background color
     case "highlight":
-      if (typeof attrs.color === "string" && attrs.color.length > 0) {
+      if (isCssColor(attrs.color)) {
         sanitized.color = attrs.color;
       }
       break;
 
     // Text color
     case "textStyle":
-      if (typeof attrs.color === "string" && attrs.color.length > 0) {
+      if (isCssColor(attrs.color)) {
         sanitized.color = attrs.color;
       }
       break;
 
+    // Track changes suggestions with their author and time
+    case "insertion":
+    case "deletion":
+      if (typeof attrs.id === "string" && attrs.id.length > 0) {
+        sanitized.id = attrs.id;
+      }
+      if (typeof attrs.author === "string" && attrs.author.length > 0) {
+        sanitized.author = attrs.author;
+      }
+      if (
+        typeof attrs.timestamp === "string" ||
+        typeof attrs.timestamp === "number"
+      ) {
+        sanitized.timestamp = attrs.timestamp;
+      }
+      break;
+
+    // Comment thread anchor
+    case "comment":
+      if (typeof attrs.threadId === "string" && attrs.threadId.length > 0) {
+        sanitized.threadId = attrs.threadId;
+      }
+      break;
+
     // Bold, italic, underline, strikethrough, code, subscript, superscript
     case "bold":
     case "italic":
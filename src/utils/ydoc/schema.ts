@@ -1,4 +1,88 @@
-import { Schema } from "prosemirror-model";
+import { Attrs, Schema } from "prosemirror-model";
+import { FieldValue } from "../../types";
+
+const TEXT_ALIGNMENTS = ["left", "center", "right", "justify"];
+
+function parseTextAlign(dom: any): Attrs {
+  const textAlign = dom.style?.textAlign;
+  return { textAlign: TEXT_ALIGNMENTS.includes(textAlign) ? textAlign : null };
+}
+
+function textAlignAttrs(textAlign: string | null): Record<string, string> {
+  return textAlign ? { style: `text-align: ${textAlign}` } : {};
+}
+
+function parseCellAttrs(dom: any): Attrs {
+  const colwidth = dom.getAttribute("data-colwidth");
+  return {
+    colspan: Number(dom.getAttribute("colspan") || 1),
+    rowspan: Number(dom.getAttribute("rowspan") || 1),
+    colwidth: colwidth ? colwidth.split(",").map(Number) : null,
+  };
+}
+
+function cellDOMAttrs(attrs: Attrs): Record<string, string> {
+  const domAttrs: Record<string, string> = {};
+  if (attrs.colspan !== 1) {
+    domAttrs.colspan = String(attrs.colspan);
+  }
+  if (attrs.rowspan !== 1) {
+    domAttrs.rowspan = String(attrs.rowspan);
+  }
+  if (attrs.colwidth) {
+    domAttrs["data-colwidth"] = attrs.colwidth.join(",");
+  }
+  return domAttrs;
+}
+
+// Colors written into a mark's style attribute: hex, rgb()/hsl() and named
+// colors, so that no other CSS can ride along with one
+const CSS_COLORS = [
+  /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  /^(rgba?|hsla?)\(\s*[\d.]+(deg|%)?(\s*[,/]?\s*[\d.]+%?){2,3}\s*\)$/i,
+  /^[a-z]+$/i,
+];
+
+function isCssColor(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    CSS_COLORS.some((pattern) => pattern.test(value.trim()))
+  );
+}
+
+function parseColor(value: string | null | undefined): string | null {
+  return isCssColor(value) ? value.trim() : null;
+}
+
+/**
+ * Text a field shows: its value, or its name in brackets while blank
+ */
+function fieldText(attrs: Attrs): string {
+  return attrs.value === null || attrs.value === ""
+    ? `[${attrs.name}]`
+    : String(attrs.value);
+}
+
+/**
+ * Read a field value written as text, e.g. in HTML or markdown
+ * Number fields hold numbers; text that is not one is kept as written
+ */
+function parseFieldValue(
+  type: string,
+  value: string | null
+): FieldValue | null {
+  if (value === null) {
+    return null;
+  }
+  const number = Number(value);
+  return type === "number" && value.trim() !== "" && Number.isFinite(number)
+    ? number
+    : value;
+}
+
+// Blocks carry an optional ID, assigned by clients (TipTap's UniqueID
+// extension) or API callers, that PATCH operations address them by
+const BLOCK_ID = { id: { default: null } };
 
 // Enhanced ProseMirror schema with table support
 const schema = new Schema({
@@ -9,14 +93,15 @@ const schema = new Schema({
       group: "block",
       content: "inline*",
       attrs: {
+        ...BLOCK_ID,
         textAlign: { default: null },
         fontFamily: { default: "Times New Roman" },
         fontSize: { default: 12 },
         marginTop: { default: null },
         marginBottom: { default: null },
       },
-      parseDOM: [{ tag: "p" }],
-      toDOM: () => ["p", 0],
+      parseDOM: [{ tag: "p", getAttrs: parseTextAlign }],
+      toDOM: (node) => ["p", textAlignAttrs(node.attrs.textAlign), 0],
     },
 
     text: { group: "inline" },
@@ -25,26 +110,28 @@ const schema = new Schema({
       group: "block",
       content: "inline*",
       attrs: {
+        ...BLOCK_ID,
         level: { default: 1 },
         textAlign: { default: null },
         fontFamily: { default: "Times New Roman" },
         fontSize: { default: 12 },
       },
-      parseDOM: [
-        { tag: "h1", attrs: { level: 1 } },
-        { tag: "h2", attrs: { level: 2 } },
-        { tag: "h3", attrs: { level: 3 } },
-        { tag: "h4", attrs: { level: 4 } },
-        { tag: "h5", attrs: { level: 5 } },
-        { tag: "h6", attrs: { level: 6 } },
+      parseDOM: [1, 2, 3, 4, 5, 6].map((level) => ({
+        tag: `h${level}`,
+        getAttrs: (dom: any) => ({ level, ...parseTextAlign(dom) }),
+      })),
+      toDOM: (node) => [
+        "h" + node.attrs.level,
+        textAlignAttrs(node.attrs.textAlign),
+        0,
       ],
-      toDOM: (node) => ["h" + node.attrs.level, 0],
     },
 
     // List nodes
     bulletList: {
       group: "block",
       content: "listItem+",
+      attrs: { ...BLOCK_ID },
       parseDOM: [{ tag: "ul" }],
       toDOM: () => ["ul", 0],
     },
@@ -52,7 +139,7 @@ const schema = new Schema({
     orderedList: {
       group: "block",
       content: "listItem+",
-      attrs: { start: { default: 1 } },
+      attrs: { ...BLOCK_ID, start: { default: 1 } },
       parseDOM: [{ tag: "ol" }],
       toDOM: () => ["ol", 0],
     },
@@ -68,7 +155,7 @@ const schema = new Schema({
     codeBlock: {
       group: "block",
       content: "text*",
-      attrs: { language: { default: null } },
+      attrs: { ...BLOCK_ID, language: { default: null } },
       code: true,
       defining: true,
       marks: "",
@@ -80,6 +167,7 @@ const schema = new Schema({
     blockquote: {
       group: "block",
       content: "block+",
+      attrs: { ...BLOCK_ID },
       parseDOM: [{ tag: "blockquote" }],
       toDOM: () => ["blockquote", 0],
     },
@@ -87,6 +175,7 @@ const schema = new Schema({
     // Horizontal rule
     horizontalRule: {
       group: "block",
+      attrs: { ...BLOCK_ID },
       parseDOM: [{ tag: "hr" }],
       toDOM: () => ["hr"],
     },
@@ -124,10 +213,113 @@ const schema = new Schema({
       toDOM: (node) => ["img", node.attrs],
     },
 
+    // Form field filled in through the API (dates, amounts, party names),
+    // shown as its value or, while blank, its name in brackets
+    field: {
+      inline: true,
+      group: "inline",
+      atom: true,
+      leafText: (node) => fieldText(node.attrs),
+      attrs: {
+        name: {},
+        type: { default: "text" },
+        value: { default: null },
+      },
+      parseDOM: [
+        {
+          tag: "span[data-field]",
+          getAttrs(dom: any) {
+            const type = dom.getAttribute("data-field-type") || "text";
+            return {
+              name: dom.getAttribute("data-field"),
+              type,
+              value: parseFieldValue(type, dom.getAttribute("data-value")),
+            };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "span",
+        {
+          "data-field": node.attrs.name,
+          "data-field-type": node.attrs.type,
+          ...(node.attrs.value !== null && {
+            "data-value": String(node.attrs.value),
+          }),
+        },
+        fieldText(node.attrs),
+      ],
+    },
+
+    // Footnote with its text, numbered by its place in the document when
+    // exported; the schema alone cannot number it, so HTML shows a marker
+    footnote: {
+      inline: true,
+      group: "inline",
+      atom: true,
+      leafText: () => "",
+      attrs: {
+        id: { default: null },
+        text: { default: "" },
+      },
+      parseDOM: [
+        {
+          tag: "sup[data-footnote]",
+          // Ahead of the superscript mark's sup rule
+          priority: 60,
+          getAttrs(dom: any) {
+            return {
+              id: dom.getAttribute("data-id"),
+              text: dom.getAttribute("data-footnote") || "",
+            };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "sup",
+        {
+          "data-footnote": node.attrs.text,
+          ...(node.attrs.id !== null && { "data-id": node.attrs.id }),
+        },
+        "*",
+      ],
+    },
+
+    // Reference to a heading by its block ID, shown as the heading's current
+    // number ("Section 4.2") when exported
+    crossReference: {
+      inline: true,
+      group: "inline",
+      atom: true,
+      leafText: () => "",
+      attrs: {
+        target: {},
+      },
+      parseDOM: [
+        {
+          tag: "a[data-cross-reference]",
+          // Ahead of the link mark's a[href] rule
+          priority: 60,
+          getAttrs(dom: any) {
+            return { target: dom.getAttribute("data-cross-reference") };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "a",
+        {
+          href: `#${node.attrs.target}`,
+          "data-cross-reference": node.attrs.target,
+        },
+        node.attrs.target,
+      ],
+    },
+
     // Table nodes
     table: {
       group: "block",
       content: "tableRow+",
+      attrs: { ...BLOCK_ID },
       tableRole: "table",
       isolating: true,
       parseDOM: [{ tag: "table" }],
@@ -150,8 +342,8 @@ const schema = new Schema({
       },
       tableRole: "cell",
       isolating: true,
-      parseDOM: [{ tag: "td" }],
-      toDOM: () => ["td", 0],
+      parseDOM: [{ tag: "td", getAttrs: parseCellAttrs }],
+      toDOM: (node) => ["td", cellDOMAttrs(node.attrs), 0],
     },
 
     tableHeader: {
@@ -163,8 +355,8 @@ const schema = new Schema({
       },
       tableRole: "header_cell",
       isolating: true,
-      parseDOM: [{ tag: "th" }],
-      toDOM: () => ["th", 0],
+      parseDOM: [{ tag: "th", getAttrs: parseCellAttrs }],
+      toDOM: (node) => ["th", cellDOMAttrs(node.attrs), 0],
     },
   },
 
@@ -235,13 +427,15 @@ const schema = new Schema({
         {
           tag: "mark",
           getAttrs(dom: any) {
-            return { color: dom.style.backgroundColor };
+            return { color: parseColor(dom.style.backgroundColor) };
           },
         },
       ],
       toDOM: (node) => [
         "mark",
-        { style: `background-color: ${node.attrs.color}` },
+        isCssColor(node.attrs.color)
+          ? { style: `background-color: ${node.attrs.color}` }
+          : {},
         0,
       ],
     },
@@ -252,11 +446,18 @@ const schema = new Schema({
         {
           style: "color",
           getAttrs(value: any) {
-            return { color: value };
+            const color = parseColor(value);
+            return color ? { color } : false;
           },
         },
       ],
-      toDOM: (node) => ["span", { style: `color: ${node.attrs.color}` }, 0],
+      toDOM: (node) => [
+        "span",
+        isCssColor(node.attrs.color)
+          ? { style: `color: ${node.attrs.color}` }
+          : {},
+        0,
+      ],
     },
 
     subscript: {
@@ -268,7 +469,89 @@ const schema = new Schema({
       parseDOM: [{ tag: "sup" }],
       toDOM: () => ["sup", 0],
     },
+
+    // Track changes (suggestion mode)
+    insertion: {
+      attrs: {
+        id: { default: null },
+        author: { default: null },
+        timestamp: { default: null },
+      },
+      parseDOM: [
+        {
+          tag: "ins",
+          getAttrs(dom: any) {
+            return {
+              id: dom.getAttribute("data-id"),
+              author: dom.getAttribute("data-author"),
+              timestamp: dom.getAttribute("data-timestamp"),
+            };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "ins",
+        {
+          "data-id": node.attrs.id,
+          "data-author": node.attrs.author,
+          "data-timestamp": node.attrs.timestamp,
+        },
+        0,
+      ],
+    },
+
+    deletion: {
+      attrs: {
+        id: { default: null },
+        author: { default: null },
+        timestamp: { default: null },
+      },
+      parseDOM: [
+        {
+          tag: "del",
+          getAttrs(dom: any) {
+            return {
+              id: dom.getAttribute("data-id"),
+              author: dom.getAttribute("data-author"),
+              timestamp: dom.getAttribute("data-timestamp"),
+            };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "del",
+        {
+          "data-id": node.attrs.id,
+          "data-author": node.attrs.author,
+          "data-timestamp": node.attrs.timestamp,
+        },
+        0,
+      ],
+    },
+
+    // Text a comment thread is anchored to; threads of overlapping ranges
+    // each keep their own mark
+    comment: {
+      attrs: {
+        threadId: { default: null },
+      },
+      inclusive: false,
+      excludes: "",
+      parseDOM: [
+        {
+          tag: "span[data-comment-thread]",
+          getAttrs(dom: any) {
+            return { threadId: dom.getAttribute("data-comment-thread") };
+          },
+        },
+      ],
+      toDOM: (node) => [
+        "span",
+        { "data-comment-thread": node.attrs.threadId },
+        0,
+      ],
+    },
   },
 });
 
-export { schema };
+export { schema, fieldText, parseFieldValue, isCssColor };